@@ -5,12 +5,18 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider, useAuth } from "@/contexts/auth-context";
 import Home from "@/pages/home";
+import StudentHome from "@/pages/student-home";
+import AdminPage from "@/pages/admin";
+import ClassesPage from "@/pages/classes";
+import AssignmentsPage from "@/pages/assignments";
+import TakeTestPage from "@/pages/take-test";
 import LoginPage from "@/pages/login";
-import RegisterPage from "@/pages/register";
 import NotFound from "@/pages/not-found";
+import type { Permission } from "@shared/schema";
 
-function ProtectedRoute({ component: Component }: { component: React.ComponentType }) {
-  const { isAuthenticated, isLoading } = useAuth();
+// With `permission`, accounts whose role lacks it are sent back to the home page
+function ProtectedRoute({ component: Component, permission }: { component: React.ComponentType; permission?: Permission }) {
+  const { isAuthenticated, isLoading, can } = useAuth();
 
   if (isLoading) {
     return (
@@ -24,16 +30,37 @@ function ProtectedRoute({ component: Component }: { component: React.ComponentTy
     return <Redirect to="/login" />;
   }
 
+  if (permission && !can(permission)) {
+    return <Redirect to="/" />;
+  }
+
   return <Component />;
 }
 
+// Teachers and admins land on question generation, students on their tests
+function HomePage() {
+  const { can } = useAuth();
+  return can('questions:generate') ? <Home /> : <StudentHome />;
+}
+
 function Router() {
   return (
     <Switch>
       <Route path="/login" component={LoginPage} />
-      <Route path="/register" component={RegisterPage} />
+      <Route path="/admin">
+        {() => <ProtectedRoute component={AdminPage} permission="accounts:manage" />}
+      </Route>
+      <Route path="/classes">
+        {() => <ProtectedRoute component={ClassesPage} permission="classes:view" />}
+      </Route>
+      <Route path="/assignments">
+        {() => <ProtectedRoute component={AssignmentsPage} permission="tests:assign" />}
+      </Route>
+      <Route path="/tests/:id">
+        {() => <ProtectedRoute component={TakeTestPage} permission="tests:take" />}
+      </Route>
       <Route path="/">
-        {() => <ProtectedRoute component={Home} />}
+        {() => <ProtectedRoute component={HomePage} />}
       </Route>
       <Route component={NotFound} />
     </Switch>
@@ -0,0 +1,80 @@
+import { ReactNode, useState } from "react";
+import { useAuth, roleLabels } from "@/contexts/auth-context";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { LogOut, User } from "lucide-react";
+
+interface AppHeaderProps {
+  title: string;
+  subtitle: string;
+  // Navigation buttons shown before the logout button
+  children?: ReactNode;
+}
+
+/**
+ * Page header with the signed-in account and the logout button. Asks before
+ * logging out when changes could not be sent to the server.
+ */
+export function AppHeader({ title, subtitle, children }: AppHeaderProps) {
+  const { user, logout } = useAuth();
+  const [isUnsyncedOpen, setIsUnsyncedOpen] = useState(false);
+
+  const handleLogout = async () => {
+    if (!(await logout())) {
+      setIsUnsyncedOpen(true);
+    }
+  };
+
+  return (
+    <header className="border-b bg-white">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
+          <p className="text-sm text-gray-600">{subtitle}</p>
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <User className="h-4 w-4" />
+            <span className="font-medium">{user?.fullName}</span>
+            <span className="text-gray-500">({user?.username} - {user && roleLabels[user.role]})</span>
+          </div>
+          {children}
+          <Button variant="outline" size="sm" onClick={() => void handleLogout().catch(() => undefined)}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Đăng xuất
+          </Button>
+        </div>
+      </div>
+
+      <AlertDialog open={isUnsyncedOpen} onOpenChange={setIsUnsyncedOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Còn thay đổi chưa đồng bộ</AlertDialogTitle>
+            <AlertDialogDescription>
+              Một số ngân hàng câu hỏi hoặc lịch sử chưa được lưu lên máy chủ. Nếu đăng xuất bây giờ, các thay đổi này sẽ bị mất.
+              Hãy kiểm tra kết nối mạng rồi thử lại.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Ở lại</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={() => void logout(true).catch(() => undefined)}
+            >
+              Vẫn đăng xuất
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </header>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { ClassSummary, InsertAssignment, QuestionBank } from "@shared/schema";
+
+interface AssignmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSubmit: (data: InsertAssignment) => void;
+}
+
+// datetime-local inputs hold local time without a zone
+function fromLocalInput(value: string): Date | null {
+  return value ? new Date(value) : null;
+}
+
+/**
+ * Publish one question set of the teacher's banks to a class, with an
+ * optional time limit and availability window.
+ */
+export function AssignmentDialog({ open, onOpenChange, isSaving, onSubmit }: AssignmentDialogProps) {
+  const [title, setTitle] = useState("");
+  const [classId, setClassId] = useState("");
+  const [bankId, setBankId] = useState("");
+  const [entryId, setEntryId] = useState("");
+  const [duration, setDuration] = useState("45");
+  const [opensAt, setOpensAt] = useState("");
+  const [dueAt, setDueAt] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: classes = [] } = useQuery<ClassSummary[]>({ queryKey: ["/api/classes"], enabled: open });
+  const { data: banks = [] } = useQuery<QuestionBank[]>({ queryKey: ["/api/banks"], enabled: open, staleTime: 0 });
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle("");
+    setClassId("");
+    setBankId("");
+    setEntryId("");
+    setDuration("45");
+    setOpensAt("");
+    setDueAt("");
+    setError(null);
+  }, [open]);
+
+  const bank = banks.find(candidate => candidate.id === bankId);
+  const entries = bank?.entries.filter(entry => entry.generatedQuestions.length > 0) ?? [];
+
+  const handleBankChange = (value: string) => {
+    setBankId(value);
+    setEntryId("");
+    const selected = banks.find(candidate => candidate.id === value);
+    if (selected?.classId && !classId) setClassId(selected.classId);
+  };
+
+  const handleEntryChange = (value: string) => {
+    setEntryId(value);
+    if (!title.trim()) {
+      setTitle(entries.find(entry => entry.id === value)?.name ?? "");
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classId) return setError("Vui lòng chọn lớp");
+    if (!entryId) return setError("Vui lòng chọn bộ câu hỏi");
+    if (!title.trim()) return setError("Vui lòng nhập tên bài kiểm tra");
+
+    const durationMinutes = duration.trim() ? Number(duration) : null;
+    if (durationMinutes !== null && (!Number.isInteger(durationMinutes) || durationMinutes < 1)) {
+      return setError("Thời gian làm bài phải là số phút nguyên dương");
+    }
+
+    const opens = fromLocalInput(opensAt);
+    const due = fromLocalInput(dueAt);
+    if (opens && due && due <= opens) {
+      return setError("Hạn nộp phải sau thời điểm mở bài");
+    }
+
+    setError(null);
+    onSubmit({ title: title.trim(), classId, bankId, entryId, durationMinutes, opensAt: opens, dueAt: due });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Giao bài kiểm tra</DialogTitle>
+            <DialogDescription>
+              Câu hỏi được sao chép từ ngân hàng; sửa ngân hàng sau này không làm thay đổi bài đã giao.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="assignment-class">Lớp</Label>
+              <Select value={classId} onValueChange={setClassId}>
+                <SelectTrigger id="assignment-class">
+                  <SelectValue placeholder={classes.length ? "Chọn lớp" : "Bạn chưa được phân công lớp nào"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {classes.map(schoolClass => (
+                    <SelectItem key={schoolClass.id} value={schoolClass.id}>
+                      {schoolClass.name} ({schoolClass.schoolYear}) · {schoolClass.studentCount} học sinh
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignment-bank">Ngân hàng</Label>
+                <Select value={bankId} onValueChange={handleBankChange}>
+                  <SelectTrigger id="assignment-bank">
+                    <SelectValue placeholder="Chọn ngân hàng" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {banks.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-entry">Bộ câu hỏi</Label>
+                <Select value={entryId} onValueChange={handleEntryChange} disabled={!bank}>
+                  <SelectTrigger id="assignment-entry">
+                    <SelectValue placeholder={bank && entries.length === 0 ? "Ngân hàng trống" : "Chọn bộ câu hỏi"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {entries.map(entry => (
+                      <SelectItem key={entry.id} value={entry.id}>
+                        {entry.name} ({entry.generatedQuestions.length} câu)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assignment-title">Tên bài kiểm tra</Label>
+              <Input id="assignment-title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Kiểm tra 15 phút" />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assignment-duration">Thời gian làm bài (phút)</Label>
+              <Input
+                id="assignment-duration"
+                type="number"
+                min={1}
+                value={duration}
+                onChange={(e) => setDuration(e.target.value)}
+                placeholder="Để trống nếu không giới hạn"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="assignment-opens">Mở lúc (không bắt buộc)</Label>
+                <Input id="assignment-opens" type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="assignment-due">Hạn nộp (không bắt buộc)</Label>
+                <Input id="assignment-due" type="datetime-local" value={dueAt} onChange={(e) => setDueAt(e.target.value)} />
+              </div>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Giao bài
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -127,6 +127,8 @@ export function BankBrowser({
     try {
       const loadedBanks = bankManager.getBanks();
       setBanks(loadedBanks);
+      // Show the cache immediately, then refresh from the server
+      bankManager.sync().then(() => setBanks(bankManager.getBanks()));
     } catch (error) {
       toast({
         title: "Lỗi tải ngân hàng",
@@ -2,7 +2,6 @@ import { useState, useEffect, useCallback } from "react";
 import {
   BatchGenerationRequest,
   BatchGenerationResult,
-  BatchGenerationError,
   QuestionRequest,
 } from "@shared/schema";
 import { Button } from "@/components/ui/button";
@@ -119,82 +118,83 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
     loadBatches();
   }, []);
 
-  const loadBatches = useCallback(() => {
-    const allBatches = batchGenerator.getBatchRequests();
-    setActiveBatches(allBatches.filter(batch => 
-      batch.status === 'pending' || batch.status === 'processing'
-    ));
-    setCompletedBatches(allBatches.filter(batch => 
-      batch.status === 'completed' || batch.status === 'cancelled' || batch.status === 'failed'
-    ));
+  const loadBatches = useCallback(async () => {
+    try {
+      const allBatches = await batchGenerator.getBatchRequests();
+      setActiveBatches(allBatches.filter(batch => 
+        batch.status === 'pending' || batch.status === 'processing'
+      ));
+      setCompletedBatches(allBatches.filter(batch => 
+        batch.status === 'completed' || batch.status === 'cancelled' || batch.status === 'failed'
+      ));
+    } catch (error) {
+      console.error("Error loading batches:", error);
+    }
   }, []);
 
-  // Set up event listeners for active batches
+  // Subscribe to progress of active batches; re-run only when the set of batches changes
+  const activeBatchIds = activeBatches.map(batch => batch.id).join(",");
   useEffect(() => {
-    const setupEventListeners = (batch: BatchGenerationRequest) => {
-      const events: Partial<BatchGeneratorEvents> = {
-        onProgress: (updatedBatch) => {
-          setActiveBatches(prev => 
-            prev.map(b => b.id === updatedBatch.id ? updatedBatch : b)
-          );
-        },
-        onComplete: (completedBatch) => {
-          setActiveBatches(prev => prev.filter(b => b.id !== completedBatch.id));
-          setCompletedBatches(prev => [completedBatch, ...prev]);
-          
-          const successCount = completedBatch.results.filter(r => r.status === 'completed').length;
-          const totalCount = completedBatch.configs.length;
-          
-          toast({
-            title: "Batch hoàn thành",
-            description: `"${completedBatch.name}" - ${successCount}/${totalCount} bộ câu hỏi thành công`,
-          });
-        },
-        onError: (errorBatch, error) => {
-          setActiveBatches(prev => prev.filter(b => b.id !== errorBatch.id));
-          setCompletedBatches(prev => [errorBatch, ...prev]);
-          
-          toast({
-            title: "Batch thất bại",
-            description: `"${errorBatch.name}" - ${error}`,
-            variant: "destructive",
-          });
-        },
-        onConfigComplete: (batch, result) => {
-          // Optional: Handle individual config completion
-        },
-        onConfigError: (batch, error) => {
-          // Optional: Handle individual config error
-        },
-      };
-
-      batchGenerator.registerEventListeners(batch.id, events);
+    const finishBatch = (finishedBatch: BatchGenerationRequest) => {
+      setActiveBatches(prev => prev.filter(b => b.id !== finishedBatch.id));
+      setCompletedBatches(prev => [finishedBatch, ...prev.filter(b => b.id !== finishedBatch.id)]);
+      // The server saved the results to history and maybe a bank
+      void historyManager.sync();
+      void bankManager.sync();
     };
 
-    activeBatches.forEach(setupEventListeners);
+    const events: Partial<BatchGeneratorEvents> = {
+      onProgress: (updatedBatch) => {
+        setActiveBatches(prev => 
+          prev.map(b => b.id === updatedBatch.id ? updatedBatch : b)
+        );
+      },
+      onComplete: (completedBatch) => {
+        finishBatch(completedBatch);
+        if (completedBatch.status === 'cancelled') {
+          return;
+        }
+
+        const successCount = completedBatch.results.filter(r => r.status === 'completed').length;
+        const totalCount = completedBatch.configs.length;
+        
+        toast({
+          title: "Batch hoàn thành",
+          description: `"${completedBatch.name}" - ${successCount}/${totalCount} bộ câu hỏi thành công`,
+        });
+        if (completedBatch.options.exportAsPackage && successCount > 0) {
+          void handleExportPackage(completedBatch);
+        }
+      },
+      onError: (errorBatch, error) => {
+        finishBatch(errorBatch);
+        
+        toast({
+          title: "Batch thất bại",
+          description: `"${errorBatch.name}" - ${error}`,
+          variant: "destructive",
+        });
+      },
+    };
+
+    const batchIds = activeBatchIds ? activeBatchIds.split(",") : [];
+    batchIds.forEach(batchId => batchGenerator.registerEventListeners(batchId, events));
 
     return () => {
-      activeBatches.forEach(batch => {
-        batchGenerator.unregisterEventListeners(batch.id);
-      });
+      batchIds.forEach(batchId => batchGenerator.unregisterEventListeners(batchId));
     };
-  }, [activeBatches, toast]);
+  }, [activeBatchIds, toast]);
 
   const handleStartBatch = async (formData: any) => {
     try {
-      // Create batch request
-      const batch = batchGenerator.createBatchRequest(
+      // The server queues the batch and starts processing it
+      const batch = await batchGenerator.createBatchRequest(
         formData.name,
         formData.configs,
         formData.options
       );
 
-      // Add to active batches
       setActiveBatches(prev => [batch, ...prev]);
-
-      // Start processing
-      await batchGenerator.startBatch(batch.id);
-
     } catch (error) {
       console.error("Error starting batch:", error);
       toast({
@@ -208,7 +208,7 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
   const handleCancelBatch = async (batchId: string) => {
     try {
       await batchGenerator.cancelBatch(batchId);
-      loadBatches();
+      await loadBatches();
     } catch (error) {
       toast({
         title: "Lỗi",
@@ -221,7 +221,7 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
   const handleRetryBatch = async (batchId: string) => {
     try {
       await batchGenerator.retryFailedConfigs(batchId);
-      loadBatches();
+      await loadBatches();
     } catch (error) {
       toast({
         title: "Lỗi",
@@ -231,10 +231,10 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
     }
   };
 
-  const handleDeleteBatch = (batchId: string) => {
-    const success = batchGenerator.deleteBatchRequest(batchId);
+  const handleDeleteBatch = async (batchId: string) => {
+    const success = await batchGenerator.deleteBatchRequest(batchId);
     if (success) {
-      loadBatches();
+      await loadBatches();
       toast({
         title: "Đã xóa",
         description: "Batch đã được xóa thành công",
@@ -282,6 +282,22 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
     }
   };
 
+  const handleExportPackage = async (batch: BatchGenerationRequest) => {
+    toast({
+      title: "Đang xuất package",
+      description: `Máy chủ đang in PDF cho "${batch.name}"`,
+    });
+    try {
+      await batchGenerator.downloadPackage(batch);
+    } catch (error) {
+      toast({
+        title: "Lỗi",
+        description: error instanceof Error ? error.message : "Không thể xuất package",
+        variant: "destructive",
+      });
+    }
+  };
+
   const calculateProgress = (batch: BatchGenerationRequest): number => {
     if (batch.progress.total === 0) return 0;
     return (batch.progress.current / batch.progress.total) * 100;
@@ -357,7 +373,7 @@ export function BatchGeneration({ onQuestionsGenerated }: BatchGenerationProps)
                       <FolderPlus className="w-4 h-4 mr-2" />
                       Lưu tất cả vào ngân hàng
                     </DropdownMenuItem>
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportPackage(batch)}>
                       <Package className="w-4 h-4 mr-2" />
                       Xuất package
                     </DropdownMenuItem>
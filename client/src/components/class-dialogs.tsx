@@ -0,0 +1,228 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import type { ClassMemberRole, ClassSummary, InsertClass, StudentAccount } from "@shared/schema";
+
+// Value of the homeroom select when the class has no homeroom teacher
+const NO_TEACHER = "none";
+
+/**
+ * School year in progress; a new one starts in August.
+ */
+export function currentSchoolYear(now = new Date()): string {
+  const start = now.getMonth() >= 7 ? now.getFullYear() : now.getFullYear() - 1;
+  return `${start}-${start + 1}`;
+}
+
+interface ClassFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The class being edited; omitted when creating one
+  schoolClass?: ClassSummary | null;
+  teachers: StudentAccount[];
+  isSaving: boolean;
+  onSubmit: (data: InsertClass) => void;
+}
+
+/**
+ * Create or edit a class: grade, class number, school year and homeroom teacher.
+ */
+export function ClassFormDialog({ open, onOpenChange, schoolClass, teachers, isSaving, onSubmit }: ClassFormDialogProps) {
+  const isEdit = !!schoolClass;
+  const [grade, setGrade] = useState("10");
+  const [classNumber, setClassNumber] = useState("1");
+  const [schoolYear, setSchoolYear] = useState(currentSchoolYear());
+  const [name, setName] = useState("");
+  const [homeroomTeacherId, setHomeroomTeacherId] = useState(NO_TEACHER);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setGrade(String(schoolClass?.grade ?? 10));
+    setClassNumber(String(schoolClass?.classNumber ?? 1));
+    setSchoolYear(schoolClass?.schoolYear ?? currentSchoolYear());
+    setName(schoolClass?.name ?? "");
+    setHomeroomTeacherId(schoolClass?.homeroomTeacherId ?? NO_TEACHER);
+    setError(null);
+  }, [open, schoolClass]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const gradeValue = Number(grade);
+    const numberValue = Number(classNumber);
+
+    if (!Number.isInteger(gradeValue) || gradeValue < 1 || gradeValue > 12) {
+      return setError("Khối lớp từ 1 đến 12");
+    }
+    if (!Number.isInteger(numberValue) || numberValue < 1) {
+      return setError("Số thứ tự lớp phải là số nguyên dương");
+    }
+    if (!/^\d{4}-\d{4}$/.test(schoolYear.trim())) {
+      return setError("Năm học có dạng 2025-2026");
+    }
+
+    setError(null);
+    onSubmit({
+      name: name.trim(),
+      grade: gradeValue,
+      classNumber: numberValue,
+      schoolYear: schoolYear.trim(),
+      homeroomTeacherId: homeroomTeacherId === NO_TEACHER ? null : homeroomTeacherId,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isEdit ? "Sửa lớp" : "Thêm lớp"}</DialogTitle>
+            <DialogDescription>Mỗi lớp thuộc một năm học; cùng năm học không có hai lớp trùng khối và số thứ tự.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="class-grade">Khối</Label>
+                <Input id="class-grade" type="number" min={1} max={12} value={grade} onChange={(e) => setGrade(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="class-number">Lớp số</Label>
+                <Input id="class-number" type="number" min={1} value={classNumber} onChange={(e) => setClassNumber(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="class-year">Năm học</Label>
+                <Input id="class-year" value={schoolYear} onChange={(e) => setSchoolYear(e.target.value)} placeholder="2025-2026" />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="class-name">Tên lớp</Label>
+              <Input
+                id="class-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={`Mặc định: ${grade}A${classNumber}`}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="class-homeroom">Giáo viên chủ nhiệm</Label>
+              <Select value={homeroomTeacherId} onValueChange={setHomeroomTeacherId}>
+                <SelectTrigger id="class-homeroom">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEACHER}>Chưa phân công</SelectItem>
+                  {teachers.map(teacher => (
+                    <SelectItem key={teacher.id} value={teacher.id}>
+                      {teacher.fullName} ({teacher.username})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEdit ? "Lưu thay đổi" : "Tạo lớp"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface AddMembersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  className: string;
+  isSaving: boolean;
+  onSubmit: (data: { usernames: string[]; role: ClassMemberRole }) => void;
+}
+
+/**
+ * Add accounts to a class by pasting their usernames, one per line or
+ * separated by commas.
+ */
+export function AddMembersDialog({ open, onOpenChange, className, isSaving, onSubmit }: AddMembersDialogProps) {
+  const [text, setText] = useState("");
+  const [role, setRole] = useState<ClassMemberRole>("student");
+
+  useEffect(() => {
+    if (!open) return;
+    setText("");
+    setRole("student");
+  }, [open]);
+
+  const usernames = text.split(/[\s,;]+/).map(username => username.trim()).filter(Boolean);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (usernames.length > 0) {
+      onSubmit({ usernames, role });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Thêm thành viên vào lớp {className}</DialogTitle>
+            <DialogDescription>Nhập tên đăng nhập, mỗi dòng một tài khoản.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="member-role">Vai trò trong lớp</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as ClassMemberRole)}>
+                <SelectTrigger id="member-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="student">Học sinh</SelectItem>
+                  <SelectItem value="teacher">Giáo viên bộ môn</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="member-usernames">Tên đăng nhập</Label>
+              <Textarea
+                id="member-usernames"
+                rows={8}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder={"annv\nbinhtt"}
+              />
+              <p className="text-xs text-gray-500">{usernames.length} tài khoản</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving || usernames.length === 0}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Thêm vào lớp
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle, Download, Eye, FileCode, FileType, Plus, Shuffle, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PDFPreviewModal } from "@/components/pdf-preview-modal";
+import { questionTypeLabels } from "@/components/generated-questions";
+import { textExporter } from "@/lib/text-exporter";
+import { docxExporter } from "@/lib/docx-exporter";
+import { texExporter } from "@/lib/tex-exporter";
+import { DIFFICULTY_LEVELS, assembleExam, countAvailable } from "@shared/exam-builder";
+import { EXAM_VERSION_COUNTS, type ExamVersionOptions } from "@shared/exam-versions";
+import { examBlueprintSchema } from "@shared/schema";
+import type { AssembledExam, BlueprintRow, ExamBlueprint, QuestionBank } from "@shared/schema";
+
+interface ExamBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  banks: QuestionBank[];
+  getSubjectLabel: (subject: string) => string;
+}
+
+// Value of the selects for a criterion that matches any question
+const ANY = "any";
+
+function newRow(): BlueprintRow {
+  return { id: `row_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, count: 1 };
+}
+
+/**
+ * Builds one exam out of several question banks from a blueprint: each row
+ * asks for a number of questions of a given type, difficulty level and
+ * topic or tag. Rows the banks cannot fill are flagged before export.
+ */
+export function ExamBuilderDialog({ open, onOpenChange, banks, getSubjectLabel }: ExamBuilderDialogProps) {
+  const { toast } = useToast();
+  const subjects = useMemo(() => Array.from(new Set(banks.map(bank => bank.subject))), [banks]);
+  const [blueprint, setBlueprint] = useState<ExamBlueprint>({ title: "", subject: "", bankIds: [], rows: [newRow()] });
+  const [result, setResult] = useState<AssembledExam | null>(null);
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [versions, setVersions] = useState<ExamVersionOptions | undefined>(undefined);
+
+  useEffect(() => {
+    if (open && !blueprint.subject && subjects.length) {
+      setBlueprint(current => ({ ...current, subject: subjects[0] }));
+    }
+  }, [open, subjects]);
+
+  const subjectBanks = banks.filter(bank => bank.subject === blueprint.subject);
+  const selectedBanks = subjectBanks.filter(bank => blueprint.bankIds.includes(bank.id));
+  const availableTypes = Array.from(new Set(selectedBanks.flatMap(bank => Object.keys(bank.metadata.questionTypeDistribution))));
+  const availableTags = Array.from(new Set(selectedBanks.flatMap(bank => [...bank.tags, ...bank.entries.flatMap(entry => entry.tags)]))).sort();
+
+  // Any change to the blueprint invalidates the last draw
+  const update = (changes: Partial<ExamBlueprint>) => {
+    setBlueprint(current => ({ ...current, ...changes }));
+    setResult(null);
+  };
+
+  const updateRow = (rowId: string, changes: Partial<BlueprintRow>) => {
+    update({ rows: blueprint.rows.map(row => row.id === rowId ? { ...row, ...changes } : row) });
+  };
+
+  const toggleBank = (bankId: string, checked: boolean) => {
+    update({ bankIds: checked ? [...blueprint.bankIds, bankId] : blueprint.bankIds.filter(id => id !== bankId) });
+  };
+
+  const handleAssemble = () => {
+    const parsed = examBlueprintSchema.safeParse(blueprint);
+    if (!parsed.success) {
+      toast({ title: "Lỗi", description: parsed.error.errors[0].message, variant: "destructive" });
+      return;
+    }
+    const assembled = assembleExam(banks, parsed.data);
+    if (!assembled.exam.generatedQuestions?.length) {
+      toast({ title: "Lỗi", description: "Không có câu hỏi nào khớp với ma trận đề", variant: "destructive" });
+      return;
+    }
+    setResult(assembled);
+  };
+
+  const handleDownloadText = () => {
+    if (!result) return;
+    try {
+      textExporter.downloadText(result.exam, { versions });
+    } catch (error) {
+      toast({ title: "Lỗi", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const handleDownloadDocx = async () => {
+    if (!result) return;
+    try {
+      await docxExporter.downloadDocx(result.exam, { versions });
+    } catch (error) {
+      toast({ title: "Lỗi", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  // The exam as drawn, without versions: ex_test has its own tools to shuffle
+  const handleDownloadTex = () => {
+    if (!result) return;
+    try {
+      texExporter.downloadTex(result.exam);
+    } catch (error) {
+      toast({ title: "Lỗi", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const rowNumber = (rowId: string) => blueprint.rows.findIndex(row => row.id === rowId) + 1;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Tạo đề từ ngân hàng</DialogTitle>
+            <DialogDescription>
+              Lập ma trận đề theo loại câu hỏi, mức độ và chủ đề; hệ thống rút ngẫu nhiên câu hỏi phù hợp từ các ngân hàng đã chọn
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="exam-title">Tên đề</Label>
+                <Input
+                  id="exam-title"
+                  value={blueprint.title}
+                  onChange={(e) => update({ title: e.target.value })}
+                  placeholder="VD: Kiểm tra giữa kì I"
+                  data-testid="input-exam-title"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Môn học</Label>
+                <Select value={blueprint.subject} onValueChange={(subject) => update({ subject, bankIds: [] })}>
+                  <SelectTrigger data-testid="select-exam-subject">
+                    <SelectValue placeholder="Chọn môn học" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {subjects.map(subject => (
+                      <SelectItem key={subject} value={subject}>{getSubjectLabel(subject)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ngân hàng câu hỏi</Label>
+              {subjectBanks.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Chưa có ngân hàng nào cho môn này</p>
+              ) : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {subjectBanks.map(bank => (
+                    <label key={bank.id} className="flex items-center gap-2 rounded-md border p-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={blueprint.bankIds.includes(bank.id)}
+                        onCheckedChange={(checked) => toggleBank(bank.id, checked === true)}
+                      />
+                      <span className="flex-1 truncate">{bank.name}</span>
+                      <span className="text-muted-foreground shrink-0">{bank.metadata.totalQuestions} câu</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Ma trận đề</Label>
+              <div className="space-y-2">
+                {blueprint.rows.map((row, index) => (
+                  <div key={row.id} className="grid grid-cols-2 sm:grid-cols-[2rem_1fr_1fr_1fr_1fr_5rem_2.5rem] items-center gap-2 rounded-md border p-2">
+                    <span className="text-sm font-medium">{index + 1}.</span>
+                    <Select
+                      value={row.questionType ?? ANY}
+                      onValueChange={(value) => updateRow(row.id, { questionType: value === ANY ? undefined : value as BlueprintRow["questionType"] })}
+                    >
+                      <SelectTrigger aria-label="Loại câu hỏi">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Mọi loại câu</SelectItem>
+                        {availableTypes.map(type => (
+                          <SelectItem key={type} value={type}>{questionTypeLabels[type] || type}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={row.difficulty ?? ANY}
+                      onValueChange={(value) => updateRow(row.id, { difficulty: value === ANY ? undefined : value as BlueprintRow["difficulty"] })}
+                    >
+                      <SelectTrigger aria-label="Mức độ">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Mọi mức độ</SelectItem>
+                        {Object.entries(DIFFICULTY_LEVELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={row.topic ?? ""}
+                      onChange={(e) => updateRow(row.id, { topic: e.target.value || undefined })}
+                      placeholder="Chủ đề"
+                      aria-label="Chủ đề"
+                    />
+                    <Select
+                      value={row.tag ?? ANY}
+                      onValueChange={(value) => updateRow(row.id, { tag: value === ANY ? undefined : value })}
+                    >
+                      <SelectTrigger aria-label="Thẻ">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY}>Mọi thẻ</SelectItem>
+                        {availableTags.map(tag => (
+                          <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={row.count}
+                      onChange={(e) => updateRow(row.id, { count: Number(e.target.value) })}
+                      aria-label="Số câu"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update({ rows: blueprint.rows.filter(item => item.id !== row.id) })}
+                      disabled={blueprint.rows.length === 1}
+                      aria-label="Xóa dòng"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                    {selectedBanks.length > 0 && (
+                      <p className="col-span-full text-xs text-muted-foreground sm:pl-10">
+                        Có {countAvailable(selectedBanks, blueprint, row)} câu phù hợp
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => update({ rows: [...blueprint.rows, newRow()] })} data-testid="button-add-blueprint-row">
+                <Plus className="w-4 h-4 mr-1" />
+                Thêm dòng
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleAssemble} data-testid="button-assemble-exam">
+                <Shuffle className="w-4 h-4 mr-2" />
+                {result ? "Rút lại câu hỏi" : "Tạo đề"}
+              </Button>
+              {result && (
+                <>
+                  <Select
+                    value={String(versions?.count ?? 1)}
+                    onValueChange={(value) => setVersions(Number(value) > 1 ? { count: Number(value), seed: Date.now() } : undefined)}
+                  >
+                    <SelectTrigger className="w-36" aria-label="Số mã đề" data-testid="select-exam-versions">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXAM_VERSION_COUNTS.map(count => (
+                        <SelectItem key={count} value={String(count)}>
+                          {count === 1 ? "Không trộn đề" : `${count} mã đề`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={() => setIsPreviewOpen(true)} data-testid="button-preview-exam">
+                    <Eye className="w-4 h-4 mr-2" />
+                    Xem trước PDF
+                  </Button>
+                  <Button variant="outline" onClick={handleDownloadText} data-testid="button-download-exam-text">
+                    <Download className="w-4 h-4 mr-2" />
+                    Tải file văn bản
+                  </Button>
+                  <Button variant="outline" onClick={handleDownloadDocx} data-testid="button-download-exam-docx">
+                    <FileType className="w-4 h-4 mr-2" />
+                    Tải file Word
+                  </Button>
+                  <Button variant="outline" onClick={handleDownloadTex} data-testid="button-download-exam-tex">
+                    <FileCode className="w-4 h-4 mr-2" />
+                    Tải file LaTeX
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {result && (
+              result.shortfalls.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p>Đề có {result.exam.questionCount} câu, thiếu câu hỏi cho:</p>
+                    <ul className="list-disc pl-5">
+                      {result.shortfalls.map(shortfall => (
+                        <li key={shortfall.rowId}>
+                          Dòng {rowNumber(shortfall.rowId)}: cần {shortfall.requested} câu, chỉ rút được {shortfall.drawn} câu
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert>
+                  <CheckCircle className="h-4 w-4" />
+                  <AlertDescription>Đề có {result.exam.questionCount} câu, đủ theo ma trận</AlertDescription>
+                </Alert>
+              )
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {result && (
+        <PDFPreviewModal
+          isOpen={isPreviewOpen}
+          onClose={() => setIsPreviewOpen(false)}
+          questions={result.exam}
+          versions={versions}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,424 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, FileUp, Loader2, Save, Sparkles, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { MathText } from "@/lib/latex-renderer";
+import { bankManager } from "@/lib/bank-manager";
+import { examFileReader } from "@/lib/exam-file-reader";
+import { questionTypeLabels } from "@/components/generated-questions";
+import { DIFFICULTY_LEVELS } from "@shared/exam-builder";
+import { segmentExam, validationMessages } from "@shared/exam-import";
+import type { GeneratedQuestion, ImportedQuestion, QuestionBank, QuestionBankEntry } from "@shared/schema";
+
+interface ExamImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  banks: QuestionBank[];
+  getSubjectLabel: (subject: string) => string;
+  onImported: () => void;
+}
+
+// What the segmenter detects; the AI may structure a block as anything else it knows
+const EDITABLE_TYPES: GeneratedQuestion['type'][] = ['multiple_choice', 'true_false', 'fill_in_blank', 'essay'];
+const LETTERS = ['A', 'B', 'C', 'D'];
+const OPTION_LABEL = /^\s*[A-Z][.)]\s*/;
+// The structure endpoint's limit per request
+const MAX_AI_BLOCKS = 40;
+
+type ReviewItem = ImportedQuestion & {
+  key: string;
+  byAi?: boolean;
+};
+
+function toReviewItem(imported: ImportedQuestion, byAi = false): ReviewItem {
+  return { ...imported, key: `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`, byAi };
+}
+
+// The fields a type needs, kept from the old type where they exist
+function withType(question: GeneratedQuestion, type: GeneratedQuestion['type']): GeneratedQuestion {
+  const { id, question: text, explanation } = question;
+  switch (type) {
+    case 'multiple_choice':
+      return { id, type, question: text, explanation, options: question.options ?? LETTERS.map(() => ''), correctAnswer: question.correctAnswer };
+    case 'true_false': {
+      const statements = question.statements ?? ['', '', '', ''];
+      return { id, type, question: text, explanation, statements, statementAnswers: question.statementAnswers ?? statements.map(() => false) };
+    }
+    case 'fill_in_blank':
+      return { id, type, question: text, explanation, blanks: question.blanks ?? [] };
+    default:
+      return { id, type, question: text, explanation };
+  }
+}
+
+/**
+ * Imports an existing exam from a Word or PDF file: the text is split into
+ * its "Câu N." questions, the teacher fixes what was misread (with the AI's
+ * help for the doubtful ones) and saves the result as one entry of a bank.
+ */
+export function ExamImportDialog({ open, onOpenChange, banks, getSubjectLabel, onImported }: ExamImportDialogProps) {
+  const { toast } = useToast();
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [bankId, setBankId] = useState("");
+  const [entryName, setEntryName] = useState("");
+  const [difficulty, setDifficulty] = useState<QuestionBankEntry['difficulty']>("medium");
+  const [isReading, setIsReading] = useState(false);
+  const [isStructuring, setIsStructuring] = useState(false);
+
+  useEffect(() => {
+    if (open && !banks.some(bank => bank.id === bankId)) {
+      setBankId(banks[0]?.id ?? "");
+    }
+  }, [open, banks]);
+
+  const bank = banks.find(candidate => candidate.id === bankId);
+  const problems = items.map(item => Array.from(new Set([...item.issues, ...validationMessages(item.question)])));
+  const doubtful = items.filter((_, index) => problems[index].length > 0);
+  const invalidCount = items.filter(item => validationMessages(item.question).length > 0).length;
+
+  const reset = () => {
+    setItems([]);
+    setFileName("");
+    setEntryName("");
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const detected = segmentExam(await examFileReader.readText(file));
+      if (detected.length === 0) {
+        throw new Error('Không tìm thấy câu hỏi nào. Các câu cần bắt đầu bằng "Câu 1.", "Câu 2."…');
+      }
+      setItems(detected.map(imported => toReviewItem(imported)));
+      setFileName(file.name);
+      setEntryName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (error) {
+      toast({
+        title: "Lỗi đọc file",
+        description: error instanceof Error ? error.message : "File không hợp lệ",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  // Editing a question means the teacher has looked at it: only live validation is shown from then on
+  const updateQuestion = (key: string, changes: Partial<GeneratedQuestion>) => {
+    setItems(current => current.map(item =>
+      item.key === key ? { ...item, issues: [], question: { ...item.question, ...changes } } : item,
+    ));
+  };
+
+  const changeType = (key: string, type: GeneratedQuestion['type']) => {
+    setItems(current => current.map(item =>
+      item.key === key ? { ...item, issues: [], question: withType(item.question, type) } : item,
+    ));
+  };
+
+  const removeItem = (key: string) => {
+    setItems(current => current.filter(item => item.key !== key));
+  };
+
+  const handleStructure = async () => {
+    if (!bank) return;
+    const targets = doubtful.slice(0, MAX_AI_BLOCKS);
+    setIsStructuring(true);
+    try {
+      const res = await apiRequest("POST", "/api/import/structure", {
+        subject: bank.subject,
+        blocks: targets.map(item => ({ number: item.number, source: item.source })),
+      });
+      const { questions } = await res.json() as { questions: ImportedQuestion[] };
+      const replacements = new Map(targets.map((item, index) => [item.key, questions[index]]));
+      setItems(current => current.map(item => {
+        const structured = replacements.get(item.key);
+        return structured ? { ...toReviewItem(structured, true), key: item.key } : item;
+      }));
+      toast({
+        title: "Đã nhận dạng lại",
+        description: `AI đã xử lý ${targets.length} câu${doubtful.length > targets.length ? `, còn ${doubtful.length - targets.length} câu chưa xử lý` : ""}`,
+      });
+    } catch (error) {
+      toast({ title: "Lỗi", description: getErrorMessage(error, "Không thể nhận dạng câu hỏi"), variant: "destructive" });
+    } finally {
+      setIsStructuring(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!bank || !entryName.trim()) {
+      toast({ title: "Lỗi", description: "Vui lòng chọn ngân hàng và nhập tên bộ câu hỏi", variant: "destructive" });
+      return;
+    }
+    const generatedQuestions = items.map((item, index) => ({ ...item.question, id: String(index + 1) }));
+    const entry: QuestionBankEntry = {
+      id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: entryName.trim(),
+      subject: bank.subject,
+      difficulty,
+      topic: entryName.trim(),
+      questionTypes: Array.from(new Set(generatedQuestions.map(question => question.type))),
+      questionCount: generatedQuestions.length,
+      generatedQuestions,
+      tags: ['import'],
+      addedAt: new Date().toISOString(),
+    };
+
+    try {
+      bankManager.addEntriesToBank(bank.id, [entry]);
+      onImported();
+      toast({ title: "Đã lưu", description: `Đã thêm ${generatedQuestions.length} câu hỏi vào "${bank.name}"` });
+      handleOpenChange(false);
+    } catch (error) {
+      toast({ title: "Lỗi", description: error instanceof Error ? error.message : "Không thể lưu câu hỏi", variant: "destructive" });
+    }
+  };
+
+  const renderAnswerFields = (item: ReviewItem) => {
+    const { question } = item;
+    switch (question.type) {
+      case 'multiple_choice': {
+        const options = question.options ?? [];
+        const setOption = (index: number, text: string) => {
+          const next = LETTERS.map((_, optionIndex) => options[optionIndex] ?? '');
+          next[index] = text.trim() ? `${LETTERS[index]}. ${text}` : '';
+          updateQuestion(item.key, { options: next });
+        };
+        return (
+          <div className="space-y-2">
+            {LETTERS.map((letter, index) => (
+              <div key={letter} className="flex items-center gap-2">
+                <span className="w-5 text-sm font-medium">{letter}.</span>
+                <Input
+                  value={(options[index] ?? '').replace(OPTION_LABEL, '')}
+                  onChange={(event) => setOption(index, event.target.value)}
+                  className="h-8"
+                />
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Label className="text-sm">Đáp án đúng</Label>
+              <Select value={question.correctAnswer ?? ""} onValueChange={(value) => updateQuestion(item.key, { correctAnswer: value })}>
+                <SelectTrigger className="h-8 w-24"><SelectValue placeholder="Chọn" /></SelectTrigger>
+                <SelectContent>
+                  {LETTERS.map(letter => <SelectItem key={letter} value={letter}>{letter}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        );
+      }
+      case 'true_false': {
+        const statements = question.statements ?? [];
+        const answers = question.statementAnswers ?? [];
+        return (
+          <div className="space-y-2">
+            {statements.map((statement, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <span className="w-5 text-sm font-medium">{String.fromCharCode(97 + index)})</span>
+                <Input
+                  value={statement}
+                  onChange={(event) => updateQuestion(item.key, {
+                    statements: statements.map((text, statementIndex) => statementIndex === index ? event.target.value : text),
+                  })}
+                  className="h-8"
+                />
+                <Select
+                  value={answers[index] === undefined ? "" : answers[index] ? "true" : "false"}
+                  onValueChange={(value) => updateQuestion(item.key, {
+                    statementAnswers: statements.map((_, statementIndex) => statementIndex === index ? value === "true" : answers[statementIndex] ?? false),
+                  })}
+                >
+                  <SelectTrigger className="h-8 w-24"><SelectValue placeholder="Đ/S" /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="true">Đúng</SelectItem>
+                    <SelectItem value="false">Sai</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      case 'fill_in_blank':
+        return (
+          <div className="space-y-1">
+            <Label className="text-sm">Đáp án (nhiều đáp án chấp nhận cách nhau bởi dấu ;)</Label>
+            <Input
+              value={(question.blanks ?? []).join('; ')}
+              onChange={(event) => updateQuestion(item.key, {
+                blanks: event.target.value.split(';').map(answer => answer.trim()).filter(Boolean),
+              })}
+              className="h-8"
+            />
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto" data-testid="dialog-exam-import">
+        <DialogHeader>
+          <DialogTitle>Nhập đề thi từ Word/PDF</DialogTitle>
+          <DialogDescription>
+            Các câu được nhận dạng theo "Câu 1.", "Câu 2."… với phương án A-D, mệnh đề a)-d) và bảng đáp án cuối đề.
+            Kiểm tra và sửa lại trước khi lưu vào ngân hàng.
+          </DialogDescription>
+        </DialogHeader>
+
+        {banks.length === 0 ? (
+          <Alert>
+            <AlertDescription>Hãy tạo một ngân hàng câu hỏi trước khi nhập đề.</AlertDescription>
+          </Alert>
+        ) : items.length === 0 ? (
+          <div className="border-2 border-dashed rounded-lg p-8 text-center space-y-3">
+            <FileUp className="w-10 h-10 mx-auto text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Chọn file .docx hoặc .pdf (PDF cần có lớp chữ, bản scan chưa được hỗ trợ)
+            </p>
+            <input type="file" accept=".docx,.pdf" onChange={handleFile} className="hidden" id="import-exam-file" disabled={isReading} />
+            <Button onClick={() => document.getElementById('import-exam-file')?.click()} disabled={isReading} data-testid="button-pick-exam-file">
+              {isReading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <FileUp className="w-4 h-4 mr-1" />}
+              {isReading ? "Đang đọc file..." : "Chọn file đề thi"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {fileName}: {items.length} câu, {doubtful.length} câu cần kiểm tra
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={reset}>Chọn file khác</Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleStructure}
+                  disabled={!doubtful.length || isStructuring || !bank}
+                  data-testid="button-structure-ai"
+                >
+                  {isStructuring ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Sparkles className="w-4 h-4 mr-1" />}
+                  Dùng AI cho {Math.min(doubtful.length, MAX_AI_BLOCKS)} câu chưa rõ
+                </Button>
+              </div>
+            </div>
+
+            {items.map((item, index) => (
+              <div key={item.key} className="border rounded-lg p-3 space-y-2" data-testid={`import-question-${index}`}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium text-sm">Câu {index + 1}</span>
+                  <span className="text-xs text-muted-foreground">(Câu {item.number} trong file)</span>
+                  <Select
+                    value={item.question.type}
+                    onValueChange={(value) => changeType(item.key, value as GeneratedQuestion['type'])}
+                  >
+                    <SelectTrigger className="h-8 w-40"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...EDITABLE_TYPES, item.question.type])).map(type => (
+                        <SelectItem key={type} value={type}>{questionTypeLabels[type] ?? type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {item.byAi && <Badge variant="secondary">AI</Badge>}
+                  <Button variant="ghost" size="sm" className="ml-auto" onClick={() => removeItem(item.key)} title="Bỏ câu này">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {problems[index].length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {problems[index].map(problem => (
+                      <Badge key={problem} variant="outline" className="text-amber-700 border-amber-300">
+                        <AlertTriangle className="w-3 h-3 mr-1" />
+                        {problem}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <Textarea
+                  value={item.question.question}
+                  onChange={(event) => updateQuestion(item.key, { question: event.target.value })}
+                  rows={3}
+                />
+                {item.question.question.includes('$') && (
+                  <div className="text-sm rounded-md bg-muted/50 p-2">
+                    <MathText text={item.question.question} />
+                  </div>
+                )}
+                {renderAnswerFields(item)}
+                <Textarea
+                  value={item.question.explanation ?? ""}
+                  onChange={(event) => updateQuestion(item.key, { explanation: event.target.value })}
+                  placeholder="Lời giải (không bắt buộc)"
+                  rows={2}
+                />
+                <details className="text-xs text-muted-foreground">
+                  <summary className="cursor-pointer">Văn bản gốc</summary>
+                  <pre className="whitespace-pre-wrap mt-1 font-sans">{item.source}</pre>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {items.length > 0 && (
+          <DialogFooter className="flex-col sm:flex-col gap-2 border-t pt-3">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 w-full">
+              <Select value={bankId} onValueChange={setBankId}>
+                <SelectTrigger><SelectValue placeholder="Chọn ngân hàng" /></SelectTrigger>
+                <SelectContent>
+                  {banks.map(candidate => (
+                    <SelectItem key={candidate.id} value={candidate.id}>
+                      {candidate.name} ({getSubjectLabel(candidate.subject)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input value={entryName} onChange={(event) => setEntryName(event.target.value)} placeholder="Tên bộ câu hỏi" />
+              <Select value={difficulty} onValueChange={(value) => setDifficulty(value as QuestionBankEntry['difficulty'])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DIFFICULTY_LEVELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between w-full">
+              <span className="text-sm text-muted-foreground">
+                {invalidCount > 0 ? `Còn ${invalidCount} câu chưa hợp lệ, hãy sửa hoặc bỏ trước khi lưu` : "Tất cả câu hỏi đã hợp lệ"}
+              </span>
+              <Button onClick={handleSave} disabled={invalidCount > 0 || !bank} data-testid="button-save-import">
+                <Save className="w-4 h-4 mr-1" />
+                Lưu {items.length} câu
+              </Button>
+            </div>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
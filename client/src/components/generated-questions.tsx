@@ -1,18 +1,33 @@
 import { useEffect, useState, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileText, HelpCircle, Eye, CheckCircle } from "lucide-react";
+import { FileText, HelpCircle, Eye, CheckCircle, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useLatexRenderer } from "@/lib/latex-renderer";
 import { PDFPreviewModal } from "@/components/pdf-preview-modal";
 import { historyManager } from "@/lib/history-manager";
-import type { QuestionRequest } from "@shared/schema";
+import type { QuestionRequest, GeneratedQuestion } from "@shared/schema";
 
 interface GeneratedQuestionsProps {
   questions: QuestionRequest | null;
+  streamingQuestions?: GeneratedQuestion[];
+  isStreaming?: boolean;
 }
 
-export function GeneratedQuestions({ questions }: GeneratedQuestionsProps) {
+export const questionTypeLabels: Record<string, string> = {
+  multiple_choice: 'Trắc nghiệm',
+  multiple_choice_reading1: 'Đọc hiểu - điền từ',
+  multiple_choice_reading2: 'Đọc hiểu - câu hỏi',
+  true_false: 'Đúng/Sai',
+  essay: 'Tự luận',
+  essay_reading: 'Đọc hiểu',
+  essay_writing: 'Viết đoạn văn',
+  fill_in_blank: 'Điền từ',
+  matching: 'Nối câu',
+  ordering: 'Sắp xếp',
+};
+
+export function GeneratedQuestions({ questions, streamingQuestions = [], isStreaming = false }: GeneratedQuestionsProps) {
   const { toast } = useToast();
   const { renderMath } = useLatexRenderer();
   const [isPDFModalOpen, setIsPDFModalOpen] = useState(false);
@@ -41,6 +56,13 @@ export function GeneratedQuestions({ questions }: GeneratedQuestionsProps) {
     }
   }, [questions, renderMath]);
 
+  // Render LaTeX for questions as they stream in
+  useEffect(() => {
+    if (streamingQuestions.length) {
+      setTimeout(renderMath, 50);
+    }
+  }, [streamingQuestions.length]);
+
   const openPreview = () => {
     if (!questions?.generatedQuestions?.length) {
       toast({
@@ -72,7 +94,39 @@ export function GeneratedQuestions({ questions }: GeneratedQuestionsProps) {
             )}
           </div>
 
-          {!questions?.generatedQuestions ? (
+          {isStreaming && !questions?.generatedQuestions ? (
+            <div className="space-y-4" data-testid="streaming-questions">
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span>
+                  {streamingQuestions.length
+                    ? `Đã nhận ${streamingQuestions.length} câu hỏi, đang tạo tiếp...`
+                    : 'AI đang soạn câu hỏi...'}
+                </span>
+              </div>
+              {streamingQuestions.map((question, index) => (
+                <div
+                  key={`${question.id}-${index}`}
+                  className="rounded-lg border p-4"
+                  data-testid={`streaming-question-${index}`}
+                >
+                  <div className="text-xs font-medium text-primary mb-2">
+                    Câu {index + 1} · {questionTypeLabels[question.type] || question.type}
+                  </div>
+                  <p className="text-sm text-foreground whitespace-pre-line line-clamp-6">
+                    {question.question}
+                  </p>
+                  {question.options && (
+                    <ul className="mt-2 space-y-1 text-sm text-muted-foreground">
+                      {question.options.map((option, optionIndex) => (
+                        <li key={optionIndex}>{option}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : !questions?.generatedQuestions ? (
             <div className="text-center py-12" data-testid="empty-state">
               <div className="w-16 h-16 bg-muted/30 rounded-full flex items-center justify-center mx-auto mb-4">
                 <HelpCircle className="w-8 h-8 text-muted-foreground" />
@@ -0,0 +1,72 @@
+import { Badge } from "@/components/ui/badge";
+import { rubricFor } from "@shared/grading";
+import type { GeneratedQuestion, GradeStatus, QuestionGrade } from "@shared/schema";
+
+const statusLabels: Record<GradeStatus, string> = {
+  correct: "Đúng",
+  partial: "Đúng một phần",
+  incorrect: "Sai",
+  unanswered: "Chưa làm",
+  pending: "Chờ chấm",
+};
+
+// Scores like 0.25 read "0,25" in Vietnamese
+export function formatScore(value: number): string {
+  return value.toLocaleString("vi-VN", { maximumFractionDigits: 2 });
+}
+
+/**
+ * Points earned on one question, coloured by how it was answered.
+ */
+export function GradeBadge({ grade }: { grade: QuestionGrade }) {
+  const variant = grade.status === "correct" ? "default" : grade.status === "incorrect" ? "destructive" : "secondary";
+  return (
+    <Badge variant={variant} className="shrink-0">
+      {grade.status === "pending" ? statusLabels.pending : `${formatScore(grade.score)}/${formatScore(grade.maxScore)} điểm`}
+    </Badge>
+  );
+}
+
+export function gradeStatusLabel(grade: QuestionGrade): string {
+  return statusLabels[grade.status];
+}
+
+/**
+ * Rubric scores and feedback of an essay answer, once it has been graded.
+ */
+export function RubricScores({ question, grade }: { question: Pick<GeneratedQuestion, "type">; grade: QuestionGrade }) {
+  const rubric = rubricFor(question);
+  if (!rubric || (!grade.criteria && !grade.feedback)) return null;
+
+  return (
+    <div className="space-y-2 rounded-md border p-3 text-sm">
+      {grade.criteria && (
+        <ul className="space-y-1">
+          {rubric.map(criterion => {
+            const scored = grade.criteria!.find(item => item.criterionId === criterion.id);
+            return (
+              <li key={criterion.id} className="flex items-start justify-between gap-4">
+                <div>
+                  <div>{criterion.label}</div>
+                  {scored?.comment && <div className="text-xs text-gray-500">{scored.comment}</div>}
+                </div>
+                <span className="font-medium shrink-0">
+                  {formatScore(scored?.score ?? 0)}/{formatScore(criterion.maxScore)}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {grade.feedback && (
+        <p className="whitespace-pre-wrap border-t pt-2">
+          <span className="font-medium">Nhận xét: </span>
+          {grade.feedback}
+        </p>
+      )}
+      {grade.gradedBy === "teacher" && grade.criteria && (
+        <p className="text-xs text-gray-500">Điểm đã được giáo viên điều chỉnh</p>
+      )}
+    </div>
+  );
+}
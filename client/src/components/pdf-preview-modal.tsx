@@ -12,6 +12,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { 
   Download, 
   Eye, 
@@ -19,33 +20,46 @@ import {
   Settings, 
   Loader2,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  FileType
 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { pdfGenerator, type PDFGenerationOptions } from '@/lib/pdf-generator';
+import { docxExporter } from '@/lib/docx-exporter';
 import type { QuestionRequest } from '@shared/schema';
+import { EXAM_VERSION_COUNTS, type ExamVersionOptions } from '@shared/exam-versions';
 
 interface PDFPreviewModalProps {
   isOpen: boolean;
   onClose: () => void;
   questions: QuestionRequest;
+  versions?: ExamVersionOptions; // shuffled versions to start with, e.g. those of a text export
 }
 
-export function PDFPreviewModal({ isOpen, onClose, questions }: PDFPreviewModalProps) {
+export function PDFPreviewModal({ isOpen, onClose, questions, versions }: PDFPreviewModalProps) {
   const [previewContent, setPreviewContent] = useState<HTMLElement | null>(null);
   const [isGeneratingPreview, setIsGeneratingPreview] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [isExportingDocx, setIsExportingDocx] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
   const [options, setOptions] = useState<PDFGenerationOptions>({
     includeAnswers: true,
     includeExplanations: true,
     paperSize: 'A4',
-    orientation: 'portrait'
+    orientation: 'portrait',
+    versions
   });
   
   const previewRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
+  // Start from the caller's versions each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setOptions(prev => prev.versions === versions ? prev : { ...prev, versions });
+    }
+  }, [isOpen]);
+
   // Generate preview when modal opens
   useEffect(() => {
     if (isOpen && questions.generatedQuestions?.length) {
@@ -99,10 +113,44 @@ export function PDFPreviewModal({ isOpen, onClose, questions }: PDFPreviewModalP
     }
   };
 
+  // Same content options as the PDF, written as a Word file with native equations
+  const handleDownloadDocx = async () => {
+    if (!questions.generatedQuestions?.length) return;
+
+    setIsExportingDocx(true);
+
+    try {
+      await docxExporter.downloadDocx(questions, {
+        includeAnswers: options.includeAnswers,
+        includeExplanations: options.includeExplanations,
+        versions: options.versions
+      });
+      toast({
+        title: "Tải xuống thành công!",
+        description: "File Word đã được tải về thiết bị của bạn.",
+      });
+    } catch (error) {
+      console.error('DOCX download failed:', error);
+      toast({
+        title: "Lỗi tải xuống",
+        description: error instanceof Error ? error.message : "Không thể xuất file Word. Vui lòng thử lại.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsExportingDocx(false);
+    }
+  };
+
   const updateOptions = (key: keyof PDFGenerationOptions, value: any) => {
     setOptions(prev => ({ ...prev, [key]: value }));
   };
 
+  // A new count is a new shuffle; the seed keeps preview and download identical
+  const handleVersionCountChange = (value: string) => {
+    const count = Number(value);
+    updateOptions('versions', count > 1 ? { count, seed: Date.now() } : undefined);
+  };
+
   // Reset state when modal closes
   useEffect(() => {
     if (!isOpen) {
@@ -110,6 +158,7 @@ export function PDFPreviewModal({ isOpen, onClose, questions }: PDFPreviewModalP
       setPreviewError(null);
       setIsGeneratingPreview(false);
       setIsDownloading(false);
+      setIsExportingDocx(false);
     }
   }, [isOpen]);
 
@@ -190,9 +239,37 @@ export function PDFPreviewModal({ isOpen, onClose, questions }: PDFPreviewModalP
         </div>
 
         <DialogFooter className="flex-shrink-0">
+          <div className="flex items-center gap-2 sm:mr-auto">
+            <span className="text-sm text-muted-foreground">Số mã đề</span>
+            <Select value={String(options.versions?.count ?? 1)} onValueChange={handleVersionCountChange}>
+              <SelectTrigger className="w-32" data-testid="select-version-count">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXAM_VERSION_COUNTS.map(count => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count === 1 ? 'Không trộn đề' : `${count} mã đề`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           <Button variant="outline" onClick={onClose} data-testid="button-cancel">
             Hủy
           </Button>
+          <Button
+            variant="outline"
+            onClick={handleDownloadDocx}
+            disabled={isExportingDocx || isDownloading}
+            data-testid="button-download-docx"
+          >
+            {isExportingDocx ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <FileType className="w-4 h-4 mr-2" />
+            )}
+            Tải Word (.docx)
+          </Button>
           <Button 
             onClick={handleDownload} 
             disabled={isDownloading || isGeneratingPreview || !previewContent}
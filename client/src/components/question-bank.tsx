@@ -13,6 +13,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { 
   Database, 
   Plus, 
@@ -26,6 +27,8 @@ import {
   Calendar, 
   BookOpen, 
   FileText,
+  FileCode,
+  FileUp,
   AlertTriangle,
   CheckCircle,
   X,
@@ -43,14 +46,21 @@ import {
   Hash
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useForm, type Control } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
 import { bankManager } from "@/lib/bank-manager";
+import { texExporter } from "@/lib/tex-exporter";
+import { lmsConverter, type LmsReport } from "@/lib/lms-formats";
+import { ExamBuilderDialog } from "@/components/exam-builder-dialog";
+import { ExamImportDialog } from "@/components/exam-import-dialog";
 import type { 
   QuestionBank, 
   QuestionBankEntry, 
   CreateBankData, 
   BankSearchFilters,
+  ClassSummary,
   QuestionRequest,
   QuestionHistoryEntry
 } from "@shared/schema";
@@ -61,8 +71,49 @@ interface QuestionBankManagerProps {
   onAddToBank?: (bank: QuestionBank) => void;
 }
 
+// Value of the class select for banks not tied to a class
+const NO_CLASS = "none";
+
+function BankClassField({ control, classes }: { control: Control<CreateBankData>; classes: ClassSummary[] }) {
+  return (
+    <FormField
+      control={control}
+      name="classId"
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>Lớp (tùy chọn)</FormLabel>
+          <Select
+            onValueChange={(value) => field.onChange(value === NO_CLASS ? null : value)}
+            value={field.value ?? NO_CLASS}
+          >
+            <FormControl>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+            </FormControl>
+            <SelectContent>
+              <SelectItem value={NO_CLASS}>Không gắn với lớp</SelectItem>
+              {classes.map(schoolClass => (
+                <SelectItem key={schoolClass.id} value={schoolClass.id}>
+                  {schoolClass.name} ({schoolClass.schoolYear})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+}
+
 export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBankManagerProps) {
   const { toast } = useToast();
+  const { can } = useAuth();
+  const { data: classes = [] } = useQuery<ClassSummary[]>({
+    queryKey: ["/api/classes"],
+    enabled: can('classes:view'),
+  });
   const [isOpen, setIsOpen] = useState(false);
   const [banks, setBanks] = useState<QuestionBank[]>([]);
   const [filteredBanks, setFilteredBanks] = useState<QuestionBank[]>([]);
@@ -75,7 +126,11 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isBankDetailOpen, setIsBankDetailOpen] = useState(false);
+  const [isExamBuilderOpen, setIsExamBuilderOpen] = useState(false);
+  const [isExamImportOpen, setIsExamImportOpen] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [lmsImportBank, setLmsImportBank] = useState<QuestionBank | null>(null);
+  const [lmsReport, setLmsReport] = useState<{ title: string; report: LmsReport } | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
   
   // Forms
@@ -86,6 +141,7 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
       description: "",
       subject: "",
       tags: [],
+      classId: null,
     },
   });
 
@@ -96,6 +152,7 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
       description: "",
       subject: "",
       tags: [],
+      classId: null,
     },
   });
 
@@ -132,6 +189,8 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
     try {
       const loadedBanks = bankManager.getBanks();
       setBanks(loadedBanks);
+      // Show the cache immediately, then refresh from the server
+      bankManager.sync().then(() => setBanks(bankManager.getBanks()));
     } catch (error) {
       toast({
         title: "Lỗi tải ngân hàng",
@@ -257,6 +316,85 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
     }
   };
 
+  // All entries of the bank as one ex_test document
+  const handleExportBankTex = (bank: QuestionBank) => {
+    try {
+      texExporter.downloadBankTex(bank);
+      toast({
+        title: "Xuất thành công!",
+        description: `Ngân hàng "${bank.name}" đã được xuất thành file LaTeX`,
+      });
+    } catch (error) {
+      toast({
+        title: "Lỗi xuất",
+        description: error instanceof Error ? error.message : "Không thể xuất file LaTeX",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Skipped or changed questions are listed in a dialog; a clean conversion only gets a toast
+  const showLmsReport = (title: string, report: LmsReport) => {
+    if (report.skipped.length > 0 || report.changed.length > 0) {
+      setLmsReport({ title, report });
+    }
+  };
+
+  const handleExportLms = async (bank: QuestionBank, format: "moodle" | "qti") => {
+    try {
+      const report = format === "moodle"
+        ? lmsConverter.downloadMoodleXml(bank)
+        : await lmsConverter.downloadQtiPackage(bank);
+      toast({
+        title: "Xuất thành công!",
+        description: `Đã xuất ${report.converted} câu hỏi sang ${format === "moodle" ? "Moodle XML" : "QTI 2.1"}${report.skipped.length ? `, bỏ qua ${report.skipped.length} câu` : ""}`,
+      });
+      showLmsReport(`Báo cáo xuất ${format === "moodle" ? "Moodle XML" : "QTI 2.1"}`, report);
+    } catch (error) {
+      toast({
+        title: "Lỗi xuất",
+        description: error instanceof Error ? error.message : "Không thể xuất ngân hàng",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const openLmsImport = (bank: QuestionBank) => {
+    setLmsImportBank(bank);
+    document.getElementById('import-lms')?.click();
+  };
+
+  const handleLmsImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const bank = lmsImportBank;
+    event.target.value = '';
+    if (!file || !bank) return;
+
+    setIsImporting(true);
+    try {
+      const { entries, report } = await lmsConverter.importFile(file, { subject: bank.subject });
+      if (entries.length === 0) {
+        throw new Error("Không đọc được câu hỏi nào từ file");
+      }
+      bankManager.addEntriesToBank(bank.id, entries);
+      loadBanks();
+      toast({
+        title: "Import thành công",
+        description: `Đã thêm ${report.converted} câu hỏi (${entries.length} bộ) vào "${bank.name}"${report.skipped.length ? `, bỏ qua ${report.skipped.length} câu` : ""}`,
+      });
+      showLmsReport(`Báo cáo nhập "${file.name}"`, report);
+    } catch (error) {
+      toast({
+        title: "Lỗi import",
+        description: error instanceof Error ? error.message : "File không hợp lệ",
+        variant: "destructive"
+      });
+    } finally {
+      setIsImporting(false);
+      setLmsImportBank(null);
+    }
+  };
+
   const handleExportAll = () => {
     try {
       const exportData = bankManager.exportBanks();
@@ -336,6 +474,7 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
       description: bank.description || "",
       subject: bank.subject,
       tags: bank.tags,
+      classId: bank.classId ?? null,
     });
     setIsEditModalOpen(true);
   };
@@ -436,6 +575,28 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                 <FolderPlus className="w-4 h-4" />
                 <span>Tạo ngân hàng</span>
               </Button>
+
+              <Button
+                onClick={() => setIsExamBuilderOpen(true)}
+                variant="outline"
+                size="sm"
+                disabled={banks.length === 0}
+                data-testid="button-exam-builder"
+              >
+                <FileText className="w-4 h-4 mr-1" />
+                Tạo đề từ ngân hàng
+              </Button>
+
+              <Button
+                onClick={() => setIsExamImportOpen(true)}
+                variant="outline"
+                size="sm"
+                disabled={banks.length === 0}
+                data-testid="button-exam-import"
+              >
+                <FileUp className="w-4 h-4 mr-1" />
+                Nhập đề Word/PDF
+              </Button>
               
               <Button onClick={handleExportAll} variant="outline" size="sm" data-testid="button-export-all">
                 <Download className="w-4 h-4 mr-1" />
@@ -451,6 +612,14 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                   id="import-banks"
                   disabled={isImporting}
                 />
+                <input
+                  type="file"
+                  accept=".xml,.zip"
+                  onChange={handleLmsImport}
+                  className="hidden"
+                  id="import-lms"
+                  disabled={isImporting}
+                />
                 <Button 
                   onClick={() => document.getElementById('import-banks')?.click()}
                   variant="outline" 
@@ -512,6 +681,11 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                               <BookOpen className="w-3 h-3 mr-1" />
                               {getSubjectLabel(bank.subject)}
                             </Badge>
+                            {bank.classId && classes.some(schoolClass => schoolClass.id === bank.classId) && (
+                              <Badge variant="outline" className="text-xs">
+                                {classes.find(schoolClass => schoolClass.id === bank.classId)!.name}
+                              </Badge>
+                            )}
                             <Badge variant="outline" className="text-xs">
                               <FileText className="w-3 h-3 mr-1" />
                               {bank.metadata.totalSets} bộ
@@ -580,6 +754,44 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                           <Download className="w-4 h-4 mr-1" />
                           Xuất
                         </Button>
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => handleExportBankTex(bank)}
+                          disabled={bank.entries.length === 0}
+                          data-testid={`button-export-tex-${bank.id}`}
+                        >
+                          <FileCode className="w-4 h-4 mr-1" />
+                          LaTeX
+                        </Button>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button 
+                              size="sm" 
+                              variant="outline"
+                              disabled={isImporting}
+                              data-testid={`button-lms-${bank.id}`}
+                            >
+                              <Share className="w-4 h-4 mr-1" />
+                              LMS
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleExportLms(bank, "moodle")} disabled={bank.entries.length === 0}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Xuất Moodle XML
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleExportLms(bank, "qti")} disabled={bank.entries.length === 0}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Xuất QTI 2.1 (.zip)
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem onClick={() => openLmsImport(bank)}>
+                              <Upload className="w-4 h-4 mr-2" />
+                              Nhập từ Moodle XML / QTI
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                         <Button 
                           size="sm" 
                           variant="outline"
@@ -600,6 +812,23 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
         </DialogContent>
       </Dialog>
 
+      {/* Exam Builder Modal */}
+      <ExamBuilderDialog
+        open={isExamBuilderOpen}
+        onOpenChange={setIsExamBuilderOpen}
+        banks={banks}
+        getSubjectLabel={getSubjectLabel}
+      />
+
+      {/* Exam Import Modal */}
+      <ExamImportDialog
+        open={isExamImportOpen}
+        onOpenChange={setIsExamImportOpen}
+        banks={banks}
+        getSubjectLabel={getSubjectLabel}
+        onImported={loadBanks}
+      />
+
       {/* Create Bank Modal */}
       <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
         <DialogContent className="max-w-lg" data-testid="dialog-create-bank">
@@ -674,6 +903,7 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                   </FormItem>
                 )}
               />
+              {classes.length > 0 && <BankClassField control={createForm.control} classes={classes} />}
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsCreateModalOpen(false)}>
                   Hủy
@@ -759,6 +989,7 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
                   </FormItem>
                 )}
               />
+              {classes.length > 0 && <BankClassField control={editForm.control} classes={classes} />}
               <DialogFooter>
                 <Button type="button" variant="outline" onClick={() => setIsEditModalOpen(false)}>
                   Hủy
@@ -884,6 +1115,51 @@ export function QuestionBankManager({ onLoadQuestions, onAddToBank }: QuestionBa
         </SheetContent>
       </Sheet>
 
+      {/* Moodle XML / QTI conversion report */}
+      <Dialog open={!!lmsReport} onOpenChange={(open) => !open && setLmsReport(null)}>
+        <DialogContent className="max-w-2xl" data-testid="dialog-lms-report">
+          <DialogHeader>
+            <DialogTitle>{lmsReport?.title}</DialogTitle>
+            <DialogDescription>
+              Đã chuyển đổi {lmsReport?.report.converted} câu hỏi.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="max-h-[400px] pr-4">
+            {lmsReport && lmsReport.report.skipped.length > 0 && (
+              <div className="mb-4">
+                <h4 className="text-sm font-medium text-destructive mb-2">
+                  Không chuyển được ({lmsReport.report.skipped.length})
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {lmsReport.report.skipped.map((item, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{item.source}:</span> {item.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {lmsReport && lmsReport.report.changed.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-amber-600 mb-2">
+                  Đã chuyển nhưng có thay đổi ({lmsReport.report.changed.length})
+                </h4>
+                <ul className="space-y-1 text-sm">
+                  {lmsReport.report.changed.map((item, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{item.source}:</span> {item.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </ScrollArea>
+          <DialogFooter>
+            <Button onClick={() => setLmsReport(null)}>Đóng</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Confirmation */}
       <Dialog open={!!showDeleteConfirm} onOpenChange={(open) => !open && setShowDeleteConfirm(null)}>
         <DialogContent data-testid="dialog-delete-confirm">
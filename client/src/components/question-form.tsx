@@ -2,8 +2,13 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation } from "@tanstack/react-query";
-import { insertQuestionRequestSchema, type InsertQuestionRequest } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { insertQuestionRequestSchema, type InsertQuestionRequest, type QuestionStreamEvent } from "@shared/schema";
+import {
+  streamQuestionGeneration,
+  describeValidationReport,
+  QuestionGenerationError,
+  RateLimitError,
+} from "@/lib/question-stream";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -17,12 +22,22 @@ import { useToast } from "@/hooks/use-toast";
 
 interface QuestionFormProps {
   onQuestionsGenerated: (questions: any) => void;
+  onStreamEvent?: (event: QuestionStreamEvent) => void;
   loadFormData?: InsertQuestionRequest | null;
 }
 
-export function QuestionForm({ onQuestionsGenerated, loadFormData }: QuestionFormProps) {
+export function QuestionForm({ onQuestionsGenerated, onStreamEvent, loadFormData }: QuestionFormProps) {
   const { toast } = useToast();
   const [selectedQuestionType, setSelectedQuestionType] = useState<string>('multiple_choice');
+  const [streamStatus, setStreamStatus] = useState<string>('');
+  // Seconds left before the server accepts another request after a 429
+  const [retryIn, setRetryIn] = useState(0);
+
+  useEffect(() => {
+    if (retryIn <= 0) return;
+    const timer = setTimeout(() => setRetryIn(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [retryIn]);
 
   const form = useForm<InsertQuestionRequest>({
     resolver: zodResolver(insertQuestionRequestSchema),
@@ -38,20 +53,52 @@ export function QuestionForm({ onQuestionsGenerated, loadFormData }: QuestionFor
 
   const generateMutation = useMutation({
     mutationFn: async (data: InsertQuestionRequest) => {
-      const response = await apiRequest('POST', '/api/questions/generate', data);
-      return response.json();
+      let parsedCount = 0;
+      setStreamStatus('Đang gửi yêu cầu...');
+
+      return streamQuestionGeneration(data, (event) => {
+        if (event.type === 'prompt_sent') {
+          setStreamStatus('Đang chờ AI phản hồi...');
+        } else if (event.type === 'receiving' && parsedCount === 0) {
+          setStreamStatus(`Đang nhận dữ liệu (${event.characters} ký tự)...`);
+        } else if (event.type === 'question') {
+          parsedCount++;
+          setStreamStatus(`Đã nhận ${parsedCount} câu hỏi...`);
+        } else if (event.type === 'repairing') {
+          setStreamStatus(`Đang sửa ${event.pending} câu lỗi (lần ${event.attempt})...`);
+        }
+        onStreamEvent?.(event);
+      });
+    },
+    onSettled: () => {
+      setStreamStatus('');
     },
     onSuccess: (data) => {
       onQuestionsGenerated(data);
+      const report = data.validationReport;
+      if (report && !report.valid) {
+        toast({
+          title: `Đã tạo ${report.accepted}/${report.requested} câu hỏi`,
+          description: `Một số câu AI tạo ra không hợp lệ và đã bị loại bỏ:\n${describeValidationReport(report)}`,
+        });
+        return;
+      }
       toast({
         title: "Thành công!",
         description: "Đã tạo câu hỏi thành công",
       });
     },
     onError: (error: Error) => {
+      onStreamEvent?.({ type: 'error', message: error.message });
+      if (error instanceof RateLimitError) {
+        setRetryIn(error.retryAfter);
+      }
+      const report = error instanceof QuestionGenerationError ? error.validationReport : undefined;
       toast({
         title: "Lỗi",
-        description: error.message || "Có lỗi xảy ra khi tạo câu hỏi",
+        description: report
+          ? `${error.message}\n${describeValidationReport(report)}`
+          : error.message || "Có lỗi xảy ra khi tạo câu hỏi",
         variant: "destructive",
       });
     },
@@ -316,14 +363,16 @@ export function QuestionForm({ onQuestionsGenerated, loadFormData }: QuestionFor
               <Button
                 type="submit"
                 className="w-full"
-                disabled={generateMutation.isPending}
+                disabled={generateMutation.isPending || retryIn > 0}
                 data-testid="button-generate"
               >
                 {generateMutation.isPending ? (
                   <>
-                    <span>Đang tạo câu hỏi...</span>
+                    <span>{streamStatus || 'Đang tạo câu hỏi...'}</span>
                     <div className="loader ml-2" />
                   </>
+                ) : retryIn > 0 ? (
+                  <span>Thử lại sau {retryIn} giây</span>
                 ) : (
                   <>
                     <span>Sinh câu hỏi</span>
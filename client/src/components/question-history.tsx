@@ -78,6 +78,8 @@ export function QuestionHistory({ onLoadQuestions, onLoadToForm }: QuestionHisto
     try {
       const entries = historyManager.getHistoryEntries();
       setHistoryEntries(entries);
+      // Show the cache immediately, then refresh from the server
+      historyManager.sync().then(() => setHistoryEntries(historyManager.getHistoryEntries()));
     } catch (error) {
       toast({
         title: "Lỗi tải lịch sử",
@@ -98,6 +100,9 @@ export function QuestionHistory({ onLoadQuestions, onLoadToForm }: QuestionHisto
         questionTypes: entry.questionTypes,
         questionCount: entry.questionCount,
         generatedQuestions: entry.generatedQuestions,
+        userId: null,
+        customName: entry.customName ?? null,
+        savedAt: entry.savedAt ? new Date(entry.savedAt) : null,
         createdAt: new Date(entry.createdAt),
       };
       onLoadQuestions(questionRequest);
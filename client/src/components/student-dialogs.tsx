@@ -0,0 +1,367 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { roleLabels } from "@/contexts/auth-context";
+import { Loader2 } from "lucide-react";
+import { managedRoles, type StudentAccount } from "@shared/schema";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export type StudentFormData = {
+  username: string;
+  fullName: string;
+  role: StudentAccount["role"];
+  password?: string;
+  apiKey?: string;
+  isActive?: boolean;
+  dailyRequestLimit: number | null;
+  dailyTokenLimit: number | null;
+};
+
+// Empty input keeps the server default; otherwise a non-negative integer
+function parseLimit(value: string): number | null | undefined {
+  if (value.trim() === "") return null;
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit >= 0 ? limit : undefined;
+}
+
+function limitToInput(limit: number | null | undefined): string {
+  return limit === null || limit === undefined ? "" : String(limit);
+}
+
+interface StudentFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The account being edited; omitted when creating one
+  student?: StudentAccount | null;
+  isSaving: boolean;
+  onSubmit: (data: StudentFormData) => void;
+}
+
+/**
+ * Create a teacher or student account, or edit the name, role, status and
+ * daily limits of an existing one. Passwords and API keys of existing
+ * accounts have their own dialogs.
+ */
+export function StudentFormDialog({ open, onOpenChange, student, isSaving, onSubmit }: StudentFormDialogProps) {
+  const isEdit = !!student;
+  const [username, setUsername] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [role, setRole] = useState<StudentAccount["role"]>("student");
+  const [password, setPassword] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [isActive, setIsActive] = useState(true);
+  const [requestLimit, setRequestLimit] = useState("");
+  const [tokenLimit, setTokenLimit] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setUsername(student?.username ?? "");
+    setFullName(student?.fullName ?? "");
+    setRole(student?.role ?? "student");
+    setPassword("");
+    setApiKey("");
+    setIsActive(student?.isActive ?? true);
+    setRequestLimit(limitToInput(student?.dailyRequestLimit));
+    setTokenLimit(limitToInput(student?.dailyTokenLimit));
+    setError(null);
+  }, [open, student]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!isEdit && !username.trim()) {
+      return setError("Vui lòng nhập tên đăng nhập");
+    }
+    if (!isEdit && password.length < MIN_PASSWORD_LENGTH) {
+      return setError(`Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự`);
+    }
+
+    const dailyRequestLimit = parseLimit(requestLimit);
+    const dailyTokenLimit = parseLimit(tokenLimit);
+    if (dailyRequestLimit === undefined || dailyTokenLimit === undefined) {
+      return setError("Hạn mức mỗi ngày phải là số nguyên không âm");
+    }
+
+    setError(null);
+    onSubmit({
+      username: username.trim(),
+      fullName: fullName.trim(),
+      role,
+      ...(isEdit ? { isActive } : { password, apiKey: apiKey.trim() || undefined }),
+      dailyRequestLimit,
+      dailyTokenLimit,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{isEdit ? "Sửa tài khoản" : "Thêm tài khoản"}</DialogTitle>
+            <DialogDescription>
+              {isEdit
+                ? `Cập nhật thông tin của ${student!.username}`
+                : "Tài khoản đăng nhập bằng tên đăng nhập và mật khẩu dưới đây"}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="student-username">Tên đăng nhập</Label>
+              <Input
+                id="student-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={isEdit}
+                autoComplete="off"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="student-fullname">Họ và tên</Label>
+              <Input
+                id="student-fullname"
+                value={fullName}
+                onChange={(e) => setFullName(e.target.value)}
+                placeholder={isEdit ? undefined : "Mặc định là tên đăng nhập"}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="student-role">Vai trò</Label>
+              <Select value={role} onValueChange={(value) => setRole(value as StudentAccount["role"])}>
+                <SelectTrigger id="student-role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {managedRoles.map(option => (
+                    <SelectItem key={option} value={option}>{roleLabels[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {!isEdit && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="student-password">Mật khẩu</Label>
+                  <Input
+                    id="student-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    autoComplete="new-password"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="student-apikey">API key (không bắt buộc)</Label>
+                  <Input
+                    id="student-apikey"
+                    value={apiKey}
+                    onChange={(e) => setApiKey(e.target.value)}
+                    placeholder="Để trống để dùng API key của hệ thống"
+                    autoComplete="off"
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="student-request-limit">Lượt tạo mỗi ngày</Label>
+                <Input
+                  id="student-request-limit"
+                  type="number"
+                  min={0}
+                  value={requestLimit}
+                  onChange={(e) => setRequestLimit(e.target.value)}
+                  placeholder="Mặc định"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="student-token-limit">Token mỗi ngày</Label>
+                <Input
+                  id="student-token-limit"
+                  type="number"
+                  min={0}
+                  value={tokenLimit}
+                  onChange={(e) => setTokenLimit(e.target.value)}
+                  placeholder="Mặc định"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">Để trống để dùng hạn mức mặc định của hệ thống, nhập 0 để không giới hạn.</p>
+
+            {isEdit && (
+              <div className="flex items-center justify-between rounded-md border p-3">
+                <div>
+                  <Label htmlFor="student-active">Đang hoạt động</Label>
+                  <p className="text-xs text-gray-500">Tài khoản bị khóa không thể đăng nhập</p>
+                </div>
+                <Switch id="student-active" checked={isActive} onCheckedChange={setIsActive} />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {isEdit ? "Lưu thay đổi" : "Tạo tài khoản"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface StudentFieldDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  student: StudentAccount | null;
+  isSaving: boolean;
+  onSubmit: (value: string) => void;
+}
+
+/**
+ * Set a new password for an account whose owner forgot it.
+ */
+export function ResetPasswordDialog({ open, onOpenChange, student, isSaving, onSubmit }: StudentFieldDialogProps) {
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setPassword("");
+    setConfirmation("");
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return setError(`Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự`);
+    }
+    if (password !== confirmation) {
+      return setError("Mật khẩu xác nhận không khớp");
+    }
+    setError(null);
+    onSubmit(password);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Đặt lại mật khẩu</DialogTitle>
+            <DialogDescription>Mật khẩu mới cho tài khoản {student?.username}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="reset-password">Mật khẩu mới</Label>
+              <Input
+                id="reset-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reset-password-confirm">Nhập lại mật khẩu</Label>
+              <Input
+                id="reset-password-confirm"
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="new-password"
+              />
+            </div>
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Đặt lại mật khẩu
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Assign the model API key an account generates with; an empty key switches
+ * it back to the server's key.
+ */
+export function ApiKeyDialog({ open, onOpenChange, student, isSaving, onSubmit }: StudentFieldDialogProps) {
+  const [apiKey, setApiKey] = useState("");
+
+  useEffect(() => {
+    if (open) setApiKey("");
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(apiKey.trim());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Gán API key</DialogTitle>
+            <DialogDescription>
+              {student?.hasApiKey
+                ? `${student.username} đang dùng API key ${student.apiKeyHint}`
+                : `${student?.username} đang dùng API key của hệ thống`}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2 py-4">
+            <Label htmlFor="assign-apikey">API key mới</Label>
+            <Input
+              id="assign-apikey"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="Để trống để dùng API key của hệ thống"
+              autoComplete="off"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Hủy
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {apiKey.trim() ? "Lưu API key" : "Dùng key hệ thống"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
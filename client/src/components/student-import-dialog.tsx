@@ -0,0 +1,251 @@
+import { useState, useEffect, useRef } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { StudentImportResult } from "@shared/schema";
+
+interface ImportStudentsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+  // Class the created accounts join as students
+  classId?: string;
+}
+
+/**
+ * Send the roster as the raw request body; the server detects CSV or XLSX.
+ */
+async function uploadRoster(file: File, dryRun: boolean, classId?: string): Promise<StudentImportResult> {
+  const params = new URLSearchParams();
+  if (dryRun) params.set("dryRun", "1");
+  if (classId) params.set("classId", classId);
+  const query = params.toString();
+
+  const res = await fetch(`/api/admin/students/import${query ? `?${query}` : ""}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    let message = "Lỗi nhập danh sách học sinh";
+    try {
+      message = (await res.json()).message || message;
+    } catch {
+      // Keep the generic message
+    }
+    throw new Error(message);
+  }
+  return res.json();
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Credentials sheet of the created accounts, with a BOM so Excel reads the
+ * Vietnamese names as UTF-8.
+ */
+function downloadCredentials(result: StudentImportResult, fileName: string) {
+  const lines = [
+    ["STT", "Họ và tên", "Tên đăng nhập", "Mật khẩu"].join(","),
+    ...result.rows
+      .filter(row => row.status === 'created')
+      .map((row, index) => [index + 1, row.fullName, row.username, row.password ?? ""].map(csvField).join(",")),
+  ];
+  const blob = new Blob(["\uFEFF" + lines.join("\r\n")], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `tai-khoan-${fileName.replace(/\.[^.]+$/, "").replace(/[^a-z0-9]/gi, '_').toLowerCase()}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Bulk-create student accounts from a class roster: the file is checked
+ * first, then imported, and the generated credentials can be downloaded.
+ */
+export function ImportStudentsDialog({ open, onOpenChange, onImported, classId }: ImportStudentsDialogProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<StudentImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setFile(null);
+    setResult(null);
+    setError(null);
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = "";
+    if (!selected) return;
+
+    setFile(selected);
+    setResult(null);
+    setError(null);
+    setIsWorking(true);
+    try {
+      setResult(await uploadRoster(selected, true, classId));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      const imported = await uploadRoster(file, false, classId);
+      setResult(imported);
+      onImported();
+      toast({
+        title: "Thành công",
+        description: `Đã tạo ${imported.created} tài khoản`,
+      });
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const readyCount = result?.rows.filter(row => row.status === 'ready').length ?? 0;
+  const isImported = !!result && !result.dryRun;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Nhập danh sách học sinh</DialogTitle>
+          <DialogDescription>
+            File CSV hoặc Excel (.xlsx) có cột "Họ và tên" (hoặc "Họ" và "Tên"); cột "Tên đăng nhập" và "Mật khẩu" không bắt buộc.
+            Tên đăng nhập và mật khẩu còn trống sẽ được tạo tự động.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <div className="flex items-center gap-3">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isWorking || isImported}>
+              <Upload className="h-4 w-4 mr-2" />
+              Chọn file
+            </Button>
+            {file && (
+              <span className="flex items-center gap-2 text-sm text-gray-600">
+                <FileSpreadsheet className="h-4 w-4" />
+                {file.name}
+              </span>
+            )}
+            {isWorking && <Loader2 className="h-4 w-4 animate-spin text-gray-500" />}
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {result && (
+            <>
+              <div className="flex gap-2 text-sm">
+                <Badge variant="secondary">{result.total} dòng</Badge>
+                {isImported ? (
+                  <Badge>{result.created} đã tạo</Badge>
+                ) : (
+                  <Badge>{readyCount} hợp lệ</Badge>
+                )}
+                {result.failed > 0 && <Badge variant="destructive">{result.failed} lỗi</Badge>}
+              </div>
+
+              <ScrollArea className="h-80 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Dòng</TableHead>
+                      <TableHead>Họ và tên</TableHead>
+                      <TableHead>Tên đăng nhập</TableHead>
+                      {isImported && <TableHead>Mật khẩu</TableHead>}
+                      <TableHead>Kết quả</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map(row => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.fullName || "—"}</TableCell>
+                        <TableCell className="font-mono text-sm">
+                          {row.username || "—"}
+                          {row.status !== 'error' && row.generatedUsername && (
+                            <span className="ml-1 font-sans text-xs text-gray-500">(tự tạo)</span>
+                          )}
+                        </TableCell>
+                        {isImported && <TableCell className="font-mono text-sm">{row.password ?? ""}</TableCell>}
+                        <TableCell>
+                          {row.status === 'error' ? (
+                            <span className="text-sm text-red-600">{row.message}</span>
+                          ) : row.status === 'created' ? (
+                            <Badge>Đã tạo</Badge>
+                          ) : (
+                            <Badge variant="secondary">Hợp lệ</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+
+              {isImported && result.created > 0 && (
+                <p className="text-sm text-amber-700">
+                  Mật khẩu chỉ hiển thị một lần. Hãy tải danh sách tài khoản trước khi đóng cửa sổ này.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Đóng
+          </Button>
+          {isImported ? (
+            <Button onClick={() => downloadCredentials(result!, file?.name ?? "danh-sach")} disabled={result!.created === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Tải danh sách tài khoản
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={isWorking || readyCount === 0}>
+              {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Tạo {readyCount} tài khoản
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
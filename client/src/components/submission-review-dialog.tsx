@@ -0,0 +1,267 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { MathText } from "@/lib/latex-renderer";
+import { GradeBadge, RubricScores, formatScore, gradeStatusLabel } from "@/components/grade-details";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Save, Sparkles } from "lucide-react";
+import { rubricFor } from "@shared/grading";
+import type { GeneratedQuestion, QuestionGrade, QuestionResponse, SubmissionReview } from "@shared/schema";
+
+interface SubmissionReviewDialogProps {
+  assignmentId: string;
+  questions: GeneratedQuestion[];
+  studentId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const verdict = (value: boolean | null | undefined) => value === true ? "Đ" : value === false ? "S" : "—";
+
+// The student's answer in one line, next to the key
+function describeResponse(question: GeneratedQuestion, response: QuestionResponse | undefined): string {
+  if (!response) return "Không trả lời";
+  if (question.clozeBlanks || question.readingQuestions) {
+    const subs = question.clozeBlanks ?? question.readingQuestions ?? [];
+    return subs.map(sub => `(${sub.number}) ${response.subAnswers?.[String(sub.number)] ?? "—"}`).join(", ");
+  }
+  switch (question.type) {
+    case "true_false":
+      return (question.statements ?? []).map((_, index) => `${String.fromCharCode(97 + index)}) ${verdict(response.statements?.[index])}`).join(", ");
+    case "matching":
+      return Object.entries(response.matches ?? {}).map(([left, right]) => `${left} → ${right}`).join("; ") || "Không trả lời";
+    case "ordering":
+      return response.choice ?? (response.order?.map(index => index + 1).join(" – ") || "Không trả lời");
+    case "fill_in_blank":
+      return response.text?.trim() || "Không trả lời";
+    default:
+      return response.choice ?? "Không trả lời";
+  }
+}
+
+function describeKey(question: GeneratedQuestion): string {
+  if (question.clozeBlanks || question.readingQuestions) {
+    const subs = question.clozeBlanks ?? question.readingQuestions ?? [];
+    return subs.map(sub => `(${sub.number}) ${sub.correctAnswer}`).join(", ");
+  }
+  switch (question.type) {
+    case "true_false":
+      return (question.statementAnswers ?? []).map((answer, index) => `${String.fromCharCode(97 + index)}) ${verdict(answer)}`).join(", ");
+    case "matching":
+      return Object.entries(question.correctMatches ?? {}).map(([left, right]) => `${left} → ${right}`).join("; ");
+    case "ordering":
+      return question.options && question.correctAnswer
+        ? question.correctAnswer
+        : (question.correctOrder ?? []).map(index => index + 1).join(" – ");
+    case "fill_in_blank":
+      return (question.blanks ?? []).join(" / ");
+    default:
+      return question.correctAnswer ?? "";
+  }
+}
+
+interface GradeEditorProps {
+  grade: QuestionGrade;
+  isEssay: boolean;
+  isSaving: boolean;
+  onSave: (data: { score: number; feedback?: string }) => void;
+}
+
+// The teacher's own score for one question, replacing the automatic or AI one
+function GradeEditor({ grade, isEssay, isSaving, onSave }: GradeEditorProps) {
+  const [score, setScore] = useState(String(grade.score));
+  const [feedback, setFeedback] = useState(grade.feedback ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setScore(String(grade.score));
+    setFeedback(grade.feedback ?? "");
+  }, [grade]);
+
+  const handleSave = () => {
+    const value = Number(score.replace(",", "."));
+    if (score.trim() === "" || isNaN(value) || value < 0 || value > grade.maxScore) {
+      return setError(`Điểm phải từ 0 đến ${formatScore(grade.maxScore)}`);
+    }
+    setError(null);
+    onSave({ score: value, ...(isEssay && { feedback }) });
+  };
+
+  return (
+    <div className="space-y-2">
+      {isEssay && (
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Nhận xét cho học sinh"
+          rows={3}
+        />
+      )}
+      <div className="flex items-center gap-2">
+        <Input
+          value={score}
+          onChange={(e) => setScore(e.target.value)}
+          inputMode="decimal"
+          className="w-24"
+          aria-label="Điểm"
+        />
+        <span className="text-sm text-gray-500">/ {formatScore(grade.maxScore)} điểm</span>
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Lưu điểm
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * One student's submitted answers with their grade. Essay answers can be
+ * graded with AI against their rubric, and every score can be overridden
+ * before the results are published.
+ */
+export function SubmissionReviewDialog({ assignmentId, questions, studentId, onOpenChange }: SubmissionReviewDialogProps) {
+  const { toast } = useToast();
+  const reviewKey = ["/api/assignments", assignmentId, "students", studentId];
+
+  const { data: review, isLoading, error } = useQuery<SubmissionReview>({
+    queryKey: reviewKey,
+    enabled: !!studentId,
+    staleTime: 0,
+  });
+
+  const applyReview = (updated: SubmissionReview) => {
+    queryClient.setQueryData(reviewKey, updated);
+    queryClient.invalidateQueries({ queryKey: ["/api/assignments", assignmentId], exact: true });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({ title: "Lỗi", description: getErrorMessage(error, fallback), variant: "destructive" });
+  };
+
+  const aiMutation = useMutation({
+    mutationFn: async (questionId?: string) => {
+      const res = await apiRequest("POST", `/api/assignments/${assignmentId}/students/${studentId}/grade-essays`, { questionId });
+      return (await res.json()) as SubmissionReview;
+    },
+    onSuccess: (updated) => {
+      applyReview(updated);
+      toast({ title: "Thành công", description: "AI đã chấm xong, hãy kiểm tra lại điểm trước khi công bố" });
+    },
+    onError: (error) => showError(error, "Lỗi chấm bài bằng AI"),
+  });
+
+  const overrideMutation = useMutation({
+    mutationFn: async ({ questionId, data }: { questionId: string; data: { score: number; feedback?: string } }) => {
+      const res = await apiRequest("PUT", `/api/assignments/${assignmentId}/students/${studentId}/grades/${questionId}`, data);
+      return (await res.json()) as SubmissionReview;
+    },
+    onSuccess: (updated) => {
+      applyReview(updated);
+      toast({ title: "Thành công", description: "Đã lưu điểm" });
+    },
+    onError: (error) => showError(error, "Lỗi lưu điểm"),
+  });
+
+  const grade = review?.grade;
+
+  return (
+    <Dialog open={!!studentId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Bài làm của {review?.fullName ?? review?.username ?? "học sinh"}</DialogTitle>
+          <DialogDescription>
+            {grade
+              ? `${formatScore(grade.score)}/${formatScore(grade.maxScore)} điểm${grade.pendingCount > 0 ? ` · ${grade.pendingCount} câu tự luận chờ chấm` : ""}${review?.publishedAt ? " · Đã công bố" : ""}`
+              : "Đang tải..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12 text-gray-500">
+            <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+            Đang tải...
+          </div>
+        ) : error || !review || !grade ? (
+          <p className="py-12 text-center text-red-600">{getErrorMessage(error, "Lỗi tải bài làm")}</p>
+        ) : (
+          <div className="space-y-4">
+            {grade.pendingCount > 0 && (
+              <Button onClick={() => aiMutation.mutate(undefined)} disabled={aiMutation.isPending}>
+                {aiMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Sparkles className="h-4 w-4 mr-2" />}
+                Chấm {grade.pendingCount} câu tự luận bằng AI
+              </Button>
+            )}
+
+            {questions.map((question, index) => {
+              const questionGrade = grade.questions.find(item => item.questionId === question.id);
+              if (!questionGrade) return null;
+              const response = review.responses[question.id];
+              const isEssay = !!rubricFor(question);
+
+              return (
+                <div key={question.id} className="space-y-3 rounded-md border p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="text-sm line-clamp-3">
+                      <span className="font-bold mr-2">Câu {index + 1}.</span>
+                      <MathText text={question.question} />
+                    </div>
+                    <GradeBadge grade={questionGrade} />
+                  </div>
+
+                  {isEssay ? (
+                    <div className="whitespace-pre-wrap rounded-md bg-muted/50 p-3 text-sm">
+                      {response?.text?.trim() || "Học sinh không làm câu này"}
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                      <div>
+                        <span className="text-gray-500">Trả lời: </span>
+                        <MathText text={describeResponse(question, response)} />
+                      </div>
+                      <div>
+                        <span className="text-gray-500">Đáp án: </span>
+                        <MathText text={describeKey(question)} />
+                      </div>
+                    </div>
+                  )}
+
+                  <RubricScores question={question} grade={questionGrade} />
+
+                  <div className="flex flex-wrap items-end justify-between gap-2">
+                    <GradeEditor
+                      grade={questionGrade}
+                      isEssay={isEssay}
+                      isSaving={overrideMutation.isPending && overrideMutation.variables?.questionId === question.id}
+                      onSave={(data) => overrideMutation.mutate({ questionId: question.id, data })}
+                    />
+                    {isEssay && questionGrade.status !== "unanswered" && questionGrade.status !== "pending" && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => aiMutation.mutate(question.id)}
+                        disabled={aiMutation.isPending}
+                      >
+                        <Sparkles className="h-4 w-4 mr-2" />
+                        Chấm lại bằng AI
+                      </Button>
+                    )}
+                  </div>
+                  {questionGrade.gradedBy && (
+                    <p className="text-xs text-gray-500">
+                      {gradeStatusLabel(questionGrade)} · {questionGrade.gradedBy === "ai" ? "Điểm do AI đề xuất" : "Điểm do giáo viên chấm"}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
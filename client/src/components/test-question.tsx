@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { MathText } from "@/lib/latex-renderer";
+import { ArrowDown, ArrowUp, GripVertical, X } from "lucide-react";
+import type { QuestionResponse, TestQuestion } from "@shared/schema";
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+interface ChoiceInputProps {
+  name: string;
+  options: string[];
+  value: string | undefined;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// One A-D option list answered with a letter
+function ChoiceInput({ name, options, value, onChange, disabled }: ChoiceInputProps) {
+  return (
+    <RadioGroup value={value ?? ""} onValueChange={onChange} disabled={disabled} className="gap-2">
+      {options.map((option, index) => (
+        <label
+          key={index}
+          htmlFor={`${name}-${index}`}
+          className={`flex items-start gap-3 rounded-md border p-3 cursor-pointer ${value === letter(index) ? "border-primary bg-primary/5" : ""}`}
+        >
+          <RadioGroupItem id={`${name}-${index}`} value={letter(index)} className="mt-0.5" />
+          <span className="font-medium">{letter(index)}.</span>
+          <MathText text={option} />
+        </label>
+      ))}
+    </RadioGroup>
+  );
+}
+
+function Passage({ text }: { text: string }) {
+  return (
+    <div className="rounded-md bg-muted/50 p-4 text-sm leading-relaxed max-h-96 overflow-y-auto">
+      <MathText text={text} />
+    </div>
+  );
+}
+
+interface InputProps {
+  question: TestQuestion;
+  response: QuestionResponse;
+  onChange: (response: QuestionResponse) => void;
+  disabled?: boolean;
+}
+
+// Cloze blanks and reading questions share the passage and a letter per number
+function PassageInput({ question, response, onChange, disabled }: InputProps) {
+  const subAnswers = response.subAnswers ?? {};
+  const setSubAnswer = (number: number, value: string) =>
+    onChange({ ...response, subAnswers: { ...subAnswers, [number]: value } });
+
+  return (
+    <div className="space-y-4">
+      {question.passage && <Passage text={question.passage} />}
+      {question.clozeBlanks?.map(blank => (
+        <div key={blank.number} className="space-y-2">
+          <p className="text-sm font-medium">Chỗ trống ({blank.number})</p>
+          <ChoiceInput
+            name={`${question.id}-${blank.number}`}
+            options={blank.options}
+            value={subAnswers[blank.number]}
+            onChange={(value) => setSubAnswer(blank.number, value)}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+      {question.readingQuestions?.map(item => (
+        <div key={item.number} className="space-y-2">
+          <p className="text-sm font-medium">
+            {item.number}. <MathText text={item.question} />
+          </p>
+          <ChoiceInput
+            name={`${question.id}-${item.number}`}
+            options={item.options}
+            value={subAnswers[item.number]}
+            onChange={(value) => setSubAnswer(item.number, value)}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TrueFalseInput({ question, response, onChange, disabled }: InputProps) {
+  const statements = question.statements ?? [];
+  const verdicts = response.statements ?? statements.map(() => null);
+
+  const setVerdict = (index: number, value: boolean) => {
+    const next = statements.map((_, i) => verdicts[i] ?? null);
+    next[index] = value;
+    onChange({ ...response, statements: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      {statements.map((statement, index) => (
+        <div key={index} className="flex items-start justify-between gap-4 rounded-md border p-3">
+          <div className="text-sm">
+            <span className="font-medium mr-1">{String.fromCharCode(97 + index)})</span>
+            <MathText text={statement} />
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <Button
+              type="button"
+              size="sm"
+              variant={verdicts[index] === true ? "default" : "outline"}
+              onClick={() => setVerdict(index, true)}
+              disabled={disabled}
+            >
+              Đúng
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant={verdicts[index] === false ? "default" : "outline"}
+              onClick={() => setVerdict(index, false)}
+              disabled={disabled}
+            >
+              Sai
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Drag an item of the right column onto an item of the left column; on touch
+ * screens tap the item, then the place it belongs.
+ */
+function MatchingInput({ question, response, onChange, disabled }: InputProps) {
+  const [picked, setPicked] = useState<string | null>(null);
+  const matches = response.matches ?? {};
+  const used = new Set(Object.values(matches));
+  const leftItems = question.leftItems ?? [];
+  const rightItems = question.rightItems ?? [];
+
+  const assign = (left: string, right: string) => {
+    const next = Object.fromEntries(Object.entries(matches).filter(([, value]) => value !== right));
+    onChange({ ...response, matches: { ...next, [left]: right } });
+    setPicked(null);
+  };
+
+  const unassign = (left: string) => {
+    const { [left]: _removed, ...rest } = matches;
+    onChange({ ...response, matches: rest });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        {leftItems.map((left, index) => (
+          <div
+            key={left}
+            className="rounded-md border p-3 space-y-2"
+            onDragOver={(e) => !disabled && e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const right = e.dataTransfer.getData("text/plain");
+              if (!disabled && right) assign(left, right);
+            }}
+            onClick={() => !disabled && picked && assign(left, picked)}
+          >
+            <div className="text-sm">
+              <span className="font-medium mr-1">{index + 1}.</span>
+              <MathText text={left} />
+            </div>
+            {matches[left] ? (
+              <div className="flex items-center justify-between rounded bg-primary/10 px-2 py-1 text-sm">
+                <MathText text={matches[left]} />
+                {!disabled && (
+                  <button
+                    type="button"
+                    className="text-gray-500 hover:text-gray-900"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      unassign(left);
+                    }}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className={`rounded border border-dashed px-2 py-1 text-xs text-gray-500 ${picked ? "border-primary" : ""}`}>
+                Kéo đáp án vào đây
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex flex-wrap content-start gap-2">
+        {rightItems.filter(right => !used.has(right)).map(right => (
+          <div
+            key={right}
+            draggable={!disabled}
+            onDragStart={(e) => e.dataTransfer.setData("text/plain", right)}
+            onClick={() => !disabled && setPicked(picked === right ? null : right)}
+            className={`flex items-center gap-1 rounded-md border px-3 py-2 text-sm bg-white ${disabled ? "" : "cursor-grab"} ${picked === right ? "border-primary ring-1 ring-primary" : ""}`}
+          >
+            <GripVertical className="h-4 w-4 text-gray-400" />
+            <MathText text={right} />
+          </div>
+        ))}
+        {used.size === rightItems.length && (
+          <p className="text-sm text-gray-500">Đã ghép hết các đáp án</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Reorder by dragging or with the arrow buttons; the answer is the order of item indices
+function OrderingInput({ question, response, onChange, disabled }: InputProps) {
+  const items = question.items ?? [];
+  const order = response.order?.length === items.length
+    ? response.order
+    : question.itemOrder?.length === items.length ? question.itemOrder : items.map((_, index) => index);
+  const [dragging, setDragging] = useState<number | null>(null);
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange({ ...response, order: next });
+  };
+
+  return (
+    <div className="space-y-2">
+      {order.map((itemIndex, position) => (
+        <div
+          key={itemIndex}
+          draggable={!disabled}
+          onDragStart={() => setDragging(position)}
+          onDragOver={(e) => !disabled && e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragging !== null) move(dragging, position);
+            setDragging(null);
+          }}
+          onDragEnd={() => setDragging(null)}
+          className={`flex items-center gap-3 rounded-md border p-3 bg-white ${dragging === position ? "opacity-50" : ""} ${disabled ? "" : "cursor-grab"}`}
+        >
+          <GripVertical className="h-4 w-4 text-gray-400 shrink-0" />
+          <span className="font-medium text-sm">{position + 1}.</span>
+          <MathText text={items[itemIndex]} className="flex-1 text-sm" />
+          {!disabled && (
+            <div className="flex gap-1">
+              <Button type="button" variant="ghost" size="sm" onClick={() => move(position, position - 1)} disabled={position === 0}>
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => move(position, position + 1)} disabled={position === order.length - 1}>
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function OrderingItems({ items }: { items: string[] }) {
+  return (
+    <ol className="list-decimal pl-6 space-y-1 text-sm">
+      {items.map((item, index) => (
+        <li key={index}><MathText text={item} /></li>
+      ))}
+    </ol>
+  );
+}
+
+interface TestQuestionInputProps {
+  question: TestQuestion;
+  response: QuestionResponse | undefined;
+  onChange: (response: QuestionResponse) => void;
+  disabled?: boolean;
+}
+
+/**
+ * The answer controls for one question of a test, picked by question type.
+ */
+export function TestQuestionInput({ question, response = {}, onChange, disabled }: TestQuestionInputProps) {
+  const props = { question, response, onChange, disabled };
+
+  if (question.clozeBlanks || question.readingQuestions) {
+    return <PassageInput {...props} />;
+  }
+
+  switch (question.type) {
+    case "true_false":
+      return <TrueFalseInput {...props} />;
+    case "matching":
+      return <MatchingInput {...props} />;
+    case "ordering":
+      // Some ordering questions ask which of four sequences is right
+      return question.options ? (
+        <div className="space-y-3">
+          <OrderingItems items={question.items ?? []} />
+          <ChoiceInput
+            name={question.id}
+            options={question.options}
+            value={response.choice}
+            onChange={(choice) => onChange({ ...response, choice })}
+            disabled={disabled}
+          />
+        </div>
+      ) : (
+        <OrderingInput {...props} />
+      );
+    case "fill_in_blank":
+      return (
+        <Input
+          value={response.text ?? ""}
+          onChange={(e) => onChange({ ...response, text: e.target.value })}
+          placeholder="Nhập câu trả lời"
+          disabled={disabled}
+        />
+      );
+    case "essay":
+    case "essay_reading":
+    case "essay_writing":
+      return (
+        <div className="space-y-3">
+          {question.passage && <Passage text={question.passage} />}
+          <Textarea
+            value={response.text ?? ""}
+            onChange={(e) => onChange({ ...response, text: e.target.value })}
+            placeholder="Viết bài làm của bạn"
+            rows={question.type === "essay_writing" ? 14 : 8}
+            disabled={disabled}
+          />
+          <p className="text-xs text-gray-500 text-right">
+            {(response.text ?? "").trim().split(/\s+/).filter(Boolean).length} từ
+          </p>
+        </div>
+      );
+    default:
+      return (
+        <div className="space-y-3">
+          {question.passage && <Passage text={question.passage} />}
+          <ChoiceInput
+            name={question.id}
+            options={question.options ?? []}
+            value={response.choice}
+            onChange={(choice) => onChange({ ...response, choice })}
+            disabled={disabled}
+          />
+        </div>
+      );
+  }
+}
+
+/**
+ * Whether the student gave any answer to the question.
+ */
+export function isAnswered(question: TestQuestion, response: QuestionResponse | undefined): boolean {
+  if (!response) return false;
+  if (question.clozeBlanks || question.readingQuestions) {
+    return Object.keys(response.subAnswers ?? {}).length > 0;
+  }
+  switch (question.type) {
+    case "true_false":
+      return (response.statements ?? []).some(verdict => verdict !== null);
+    case "matching":
+      return Object.keys(response.matches ?? {}).length > 0;
+    case "ordering":
+      return question.options ? !!response.choice : !!response.order;
+    case "fill_in_blank":
+    case "essay":
+    case "essay_reading":
+    case "essay_writing":
+      return !!response.text?.trim();
+    default:
+      return !!response.choice;
+  }
+}
@@ -1,173 +1,128 @@
 import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { hasPermission, type AccountRole, type Permission, type SessionUser } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import {
-  createUserWithEmailAndPassword,
-  signInWithEmailAndPassword,
-  signOut as firebaseSignOut,
-  onAuthStateChanged,
-  User as FirebaseUser
-} from 'firebase/auth';
-import { auth } from '@/lib/firebase';
-
-type User = {
-  id: string;
-  email: string;
-  fullName: string;
-  gradeLevel: string;
-  classNumber: number;
-};
+import { queryClient } from "@/lib/queryClient";
+import { BankManager } from "@/lib/bank-manager";
+import { HistoryManager } from "@/lib/history-manager";
 
 type AuthContextType = {
-  user: User | null;
+  user: SessionUser | null;
   isAuthenticated: boolean;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  register: (data: RegisterData) => Promise<void>;
-  logout: () => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
+  // Resolves false without logging out when queued changes could not reach
+  // the server; logout(true) then logs out and discards them
+  logout: (discardUnsynced?: boolean) => Promise<boolean>;
   checkSession: () => Promise<void>;
+  // Mirrors the server's permission matrix, for showing only usable UI
+  can: (permission: Permission) => boolean;
 };
 
-type RegisterData = {
-  fullName: string;
-  gradeLevel: string;
-  classNumber: number;
-  email: string;
-  password: string;
-  confirmPassword: string;
+export const roleLabels: Record<AccountRole, string> = {
+  admin: "Quản trị viên",
+  teacher: "Giáo viên",
+  student: "Học sinh",
 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+/**
+ * Read the server's message from a failed auth response
+ */
+async function errorMessage(res: Response, fallback: string): Promise<string> {
+  try {
+    const body = await res.json();
+    return body.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Session-based auth against /api/auth/*. The server session is the only
+ * source of truth; accounts are created by admins, so there is no sign-up.
+ */
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
   const checkSession = async () => {
-    setIsLoading(true);
+    try {
+      const res = await fetch("/api/auth/session", { credentials: "include" });
+      setUser(res.ok ? await res.json() : null);
+    } catch (error) {
+      console.error("Error checking session:", error);
+      setUser(null);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   useEffect(() => {
-    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
-      if (firebaseUser) {
-        const userData: User = {
-          id: firebaseUser.uid,
-          email: firebaseUser.email || '',
-          fullName: firebaseUser.displayName || 'User',
-          gradeLevel: 'THPT',
-          classNumber: 12,
-        };
-        setUser(userData);
-      } else {
-        setUser(null);
-      }
-      setIsLoading(false);
-    });
-
-    return () => unsubscribe();
+    checkSession();
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const login = async (username: string, password: string) => {
     try {
-      const userCredential = await signInWithEmailAndPassword(auth, email, password);
+      const res = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), password }),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Đăng nhập thất bại"));
+      }
 
+      setUser(await res.json());
       toast({
         title: "Thành công",
         description: "Đăng nhập thành công",
       });
     } catch (error: any) {
-      let errorMessage = "Đăng nhập thất bại";
-
-      if (error.code === 'auth/invalid-credential' || error.code === 'auth/wrong-password') {
-        errorMessage = "Email hoặc mật khẩu không đúng";
-      } else if (error.code === 'auth/user-not-found') {
-        errorMessage = "Tài khoản không tồn tại";
-      } else if (error.code === 'auth/too-many-requests') {
-        errorMessage = "Quá nhiều lần thử. Vui lòng thử lại sau";
-      }
-
       toast({
         title: "Lỗi",
-        description: errorMessage,
+        description: error.message || "Đăng nhập thất bại",
         variant: "destructive",
       });
       throw error;
     }
   };
 
-  const register = async (data: RegisterData) => {
-    try {
-      if (data.password !== data.confirmPassword) {
-        throw new Error("Mật khẩu xác nhận không khớp");
-      }
-
-      if (data.password.length < 6) {
-        throw new Error("Mật khẩu phải có ít nhất 6 ký tự");
-      }
+  const logout = async (discardUnsynced = false) => {
+    const bankManager = BankManager.getInstance();
+    const historyManager = HistoryManager.getInstance();
 
-      const hasUpperCase = /[A-Z]/.test(data.password);
-      const hasLowerCase = /[a-z]/.test(data.password);
-      const hasNumber = /[0-9]/.test(data.password);
-      const hasSpecialChar = /[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(data.password);
-
-      if (!hasUpperCase || !hasLowerCase || !hasNumber || !hasSpecialChar) {
-        throw new Error("Mật khẩu phải có ít nhất 1 chữ in hoa, 1 chữ thường, 1 số và 1 ký tự đặc biệt");
-      }
-
-      const validGradeLevels = ["Tiểu học", "THCS", "THPT"];
-      if (!validGradeLevels.includes(data.gradeLevel)) {
-        throw new Error("Cấp học không hợp lệ");
-      }
-
-      const classNum = parseInt(data.classNumber.toString());
-      if (isNaN(classNum)) {
-        throw new Error("Lớp học không hợp lệ");
-      }
-
-      if (data.gradeLevel === "Tiểu học" && (classNum < 1 || classNum > 5)) {
-        throw new Error("Lớp học Tiểu học phải từ 1 đến 5");
-      }
-      if (data.gradeLevel === "THCS" && (classNum < 6 || classNum > 9)) {
-        throw new Error("Lớp học THCS phải từ 6 đến 9");
-      }
-      if (data.gradeLevel === "THPT" && (classNum < 10 || classNum > 12)) {
-        throw new Error("Lớp học THPT phải từ 10 đến 12");
+    try {
+      // Send changes still queued for this account before the session ends;
+      // the local caches are cleared on logout, so anything unsent would be lost
+      const synced = await Promise.all([
+        !hasPermission(user?.role, 'banks:manage') || bankManager.sync(),
+        !hasPermission(user?.role, 'history:manage') || historyManager.sync(),
+      ]);
+      if (!discardUnsynced && synced.includes(false)) {
+        return false;
       }
 
-      const userCredential = await createUserWithEmailAndPassword(auth, data.email, data.password);
-
-      toast({
-        title: "Thành công",
-        description: "Đăng ký thành công",
+      const res = await fetch("/api/auth/logout", {
+        method: "POST",
+        credentials: "include",
       });
-    } catch (error: any) {
-      let errorMessage = error.message || "Đăng ký thất bại";
-
-      if (error.code === 'auth/email-already-in-use') {
-        errorMessage = "Email đã được đăng ký";
-      } else if (error.code === 'auth/invalid-email') {
-        errorMessage = "Email không hợp lệ";
-      } else if (error.code === 'auth/weak-password') {
-        errorMessage = "Mật khẩu quá yếu";
+      if (!res.ok) {
+        throw new Error(await errorMessage(res, "Đăng xuất thất bại"));
       }
 
-      toast({
-        title: "Lỗi",
-        description: errorMessage,
-        variant: "destructive",
-      });
-      throw error;
-    }
-  };
-
-  const logout = async () => {
-    try {
-      await firebaseSignOut(auth);
+      bankManager.clearLocalCache();
+      historyManager.clearLocalCache();
+      queryClient.clear();
       setUser(null);
       toast({
         title: "Thành công",
         description: "Đăng xuất thành công",
       });
+      return true;
     } catch (error: any) {
       toast({
         title: "Lỗi",
@@ -185,9 +140,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isAuthenticated: !!user,
         isLoading,
         login,
-        register,
         logout,
         checkSession,
+        can: (permission) => hasPermission(user?.role, permission),
       }}
     >
       {children}
@@ -11,14 +11,37 @@ import {
   questionBankEntrySchema,
   createBankSchema
 } from "@shared/schema";
+import { calculateBankMetadata, filterBanks } from "@shared/bank-utils";
+import { toast } from "@/hooks/use-toast";
+import { SyncQueue } from "./sync-queue";
 
 const BANKS_STORAGE_KEY = "questiongen_banks";
 const BANK_METADATA_STORAGE_KEY = "questiongen_bank_metadata";
+const BANK_SYNC_QUEUE_STORAGE_KEY = "questiongen_bank_sync_queue";
+const BANK_UPLOADED_STORAGE_KEY = "questiongen_banks_uploaded";
 const BANK_STORAGE_VERSION = "1.0";
 const BANKS_LIMIT = 50;
 
+// A change too large for the server is dropped from the queue, so say it was not saved
+function warnDropped(_operation: unknown, status: number): void {
+  if (status !== 413) return;
+  toast({
+    title: "Không thể lưu lên máy chủ",
+    description: "Bộ câu hỏi quá lớn để lưu lên máy chủ nên thay đổi này chưa được lưu.",
+    variant: "destructive",
+  });
+}
+
+/**
+ * Question banks live on the server (/api/banks). localStorage keeps a cache
+ * so reads stay synchronous and the app keeps working offline: every change
+ * is applied to the cache first, then queued and sent to the server. Call
+ * sync() to push queued changes and refresh the cache from the server.
+ */
 export class BankManager {
   private static instance: BankManager;
+  private listeners = new Set<(banks: QuestionBank[]) => void>();
+  private syncQueue = new SyncQueue(BANK_SYNC_QUEUE_STORAGE_KEY, warnDropped);
 
   public static getInstance(): BankManager {
     if (!BankManager.instance) {
@@ -84,27 +107,71 @@ export class BankManager {
    * Calculate bank metadata from entries
    */
   private calculateBankMetadata(bank: QuestionBank): QuestionBank["metadata"] {
-    const totalQuestions = bank.entries.reduce((sum, entry) => sum + entry.questionCount, 0);
-    const totalSets = bank.entries.length;
+    return calculateBankMetadata(bank.entries);
+  }
 
-    const difficultyDistribution: Record<string, number> = {};
-    const questionTypeDistribution: Record<string, number> = {};
+  /**
+   * Push pending changes, upload banks created before server sync existed,
+   * then replace the cache with the server's banks. Resolves false, keeping
+   * the cache and the queue, when the server does not have everything yet.
+   */
+  public async sync(): Promise<boolean> {
+    if (!this.isLocalStorageAvailable()) {
+      return true;
+    }
 
-    bank.entries.forEach(entry => {
-      // Count difficulty distribution
-      difficultyDistribution[entry.difficulty] = (difficultyDistribution[entry.difficulty] || 0) + 1;
+    try {
+      if (!(await this.syncQueue.flush())) {
+        return false;
+      }
 
-      // Count question type distribution
-      entry.questionTypes.forEach(type => {
-        questionTypeDistribution[type] = (questionTypeDistribution[type] || 0) + 1;
-      });
-    });
+      let res = await fetch("/api/banks", { credentials: "include" });
+      if (!res.ok) {
+        return false;
+      }
+      let serverBanks = (await res.json()) as QuestionBank[];
+
+      if (!localStorage.getItem(BANK_UPLOADED_STORAGE_KEY)) {
+        const serverIds = new Set(serverBanks.map(bank => bank.id));
+        const localOnly = this.getBanks().filter(bank => !serverIds.has(bank.id));
+
+        if (localOnly.length > 0) {
+          const uploadRes = await fetch("/api/banks/import", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ banks: localOnly }),
+            credentials: "include",
+          });
+          if (!uploadRes.ok) {
+            return false;
+          }
 
-    return {
-      totalQuestions,
-      totalSets,
-      difficultyDistribution,
-      questionTypeDistribution,
+          res = await fetch("/api/banks", { credentials: "include" });
+          if (!res.ok) {
+            return false;
+          }
+          serverBanks = (await res.json()) as QuestionBank[];
+        }
+        localStorage.setItem(BANK_UPLOADED_STORAGE_KEY, new Date().toISOString());
+      }
+
+      this.saveBanks(serverBanks);
+      const banks = this.getBanks();
+      this.listeners.forEach(listener => listener(banks));
+      return true;
+    } catch (error) {
+      console.warn("Could not sync banks with server:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Get notified whenever sync() refreshes the cache. Returns an unsubscribe function.
+   */
+  public subscribe(listener: (banks: QuestionBank[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
     };
   }
 
@@ -179,6 +246,7 @@ export class BankManager {
       description: bankData.description?.trim(),
       subject: bankData.subject,
       tags: bankData.tags.filter(tag => tag.trim()).map(tag => tag.trim()),
+      classId: bankData.classId ?? undefined,
       entries: [],
       createdAt: now,
       lastModified: now,
@@ -196,6 +264,19 @@ export class BankManager {
     // Add to banks list
     const updatedBanks = [newBank, ...banks].slice(0, BANKS_LIMIT);
     this.saveBanks(updatedBanks);
+    this.syncQueue.enqueue({
+      method: "POST",
+      url: "/api/banks",
+      body: {
+        id: newBank.id,
+        name: newBank.name,
+        description: newBank.description,
+        subject: newBank.subject,
+        tags: newBank.tags,
+        classId: newBank.classId,
+        createdAt: newBank.createdAt,
+      },
+    });
 
     return newBank;
   }
@@ -232,6 +313,7 @@ export class BankManager {
       description: updates.description?.trim() || existingBank.description,
       subject: updates.subject || existingBank.subject,
       tags: updates.tags?.filter(tag => tag.trim()).map(tag => tag.trim()) || existingBank.tags,
+      classId: updates.classId === undefined ? existingBank.classId : updates.classId ?? undefined,
       lastModified: new Date().toISOString(),
     };
 
@@ -243,6 +325,7 @@ export class BankManager {
 
     banks[bankIndex] = updatedBank;
     this.saveBanks(banks);
+    this.syncQueue.enqueue({ method: "PUT", url: `/api/banks/${bankId}`, body: updates });
 
     return updatedBank;
   }
@@ -259,6 +342,7 @@ export class BankManager {
     }
 
     this.saveBanks(filteredBanks);
+    this.syncQueue.enqueue({ method: "DELETE", url: `/api/banks/${bankId}` });
     return true;
   }
 
@@ -304,6 +388,14 @@ export class BankManager {
     const updatedBanks = [duplicatedBank, ...banks].slice(0, BANKS_LIMIT);
     this.saveBanks(updatedBanks);
 
+    // The server assigns its own entry ids to the copy, so refresh afterwards
+    this.syncQueue.enqueue({
+      method: "POST",
+      url: `/api/banks/${bankId}/duplicate`,
+      body: { id: duplicatedBank.id, name: duplicateName },
+    });
+    void this.sync();
+
     return duplicatedBank;
   }
 
@@ -350,10 +442,42 @@ export class BankManager {
 
     banks[bankIndex] = bank;
     this.saveBanks(banks);
+    this.syncQueue.enqueue({ method: "POST", url: `/api/banks/${bankId}/entries`, body: bankEntry });
 
     return bankEntry;
   }
 
+  /**
+   * Add entries read from another format (Moodle XML, QTI) to a bank
+   */
+  public addEntriesToBank(bankId: string, entries: QuestionBankEntry[]): QuestionBankEntry[] {
+    const banks = this.getBanks();
+    const bankIndex = banks.findIndex(bank => bank.id === bankId);
+
+    if (bankIndex === -1) {
+      throw new Error("Không tìm thấy ngân hàng");
+    }
+
+    if (entries.length === 0) {
+      throw new Error("Không có câu hỏi để thêm");
+    }
+
+    const validEntries = entries.map(entry => questionBankEntrySchema.parse(entry) as QuestionBankEntry);
+    const bank = banks[bankIndex];
+
+    bank.entries.unshift(...validEntries);
+    bank.lastModified = new Date().toISOString();
+    bank.metadata = this.calculateBankMetadata(bank);
+
+    banks[bankIndex] = bank;
+    this.saveBanks(banks);
+    validEntries.forEach(entry => {
+      this.syncQueue.enqueue({ method: "POST", url: `/api/banks/${bankId}/entries`, body: entry });
+    });
+
+    return validEntries;
+  }
+
   /**
    * Remove question set from bank
    */
@@ -378,6 +502,7 @@ export class BankManager {
 
     banks[bankIndex] = bank;
     this.saveBanks(banks);
+    this.syncQueue.enqueue({ method: "DELETE", url: `/api/banks/${bankId}/entries/${entryId}` });
 
     return true;
   }
@@ -414,6 +539,7 @@ export class BankManager {
 
     banks[bankIndex] = bank;
     this.saveBanks(banks);
+    this.syncQueue.enqueue({ method: "PUT", url: `/api/banks/${bankId}/entries/${entryId}`, body: updates });
 
     return updatedEntry;
   }
@@ -453,6 +579,11 @@ export class BankManager {
     banks[fromBankIndex] = fromBank;
     banks[toBankIndex] = toBank;
     this.saveBanks(banks);
+    this.syncQueue.enqueue({
+      method: "POST",
+      url: `/api/banks/${fromBankId}/entries/${entryId}/move`,
+      body: { toBankId },
+    });
 
     return true;
   }
@@ -461,57 +592,7 @@ export class BankManager {
    * Search banks
    */
   public searchBanks(query: string, filters?: BankSearchFilters): QuestionBank[] {
-    let banks = this.getBanks();
-
-    // Apply text search
-    if (query.trim()) {
-      const searchTerm = query.toLowerCase().trim();
-      banks = banks.filter(bank =>
-        bank.name.toLowerCase().includes(searchTerm) ||
-        bank.description?.toLowerCase().includes(searchTerm) ||
-        bank.tags.some(tag => tag.toLowerCase().includes(searchTerm)) ||
-        bank.entries.some(entry => 
-          entry.name.toLowerCase().includes(searchTerm) ||
-          entry.topic.toLowerCase().includes(searchTerm)
-        )
-      );
-    }
-
-    // Apply filters
-    if (filters) {
-      if (filters.subject) {
-        banks = banks.filter(bank => bank.subject === filters.subject);
-      }
-
-      if (filters.tags?.length) {
-        banks = banks.filter(bank =>
-          filters.tags!.some(tag => bank.tags.includes(tag))
-        );
-      }
-
-      if (filters.difficulty) {
-        banks = banks.filter(bank =>
-          bank.entries.some(entry => entry.difficulty === filters.difficulty)
-        );
-      }
-
-      if (filters.questionType) {
-        banks = banks.filter(bank =>
-          bank.entries.some(entry => entry.questionTypes.includes(filters.questionType!))
-        );
-      }
-
-      if (filters.dateRange) {
-        const startDate = new Date(filters.dateRange.start);
-        const endDate = new Date(filters.dateRange.end);
-        banks = banks.filter(bank => {
-          const bankDate = new Date(bank.createdAt);
-          return bankDate >= startDate && bankDate <= endDate;
-        });
-      }
-    }
-
-    return banks;
+    return filterBanks(this.getBanks(), query, filters);
   }
 
   /**
@@ -618,6 +699,9 @@ export class BankManager {
         .slice(0, BANKS_LIMIT);
 
       this.saveBanks(limitedBanks);
+      if (validImportedBanks.length > 0) {
+        this.syncQueue.enqueue({ method: "POST", url: "/api/banks/import", body: { banks: validImportedBanks } });
+      }
 
       return {
         success: true,
@@ -638,6 +722,9 @@ export class BankManager {
    */
   public clearAllBanks(): void {
     try {
+      this.getBanks().forEach(bank => {
+        this.syncQueue.enqueue({ method: "DELETE", url: `/api/banks/${bank.id}` });
+      });
       localStorage.removeItem(BANKS_STORAGE_KEY);
       const metadata: QuestionBankMetadata = {
         totalBanks: 0,
@@ -651,6 +738,16 @@ export class BankManager {
     }
   }
 
+  /**
+   * Forget the cached banks and unsent changes, e.g. after logout so the
+   * next account on this browser does not see or replay them
+   */
+  public clearLocalCache(): void {
+    this.syncQueue.clear();
+    localStorage.removeItem(BANKS_STORAGE_KEY);
+    localStorage.removeItem(BANK_METADATA_STORAGE_KEY);
+  }
+
   /**
    * Get storage statistics
    */
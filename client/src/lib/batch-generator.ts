@@ -1,38 +1,35 @@
 import {
   BatchGenerationRequest,
   BatchGenerationConfig,
-  BatchGenerationResult,
-  BatchGenerationError,
   BatchTemplate,
-  InsertQuestionRequest,
-  QuestionRequest,
-  batchGenerationRequestSchema,
   batchTemplateSchema
 } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
-import { HistoryManager } from "@/lib/history-manager";
-import { BankManager } from "@/lib/bank-manager";
+import { RateLimitError, toGenerationError } from "@/lib/question-stream";
 
-const BATCH_STORAGE_KEY = "questiongen_batch_requests";
 const TEMPLATES_STORAGE_KEY = "questiongen_batch_templates";
-const CONCURRENCY_LIMIT = 2; // Maximum concurrent API requests
-const RETRY_LIMIT = 3;
-const RETRY_DELAY = 5000; // 5 seconds
+// Throttled requests are retried after the server's Retry-After, if it is short
+const RATE_LIMIT_RETRIES = 3;
+const MAX_RETRY_AFTER = 60; // seconds
 
 export interface BatchGeneratorEvents {
   onProgress: (batch: BatchGenerationRequest) => void;
   onComplete: (batch: BatchGenerationRequest) => void;
   onError: (batch: BatchGenerationRequest, error: string) => void;
-  onConfigComplete: (batch: BatchGenerationRequest, result: BatchGenerationResult) => void;
-  onConfigError: (batch: BatchGenerationRequest, error: BatchGenerationError) => void;
 }
 
+function isFinished(batch: BatchGenerationRequest): boolean {
+  return batch.status !== 'pending' && batch.status !== 'processing';
+}
+
+/**
+ * Client for batch jobs. Batches run on the server, so they keep going when
+ * the tab is closed; progress arrives over /api/batches/:id/events.
+ * Templates are still kept in localStorage.
+ */
 export class BatchGenerator {
   private static instance: BatchGenerator;
-  private activeBatches = new Map<string, Promise<void>>();
   private eventListeners = new Map<string, Partial<BatchGeneratorEvents>>();
-  private historyManager = HistoryManager.getInstance();
-  private bankManager = BankManager.getInstance();
+  private eventSources = new Map<string, EventSource>();
 
   public static getInstance(): BatchGenerator {
     if (!BatchGenerator.instance) {
@@ -56,120 +53,92 @@ export class BatchGenerator {
   }
 
   /**
-   * Get all batch requests
+   * Call the batch API, throwing the server's message on failure. Backs off
+   * and retries when the server answers 429 with a short Retry-After.
    */
-  public getBatchRequests(): BatchGenerationRequest[] {
-    if (!this.isLocalStorageAvailable()) {
-      return [];
-    }
+  private async request<T>(method: string, url: string, data?: unknown): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      const res = await fetch(url, {
+        method,
+        headers: data ? { "Content-Type": "application/json" } : {},
+        body: data ? JSON.stringify(data) : undefined,
+        credentials: "include",
+      });
 
-    try {
-      const batchStr = localStorage.getItem(BATCH_STORAGE_KEY);
-      if (!batchStr) {
-        return [];
+      if (res.ok) {
+        return res.json() as Promise<T>;
       }
 
-      const batches = JSON.parse(batchStr) as BatchGenerationRequest[];
-      
-      // Validate and sort by creation date
-      const validBatches = batches.filter(batch => {
-        try {
-          batchGenerationRequestSchema.parse(batch);
-          return true;
-        } catch {
-          console.warn("Invalid batch request found:", batch.id);
-          return false;
-        }
-      });
-
-      return validBatches.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-    } catch (error) {
-      console.error("Error loading batch requests:", error);
-      return [];
+      const error = await toGenerationError(res);
+      if (
+        error instanceof RateLimitError &&
+        error.retryAfter <= MAX_RETRY_AFTER &&
+        attempt < RATE_LIMIT_RETRIES
+      ) {
+        await new Promise(resolve => setTimeout(resolve, error.retryAfter * 1000));
+        continue;
+      }
+      throw error;
     }
   }
 
   /**
-   * Save batch requests to localStorage
+   * Get all batch requests, newest first
    */
-  private saveBatchRequests(batches: BatchGenerationRequest[]): void {
-    try {
-      localStorage.setItem(BATCH_STORAGE_KEY, JSON.stringify(batches));
-    } catch (error) {
-      console.error("Error saving batch requests:", error);
-      throw new Error("Không thể lưu yêu cầu batch");
-    }
+  public getBatchRequests(): Promise<BatchGenerationRequest[]> {
+    return this.request('GET', '/api/batches');
   }
 
   /**
    * Get a specific batch request
    */
-  public getBatchRequest(batchId: string): BatchGenerationRequest | null {
-    const batches = this.getBatchRequests();
-    return batches.find(batch => batch.id === batchId) || null;
+  public async getBatchRequest(batchId: string): Promise<BatchGenerationRequest | null> {
+    try {
+      return await this.request('GET', `/api/batches/${batchId}`);
+    } catch {
+      return null;
+    }
   }
 
   /**
-   * Create a new batch generation request
+   * Create a batch generation request; the server starts processing it right away
    */
   public createBatchRequest(
     name: string,
     configs: BatchGenerationConfig[],
     options: BatchGenerationRequest['options']
-  ): BatchGenerationRequest {
-    const now = new Date().toISOString();
-    const batchId = `batch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const batch: BatchGenerationRequest = {
-      id: batchId,
-      name: name.trim(),
-      configs,
-      options,
-      createdAt: now,
-      status: 'pending',
-      progress: {
-        current: 0,
-        total: configs.length,
-      },
-      results: [],
-      errors: [],
-    };
-
-    // Validate the batch
-    batchGenerationRequestSchema.parse(batch);
-
-    // Save to localStorage
-    const batches = this.getBatchRequests();
-    const updatedBatches = [batch, ...batches];
-    this.saveBatchRequests(updatedBatches);
-
-    return batch;
+  ): Promise<BatchGenerationRequest> {
+    return this.request('POST', '/api/batches', { name: name.trim(), configs, options });
   }
 
   /**
-   * Update batch request
+   * Register event listeners for a batch and subscribe to its progress.
+   * Registering again only replaces the listeners.
    */
-  private updateBatchRequest(batchId: string, updates: Partial<BatchGenerationRequest>): BatchGenerationRequest {
-    const batches = this.getBatchRequests();
-    const batchIndex = batches.findIndex(batch => batch.id === batchId);
-    
-    if (batchIndex === -1) {
-      throw new Error("Không tìm thấy batch request");
+  public registerEventListeners(batchId: string, events: Partial<BatchGeneratorEvents>): void {
+    this.eventListeners.set(batchId, events);
+    if (this.eventSources.has(batchId)) {
+      return;
     }
 
-    batches[batchIndex] = { ...batches[batchIndex], ...updates };
-    this.saveBatchRequests(batches);
-    
-    return batches[batchIndex];
-  }
+    const source = new EventSource(`/api/batches/${batchId}/events`, { withCredentials: true });
+    source.onmessage = (event) => {
+      const batch = JSON.parse(event.data) as BatchGenerationRequest;
+      if (!isFinished(batch)) {
+        this.emitEvent(batchId, 'onProgress', batch);
+        return;
+      }
 
-  /**
-   * Register event listeners for a batch
-   */
-  public registerEventListeners(batchId: string, events: Partial<BatchGeneratorEvents>): void {
-    this.eventListeners.set(batchId, events);
+      this.closeEventSource(batchId);
+      if (batch.status === 'failed') {
+        const error = batch.errors[batch.errors.length - 1]?.error || 'Lỗi không xác định';
+        this.emitEvent(batchId, 'onError', batch, error);
+      } else {
+        this.emitEvent(batchId, 'onComplete', batch);
+      }
+    };
+    // EventSource reconnects on its own after network errors
+    this.eventSources.set(batchId, source);
   }
 
   /**
@@ -177,6 +146,12 @@ export class BatchGenerator {
    */
   public unregisterEventListeners(batchId: string): void {
     this.eventListeners.delete(batchId);
+    this.closeEventSource(batchId);
+  }
+
+  private closeEventSource(batchId: string): void {
+    this.eventSources.get(batchId)?.close();
+    this.eventSources.delete(batchId);
   }
 
   /**
@@ -198,305 +173,50 @@ export class BatchGenerator {
   }
 
   /**
-   * Start batch generation
-   */
-  public async startBatch(batchId: string): Promise<void> {
-    const batch = this.getBatchRequest(batchId);
-    if (!batch) {
-      throw new Error("Không tìm thấy batch request");
-    }
-
-    if (this.activeBatches.has(batchId)) {
-      throw new Error("Batch đang được xử lý");
-    }
-
-    const batchPromise = this.processBatch(batch);
-    this.activeBatches.set(batchId, batchPromise);
-
-    try {
-      await batchPromise;
-    } finally {
-      this.activeBatches.delete(batchId);
-    }
-  }
-
-  /**
-   * Cancel batch generation
+   * Cancel batch generation. Subscribers get onComplete from the event stream.
    */
-  public async cancelBatch(batchId: string): Promise<void> {
-    const updatedBatch = this.updateBatchRequest(batchId, { status: 'cancelled' });
-    this.emitEvent(batchId, 'onComplete', updatedBatch);
-  }
-
-  /**
-   * Process batch generation
-   */
-  private async processBatch(batch: BatchGenerationRequest): Promise<void> {
-    try {
-      // Update status to processing
-      let updatedBatch = this.updateBatchRequest(batch.id, {
-        status: 'processing',
-        progress: {
-          ...batch.progress,
-          startedAt: new Date().toISOString(),
-        },
-      });
-
-      this.emitEvent(batch.id, 'onProgress', updatedBatch);
-
-      // Process configs in batches with concurrency limit
-      const configQueue = [...batch.configs];
-      const activePromises: Promise<void>[] = [];
-
-      while (configQueue.length > 0 || activePromises.length > 0) {
-        // Check if batch was cancelled
-        const currentBatch = this.getBatchRequest(batch.id);
-        if (currentBatch?.status === 'cancelled') {
-          break;
-        }
-
-        // Start new configs up to concurrency limit
-        while (configQueue.length > 0 && activePromises.length < CONCURRENCY_LIMIT) {
-          const config = configQueue.shift()!;
-          const promise = this.processConfig(batch.id, config);
-          activePromises.push(promise);
-        }
-
-        // Wait for at least one to complete
-        if (activePromises.length > 0) {
-          await Promise.race(activePromises);
-          
-          // Remove completed promises
-          for (let i = activePromises.length - 1; i >= 0; i--) {
-            const promise = activePromises[i];
-            if (await Promise.race([promise.then(() => true), Promise.resolve(false)])) {
-              activePromises.splice(i, 1);
-            }
-          }
-        }
-      }
-
-      // Wait for all remaining promises
-      await Promise.all(activePromises);
-
-      // Final status update
-      const finalBatch = this.getBatchRequest(batch.id);
-      if (finalBatch && finalBatch.status !== 'cancelled') {
-        const completedCount = finalBatch.results.filter(r => r.status === 'completed').length;
-        const failedCount = finalBatch.results.filter(r => r.status === 'failed').length;
-        
-        const finalStatus = failedCount === 0 ? 'completed' : 
-                           completedCount > 0 ? 'completed' : 'failed';
-
-        const finalUpdatedBatch = this.updateBatchRequest(batch.id, {
-          status: finalStatus,
-          progress: {
-            ...finalBatch.progress,
-            current: finalBatch.configs.length,
-          },
-        });
-
-        this.emitEvent(batch.id, 'onComplete', finalUpdatedBatch);
-
-        // Auto-save to bank if configured
-        if (finalUpdatedBatch.options.autoSaveToBank && completedCount > 0) {
-          await this.autoSaveToBank(finalUpdatedBatch);
-        }
-      }
-
-    } catch (error) {
-      console.error("Error processing batch:", error);
-      const errorBatch = this.updateBatchRequest(batch.id, { status: 'failed' });
-      this.emitEvent(batch.id, 'onError', errorBatch, error instanceof Error ? error.message : 'Lỗi không xác định');
-    }
+  public cancelBatch(batchId: string): Promise<BatchGenerationRequest> {
+    return this.request('POST', `/api/batches/${batchId}/cancel`);
   }
 
   /**
-   * Process individual config with retry logic
+   * Retry failed configs in a batch
    */
-  private async processConfig(batchId: string, config: BatchGenerationConfig): Promise<void> {
-    let retryCount = 0;
-    let lastError: string = '';
-
-    while (retryCount <= RETRY_LIMIT) {
-      try {
-        // Update current config in progress
-        this.updateBatchRequest(batchId, {
-          progress: {
-            ...this.getBatchRequest(batchId)!.progress,
-            currentConfig: config.name,
-          },
-        });
-
-        // Convert config to API request format
-        const requestData: InsertQuestionRequest = {
-          subject: config.subject,
-          difficulty: config.difficulty,
-          topic: config.topic,
-          requirements: config.requirements,
-          questionTypes: config.questionTypes,
-          questionCount: config.questionCount,
-        };
-
-        // Make API request
-        const response = await apiRequest('POST', '/api/questions/generate', requestData);
-        const questionRequest = await response.json() as QuestionRequest;
-
-        // Create successful result
-        const result: BatchGenerationResult = {
-          configId: config.id,
-          configName: config.name,
-          questionRequest,
-          status: 'completed',
-          createdAt: new Date().toISOString(),
-        };
-
-        // Update batch with result
-        const batch = this.getBatchRequest(batchId)!;
-        const updatedResults = [...batch.results.filter(r => r.configId !== config.id), result];
-        const updatedBatch = this.updateBatchRequest(batchId, {
-          results: updatedResults,
-          progress: {
-            ...batch.progress,
-            current: updatedResults.filter(r => r.status === 'completed' || r.status === 'failed').length,
-          },
-        });
-
-        this.emitEvent(batchId, 'onConfigComplete', updatedBatch, result);
-        this.emitEvent(batchId, 'onProgress', updatedBatch);
-
-        // Auto-save to history
-        try {
-          this.historyManager.saveHistoryEntry(questionRequest);
-        } catch (historyError) {
-          console.warn("Failed to save to history:", historyError);
-        }
-
-        return; // Success, exit retry loop
-
-      } catch (error) {
-        retryCount++;
-        lastError = error instanceof Error ? error.message : 'Lỗi không xác định';
-        
-        if (retryCount <= RETRY_LIMIT) {
-          // Wait before retry
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * retryCount));
-        }
-      }
-    }
-
-    // All retries failed, record error
-    const batchError: BatchGenerationError = {
-      configId: config.id,
-      configName: config.name,
-      error: lastError,
-      timestamp: new Date().toISOString(),
-      retryable: true,
-    };
-
-    const failedResult: BatchGenerationResult = {
-      configId: config.id,
-      configName: config.name,
-      questionRequest: {} as QuestionRequest, // Empty placeholder
-      status: 'failed',
-      error: lastError,
-    };
-
-    const batch = this.getBatchRequest(batchId)!;
-    const updatedErrors = [...batch.errors, batchError];
-    const updatedResults = [...batch.results.filter(r => r.configId !== config.id), failedResult];
-    const updatedBatch = this.updateBatchRequest(batchId, {
-      errors: updatedErrors,
-      results: updatedResults,
-      progress: {
-        ...batch.progress,
-        current: updatedResults.filter(r => r.status === 'completed' || r.status === 'failed').length,
-      },
-    });
-
-    this.emitEvent(batchId, 'onConfigError', updatedBatch, batchError);
-    this.emitEvent(batchId, 'onProgress', updatedBatch);
+  public retryFailedConfigs(batchId: string): Promise<BatchGenerationRequest> {
+    return this.request('POST', `/api/batches/${batchId}/retry`);
   }
 
   /**
-   * Auto-save all successful results to a bank
+   * Delete a batch request, cancelling it if still running
    */
-  private async autoSaveToBank(batch: BatchGenerationRequest): Promise<void> {
-    if (!batch.options.autoSaveToBank) return;
-
+  public async deleteBatchRequest(batchId: string): Promise<boolean> {
     try {
-      const bank = this.bankManager.getBank(batch.options.autoSaveToBank);
-      if (!bank) {
-        console.warn("Auto-save bank not found:", batch.options.autoSaveToBank);
-        return;
-      }
-
-      const successfulResults = batch.results.filter(r => r.status === 'completed');
-      
-      for (const result of successfulResults) {
-        try {
-          const entryData = {
-            name: result.configName,
-            tags: batch.options.commonTags || [],
-          };
-          
-          this.bankManager.addQuestionSetToBank(
-            bank.id,
-            result.questionRequest,
-            entryData.name
-          );
-        } catch (error) {
-          console.warn("Failed to auto-save result to bank:", error);
-        }
-      }
+      await this.request('DELETE', `/api/batches/${batchId}`);
     } catch (error) {
-      console.error("Error in auto-save to bank:", error);
-    }
-  }
-
-  /**
-   * Retry failed configs in a batch
-   */
-  public async retryFailedConfigs(batchId: string): Promise<void> {
-    const batch = this.getBatchRequest(batchId);
-    if (!batch) {
-      throw new Error("Không tìm thấy batch request");
-    }
-
-    const failedResults = batch.results.filter(r => r.status === 'failed');
-    if (failedResults.length === 0) {
-      return;
+      console.error("Error deleting batch:", error);
+      return false;
     }
-
-    // Reset failed results and errors
-    const updatedBatch = this.updateBatchRequest(batchId, {
-      status: 'pending',
-      results: batch.results.filter(r => r.status !== 'failed'),
-      errors: batch.errors.filter(e => !failedResults.some(r => r.configId === e.configId)),
-      progress: {
-        ...batch.progress,
-        current: batch.results.filter(r => r.status === 'completed').length,
-      },
-    });
-
-    // Start processing again
-    await this.startBatch(batchId);
+    this.unregisterEventListeners(batchId);
+    return true;
   }
 
   /**
-   * Delete a batch request
+   * Download the completed sets of a batch as a zip of PDFs printed by the server
    */
-  public deleteBatchRequest(batchId: string): boolean {
-    const batches = this.getBatchRequests();
-    const filteredBatches = batches.filter(batch => batch.id !== batchId);
-    
-    if (filteredBatches.length === batches.length) {
-      return false; // Batch not found
+  public async downloadPackage(batch: BatchGenerationRequest): Promise<void> {
+    const res = await fetch(`/api/batches/${batch.id}/package`, { credentials: "include" });
+    if (!res.ok) {
+      throw await toGenerationError(res);
     }
 
-    this.saveBatchRequests(filteredBatches);
-    this.unregisterEventListeners(batchId);
-    return true;
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${batch.name.trim() || "batch"}.zip`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
   }
 
   /**
@@ -681,41 +401,4 @@ export class BatchGenerator {
   public getAllTemplates(): BatchTemplate[] {
     return [...this.getBuiltInTemplates(), ...this.getCustomTemplates()];
   }
-
-  /**
-   * Check if a batch is currently active
-   */
-  public isBatchActive(batchId: string): boolean {
-    return this.activeBatches.has(batchId);
-  }
-
-  /**
-   * Get active batch count
-   */
-  public getActiveBatchCount(): number {
-    return this.activeBatches.size;
-  }
-
-  /**
-   * Clear completed batches older than specified days
-   */
-  public clearOldBatches(daysOld: number = 30): number {
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - daysOld);
-
-    const batches = this.getBatchRequests();
-    const filteredBatches = batches.filter(batch => {
-      const batchDate = new Date(batch.createdAt);
-      return batchDate > cutoffDate || 
-             batch.status === 'processing' || 
-             batch.status === 'pending';
-    });
-
-    const removedCount = batches.length - filteredBatches.length;
-    if (removedCount > 0) {
-      this.saveBatchRequests(filteredBatches);
-    }
-
-    return removedCount;
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,542 @@
+import JSZip from 'jszip';
+import type { QuestionRequest, GeneratedQuestion } from '@shared/schema';
+import { answerKeyCell, createExamVersions, type ExamVersion, type ExamVersionOptions } from '@shared/exam-versions';
+import { escapeXml, latexToOmml } from './latex-omml';
+
+export interface DocxExportOptions {
+  includeAnswers?: boolean;
+  includeExplanations?: boolean;
+  includeHeader?: boolean;
+  versions?: ExamVersionOptions; // export shuffled versions (mã đề) instead of the exam as is
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// A4 with 2 cm margins, in twentieths of a point
+const PAGE_WIDTH = 11906;
+const PAGE_HEIGHT = 16838;
+const PAGE_MARGIN = 1134;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const OPTION_INDENT = 284;
+
+// Inline and display LaTeX, in the delimiters the PDF renderer accepts
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\$([^$]+?)\$|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// Options written with their own label, e.g. "A. whose" in cloze and reading passages
+const OPTION_LABEL = /^\s*[A-Z][.)]\s*/;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // half-points
+  color?: string;
+}
+
+interface ParagraphStyle {
+  align?: 'left' | 'center' | 'both';
+  indent?: number;
+  spacingAfter?: number;
+  pageBreakBefore?: boolean;
+  keepNext?: boolean;
+  tabs?: number[];
+  leftBorder?: string;
+}
+
+export class DocxExporter {
+  private runProperties = (style: RunStyle): string => {
+    const properties = [
+      style.bold ? '<w:b/>' : '',
+      style.italic ? '<w:i/>' : '',
+      style.color ? `<w:color w:val="${style.color}"/>` : '',
+      style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '',
+    ].join('');
+    return properties ? `<w:rPr>${properties}</w:rPr>` : '';
+  };
+
+  private textRun = (text: string, style: RunStyle = {}): string => {
+    return text.split('\n').map((line, index) =>
+      `${index > 0 ? '<w:r><w:br/></w:r>' : ''}${line ? `<w:r>${this.runProperties(style)}<w:t xml:space="preserve">${escapeXml(line)}</w:t></w:r>` : ''}`
+    ).join('');
+  };
+
+  private tabRun = (): string => '<w:r><w:tab/></w:r>';
+
+  /**
+   * Runs for a text with LaTeX fragments: the text as Word runs and every
+   * formula as a native equation. Formulas KaTeX cannot parse keep their
+   * source so nothing is lost.
+   */
+  private richText = (text: string, style: RunStyle = {}): string => {
+    const source = text.replace(/\\n/g, '\n').replace(/<br\s*\/?>/gi, '\n');
+    let result = '';
+    let last = 0;
+    for (const match of Array.from(source.matchAll(MATH_PATTERN))) {
+      result += this.textRun(source.slice(last, match.index), style);
+      const latex = match[1] ?? match[2] ?? match[3] ?? match[4];
+      const display = match[1] !== undefined || match[4] !== undefined;
+      result += latexToOmml(latex.trim(), display) ?? this.textRun(match[0], style);
+      last = match.index! + match[0].length;
+    }
+    return result + this.textRun(source.slice(last), style);
+  };
+
+  private paragraph = (content: string, style: ParagraphStyle = {}): string => {
+    const properties = [
+      style.keepNext ? '<w:keepNext/>' : '',
+      style.pageBreakBefore ? '<w:pageBreakBefore/>' : '',
+      style.leftBorder ? `<w:pBdr><w:left w:val="single" w:sz="18" w:space="8" w:color="${style.leftBorder}"/></w:pBdr>` : '',
+      style.tabs?.length ? `<w:tabs>${style.tabs.map(position => `<w:tab w:val="left" w:pos="${position}"/>`).join('')}</w:tabs>` : '',
+      style.spacingAfter !== undefined ? `<w:spacing w:after="${style.spacingAfter}"/>` : '',
+      style.indent ? `<w:ind w:left="${style.indent}"/>` : '',
+      style.align ? `<w:jc w:val="${style.align}"/>` : '',
+    ].join('');
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`;
+  };
+
+  private table = (rows: string[][], widths: number[], headerRows = 0): string => {
+    const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="333333"/>`;
+    const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('');
+    const total = widths.reduce((sum, width) => sum + width, 0);
+
+    const body = rows.map((cells, rowIndex) => {
+      const isHeader = rowIndex < headerRows;
+      const cellXml = cells.map((content, column) =>
+        `<w:tc><w:tcPr><w:tcW w:w="${widths[column]}" w:type="dxa"/>${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="F5F5F5"/>' : ''}</w:tcPr>`
+        + `${this.paragraph(content, { spacingAfter: 0, align: isHeader ? 'center' : undefined })}</w:tc>`
+      ).join('');
+      return `<w:tr>${isHeader ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cellXml}</w:tr>`;
+    }).join('');
+
+    return `<w:tbl><w:tblPr><w:tblW w:w="${total}" w:type="dxa"/><w:tblInd w:w="${OPTION_INDENT}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders>`
+      + `<w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr>`
+      + `<w:tblGrid>${widths.map(width => `<w:gridCol w:w="${width}"/>`).join('')}</w:tblGrid>${body}</w:tbl>`;
+  };
+
+  /**
+   * A-D options laid out the way Vietnamese exams are typeset: four on one
+   * line when they are short, two per line when medium, one per line
+   * otherwise, aligned on tab stops.
+   */
+  private optionsBlock = (options: string[]): string => {
+    const labelled = options.every(option => OPTION_LABEL.test(option));
+    const texts = options.map(option => labelled ? option.replace(OPTION_LABEL, '') : option);
+    const visibleLength = Math.max(...texts.map(text => text.replace(/\\[a-zA-Z]+|[{}$^_]/g, '').length));
+    const perLine = visibleLength <= 22 ? 4 : visibleLength <= 45 ? 2 : 1;
+    const columnWidth = Math.floor((TEXT_WIDTH - OPTION_INDENT) / perLine);
+    const tabs = Array.from({ length: perLine - 1 }, (_, index) => OPTION_INDENT + (index + 1) * columnWidth);
+
+    let result = '';
+    for (let start = 0; start < texts.length; start += perLine) {
+      const line = texts.slice(start, start + perLine).map((text, offset) =>
+        `${offset > 0 ? this.tabRun() : ''}${this.textRun(`${String.fromCharCode(65 + start + offset)}. `, { bold: true })}${this.richText(text)}`
+      ).join('');
+      result += this.paragraph(line, { indent: OPTION_INDENT, tabs, spacingAfter: 40 });
+    }
+    return result;
+  };
+
+  private passageBlock = (passage: string, color: string): string => {
+    return passage.replace(/\\n/g, '\n').split(/\n+/).filter(line => line.trim())
+      .map(line => this.paragraph(this.richText(line), { indent: OPTION_INDENT * 2, leftBorder: color, align: 'both', spacingAfter: 60 }))
+      .join('');
+  };
+
+  private answerLines = (count: number): string => {
+    return Array.from({ length: count }, () => this.paragraph(this.textRun('.'.repeat(140), { color: '999999' }), { spacingAfter: 0 })).join('');
+  };
+
+  private formatHeader = (questions: QuestionRequest, examCode?: string): string => {
+    const subjectNames: Record<string, string> = {
+      'toan': 'TOÁN HỌC',
+      'ly': 'VẬT LÝ',
+      'hoa': 'HÓA HỌC',
+      'sinh': 'SINH HỌC',
+      'van': 'NGỮ VĂN',
+      'anh': 'TIẾNG ANH',
+      'su': 'LỊCH SỬ',
+      'dia': 'ĐỊA LÝ',
+      'gdcd': 'GIÁO DỤC CÔNG DÂN',
+      'tin': 'TIN HỌC'
+    };
+
+    const difficultyNames: Record<string, string> = {
+      'easy': 'DỄ',
+      'medium': 'TRUNG BÌNH',
+      'hard': 'KHÓ',
+      'expert': 'CHUYÊN GIA',
+      'mixed': 'NHIỀU MỨC ĐỘ'
+    };
+
+    const subjectName = subjectNames[questions.subject] || questions.subject.toUpperCase();
+    const difficultyName = difficultyNames[questions.difficulty] || questions.difficulty;
+    const details = `Độ khó: ${difficultyName} • Số câu: ${questions.generatedQuestions?.length || 0} • Ngày tạo: ${new Date().toLocaleDateString('vi-VN')}`;
+
+    return this.paragraph(this.textRun(`BÀI KIỂM TRA ${subjectName}`, { bold: true, size: 32 }), { align: 'center', spacingAfter: 80 })
+      + this.paragraph(this.richText(`Chủ đề: ${questions.topic}`, { bold: true }), { align: 'center', spacingAfter: 40 })
+      + (examCode ? this.paragraph(this.textRun(`Mã đề: ${examCode}`, { bold: true }), { align: 'center', spacingAfter: 40 }) : '')
+      + this.paragraph(this.textRun(details, { size: 22, color: '666666' }), { align: 'center', spacingAfter: 240 })
+      + this.paragraph(
+        this.textRun('Hướng dẫn: ', { bold: true }) + this.textRun('Đọc kỹ đề bài và chọn đáp án đúng nhất. Ghi rõ lời giải cho các câu tự luận.'),
+        { spacingAfter: 240 }
+      );
+  };
+
+  private formatQuestion = (question: GeneratedQuestion): string => {
+    let result = this.paragraph(
+      this.textRun(`Câu ${question.id}: `, { bold: true }) + this.richText(question.question),
+      { spacingAfter: 80, keepNext: true, align: question.type.startsWith('essay_') ? 'both' : undefined }
+    );
+
+    // Cloze passage: numbered blanks, then the options of each blank
+    if (question.passage && question.clozeBlanks) {
+      let passage = question.passage;
+      question.clozeBlanks.forEach((blank) => {
+        passage = passage.replace(`(${blank.number})`, `(${blank.number}) ______`);
+      });
+      result += this.passageBlock(passage, '007BFF');
+      question.clozeBlanks.forEach((blank) => {
+        result += this.paragraph(this.textRun(`Question ${blank.number}.`, { bold: true }), { indent: OPTION_INDENT, spacingAfter: 40, keepNext: true });
+        result += this.optionsBlock(blank.options);
+      });
+    }
+
+    // Reading passage with its own questions
+    if (question.passage && question.readingQuestions) {
+      result += this.passageBlock(question.passage, '28A745');
+      question.readingQuestions.forEach((readingQ) => {
+        result += this.paragraph(
+          this.textRun(`Question ${readingQ.number}. `, { bold: true }) + this.richText(readingQ.question),
+          { indent: OPTION_INDENT, spacingAfter: 40, keepNext: true }
+        );
+        result += this.optionsBlock(readingQ.options);
+      });
+    }
+
+    if (question.type === 'multiple_choice' && question.options && !question.clozeBlanks && !question.readingQuestions) {
+      result += this.optionsBlock(question.options);
+    }
+
+    if (question.type === 'true_false') {
+      if (question.statements && question.statementAnswers) {
+        const statementWidth = Math.floor((TEXT_WIDTH - OPTION_INDENT) * 0.7);
+        const answerWidth = Math.floor((TEXT_WIDTH - OPTION_INDENT - statementWidth) / 2);
+        const header = ['Mệnh đề', 'Đúng', 'Sai'].map(title => this.textRun(title, { bold: true }));
+        const rows = question.statements.map((statement, idx) => [
+          this.richText(`${String.fromCharCode(97 + idx)}) ${statement}`),
+          '',
+          '',
+        ]);
+        result += this.table([header, ...rows], [statementWidth, answerWidth, answerWidth], 1);
+        result += this.paragraph('', { spacingAfter: 0 });
+      } else {
+        result += this.paragraph(`${this.textRun('A. Đúng')}${this.tabRun()}${this.textRun('B. Sai')}`, {
+          indent: OPTION_INDENT,
+          tabs: [OPTION_INDENT + Math.floor((TEXT_WIDTH - OPTION_INDENT) / 4)],
+        });
+      }
+    }
+
+    if (question.type === 'essay') {
+      result += this.answerLines(3);
+    }
+
+    if (question.type === 'essay_writing') {
+      result += this.paragraph(this.textRun('Khu vực viết đoạn văn nghị luận (khoảng 200 chữ)', { italic: true, size: 22, color: '666666' }), { spacingAfter: 0 });
+      result += this.answerLines(8);
+    }
+
+    if (question.type === 'fill_in_blank') {
+      result += this.paragraph(this.textRun('Điền vào chỗ trống: _________________', { color: '666666' }), { indent: OPTION_INDENT });
+    }
+
+    if (question.type === 'matching' && question.leftItems && question.rightItems) {
+      const columnWidth = Math.floor((TEXT_WIDTH - OPTION_INDENT) / 2);
+      const rowCount = Math.max(question.leftItems.length, question.rightItems.length);
+      const rows = Array.from({ length: rowCount }, (_, idx) => [
+        question.leftItems![idx] !== undefined ? this.richText(`${idx + 1}. ${question.leftItems![idx]}`) : '',
+        question.rightItems![idx] !== undefined ? this.richText(`${String.fromCharCode(65 + idx)}. ${question.rightItems![idx]}`) : '',
+      ]);
+      const header = [this.textRun('Cột A', { bold: true }), this.textRun('Cột B', { bold: true })];
+      result += this.table([header, ...rows], [columnWidth, columnWidth], 1);
+      const placeholders = Array.from({ length: question.leftItems.length }, (_, i) => `${i + 1}-__`).join(', ');
+      result += this.paragraph(this.textRun(`Đáp án: ${placeholders}`), { indent: OPTION_INDENT });
+    }
+
+    if (question.type === 'ordering' && question.items) {
+      result += this.paragraph(this.textRun('Sắp xếp các mục sau theo thứ tự đúng:', { bold: true }), { indent: OPTION_INDENT, spacingAfter: 40, keepNext: true });
+      question.items.forEach((item) => {
+        result += this.paragraph(this.richText(item), { indent: OPTION_INDENT, spacingAfter: 20 });
+      });
+      if (question.options?.length) {
+        result += this.optionsBlock(question.options);
+      }
+    }
+
+    return result + this.paragraph('', { spacingAfter: 120 });
+  };
+
+  private answerText = (question: GeneratedQuestion): string => {
+    if (question.clozeBlanks) {
+      return question.clozeBlanks.map((blank) => `(${blank.number}) ${blank.correctAnswer}`).join(', ');
+    }
+    if (question.readingQuestions) {
+      return question.readingQuestions.map((readingQ) => `${readingQ.number}. ${readingQ.correctAnswer}`).join(', ');
+    }
+    if (question.correctAnswer) {
+      return question.correctAnswer;
+    }
+    if (question.correctMatches && question.type === 'matching') {
+      return Object.entries(question.correctMatches).map(([left, right], idx) => `${idx + 1}→${right}`).join(', ');
+    }
+    if (question.correctOrder && question.type === 'ordering') {
+      return question.correctOrder.map((index, pos) => `${pos + 1}. ${question.items?.[index] || index}`).join(', ');
+    }
+    if (question.blanks && question.type === 'fill_in_blank') {
+      return question.blanks.join(', ');
+    }
+    if (question.statementAnswers && question.type === 'true_false') {
+      return question.statementAnswers.map((answer, idx) => `${String.fromCharCode(97 + idx)}) ${answer ? 'Đúng' : 'Sai'}`).join(', ');
+    }
+    return '';
+  };
+
+  private sectionTitle = (title: string): string => {
+    return this.paragraph(this.textRun(title, { bold: true, size: 28 }), { align: 'center', pageBreakBefore: true, spacingAfter: 240 });
+  };
+
+  private formatAnswerKey = (questions: GeneratedQuestion[]): string => {
+    const answers = questions.map(question => ({ question, text: this.answerText(question) })).filter(item => item.text);
+    if (answers.length === 0) return '';
+
+    return this.sectionTitle('ĐÁP ÁN') + answers.map(({ question, text }) =>
+      this.paragraph(this.textRun(`Câu ${question.id}: `, { bold: true }) + this.richText(text), { spacingAfter: 80 })
+    ).join('');
+  };
+
+  private formatExplanations = (questions: GeneratedQuestion[]): string => {
+    const withExplanations = questions.filter(q => q.explanation || q.statementExplanations?.length);
+    if (withExplanations.length === 0) return '';
+
+    return this.sectionTitle('HƯỚNG DẪN GIẢI') + withExplanations.map((question) => {
+      let result = this.paragraph(this.textRun(`Câu ${question.id}:`, { bold: true }), { spacingAfter: 60, keepNext: true });
+
+      if (question.explanation) {
+        result += question.explanation.replace(/\\n/g, '\n').split(/\n+/).filter(line => line.trim())
+          .map(line => this.paragraph(this.richText(line.replace(/\*\*([^*]+)\*\*/g, '$1')), { align: 'both', spacingAfter: 60 }))
+          .join('');
+      }
+
+      if (question.statementExplanations && question.statements && question.type === 'true_false') {
+        question.statementExplanations.forEach((explanation, idx) => {
+          const verdict = question.statementAnswers?.[idx] ? 'Đúng' : 'Sai';
+          result += this.paragraph(
+            this.textRun(`${String.fromCharCode(97 + idx)}) ${verdict}: `, { bold: true }) + this.richText(explanation),
+            { indent: OPTION_INDENT, spacingAfter: 40 }
+          );
+        });
+      }
+
+      return result + this.paragraph('', { spacingAfter: 120 });
+    }).join('');
+  };
+
+  // Consolidated answer sheet: one row per question, one column per exam code
+  private formatVersionAnswerTable = (versions: ExamVersion[]): string => {
+    const questionCount = versions[0]?.exam.generatedQuestions?.length || 0;
+    const numberWidth = 900;
+    const codeWidth = Math.floor((TEXT_WIDTH - OPTION_INDENT - numberWidth) / versions.length);
+    const header = ['Câu', ...versions.map(version => version.code)].map(title => this.textRun(title, { bold: true }));
+    const rows = Array.from({ length: questionCount }, (_, index) => [
+      this.textRun(String(index + 1), { bold: true }),
+      ...versions.map(version => this.textRun(answerKeyCell(version.exam.generatedQuestions![index]))),
+    ]);
+
+    return this.sectionTitle('BẢNG ĐÁP ÁN CÁC MÃ ĐỀ')
+      + this.table([header, ...rows], [numberWidth, ...versions.map(() => codeWidth)], 1)
+      + this.paragraph('', { spacingAfter: 120 });
+  };
+
+  // Every version on its own pages, then the answer sheet. Explanations are
+  // left out: they may refer to the original option letters.
+  private formatVersions = (questions: QuestionRequest, options: DocxExportOptions): string => {
+    const { includeAnswers = true, includeHeader = true } = options;
+    const versions = createExamVersions(questions, options.versions!);
+
+    let body = versions.map((version, index) => {
+      let section = index > 0 ? this.paragraph('', { pageBreakBefore: true, spacingAfter: 0 }) : '';
+      section += includeHeader
+        ? this.formatHeader(version.exam, version.code)
+        : this.paragraph(this.textRun(`MÃ ĐỀ ${version.code}`, { bold: true }), { align: 'center' });
+      version.exam.generatedQuestions?.forEach((question) => {
+        section += this.formatQuestion(question);
+      });
+      return section;
+    }).join('');
+
+    if (includeAnswers) {
+      body += this.formatVersionAnswerTable(versions);
+    }
+    return body;
+  };
+
+  private formatFooter = (): string => {
+    const currentDateTime = `${new Date().toLocaleDateString('vi-VN')} ${new Date().toLocaleTimeString('vi-VN')}`;
+    return this.paragraph(this.textRun(`Được tạo bởi LimVA • ${currentDateTime}`, { size: 20, color: '666666' }), { align: 'center' });
+  };
+
+  private generateFilename = (questions: QuestionRequest, versionCount = 1): string => {
+    const subjectNames: Record<string, string> = {
+      'toan': 'Toan',
+      'ly': 'VatLy',
+      'hoa': 'HoaHoc',
+      'sinh': 'SinhHoc',
+      'van': 'NguVan',
+      'anh': 'TiengAnh',
+      'su': 'LichSu',
+      'dia': 'DiaLy',
+      'gdcd': 'GDCD',
+      'tin': 'TinHoc'
+    };
+
+    const subject = subjectNames[questions.subject] || questions.subject;
+    const topic = questions.topic
+      .replace(/[^a-zA-Z0-9À-ỹ]/g, '')
+      .substring(0, 20);
+    const date = new Date().getFullYear();
+
+    const versions = versionCount > 1 ? `_${versionCount}MaDe` : '';
+
+    return `${subject}_${topic}_${date}${versions}.docx`;
+  };
+
+  /**
+   * word/document.xml for a question set: header, numbered questions, then
+   * the answer key and explanations on their own pages when requested.
+   */
+  public generateDocumentXml = (
+    questions: QuestionRequest,
+    options: DocxExportOptions = {}
+  ): string => {
+    const {
+      includeAnswers = true,
+      includeExplanations = true,
+      includeHeader = true
+    } = options;
+
+    if (!questions.generatedQuestions?.length) {
+      throw new Error('Không có câu hỏi để xuất Word');
+    }
+
+    let body = '';
+    if ((options.versions?.count ?? 1) > 1) {
+      body = this.formatVersions(questions, options);
+    } else {
+      body = includeHeader ? this.formatHeader(questions) : '';
+      questions.generatedQuestions.forEach((question) => {
+        body += this.formatQuestion(question);
+      });
+      if (includeAnswers) {
+        body += this.formatAnswerKey(questions.generatedQuestions);
+      }
+      if (includeExplanations) {
+        body += this.formatExplanations(questions.generatedQuestions);
+      }
+    }
+    body += this.formatFooter();
+
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+      + ' xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"'
+      + ' xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+      + `<w:body>${body}<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`
+      + `<w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="709" w:footer="709" w:gutter="0"/>`
+      + '</w:sectPr></w:body></w:document>';
+  };
+
+  /**
+   * The .docx package (document, styles and properties) as a zip archive.
+   */
+  public buildPackage = (
+    questions: QuestionRequest,
+    options: DocxExportOptions = {}
+  ): JSZip => {
+    // Folder entries are not package parts; Word expects only the files
+    const zip = new JSZip();
+    const addPart = (name: string, xml: string) => zip.file(name, xml, { createFolders: false });
+    const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+    addPart('[Content_Types].xml', xmlHeader
+      + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+      + '<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>'
+      + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+      + '</Types>');
+
+    addPart('_rels/.rels', xmlHeader
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+      + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+      + '</Relationships>');
+
+    addPart('word/_rels/document.xml.rels', xmlHeader
+      + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+      + '</Relationships>');
+
+    // Times New Roman 13pt is the usual typeface of Vietnamese exam papers
+    addPart('word/styles.xml', xmlHeader
+      + '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+      + '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/>'
+      + '<w:sz w:val="26"/><w:szCs w:val="26"/><w:lang w:val="vi-VN"/></w:rPr></w:rPrDefault>'
+      + '<w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>'
+      + '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>'
+      + '<w:style w:type="table" w:default="1" w:styleId="TableNormal"><w:name w:val="Normal Table"/><w:tblPr><w:tblInd w:w="0" w:type="dxa"/>'
+      + '<w:tblCellMar><w:top w:w="0" w:type="dxa"/><w:left w:w="108" w:type="dxa"/><w:bottom w:w="0" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>'
+      + '</w:styles>');
+
+    addPart('docProps/core.xml', xmlHeader
+      + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"'
+      + ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"'
+      + ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+      + `<dc:title>${escapeXml(questions.customName || questions.topic)}</dc:title><dc:creator>LimVA</dc:creator>`
+      + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</dcterms:created>`
+      + '</cp:coreProperties>');
+
+    addPart('word/document.xml', this.generateDocumentXml(questions, options));
+    return zip;
+  };
+
+  public downloadDocx = async (
+    questions: QuestionRequest,
+    options: DocxExportOptions = {}
+  ): Promise<void> => {
+    if (!questions.generatedQuestions?.length) {
+      throw new Error('Không có câu hỏi để xuất Word');
+    }
+
+    try {
+      const blob = await this.buildPackage(questions, options).generateAsync({
+        type: 'blob',
+        mimeType: DOCX_MIME_TYPE,
+        compression: 'DEFLATE'
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = this.generateFilename(questions, options.versions?.count);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('DOCX export failed:', error);
+      throw new Error('Không thể xuất file Word. Vui lòng thử lại.');
+    }
+  };
+}
+
+// Export singleton instance
+export const docxExporter = new DocxExporter();
@@ -0,0 +1,298 @@
+import JSZip from 'jszip';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { FORMULA_PLACEHOLDER, IMAGE_PLACEHOLDER } from '@shared/exam-import';
+
+// Unicode the equation editor stores that KaTeX should get as commands
+const MATH_SYMBOLS: Record<string, string> = {
+  '≤': '\\le ', '≥': '\\ge ', '≠': '\\ne ', '≈': '\\approx ', '±': '\\pm ', '∓': '\\mp ',
+  '×': '\\times ', '÷': '\\div ', '·': '\\cdot ', '−': '-', '∞': '\\infty ', '°': '^\\circ ',
+  '∈': '\\in ', '∉': '\\notin ', '⊂': '\\subset ', '⊆': '\\subseteq ', '∪': '\\cup ', '∩': '\\cap ',
+  '∅': '\\emptyset ', '∀': '\\forall ', '∃': '\\exists ', '→': '\\to ', '⇒': '\\Rightarrow ',
+  '⇔': '\\Leftrightarrow ', '∠': '\\angle ', '⊥': '\\perp ', '∥': '\\parallel ', '△': '\\triangle ',
+  'α': '\\alpha ', 'β': '\\beta ', 'γ': '\\gamma ', 'δ': '\\delta ', 'Δ': '\\Delta ', 'ε': '\\varepsilon ',
+  'θ': '\\theta ', 'λ': '\\lambda ', 'μ': '\\mu ', 'π': '\\pi ', 'ρ': '\\rho ', 'σ': '\\sigma ',
+  'φ': '\\varphi ', 'ω': '\\omega ', 'Ω': '\\Omega ',
+};
+
+const NARY_COMMANDS: Record<string, string> = {
+  '∑': '\\sum', '∏': '\\prod', '∫': '\\int', '∬': '\\iint', '∭': '\\iiint', '∮': '\\oint', '⋃': '\\bigcup', '⋂': '\\bigcap',
+};
+
+const ACCENT_COMMANDS: Record<string, string> = {
+  '\u0302': '\\hat', '\u0303': '\\tilde', '\u0307': '\\dot', '\u0304': '\\bar', '\u20d7': '\\vec', '\u2192': '\\vec',
+};
+
+function childrenNamed(element: Element, name: string): Element[] {
+  return Array.from(element.children).filter(child => child.nodeName === name);
+}
+
+function child(element: Element, name: string): Element | undefined {
+  return childrenNamed(element, name)[0];
+}
+
+// The w:val/m:val attribute of a property element
+function propertyValue(element: Element | undefined, name: string): string | undefined {
+  const property = element && child(element, name);
+  return property?.getAttribute('m:val') ?? property?.getAttribute('w:val') ?? undefined;
+}
+
+function group(latex: string): string {
+  return `{${latex}}`;
+}
+
+/**
+ * Convert an Office Math (OMML) element to LaTeX, covering what exam
+ * equations use: fractions, scripts, radicals, delimiters, n-ary operators,
+ * accents, function names and matrices.
+ */
+function ommlToLatex(element: Element): string {
+  const arg = (name: string) => {
+    const part = child(element, name);
+    return part ? ommlToLatex(part) : '';
+  };
+
+  switch (element.nodeName) {
+    case 'm:r': {
+      const text = childrenNamed(element, 'm:t').map(node => node.textContent ?? '').join('');
+      return Array.from(text, char => MATH_SYMBOLS[char] ?? char).join('');
+    }
+    case 'm:f':
+      return propertyValue(child(element, 'm:fPr'), 'm:type') === 'lin'
+        ? `${arg('m:num')}/${arg('m:den')}`
+        : `\\frac${group(arg('m:num'))}${group(arg('m:den'))}`;
+    case 'm:sSup':
+      return `${group(arg('m:e'))}^${group(arg('m:sup'))}`;
+    case 'm:sSub':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}`;
+    case 'm:sSubSup':
+      return `${group(arg('m:e'))}_${group(arg('m:sub'))}^${group(arg('m:sup'))}`;
+    case 'm:sPre':
+      return `{}_${group(arg('m:sub'))}^${group(arg('m:sup'))}${arg('m:e')}`;
+    case 'm:rad': {
+      const degree = arg('m:deg');
+      return `\\sqrt${degree ? `[${degree}]` : ''}${group(arg('m:e'))}`;
+    }
+    case 'm:d': {
+      const properties = child(element, 'm:dPr');
+      const open = propertyValue(properties, 'm:begChr') ?? '(';
+      const close = propertyValue(properties, 'm:endChr') ?? ')';
+      const separator = propertyValue(properties, 'm:sepChr') ?? '|';
+      const body = childrenNamed(element, 'm:e').map(ommlToLatex).join(separator);
+      // A lone "{" is how the equation editor writes a system of equations
+      if (open === '{' && !close) {
+        return `\\begin{cases}${body.replace(/^\\begin\{aligned\}([\s\S]*)\\end\{aligned\}$/, '$1')}\\end{cases}`;
+      }
+      const fence = (char: string) => (char === '{' || char === '}' ? `\\${char}` : char || '.');
+      return `\\left${fence(open)}${body}\\right${fence(close)}`;
+    }
+    case 'm:nary': {
+      const operator = propertyValue(child(element, 'm:naryPr'), 'm:chr') ?? '∫';
+      const lower = arg('m:sub');
+      const upper = arg('m:sup');
+      return `${NARY_COMMANDS[operator] ?? operator}${lower ? `_${group(lower)}` : ''}${upper ? `^${group(upper)}` : ''}${group(arg('m:e'))}`;
+    }
+    case 'm:acc': {
+      const accent = propertyValue(child(element, 'm:accPr'), 'm:chr') ?? '\u0302';
+      return `${ACCENT_COMMANDS[accent] ?? '\\hat'}${group(arg('m:e'))}`;
+    }
+    case 'm:bar':
+      return propertyValue(child(element, 'm:barPr'), 'm:pos') === 'bot'
+        ? `\\underline${group(arg('m:e'))}`
+        : `\\overline${group(arg('m:e'))}`;
+    case 'm:func': {
+      const name = arg('m:fName').trim();
+      return `${/^[a-z]+$/.test(name) ? `\\operatorname{${name}}` : name} ${arg('m:e')}`;
+    }
+    case 'm:limLow':
+      return `${arg('m:e').replace(/^lim$/, '\\lim')}_${group(arg('m:lim'))}`;
+    case 'm:limUpp':
+      return `${arg('m:e')}^${group(arg('m:lim'))}`;
+    case 'm:eqArr':
+      return `\\begin{aligned}${childrenNamed(element, 'm:e').map(ommlToLatex).join('\\\\')}\\end{aligned}`;
+    case 'm:m':
+      return `\\begin{matrix}${childrenNamed(element, 'm:mr')
+        .map(row => childrenNamed(row, 'm:e').map(ommlToLatex).join('&'))
+        .join('\\\\')}\\end{matrix}`;
+    default:
+      // m:oMath, m:e, m:num and other containers; *Pr property elements carry no text
+      return Array.from(element.children)
+        .filter(node => !node.nodeName.endsWith('Pr'))
+        .map(ommlToLatex)
+        .join('');
+  }
+}
+
+// Underlined, highlighted or red letters are how many exam files mark the key
+function isMarkedRun(run: Element): boolean {
+  const properties = child(run, 'w:rPr');
+  if (!properties) return false;
+  const underline = propertyValue(properties, 'w:u');
+  if (underline && underline !== 'none') return true;
+  if (child(properties, 'w:highlight')) return true;
+  const color = propertyValue(properties, 'w:color');
+  if (!color || !/^[0-9a-f]{6}$/i.test(color)) return false;
+  const [red, green, blue] = [0, 2, 4].map(offset => parseInt(color.slice(offset, offset + 2), 16));
+  return red >= 0xc0 && green < 0x60 && blue < 0x60;
+}
+
+function runText(run: Element): string {
+  let text = '';
+  for (const node of Array.from(run.children)) {
+    switch (node.nodeName) {
+      case 'w:t': text += node.textContent ?? ''; break;
+      case 'w:tab': text += '\t'; break;
+      case 'w:br':
+      case 'w:cr': text += '\n'; break;
+      case 'w:drawing':
+      case 'w:pict':
+      case 'mc:AlternateContent': text += ` ${IMAGE_PLACEHOLDER} `; break;
+      // OLE objects in exam files are almost always MathType or Equation 3.0
+      case 'w:object': text += ` ${FORMULA_PLACEHOLDER} `; break;
+    }
+  }
+  if (isMarkedRun(run) && /^\s*(?:[A-Da-d]\s*[.)]|[A-D]\s*$)/.test(text)) {
+    return text.replace(/^(\s*)/, '$1*');
+  }
+  return text;
+}
+
+function inlineText(element: Element): string {
+  let text = '';
+  for (const node of Array.from(element.children)) {
+    switch (node.nodeName) {
+      case 'w:r': text += runText(node); break;
+      case 'm:oMath': text += `$${ommlToLatex(node).trim()}$`; break;
+      case 'm:oMathPara':
+        text += childrenNamed(node, 'm:oMath').map(math => `$${ommlToLatex(math).trim()}$`).join(' ');
+        break;
+      case 'w:pPr':
+      case 'w:del': break;
+      // Hyperlinks, tracked insertions, fields, content controls
+      default: text += inlineText(node);
+    }
+  }
+  return text;
+}
+
+function blockLines(element: Element, lines: string[]) {
+  for (const node of Array.from(element.children)) {
+    switch (node.nodeName) {
+      case 'w:p':
+        lines.push(...inlineText(node).split('\n'));
+        break;
+      case 'w:tbl':
+        for (const row of childrenNamed(node, 'w:tr')) {
+          const cells = childrenNamed(row, 'w:tc').map(cell => {
+            const cellLines: string[] = [];
+            blockLines(cell, cellLines);
+            return cellLines.join(' ').replace(/\s+/g, ' ').trim();
+          });
+          lines.push(cells.join('\t'));
+        }
+        break;
+      case 'w:sectPr':
+      case 'w:tcPr':
+        break;
+      default:
+        // w:sdt/w:sdtContent, w:customXml and other wrappers
+        blockLines(node, lines);
+    }
+  }
+}
+
+/**
+ * Rebuild the lines of a PDF page from its positioned text items. pdf.js's
+ * own whitespace items are dropped and the gaps measured instead: wide ones
+ * become tabs so options and key tables keep their columns.
+ */
+function pageLines(items: TextItem[]): string[] {
+  const rows: TextItem[][] = [];
+  const sorted = items
+    .filter(item => item.str.trim().length > 0)
+    .sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    const tolerance = Math.max(item.height, 6) * 0.5;
+    if (row && Math.abs(row[0].transform[5] - item.transform[5]) <= tolerance) row.push(item);
+    else rows.push([item]);
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.transform[4] - b.transform[4]);
+    let line = '';
+    let previous: TextItem | undefined;
+    for (const item of row) {
+      if (previous) {
+        const gap = item.transform[4] - (previous.transform[4] + previous.width);
+        const size = Math.max(item.height, 6);
+        if (gap > size * 2) line += '\t';
+        else if (gap > size * 0.15 && !/\s$/.test(line) && !/^\s/.test(item.str)) line += ' ';
+      }
+      line += item.str;
+      previous = item;
+    }
+    return line;
+  });
+}
+
+export class ExamFileReader {
+  /**
+   * Plain text of a .docx or .pdf exam, one paragraph or table row per line
+   * (table cells separated by tabs). Word equations become $…$ LaTeX.
+   */
+  public readText = async (file: File): Promise<string> => {
+    const name = file.name.toLowerCase();
+    const data = await file.arrayBuffer();
+    if (name.endsWith('.docx')) return this.readDocx(data);
+    if (name.endsWith('.pdf')) return this.readPdf(data);
+    throw new Error('Chỉ hỗ trợ file Word (.docx) hoặc PDF');
+  };
+
+  private readDocx = async (data: ArrayBuffer): Promise<string> => {
+    let xml: string | undefined;
+    try {
+      xml = await (await JSZip.loadAsync(data)).file('word/document.xml')?.async('string');
+    } catch {
+      xml = undefined;
+    }
+    if (!xml) {
+      throw new Error('File Word không hợp lệ. Nếu là file .doc cũ, hãy lưu lại dưới dạng .docx');
+    }
+
+    const xmlDocument = new DOMParser().parseFromString(xml, 'application/xml');
+    const body = xmlDocument.getElementsByTagName('w:body')[0];
+    if (!body || xmlDocument.getElementsByTagName('parsererror').length) {
+      throw new Error('Không đọc được nội dung file Word');
+    }
+    const lines: string[] = [];
+    blockLines(body, lines);
+    return lines.join('\n');
+  };
+
+  private readPdf = async (data: ArrayBuffer): Promise<string> => {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+    const lines: string[] = [];
+    try {
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber);
+        const content = await page.getTextContent();
+        lines.push(...pageLines(content.items.filter((item): item is TextItem => 'str' in item)));
+        page.cleanup();
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    if (!lines.some(line => line.trim())) {
+      throw new Error('File PDF không có lớp chữ (có thể là bản scan), chưa thể nhận dạng');
+    }
+    return lines.join('\n');
+  };
+}
+
+export const examFileReader = new ExamFileReader();
@@ -5,14 +5,24 @@ import {
   QuestionRequest,
   questionHistoryEntrySchema
 } from "@shared/schema";
+import { SyncQueue } from "./sync-queue";
 
 const HISTORY_STORAGE_KEY = "questiongen_history";
 const METADATA_STORAGE_KEY = "questiongen_history_metadata";
+const HISTORY_SYNC_QUEUE_STORAGE_KEY = "questiongen_history_sync_queue";
+const HISTORY_UPLOADED_STORAGE_KEY = "questiongen_history_uploaded";
 const HISTORY_LIMIT = 20;
 const STORAGE_VERSION = "1.0";
 
+/**
+ * Generated sets are recorded on the server for the logged-in account
+ * (/api/history); localStorage keeps the latest entries so the history works
+ * offline and without an account. Renames and deletions are queued for the
+ * server, and sync() refreshes the cache.
+ */
 export class HistoryManager {
   private static instance: HistoryManager;
+  private syncQueue = new SyncQueue(HISTORY_SYNC_QUEUE_STORAGE_KEY);
 
   public static getInstance(): HistoryManager {
     if (!HistoryManager.instance) {
@@ -75,6 +85,62 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * Push pending changes, upload local history the first time an account is
+   * available, then replace the cache with the account's history. Resolves
+   * false, keeping the cache and the queue, when logged out, offline or the
+   * server does not have every entry yet.
+   */
+  public async sync(): Promise<boolean> {
+    if (!this.isLocalStorageAvailable()) {
+      return true;
+    }
+
+    try {
+      if (!(await this.syncQueue.flush())) {
+        return false;
+      }
+
+      const historyUrl = `/api/history?limit=${HISTORY_LIMIT}`;
+      let res = await fetch(historyUrl, { credentials: "include" });
+      if (!res.ok) {
+        return false;
+      }
+
+      if (!localStorage.getItem(HISTORY_UPLOADED_STORAGE_KEY)) {
+        const localEntries = this.getHistoryEntries();
+        if (localEntries.length > 0) {
+          const uploadRes = await fetch("/api/history/import", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ entries: localEntries }),
+            credentials: "include",
+          });
+          if (!uploadRes.ok) {
+            return false;
+          }
+          // Keep the local history until the server has every entry
+          const upload = (await uploadRes.json()) as { importedCount: number; skippedCount: number };
+          if (upload.importedCount + upload.skippedCount < localEntries.length) {
+            console.warn("History import incomplete, keeping local history");
+            return false;
+          }
+          res = await fetch(historyUrl, { credentials: "include" });
+          if (!res.ok) {
+            return false;
+          }
+        }
+        localStorage.setItem(HISTORY_UPLOADED_STORAGE_KEY, new Date().toISOString());
+      }
+
+      this.saveEntries(await res.json());
+      return true;
+    } catch (error) {
+      console.warn("Could not sync history with server:", error);
+      return false;
+    }
+  }
+
   /**
    * Get all history entries
    */
@@ -187,6 +253,11 @@ export class HistoryManager {
     };
 
     this.saveEntries(entries);
+    this.syncQueue.enqueue({
+      method: "PATCH",
+      url: `/api/history/${entryId}`,
+      body: { customName },
+    });
     return entries[entryIndex];
   }
 
@@ -202,6 +273,7 @@ export class HistoryManager {
     }
 
     this.saveEntries(filteredEntries);
+    this.syncQueue.enqueue({ method: "DELETE", url: `/api/history/${entryId}` });
     return true;
   }
 
@@ -210,6 +282,7 @@ export class HistoryManager {
    */
   public clearAllHistory(): void {
     try {
+      this.syncQueue.enqueue({ method: "DELETE", url: "/api/history" });
       localStorage.removeItem(HISTORY_STORAGE_KEY);
       const metadata: QuestionHistoryMetadata = {
         totalEntries: 0,
@@ -223,6 +296,16 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * Forget the cached history and unsent changes, e.g. after logout so the
+   * next account on this browser does not see or replay them
+   */
+  public clearLocalCache(): void {
+    this.syncQueue.clear();
+    localStorage.removeItem(HISTORY_STORAGE_KEY);
+    localStorage.removeItem(METADATA_STORAGE_KEY);
+  }
+
   /**
    * Search history entries
    */
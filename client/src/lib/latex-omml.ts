@@ -0,0 +1,296 @@
+import katex from 'katex';
+
+// LaTeX → Office Math (OMML) for the Word exporter. KaTeX parses the LaTeX
+// and renders MathML, which maps almost one to one onto OMML elements, so
+// equations stay editable in Word instead of being pasted as images.
+
+type MathNode = {
+  tag: string;
+  attrs: Record<string, string>;
+  children: MathNode[];
+  text?: string;
+};
+
+// Big operators whose limits and operand Word lays out as an n-ary structure
+const NARY_OPERATORS = new Set(['∑', '∏', '∐', '∫', '∬', '∭', '∮', '⋃', '⋂', '⋁', '⋀']);
+
+// Limits written under the function name in display style
+const LIMIT_FUNCTIONS = new Set(['lim', 'max', 'min', 'sup', 'inf', 'liminf', 'limsup']);
+
+// Stretchy and spacing accents as the combining characters OMML expects
+const ACCENT_CHARS: Record<string, string> = {
+  '→': '\u20D7',
+  '\u20D7': '\u20D7',
+  '^': '\u0302',
+  'ˆ': '\u0302',
+  '~': '\u0303',
+  '˜': '\u0303',
+  'ˊ': '\u0301',
+  'ˋ': '\u0300',
+  '˙': '\u0307',
+  '¨': '\u0308',
+  'ˇ': '\u030C',
+  '˘': '\u0306',
+};
+
+const BAR_CHARS = new Set(['‾', 'ˉ', '¯', '_']);
+
+// Invisible function application and multiplication signs KaTeX inserts after sin, log...
+const INVISIBLE_OPERATORS = new Set(['\u2061', '\u2062', '\u2063']);
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()]!;
+  });
+}
+
+// KaTeX's MathML is plain well-formed XML, so a small tokenizer is enough and works outside the browser too
+function parseMathml(xml: string): MathNode {
+  const root: MathNode = { tag: '#root', attrs: {}, children: [] };
+  const stack = [root];
+  const pattern = /<(\/?)([a-zA-Z][\w:-]*)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml))) {
+    const [, closing, tag, rawAttrs, selfClosing, text] = match;
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.children.push({ tag: '#text', attrs: {}, children: [], text: decodeEntities(text) });
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else {
+      const attrs: Record<string, string> = {};
+      rawAttrs.replace(/([\w:-]+)="([^"]*)"/g, (_, name: string, value: string) => {
+        attrs[name] = decodeEntities(value);
+        return '';
+      });
+      const node: MathNode = { tag, attrs, children: [] };
+      parent.children.push(node);
+      if (!selfClosing) stack.push(node);
+    }
+  }
+  return root;
+}
+
+function textOf(node: MathNode): string {
+  return node.text ?? node.children.map(textOf).join('');
+}
+
+// Drop the wrappers KaTeX adds around a single element
+function unwrap(node: MathNode): MathNode {
+  let current = node;
+  while ((current.tag === 'mrow' || current.tag === 'mstyle') && current.children.length === 1) {
+    current = current.children[0];
+  }
+  return current;
+}
+
+function mathRun(text: string, properties = '', normalText = false): string {
+  if (!text) return '';
+  const font = normalText ? 'Times New Roman' : 'Cambria Math';
+  return `<m:r>${properties ? `<m:rPr>${properties}</m:rPr>` : ''}<w:rPr><w:rFonts w:ascii="${font}" w:hAnsi="${font}"/></w:rPr><m:t xml:space="preserve">${escapeXml(text)}</m:t></m:r>`;
+}
+
+function identifierRun(node: MathNode, text: string): string {
+  switch (node.attrs.mathvariant) {
+    case 'normal':
+      return mathRun(text, '<m:sty m:val="p"/>');
+    case 'bold':
+      return mathRun(text, '<m:sty m:val="b"/>');
+    case 'bold-italic':
+      return mathRun(text, '<m:sty m:val="bi"/>');
+    case 'double-struck':
+    case 'script':
+    case 'fraktur':
+    case 'monospace':
+    case 'sans-serif':
+      return mathRun(text, `<m:scr m:val="${node.attrs.mathvariant}"/><m:sty m:val="p"/>`);
+    default:
+      // Multi-letter identifiers are function names such as sin or log
+      return mathRun(text, text.length > 1 ? '<m:sty m:val="p"/>' : '');
+  }
+}
+
+/**
+ * Text of an accented letter KaTeX split apart, e.g. "ế" in \text{} arrives
+ * as e + ˆ + ˊ. Returns null when the node is not such a letter.
+ */
+function composedText(node: MathNode): { tag: string; text: string } | null {
+  if (node.tag === 'mtext' || node.tag === 'mi') {
+    return { tag: node.tag, text: textOf(node) };
+  }
+  if (node.tag !== 'mover' || node.attrs.accent !== 'true' || node.children.length !== 2) return null;
+
+  const base = composedText(node.children[0]);
+  const accent = ACCENT_CHARS[textOf(node.children[1])];
+  if (!base || !accent || base.text.length !== 1) return null;
+  const text = (base.text + accent).normalize('NFC');
+  return text.length === 1 ? { tag: base.tag, text } : null;
+}
+
+function isFence(node: MathNode | undefined): boolean {
+  return node?.tag === 'mo' && node.attrs.fence === 'true';
+}
+
+function naryBase(node: MathNode): string | null {
+  if (!['msubsup', 'munderover', 'msub', 'munder', 'msup', 'mover', 'mo'].includes(node.tag)) return null;
+  const base = node.tag === 'mo' ? node : unwrap(node.children[0]);
+  const text = textOf(base);
+  return base.tag === 'mo' && NARY_OPERATORS.has(text) ? text : null;
+}
+
+function naryOperator(node: MathNode, operator: string, operand: string): string {
+  const [, first, second] = node.children;
+  let sub = '';
+  let sup = '';
+  if (node.tag === 'msubsup' || node.tag === 'munderover') {
+    sub = convert(first);
+    sup = convert(second);
+  } else if (node.tag === 'msub' || node.tag === 'munder') {
+    sub = convert(first);
+  } else if (node.tag === 'msup' || node.tag === 'mover') {
+    sup = convert(first);
+  }
+  const location = node.tag.startsWith('mu') || node.tag === 'mover' ? 'undOvr' : 'subSup';
+
+  return `<m:nary><m:naryPr><m:chr m:val="${escapeXml(operator)}"/><m:limLoc m:val="${location}"/>`
+    + `${sub ? '' : '<m:subHide m:val="1"/>'}${sup ? '' : '<m:supHide m:val="1"/>'}</m:naryPr>`
+    + `<m:sub>${sub}</m:sub><m:sup>${sup}</m:sup><m:e>${operand}</m:e></m:nary>`;
+}
+
+function convertRow(children: MathNode[]): string {
+  const items = children.filter(child => child.tag !== 'annotation' && child.tag !== 'annotation-xml');
+
+  // \left ... \right: KaTeX puts each pair in its own row, opening fence first and closing fence last
+  const opens = isFence(items[0]);
+  const closes = items.length > 1 && isFence(items[items.length - 1]);
+  if (opens || closes) {
+    const inner = items.slice(opens ? 1 : 0, closes ? -1 : undefined);
+    const begin = opens ? textOf(items[0]) : '';
+    const end = closes ? textOf(items[items.length - 1]) : '';
+    return `<m:d><m:dPr><m:begChr m:val="${escapeXml(begin)}"/><m:endChr m:val="${escapeXml(end)}"/></m:dPr>`
+      + `<m:e>${convertRow(inner)}</m:e></m:d>`;
+  }
+
+  let result = '';
+  for (let index = 0; index < items.length; index++) {
+    const operator = naryBase(items[index]);
+    if (operator) {
+      // The rest of the row is the operand, as Word does with ∑ and ∫
+      return result + naryOperator(items[index], operator, convertRow(items.slice(index + 1)));
+    }
+    result += convert(items[index]);
+  }
+  return result;
+}
+
+function convertTable(node: MathNode): string {
+  const rows = node.children.filter(child => child.tag === 'mtr');
+  const columns = Math.max(1, ...rows.map(row => row.children.length));
+  const cell = (child: MathNode | undefined) => `<m:e>${child ? convertRow(child.children) : ''}</m:e>`;
+
+  // Systems and cases have one column: an equation array aligns them like Word's own
+  if (columns === 1) {
+    return `<m:eqArr>${rows.map(row => cell(row.children[0])).join('')}</m:eqArr>`;
+  }
+  const body = rows
+    .map(row => `<m:mr>${Array.from({ length: columns }, (_, index) => cell(row.children[index])).join('')}</m:mr>`)
+    .join('');
+  return `<m:m><m:mPr><m:mcs><m:mc><m:mcPr><m:count m:val="${columns}"/><m:mcJc m:val="left"/></m:mcPr></m:mc></m:mcs></m:mPr>${body}</m:m>`;
+}
+
+function convert(node: MathNode | undefined): string {
+  if (!node) return '';
+  const [first, second, third] = node.children;
+
+  switch (node.tag) {
+    case '#text':
+      return mathRun(node.text ?? '');
+    case 'annotation':
+    case 'annotation-xml':
+    case 'mphantom':
+      return '';
+    case 'mi':
+      return identifierRun(node, textOf(node));
+    case 'mn':
+      return mathRun(textOf(node));
+    case 'mo': {
+      const text = textOf(node);
+      return INVISIBLE_OPERATORS.has(text) ? '' : mathRun(text);
+    }
+    case 'mtext':
+      return mathRun(textOf(node), '<m:nor/>', true);
+    case 'mspace':
+      return mathRun(parseFloat(node.attrs.width ?? '0') >= 1 ? '\u2003' : ' ');
+    case 'mfrac': {
+      const noBar = node.attrs.linethickness === '0px' ? '<m:fPr><m:type m:val="noBar"/></m:fPr>' : '';
+      return `<m:f>${noBar}<m:num>${convert(first)}</m:num><m:den>${convert(second)}</m:den></m:f>`;
+    }
+    case 'msqrt':
+      return `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/><m:e>${convertRow(node.children)}</m:e></m:rad>`;
+    case 'mroot':
+      return `<m:rad><m:deg>${convert(second)}</m:deg><m:e>${convert(first)}</m:e></m:rad>`;
+    case 'msup':
+      return `<m:sSup><m:e>${convert(first)}</m:e><m:sup>${convert(second)}</m:sup></m:sSup>`;
+    case 'msub':
+    case 'munder': {
+      const base = textOf(unwrap(first)).replace(/[\u2061-\u2063]/g, '');
+      if (node.tag === 'munder' && BAR_CHARS.has(textOf(second))) {
+        return `<m:bar><m:barPr><m:pos m:val="bot"/></m:barPr><m:e>${convert(first)}</m:e></m:bar>`;
+      }
+      if (node.tag === 'munder' || LIMIT_FUNCTIONS.has(base)) {
+        return `<m:limLow><m:e>${convert(first)}</m:e><m:lim>${convert(second)}</m:lim></m:limLow>`;
+      }
+      return `<m:sSub><m:e>${convert(first)}</m:e><m:sub>${convert(second)}</m:sub></m:sSub>`;
+    }
+    case 'msubsup':
+      return `<m:sSubSup><m:e>${convert(first)}</m:e><m:sub>${convert(second)}</m:sub><m:sup>${convert(third)}</m:sup></m:sSubSup>`;
+    case 'mover': {
+      const letter = composedText(node);
+      if (letter) return letter.tag === 'mtext' ? mathRun(letter.text, '<m:nor/>', true) : mathRun(letter.text);
+      const accent = textOf(second);
+      if (BAR_CHARS.has(accent)) {
+        return `<m:bar><m:barPr><m:pos m:val="top"/></m:barPr><m:e>${convert(first)}</m:e></m:bar>`;
+      }
+      if (node.attrs.accent === 'true') {
+        return `<m:acc><m:accPr><m:chr m:val="${escapeXml(ACCENT_CHARS[accent] ?? accent)}"/></m:accPr><m:e>${convert(first)}</m:e></m:acc>`;
+      }
+      return `<m:limUpp><m:e>${convert(first)}</m:e><m:lim>${convert(second)}</m:lim></m:limUpp>`;
+    }
+    case 'munderover':
+      return `<m:limUpp><m:e><m:limLow><m:e>${convert(first)}</m:e><m:lim>${convert(second)}</m:lim></m:limLow></m:e><m:lim>${convert(third)}</m:lim></m:limUpp>`;
+    case 'mtable':
+      return convertTable(node);
+    default:
+      // math, semantics, mrow, mstyle, mpadded, menclose and anything unknown
+      return convertRow(node.children);
+  }
+}
+
+/**
+ * One LaTeX formula as an OMML <m:oMath> element, or null when KaTeX cannot
+ * parse it (the caller then keeps the source text).
+ */
+export function latexToOmml(latex: string, displayMode = false): string | null {
+  let mathml: string;
+  try {
+    mathml = katex.renderToString(latex, { output: 'mathml', displayMode, throwOnError: true, strict: false });
+  } catch {
+    return null;
+  }
+  const math = parseMathml(mathml).children[0]?.children.find(child => child.tag === 'math');
+  if (!math) return null;
+  return `<m:oMath>${convert(math)}</m:oMath>`;
+}
@@ -1,4 +1,5 @@
-import { useEffect } from "react";
+import { useEffect, useMemo } from "react";
+import katex from "katex";
 import renderMathInElement from "katex/contrib/auto-render";
 
 export function useLatexRenderer() {
@@ -42,3 +43,33 @@ export function LatexRenderer({ children }: { children: React.ReactNode }) {
   useLatexRenderer();
   return <>{children}</>;
 }
+
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\$([^$\n]+?)\$/g;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Text with $...$ / $$...$$ formulas rendered by KaTeX. Unlike
+ * renderMathInElement it renders through React, so it is safe inside
+ * components that re-render, such as the inputs of a test.
+ */
+export function MathText({ text, className }: { text: string; className?: string }) {
+  const html = useMemo(() => {
+    let result = "";
+    let last = 0;
+    for (const match of Array.from(text.matchAll(MATH_PATTERN))) {
+      result += escapeHtml(text.slice(last, match.index));
+      result += katex.renderToString(match[1] ?? match[2], {
+        displayMode: match[1] !== undefined,
+        throwOnError: false,
+        strict: false,
+      });
+      last = match.index! + match[0].length;
+    }
+    return result + escapeHtml(text.slice(last));
+  }, [text]);
+
+  return <span className={`whitespace-pre-wrap ${className ?? ""}`} dangerouslySetInnerHTML={{ __html: html }} />;
+}
@@ -0,0 +1,159 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { JSDOM } from "jsdom";
+import type { GeneratedQuestion, QuestionBank } from "@shared/schema";
+import { lmsConverter, type LmsImportResult } from "./lms-formats";
+
+globalThis.DOMParser = new JSDOM().window.DOMParser;
+
+const questions: GeneratedQuestion[] = [
+  {
+    id: "1",
+    type: "multiple_choice",
+    question: "Nghiệm của phương trình $x^2 = 4$ là",
+    options: ["A. $x = 2$", "B. $x = \\pm 2$", "C. $x = -2$", "D. Vô nghiệm"],
+    correctAnswer: "B",
+    explanation: "Vì $(-2)^2 = 4$",
+  },
+  {
+    id: "2",
+    type: "true_false",
+    question: "Xét hàm số $y = x^3$.",
+    statements: ["Hàm số đồng biến", "Hàm số có cực trị", "Đồ thị đi qua gốc tọa độ", "Hàm số chẵn"],
+    statementAnswers: [true, false, true, false],
+  },
+  {
+    id: "3",
+    type: "true_false",
+    question: "Mệnh đề sau đúng hay sai?",
+    statements: ["Số 7 là số nguyên tố"],
+    statementAnswers: [true],
+  },
+  {
+    id: "4",
+    type: "fill_in_blank",
+    question: "Thủ đô của Việt Nam là _____.",
+    blanks: ["Hà Nội", "Ha Noi"],
+    correctAnswer: "Hà Nội",
+  },
+  {
+    id: "5",
+    type: "matching",
+    question: "Ghép nguyên tố với kí hiệu",
+    leftItems: ["Sắt", "Đồng"],
+    rightItems: ["Fe", "Cu", "Zn"],
+    correctMatches: { "Sắt": "Fe", "Đồng": "Cu" },
+  },
+  {
+    id: "6",
+    type: "ordering",
+    question: "Sắp xếp các bước",
+    items: ["Đun nóng", "Cân mẫu", "Ghi kết quả"],
+    correctOrder: [1, 0, 2],
+  },
+  {
+    id: "7",
+    type: "essay",
+    question: "Trình bày ý nghĩa của quang hợp.",
+    explanation: "Nêu vai trò với sinh giới.",
+  },
+];
+
+const bank = {
+  id: "bank-1",
+  name: "Ngân hàng thử",
+  entries: [{ id: "entry-1", name: "Chương 1", generatedQuestions: questions }],
+} as unknown as QuestionBank;
+
+// What must survive a round trip; items the import shuffles are compared in answer order
+function answerOf(question: GeneratedQuestion) {
+  switch (question.type) {
+    case "matching":
+      return { correctMatches: question.correctMatches, rightItems: [...question.rightItems!].sort() };
+    case "ordering":
+      return { sequence: question.correctOrder!.map((index) => question.items![index]) };
+    case "multiple_choice":
+      return { options: question.options!.map((option) => option.replace(/^[A-D]\. /, "")), correctAnswer: question.correctAnswer };
+    case "true_false":
+      return { statements: question.statements, statementAnswers: question.statementAnswers };
+    case "fill_in_blank":
+      return { blanks: question.blanks };
+    default:
+      return {};
+  }
+}
+
+function assertRoundTrip({ entries, report }: LmsImportResult) {
+  assert.deepEqual(report.skipped, []);
+  assert.equal(entries.length, 1);
+  const imported = entries[0].generatedQuestions;
+  assert.equal(imported.length, questions.length);
+
+  questions.forEach((original, index) => {
+    const question = imported[index];
+    assert.equal(question.type, original.type, `question ${original.id}`);
+    assert.deepEqual(answerOf(question), answerOf(original), `question ${original.id}`);
+  });
+}
+
+test("questions of every exportable type survive Moodle XML", () => {
+  const { content, report } = lmsConverter.toMoodleXml(bank);
+  assert.equal(report.converted, questions.length);
+  assertRoundTrip(lmsConverter.fromMoodleXml(content, { subject: "toan" }));
+});
+
+test("questions of every exportable type survive a QTI package", async () => {
+  const { zip, report } = lmsConverter.toQtiPackage(bank);
+  assert.equal(report.converted, questions.length);
+  const data = await zip.generateAsync({ type: "arraybuffer" });
+  assertRoundTrip(await lmsConverter.fromQti(data, { subject: "toan" }));
+});
+
+test("passage questions are reported as skipped on export", () => {
+  const { report } = lmsConverter.toMoodleXml({
+    ...bank,
+    entries: [{
+      id: "entry-2",
+      name: "Đọc hiểu",
+      generatedQuestions: [{
+        id: "1",
+        type: "multiple_choice_reading1",
+        question: "Read the passage",
+        passage: "A (1) ___ passage.",
+        clozeBlanks: [{ number: 1, options: ["A. a", "B. b", "C. c", "D. d"], correctAnswer: "A" }],
+      }],
+    }],
+  } as unknown as QuestionBank);
+
+  assert.equal(report.converted, 0);
+  assert.equal(report.skipped.length, 1);
+});
+
+test("imported questions the app's schema rejects are skipped, not saved", () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="multichoice">
+    <name><text>Ba phương án</text></name>
+    <questiontext format="html"><text>Chọn một</text></questiontext>
+    <single>true</single>
+    <answer fraction="100" format="html"><text>Một</text></answer>
+    <answer fraction="0" format="html"><text>Hai</text></answer>
+    <answer fraction="0" format="html"><text>Ba</text></answer>
+  </question>
+  <question type="truefalse">
+    <name><text>Đúng sai</text></name>
+    <questiontext format="html"><text>Trái Đất quay quanh Mặt Trời</text></questiontext>
+    <answer fraction="100"><text>true</text></answer>
+    <answer fraction="0"><text>false</text></answer>
+  </question>
+</quiz>`;
+
+  const { entries, report } = lmsConverter.fromMoodleXml(xml, { subject: "ly", name: "Moodle" });
+
+  assert.deepEqual(report.skipped.map((item) => item.source), ["Ba phương án"]);
+  assert.equal(report.converted, 1);
+  const [question] = entries[0].generatedQuestions;
+  assert.equal(question.type, "true_false");
+  assert.deepEqual(question.statements, ["Trái Đất quay quanh Mặt Trời"]);
+  assert.deepEqual(question.statementAnswers, [true]);
+});
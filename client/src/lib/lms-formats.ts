@@ -0,0 +1,871 @@
+import JSZip from 'jszip';
+import { generatedQuestionSchemas, type GeneratedQuestion, type QuestionBank, type QuestionBankEntry } from '@shared/schema';
+import { createRandom, shuffle } from '@shared/exam-builder';
+import { escapeXml } from './latex-omml';
+
+// Question left out of a conversion, or converted with changes, and why
+export type LmsReportItem = {
+  source: string; // "Entry › Câu 3" on export, the question's name in the file on import
+  message: string;
+};
+
+export type LmsReport = {
+  converted: number;
+  skipped: LmsReportItem[];
+  changed: LmsReportItem[];
+};
+
+export type LmsImportResult = {
+  entries: QuestionBankEntry[];
+  report: LmsReport;
+};
+
+export interface LmsImportOptions {
+  subject: string; // neither format records the app's subjects: entries take the target bank's
+  difficulty?: 'easy' | 'medium' | 'hard' | 'expert';
+  name?: string; // entry name for questions outside any Moodle category or QTI section
+}
+
+/**
+ * The kinds of question both formats share. Bank questions are mapped to one
+ * of these before they are written, and read back through them on import.
+ */
+type LmsQuestion = { stem: string; feedback: string } & (
+  | { kind: 'choice'; options: string[]; correct: number }
+  | { kind: 'truefalse'; answer: boolean }
+  | { kind: 'match'; pairs: Array<{ left: string; right: string }>; distractors: string[] }
+  | { kind: 'short'; answers: string[] }
+  | { kind: 'essay' }
+  | { kind: 'order'; items: string[] } // in the correct order
+);
+
+// $$...$$, $...$, \(...\) and \[...\], as written by the generator
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\$([^$]+?)\$|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// Options written with their own label, e.g. "A. whose" in cloze and reading passages
+const OPTION_LABEL = /^\s*[A-Z][.)]\s*/;
+
+// Answers of a four-statement true/false question written as a matching question
+const TRUE_LABEL = 'Đúng';
+const FALSE_LABEL = 'Sai';
+
+// Question of a single-statement true/false, the form a Moodle or QTI true/false takes in a bank
+const SINGLE_STATEMENT_QUESTION = 'Mệnh đề sau đúng hay sai?';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_TEMPLATES = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+const BLOCK_TAGS = new Set(['p', 'div', 'li', 'tr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'table', 'ul', 'ol']);
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function emptyReport(): LmsReport {
+  return { converted: 0, skipped: [], changed: [] };
+}
+
+/**
+ * Text as the HTML both formats carry: formulas in MathJax's \(...\) and
+ * \[...\] delimiters, which Moodle and Canvas render, **bold** as <strong>
+ * and line breaks as <br/>.
+ */
+function toHtml(text: string): string {
+  const source = text.normalize('NFC').replace(/\\n/g, '\n').replace(/<br\s*\/?>/gi, '\n');
+  const plain = (part: string) => escapeXml(part).replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br/>');
+  let result = '';
+  let last = 0;
+  for (const match of Array.from(source.matchAll(MATH_PATTERN))) {
+    result += plain(source.slice(last, match.index));
+    const latex = escapeXml((match[1] ?? match[2] ?? match[3] ?? match[4]).trim());
+    result += match[1] !== undefined || match[4] !== undefined ? `\\[${latex}\\]` : `\\(${latex}\\)`;
+    last = match.index! + match[0].length;
+  }
+  return result + plain(source.slice(last));
+}
+
+// Text of an HTML or QTI XHTML node, with breaks and bold kept the way bank questions write them
+function nodeText(node: Node, skip?: (element: Element) => boolean): string {
+  let result = '';
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === 3 || child.nodeType === 4) {
+      result += child.nodeValue ?? '';
+      return;
+    }
+    if (child.nodeType !== 1) return;
+
+    const element = child as Element;
+    const tag = element.localName.toLowerCase();
+    if (skip?.(element) || tag === 'script' || tag === 'style') return;
+
+    if (tag === 'br') {
+      result += '\n';
+    } else if (tag === 'math') {
+      // MathML from other tools: keep the TeX annotation when there is one
+      const tex = Array.from(element.getElementsByTagName('*'))
+        .find(el => el.localName === 'annotation' && el.getAttribute('encoding') === 'application/x-tex');
+      result += tex ? `$${tex.textContent?.trim()}$` : element.textContent ?? '';
+    } else if (tag === 'strong' || tag === 'b') {
+      const inner = nodeText(element, skip);
+      result += inner.trim() ? `**${inner}**` : inner;
+    } else if (BLOCK_TAGS.has(tag)) {
+      result += `\n${nodeText(element, skip)}\n`;
+    } else {
+      result += nodeText(element, skip);
+    }
+  });
+  return result;
+}
+
+// Extracted text back in bank form: $...$ formulas, one line per paragraph
+function cleanText(text: string): string {
+  return text
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_, latex) => `$${latex.trim()}$`)
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_, latex) => `$$${latex.trim()}$$`)
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n')
+    .normalize('NFC');
+}
+
+function htmlText(html: string): string {
+  if (!html.trim()) return '';
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return cleanText(nodeText(doc.body));
+}
+
+function parseXml(xml: string, format: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`File ${format} không hợp lệ: không đọc được XML`);
+  }
+  return doc;
+}
+
+// Direct children with the given local name (QTI files may use a namespace prefix)
+function children(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function descendants(parent: Element | Document, name: string): Element[] {
+  return Array.from(parent.getElementsByTagName('*')).filter(element => element.localName === name);
+}
+
+function childText(parent: Element, name: string): string {
+  const element = children(parent, name)[0];
+  const text = element ? children(element, 'text')[0] : undefined;
+  return text?.textContent ?? '';
+}
+
+function cdata(html: string): string {
+  return `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// Path of a package file referenced from another file of the package
+function resolvePath(from: string, href: string): string {
+  const parts = from.split('/').slice(0, -1);
+  for (const part of decodeURIComponent(href).split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+export class LmsConverter {
+  /**
+   * The shared form of a bank question, or null when neither format has a
+   * question type for it. Conversions that lose something are reported.
+   */
+  private toLmsQuestion = (question: GeneratedQuestion, source: string, report: LmsReport): LmsQuestion | null => {
+    if (question.clozeBlanks || question.readingQuestions) {
+      report.skipped.push({ source, message: 'Câu hỏi theo đoạn văn (điền khuyết, đọc hiểu) chưa có dạng tương ứng' });
+      return null;
+    }
+
+    let stem = question.question;
+    if (question.passage) {
+      stem += `\n${question.passage}`;
+    }
+    let feedback = question.explanation ?? '';
+    if (question.statementExplanations?.length) {
+      feedback += question.statementExplanations.map((explanation, idx) =>
+        `\n${String.fromCharCode(97 + idx)}) ${question.statementAnswers?.[idx] ? TRUE_LABEL : FALSE_LABEL}: ${explanation}`
+      ).join('');
+    }
+
+    const correct = (question.correctAnswer?.trim().toUpperCase().charCodeAt(0) ?? 0) - 65;
+    const options = question.options?.map(option => option.replace(OPTION_LABEL, '')) ?? [];
+
+    switch (question.type) {
+      case 'multiple_choice':
+        if (options.length < 2 || correct < 0 || correct >= options.length) break;
+        return { kind: 'choice', stem, feedback, options, correct };
+
+      case 'true_false':
+        if (question.statements?.length === 1 && question.statementAnswers?.length === 1) {
+          const statement = question.statements[0];
+          return {
+            kind: 'truefalse',
+            stem: question.question === SINGLE_STATEMENT_QUESTION ? statement : `${stem}\n${statement}`,
+            feedback,
+            answer: question.statementAnswers[0],
+          };
+        }
+        if (question.statements?.length && question.statementAnswers?.length === question.statements.length) {
+          report.changed.push({ source, message: 'Câu đúng/sai nhiều mệnh đề được chuyển thành câu ghép nối với hai đáp án "Đúng" và "Sai"' });
+          const pairs = question.statements.map((statement, idx) => ({
+            left: statement,
+            right: question.statementAnswers![idx] ? TRUE_LABEL : FALSE_LABEL,
+          }));
+          const distractors = [TRUE_LABEL, FALSE_LABEL].filter(label => !pairs.some(pair => pair.right === label));
+          return { kind: 'match', stem, feedback: feedback.trim(), pairs, distractors };
+        }
+        if (question.correctAnswer) {
+          const answer = /^(a|đúng|true)$/i.test(question.correctAnswer.trim());
+          return { kind: 'truefalse', stem, feedback, answer };
+        }
+        break;
+
+      case 'matching': {
+        const pairs = Object.entries(question.correctMatches ?? {}).map(([left, right]) => ({ left, right }));
+        if (pairs.length < 2) break;
+        const matched = new Set(pairs.map(pair => pair.right));
+        const unmatched = (question.leftItems ?? []).filter(item => !(item in question.correctMatches!));
+        if (unmatched.length) {
+          report.changed.push({ source, message: `${unmatched.length} mục ở cột A không có đáp án ghép nối và đã bị bỏ` });
+        }
+        return { kind: 'match', stem, feedback, pairs, distractors: (question.rightItems ?? []).filter(item => !matched.has(item)) };
+      }
+
+      case 'fill_in_blank': {
+        const answers = question.blanks?.length ? question.blanks : question.correctAnswer ? [question.correctAnswer] : [];
+        if (!answers.length) break;
+        return { kind: 'short', stem, feedback, answers };
+      }
+
+      case 'ordering':
+        // "Which option gives the right order" questions are ordinary multiple choice
+        if (options.length >= 2 && correct >= 0 && correct < options.length) {
+          report.changed.push({ source, message: 'Câu sắp xếp dạng chọn phương án được xuất thành câu trắc nghiệm' });
+          return { kind: 'choice', stem: `${stem}\n${(question.items ?? []).join('\n')}`, feedback, options, correct };
+        }
+        if (question.items?.length && question.correctOrder?.length === question.items.length) {
+          return { kind: 'order', stem, feedback, items: question.correctOrder.map(index => question.items![index]) };
+        }
+        break;
+
+      case 'essay':
+      case 'essay_reading':
+      case 'essay_writing':
+        if (question.type !== 'essay') {
+          report.changed.push({ source, message: 'Xuất thành câu tự luận thông thường, không kèm thang điểm chấm' });
+        }
+        return { kind: 'essay', stem, feedback };
+    }
+
+    report.skipped.push({ source, message: 'Thiếu đáp án hoặc dữ liệu câu hỏi không đầy đủ' });
+    return null;
+  };
+
+  /**
+   * A bank question from the shared form. Items the app shows in stored
+   * order (matching answers, ordering items) are shuffled with a fixed seed.
+   */
+  private fromLmsQuestion = (lms: LmsQuestion, id: string): GeneratedQuestion => {
+    const base = { id, question: lms.stem, ...(lms.feedback ? { explanation: lms.feedback } : {}) };
+    const random = createRandom(Number(id) || 1);
+
+    switch (lms.kind) {
+      case 'choice':
+        return { ...base, type: 'multiple_choice', options: lms.options, correctAnswer: letter(lms.correct) };
+
+      case 'truefalse':
+        return {
+          ...base,
+          type: 'true_false',
+          question: SINGLE_STATEMENT_QUESTION,
+          statements: [lms.stem],
+          statementAnswers: [lms.answer],
+        };
+
+      case 'match': {
+        const isTrueFalse = lms.pairs.every(pair => pair.right === TRUE_LABEL || pair.right === FALSE_LABEL)
+          && lms.distractors.every(item => item === TRUE_LABEL || item === FALSE_LABEL);
+        if (isTrueFalse) {
+          return {
+            ...base,
+            type: 'true_false',
+            statements: lms.pairs.map(pair => pair.left),
+            statementAnswers: lms.pairs.map(pair => pair.right === TRUE_LABEL),
+          };
+        }
+        const rightItems = Array.from(new Set([...lms.pairs.map(pair => pair.right), ...lms.distractors]));
+        return {
+          ...base,
+          type: 'matching',
+          leftItems: lms.pairs.map(pair => pair.left),
+          rightItems: shuffle(rightItems, random),
+          correctMatches: Object.fromEntries(lms.pairs.map(pair => [pair.left, pair.right])),
+        };
+      }
+
+      case 'short':
+        return { ...base, type: 'fill_in_blank', blanks: lms.answers, correctAnswer: lms.answers[0] };
+
+      case 'essay':
+        return { ...base, type: 'essay' };
+
+      case 'order': {
+        const items = shuffle(lms.items, random);
+        return { ...base, type: 'ordering', items, correctOrder: lms.items.map(item => items.indexOf(item)) };
+      }
+    }
+  };
+
+  /**
+   * Keep an imported question only if the app's own schema accepts it, e.g.
+   * multiple choice needs exactly four options; the rest are reported as skipped.
+   */
+  private addImported = (lms: LmsQuestion, source: string, questions: GeneratedQuestion[], report: LmsReport): void => {
+    const question = this.fromLmsQuestion(lms, String(questions.length + 1));
+    const parsed = generatedQuestionSchemas[question.type].safeParse(question);
+    if (!parsed.success) {
+      report.skipped.push({ source, message: parsed.error.errors[0]?.message ?? 'Câu hỏi không hợp lệ' });
+      return;
+    }
+    if (lms.kind === 'truefalse') {
+      report.changed.push({ source, message: 'Câu đúng/sai được nhập thành câu đúng/sai một mệnh đề' });
+    }
+    questions.push(question);
+    report.converted++;
+  };
+
+  private createEntry = (name: string, questions: GeneratedQuestion[], tag: string, options: LmsImportOptions): QuestionBankEntry => {
+    const generatedQuestions = questions.map((question, index) => ({ ...question, id: String(index + 1) }));
+    return {
+      id: `entry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name,
+      subject: options.subject,
+      difficulty: options.difficulty ?? 'medium',
+      topic: name,
+      questionTypes: Array.from(new Set(generatedQuestions.map(question => question.type))),
+      questionCount: generatedQuestions.length,
+      generatedQuestions,
+      tags: [tag],
+      addedAt: new Date().toISOString(),
+    };
+  };
+
+  // ---- Moodle XML ----
+
+  private moodleQuestion = (lms: LmsQuestion, name: string): string => {
+    const html = (text: string) => `<text>${cdata(toHtml(text))}</text>`;
+    const types = { choice: 'multichoice', truefalse: 'truefalse', match: 'matching', short: 'shortanswer', essay: 'essay', order: 'ordering' };
+    let xml = `  <question type="${types[lms.kind]}">\n`
+      + `    <name><text>${escapeXml(name)}</text></name>\n`
+      + `    <questiontext format="html">${html(lms.stem)}</questiontext>\n`
+      + `    <generalfeedback format="html">${html(lms.feedback)}</generalfeedback>\n`
+      + '    <defaultgrade>1</defaultgrade>\n    <penalty>0</penalty>\n    <hidden>0</hidden>\n';
+
+    switch (lms.kind) {
+      case 'choice':
+        // Vietnamese options often refer to each other ("Cả A và B đều đúng"), so keep their order
+        xml += '    <single>true</single>\n    <shuffleanswers>false</shuffleanswers>\n    <answernumbering>ABCD</answernumbering>\n';
+        lms.options.forEach((option, index) => {
+          xml += `    <answer fraction="${index === lms.correct ? 100 : 0}" format="html">${html(option)}</answer>\n`;
+        });
+        break;
+
+      case 'truefalse':
+        xml += `    <answer fraction="${lms.answer ? 100 : 0}" format="moodle_auto_format"><text>true</text></answer>\n`;
+        xml += `    <answer fraction="${lms.answer ? 0 : 100}" format="moodle_auto_format"><text>false</text></answer>\n`;
+        break;
+
+      case 'match':
+        xml += '    <shuffleanswers>true</shuffleanswers>\n';
+        lms.pairs.forEach((pair) => {
+          xml += `    <subquestion format="html">${html(pair.left)}<answer><text>${escapeXml(pair.right)}</text></answer></subquestion>\n`;
+        });
+        lms.distractors.forEach((item) => {
+          xml += `    <subquestion format="html"><text></text><answer><text>${escapeXml(item)}</text></answer></subquestion>\n`;
+        });
+        break;
+
+      case 'short':
+        xml += '    <usecase>0</usecase>\n';
+        lms.answers.forEach((answer) => {
+          xml += `    <answer fraction="100" format="moodle_auto_format"><text>${escapeXml(answer)}</text></answer>\n`;
+        });
+        break;
+
+      case 'essay':
+        xml += '    <responseformat>editor</responseformat>\n    <responserequired>1</responserequired>\n'
+          + '    <responsefieldlines>15</responsefieldlines>\n    <attachments>0</attachments>\n'
+          + `    <graderinfo format="html">${html(lms.feedback)}</graderinfo>\n`
+          + '    <responsetemplate format="html"><text></text></responsetemplate>\n';
+        break;
+
+      case 'order':
+        // Fields of the qtype_ordering plugin; answers are listed in the correct order
+        xml += '    <layouttype>VERTICAL</layouttype>\n    <selecttype>ALL</selecttype>\n    <selectcount>0</selectcount>\n'
+          + '    <gradingtype>ABSOLUTE_POSITION</gradingtype>\n    <showgrading>SHOW</showgrading>\n    <numberingstyle>none</numberingstyle>\n';
+        lms.items.forEach((item, index) => {
+          xml += `    <answer fraction="${index + 1}" format="html">${html(item)}</answer>\n`;
+        });
+        break;
+    }
+
+    return xml + '  </question>\n';
+  };
+
+  /**
+   * Moodle XML for every entry of a bank, one question category per entry
+   * under a category named after the bank. Ordering questions need the
+   * qtype_ordering plugin, which most Moodle sites have.
+   */
+  public toMoodleXml = (bank: QuestionBank): { content: string; report: LmsReport } => {
+    const report = emptyReport();
+    let content = '<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n';
+
+    bank.entries.forEach((entry) => {
+      const category = `$course$/top/${bank.name.replace(/\//g, '-')}/${entry.name.replace(/\//g, '-')}`;
+      content += `  <question type="category">\n    <category><text>${escapeXml(category)}</text></category>\n  </question>\n`;
+
+      entry.generatedQuestions.forEach((question) => {
+        const source = `${entry.name} › Câu ${question.id}`;
+        const lms = this.toLmsQuestion(question, source, report);
+        if (!lms) return;
+        if (lms.kind === 'order') {
+          report.changed.push({ source, message: 'Moodle cần plugin qtype_ordering để nhập câu sắp xếp' });
+        }
+        content += this.moodleQuestion(lms, `${entry.name} - Câu ${question.id}`);
+        report.converted++;
+      });
+    });
+
+    return { content: content + '</quiz>\n', report };
+  };
+
+  private readMoodleQuestion = (element: Element, type: string): LmsQuestion | string => {
+    const stem = htmlText(childText(element, 'questiontext'));
+    const feedback = htmlText(childText(element, 'generalfeedback') || childText(element, 'graderinfo'));
+    const answers = children(element, 'answer').map(answer => ({
+      fraction: parseFloat(answer.getAttribute('fraction') ?? '0') || 0,
+      text: answer.getAttribute('format') === 'html'
+        ? htmlText(children(answer, 'text')[0]?.textContent ?? '')
+        : cleanText(children(answer, 'text')[0]?.textContent ?? ''),
+    }));
+
+    switch (type) {
+      case 'multichoice': {
+        const correct = answers.filter(answer => answer.fraction >= 100);
+        const single = children(element, 'single')[0]?.textContent?.trim() !== 'false';
+        if (!single && correct.length !== 1) return 'Câu trắc nghiệm nhiều đáp án đúng chưa được hỗ trợ';
+        if (answers.length < 2 || correct.length !== 1) return 'Không xác định được đáp án đúng duy nhất';
+        return { kind: 'choice', stem, feedback, options: answers.map(answer => answer.text), correct: answers.indexOf(correct[0]) };
+      }
+
+      case 'truefalse': {
+        const correct = answers.find(answer => answer.fraction >= 100);
+        if (!correct) return 'Không xác định được đáp án đúng';
+        return { kind: 'truefalse', stem, feedback, answer: correct.text.toLowerCase() === 'true' };
+      }
+
+      case 'matching': {
+        const subquestions = children(element, 'subquestion').map(sub => ({
+          left: htmlText(children(sub, 'text')[0]?.textContent ?? ''),
+          right: cleanText(childText(sub, 'answer')),
+        }));
+        const pairs = subquestions.filter(sub => sub.left);
+        if (pairs.length < 2) return 'Câu ghép nối cần ít nhất hai cặp';
+        return { kind: 'match', stem, feedback, pairs, distractors: subquestions.filter(sub => !sub.left).map(sub => sub.right) };
+      }
+
+      case 'shortanswer': {
+        const accepted = answers.filter(answer => answer.fraction >= 100 && answer.text && answer.text !== '*');
+        if (!accepted.length) return 'Không có đáp án được chấm đủ điểm';
+        return { kind: 'short', stem, feedback, answers: accepted.map(answer => answer.text) };
+      }
+
+      case 'essay':
+        return { kind: 'essay', stem, feedback };
+
+      case 'ordering':
+        if (answers.length < 2) return 'Câu sắp xếp cần ít nhất hai mục';
+        return { kind: 'order', stem, feedback, items: answers.map(answer => answer.text) };
+
+      case 'description':
+        return 'Đoạn mô tả, không phải câu hỏi';
+
+      default:
+        return `Loại câu hỏi Moodle "${type}" chưa được hỗ trợ`;
+    }
+  };
+
+  /**
+   * Bank entries from a Moodle XML export, one entry per question category;
+   * questions before the first category go to an entry named `options.name`.
+   */
+  public fromMoodleXml = (xml: string, options: LmsImportOptions): LmsImportResult => {
+    const doc = parseXml(xml, 'Moodle XML');
+    if (doc.documentElement.localName !== 'quiz') {
+      throw new Error('File không phải định dạng Moodle XML (thiếu thẻ <quiz>)');
+    }
+
+    const report = emptyReport();
+    const groups = new Map<string, GeneratedQuestion[]>();
+    let category = options.name || 'Moodle';
+
+    children(doc.documentElement, 'question').forEach((element, index) => {
+      const type = element.getAttribute('type') ?? '';
+      if (type === 'category') {
+        const path = childText(element, 'category').split('/').map(part => part.trim()).filter(Boolean);
+        category = path.length ? path[path.length - 1] : category;
+        return;
+      }
+
+      const source = childText(element, 'name').trim() || `Câu ${index + 1}`;
+      const lms = this.readMoodleQuestion(element, type);
+      if (typeof lms === 'string') {
+        report.skipped.push({ source, message: lms });
+        return;
+      }
+      if (!lms.stem) {
+        report.skipped.push({ source, message: 'Câu hỏi không có nội dung' });
+        return;
+      }
+      const questions = groups.get(category) ?? [];
+      this.addImported(lms, source, questions, report);
+      if (questions.length) groups.set(category, questions);
+    });
+
+    const entries = Array.from(groups, ([name, questions]) => this.createEntry(name, questions, 'moodle', options));
+    return { entries, report };
+  };
+
+  // ---- IMS QTI 2.1 ----
+
+  private qtiItem = (lms: LmsQuestion, identifier: string, title: string): string => {
+    const paragraph = (text: string) => `<p>${toHtml(text)}</p>`;
+    let declaration = '';
+    let interaction = '';
+    let template = 'match_correct';
+
+    switch (lms.kind) {
+      case 'choice':
+      case 'truefalse': {
+        const options = lms.kind === 'choice' ? lms.options : [TRUE_LABEL, FALSE_LABEL];
+        const correct = lms.kind === 'choice' ? lms.correct : lms.answer ? 0 : 1;
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">`
+          + `<correctResponse><value>CHOICE_${letter(correct)}</value></correctResponse></responseDeclaration>`;
+        interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">`
+          + options.map((option, index) => `<simpleChoice identifier="CHOICE_${letter(index)}">${toHtml(option)}</simpleChoice>`).join('')
+          + '</choiceInteraction>';
+        break;
+      }
+
+      case 'match': {
+        const targets = Array.from(new Set([...lms.pairs.map(pair => pair.right), ...lms.distractors]));
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair"><correctResponse>`
+          + lms.pairs.map((pair, index) => `<value>SOURCE_${index + 1} TARGET_${targets.indexOf(pair.right) + 1}</value>`).join('')
+          + '</correctResponse></responseDeclaration>';
+        interaction = `<matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${lms.pairs.length}"><simpleMatchSet>`
+          + lms.pairs.map((pair, index) => `<simpleAssociableChoice identifier="SOURCE_${index + 1}" matchMax="1">${toHtml(pair.left)}</simpleAssociableChoice>`).join('')
+          + '</simpleMatchSet><simpleMatchSet>'
+          + targets.map((target, index) => `<simpleAssociableChoice identifier="TARGET_${index + 1}" matchMax="${lms.pairs.length}">${toHtml(target)}</simpleAssociableChoice>`).join('')
+          + '</simpleMatchSet></matchInteraction>';
+        break;
+      }
+
+      case 'short':
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">`
+          + `<correctResponse><value>${escapeXml(lms.answers[0])}</value></correctResponse>`
+          + `<mapping defaultValue="0">${lms.answers.map(answer => `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="1"/>`).join('')}</mapping>`
+          + '</responseDeclaration>';
+        interaction = '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="30"/></p>';
+        template = 'map_response';
+        break;
+
+      case 'essay':
+        declaration = '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>';
+        interaction = '<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="15"/>';
+        template = '';
+        break;
+
+      case 'order':
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier"><correctResponse>`
+          + lms.items.map((_, index) => `<value>ITEM_${index + 1}</value>`).join('')
+          + '</correctResponse></responseDeclaration>';
+        interaction = `<orderInteraction responseIdentifier="RESPONSE" shuffle="true">`
+          + lms.items.map((item, index) => `<simpleChoice identifier="ITEM_${index + 1}">${toHtml(item)}</simpleChoice>`).join('')
+          + '</orderInteraction>';
+        break;
+    }
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + `<assessmentItem xmlns="${QTI_NAMESPACE}" identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">\n`
+      + `  ${declaration}\n`
+      + '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>\n'
+      + '  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>\n'
+      + `  <itemBody>${paragraph(lms.stem)}${interaction}</itemBody>\n`
+      + (template ? `  <responseProcessing template="${QTI_TEMPLATES}/${template}"/>\n` : '')
+      + (lms.feedback ? `  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="SOLUTION" showHide="show">${paragraph(lms.feedback)}</modalFeedback>\n` : '')
+      + '</assessmentItem>\n';
+  };
+
+  /**
+   * An IMS QTI 2.1 content package: one item file per question, and an
+   * assessment test with one section per bank entry so the grouping
+   * survives an import.
+   */
+  public toQtiPackage = (bank: QuestionBank): { zip: JSZip; report: LmsReport } => {
+    const report = emptyReport();
+    const zip = new JSZip();
+    const items: Array<{ identifier: string; href: string }> = [];
+    let sections = '';
+
+    bank.entries.forEach((entry, entryIndex) => {
+      let refs = '';
+      entry.generatedQuestions.forEach((question, questionIndex) => {
+        const source = `${entry.name} › Câu ${question.id}`;
+        const lms = this.toLmsQuestion(question, source, report);
+        if (!lms) return;
+
+        const identifier = `ITEM_${entryIndex + 1}_${questionIndex + 1}`;
+        const href = `items/${identifier}.xml`;
+        zip.file(href, this.qtiItem(lms, identifier, `${entry.name} - Câu ${question.id}`), { createFolders: false });
+        items.push({ identifier, href });
+        refs += `      <assessmentItemRef identifier="${identifier}" href="${href}"/>\n`;
+        report.converted++;
+      });
+
+      if (refs) {
+        sections += `    <assessmentSection identifier="SECTION_${entryIndex + 1}" title="${escapeXml(entry.name)}" visible="true">\n${refs}    </assessmentSection>\n`;
+      }
+    });
+
+    zip.file('test.xml', '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="TEST" title="${escapeXml(bank.name)}">\n`
+      + '  <testPart identifier="PART_1" navigationMode="nonlinear" submissionMode="simultaneous">\n'
+      + sections
+      + '  </testPart>\n</assessmentTest>\n', { createFolders: false });
+
+    zip.file('imsmanifest.xml', '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST_${bank.id.replace(/[^A-Za-z0-9_-]/g, '_')}">\n`
+      + '  <metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>\n'
+      + '  <organizations/>\n  <resources>\n'
+      + '    <resource identifier="TEST" type="imsqti_test_xmlv2p1" href="test.xml">\n      <file href="test.xml"/>\n'
+      + items.map(item => `      <dependency identifierref="${item.identifier}"/>\n`).join('')
+      + '    </resource>\n'
+      + items.map(item => `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">\n      <file href="${item.href}"/>\n    </resource>\n`).join('')
+      + '  </resources>\n</manifest>\n', { createFolders: false });
+
+    return { zip, report };
+  };
+
+  private readQtiItem = (item: Element): LmsQuestion | string => {
+    const body = children(item, 'itemBody')[0];
+    if (!body) return 'Thiếu nội dung câu hỏi (itemBody)';
+
+    const interactions = Array.from(body.getElementsByTagName('*')).filter(el => el.localName.endsWith('Interaction'));
+    if (interactions.length !== 1) {
+      return interactions.length ? 'Câu hỏi có nhiều ô trả lời chưa được hỗ trợ' : 'Câu hỏi không có ô trả lời';
+    }
+    const interaction = interactions[0];
+    const declaration = children(item, 'responseDeclaration')
+      .find(el => el.getAttribute('identifier') === interaction.getAttribute('responseIdentifier'));
+    const correct = declaration ? descendants(declaration, 'value').map(value => value.textContent?.trim() ?? '') : [];
+
+    const prompt = children(interaction, 'prompt')[0];
+    const stem = cleanText(nodeText(body, el => el.localName.endsWith('Interaction') || el.localName === 'rubricBlock')
+      + (prompt ? `\n${nodeText(prompt)}` : ''));
+    const feedback = cleanText(children(item, 'modalFeedback').map(el => nodeText(el)).join('\n'));
+    const choiceText = (choice: Element) => cleanText(nodeText(choice));
+
+    switch (interaction.localName) {
+      case 'choiceInteraction': {
+        const choices = children(interaction, 'simpleChoice');
+        if (declaration?.getAttribute('cardinality') !== 'single' || correct.length !== 1) {
+          return 'Câu trắc nghiệm nhiều đáp án đúng chưa được hỗ trợ';
+        }
+        const index = choices.findIndex(choice => choice.getAttribute('identifier') === correct[0]);
+        if (choices.length < 2 || index < 0) return 'Không xác định được đáp án đúng';
+        const options = choices.map(choiceText);
+        // True/false is written as a choice between "Đúng" and "Sai"
+        if (options.length === 2 && options[0] === TRUE_LABEL && options[1] === FALSE_LABEL) {
+          return { kind: 'truefalse', stem, feedback, answer: index === 0 };
+        }
+        return { kind: 'choice', stem, feedback, options, correct: index };
+      }
+
+      case 'matchInteraction': {
+        const [sources, targets] = children(interaction, 'simpleMatchSet').map(set => children(set, 'simpleAssociableChoice'));
+        if (!sources || !targets) return 'Câu ghép nối thiếu một cột';
+        const textOf = (set: Element[], id: string) => {
+          const choice = set.find(el => el.getAttribute('identifier') === id);
+          return choice ? choiceText(choice) : undefined;
+        };
+        const pairs = correct
+          .map(value => value.split(/\s+/))
+          .map(([source, target]) => ({ left: textOf(sources, source), right: textOf(targets, target) }))
+          .filter((pair): pair is { left: string; right: string } => !!pair.left && pair.right !== undefined);
+        if (pairs.length < 2) return 'Không xác định được các cặp ghép nối đúng';
+        const used = new Set(pairs.map(pair => pair.right));
+        return { kind: 'match', stem, feedback, pairs, distractors: targets.map(choiceText).filter(text => !used.has(text)) };
+      }
+
+      case 'textEntryInteraction': {
+        const mapped = declaration ? descendants(declaration, 'mapEntry')
+          .filter(entry => parseFloat(entry.getAttribute('mappedValue') ?? '0') > 0)
+          .map(entry => entry.getAttribute('mapKey') ?? '') : [];
+        const answers = Array.from(new Set([...correct, ...mapped].map(cleanText).filter(Boolean)));
+        if (!answers.length) return 'Không có đáp án cho ô điền';
+        return { kind: 'short', stem, feedback, answers };
+      }
+
+      case 'extendedTextInteraction':
+        return { kind: 'essay', stem, feedback };
+
+      case 'orderInteraction': {
+        const choices = children(interaction, 'simpleChoice');
+        const items = correct.map(id => choices.find(choice => choice.getAttribute('identifier') === id)).filter((choice): choice is Element => !!choice);
+        if (items.length < 2 || items.length !== choices.length) return 'Không xác định được thứ tự đúng';
+        return { kind: 'order', stem, feedback, items: items.map(choiceText) };
+      }
+
+      default:
+        return `Dạng tương tác QTI "${interaction.localName}" chưa được hỗ trợ`;
+    }
+  };
+
+  /**
+   * Bank entries from QTI 2.1 item files: a content package (.zip) read
+   * through its manifest, with one entry per section of its assessment test
+   * when it has one, or a single item or test-less XML file.
+   */
+  public fromQti = async (data: ArrayBuffer | string, options: LmsImportOptions): Promise<LmsImportResult> => {
+    const report = emptyReport();
+    const groups: Array<{ name: string; files: string[] }> = [];
+    let readFile: (path: string) => Promise<string | undefined>;
+
+    if (typeof data === 'string') {
+      const xml = data;
+      readFile = async (path) => path === 'item.xml' ? xml : undefined;
+      groups.push({ name: options.name || 'QTI', files: ['item.xml'] });
+    } else {
+      let zip: JSZip;
+      try {
+        zip = await JSZip.loadAsync(data);
+      } catch {
+        throw new Error('File QTI không hợp lệ: cần gói .zip hoặc file .xml');
+      }
+      readFile = async (path) => zip.file(path)?.async('string');
+
+      const manifestXml = await readFile('imsmanifest.xml');
+      const resources = manifestXml ? descendants(parseXml(manifestXml, 'imsmanifest.xml'), 'resource') : [];
+      const testResource = resources.find(resource => resource.getAttribute('type')?.startsWith('imsqti_test'));
+      const testPath = testResource?.getAttribute('href');
+      const testXml = testPath ? await readFile(testPath) : undefined;
+
+      if (testPath && testXml) {
+        descendants(parseXml(testXml, 'QTI'), 'assessmentSection').forEach((section, index) => {
+          const refs = children(section, 'assessmentItemRef');
+          if (!refs.length) return;
+          groups.push({
+            name: section.getAttribute('title') || `${options.name || 'QTI'} ${index + 1}`,
+            files: refs.map(ref => resolvePath(testPath, ref.getAttribute('href') ?? '')),
+          });
+        });
+      } else {
+        const files = resources.length
+          ? resources.filter(resource => resource.getAttribute('type')?.startsWith('imsqti_item')).map(resource => resource.getAttribute('href') ?? '')
+          : Object.keys(zip.files).filter(path => path.endsWith('.xml') && !zip.files[path].dir);
+        groups.push({ name: options.name || 'QTI', files });
+      }
+    }
+
+    const entries: QuestionBankEntry[] = [];
+    for (const group of groups) {
+      const questions: GeneratedQuestion[] = [];
+      for (const path of group.files) {
+        const xml = await readFile(path);
+        if (xml === undefined) {
+          report.skipped.push({ source: path, message: 'Không tìm thấy file trong gói' });
+          continue;
+        }
+        const items = descendants(parseXml(xml, 'QTI'), 'assessmentItem');
+        if (!items.length && typeof data === 'string') {
+          throw new Error('File không phải câu hỏi QTI 2.1 (thiếu thẻ <assessmentItem>)');
+        }
+        items.forEach((item) => {
+          const source = item.getAttribute('title') || item.getAttribute('identifier') || path;
+          const lms = this.readQtiItem(item);
+          if (typeof lms === 'string') {
+            report.skipped.push({ source, message: lms });
+            return;
+          }
+          this.addImported(lms, source, questions, report);
+        });
+      }
+      if (questions.length) {
+        entries.push(this.createEntry(group.name, questions, 'qti', options));
+      }
+    }
+
+    return { entries, report };
+  };
+
+  /**
+   * Read a Moodle XML (.xml with <quiz>), QTI item (.xml) or QTI package
+   * (.zip) file chosen by the user.
+   */
+  public importFile = async (file: File, options: LmsImportOptions): Promise<LmsImportResult> => {
+    const name = options.name || file.name.replace(/\.[^.]+$/, '');
+    if (/\.zip$/i.test(file.name)) {
+      return this.fromQti(await file.arrayBuffer(), { ...options, name });
+    }
+    const text = await file.text();
+    return /<quiz[\s>]/.test(text)
+      ? this.fromMoodleXml(text, { ...options, name })
+      : this.fromQti(text, { ...options, name });
+  };
+
+  private download = (blob: Blob, filename: string): void => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  private baseFilename = (bank: QuestionBank): string => {
+    return `bank-${bank.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}-${new Date().toISOString().split('T')[0]}`;
+  };
+
+  public downloadMoodleXml = (bank: QuestionBank): LmsReport => {
+    const { content, report } = this.toMoodleXml(bank);
+    if (report.converted === 0) {
+      throw new Error('Ngân hàng không có câu hỏi nào xuất được sang Moodle XML');
+    }
+    this.download(new Blob([content], { type: 'application/xml;charset=utf-8' }), `${this.baseFilename(bank)}-moodle.xml`);
+    return report;
+  };
+
+  public downloadQtiPackage = async (bank: QuestionBank): Promise<LmsReport> => {
+    const { zip, report } = this.toQtiPackage(bank);
+    if (report.converted === 0) {
+      throw new Error('Ngân hàng không có câu hỏi nào xuất được sang QTI');
+    }
+    const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'DEFLATE' });
+    this.download(blob, `${this.baseFilename(bank)}-qti21.zip`);
+    return report;
+  };
+}
+
+// Export singleton instance
+export const lmsConverter = new LmsConverter();
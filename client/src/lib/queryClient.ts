@@ -23,6 +23,20 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * The server's `message` from an error thrown by apiRequest or a query,
+ * or the fallback when the body is not one of our JSON errors.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (!(error instanceof Error)) return fallback;
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).message || fallback;
+  } catch {
+    return body || fallback;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
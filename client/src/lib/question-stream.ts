@@ -0,0 +1,124 @@
+import type {
+  GeneratedQuestionResponse,
+  InsertQuestionRequest,
+  QuestionStreamEvent,
+  QuestionValidationReport,
+} from "@shared/schema";
+
+/**
+ * Generation failed on the server. When the model answered but nothing
+ * passed validation, the report explains which checks failed.
+ */
+export class QuestionGenerationError extends Error {
+  constructor(
+    message: string,
+    public validationReport?: QuestionValidationReport,
+  ) {
+    super(message);
+    this.name = "QuestionGenerationError";
+  }
+}
+
+/**
+ * The server throttled the request (HTTP 429 with Retry-After). The client
+ * should wait `retryAfter` seconds before sending another one.
+ */
+export class RateLimitError extends QuestionGenerationError {
+  constructor(
+    message: string,
+    public retryAfter: number,
+  ) {
+    super(message);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Turn a rejected generation response into an error carrying the server's
+ * message; throttled responses become a RateLimitError.
+ */
+export async function toGenerationError(res: Response): Promise<Error> {
+  const text = (await res.text()) || res.statusText;
+  let body: { message?: string; retryAfter?: number } = {};
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON
+  }
+
+  const retryAfter = body.retryAfter ?? Number(res.headers.get("Retry-After"));
+  if (res.status === 429 && body.message && retryAfter > 0) {
+    return new RateLimitError(body.message, retryAfter);
+  }
+  // Other rejections, such as an exhausted daily quota, still carry a message
+  return body.message ? new QuestionGenerationError(body.message) : new Error(`${res.status}: ${text}`);
+}
+
+/**
+ * Short Vietnamese summary of a validation report for toasts.
+ */
+export function describeValidationReport(report: QuestionValidationReport): string {
+  const lines = [...report.errors];
+  for (const result of report.results) {
+    if (result.valid) continue;
+    const issues = result.issues
+      .map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message))
+      .join("; ");
+    lines.push(`Câu ${result.index + 1} (${result.type || "?"}): ${issues}`);
+  }
+  return lines.slice(0, 3).join("\n");
+}
+
+/**
+ * Generate questions through the SSE endpoint, reporting every progress event
+ * as it arrives. Resolves with the final question request and its validation
+ * report once the server sends "complete". EventSource cannot POST, so the
+ * stream is read via fetch.
+ */
+export async function streamQuestionGeneration(
+  data: InsertQuestionRequest,
+  onEvent: (event: QuestionStreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<GeneratedQuestionResponse> {
+  const res = await fetch("/api/questions/generate/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    throw await toGenerationError(res);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const messages = buffer.split("\n\n");
+    buffer = messages.pop() || "";
+
+    for (const message of messages) {
+      const line = message.trim();
+      if (!line.startsWith("data:")) continue;
+
+      const event = JSON.parse(line.slice(5)) as QuestionStreamEvent;
+      onEvent(event);
+
+      if (event.type === "complete") {
+        return { ...event.request, validationReport: event.validationReport };
+      }
+      if (event.type === "error") {
+        throw new QuestionGenerationError(event.message, event.validationReport);
+      }
+    }
+  }
+
+  throw new Error("Kết nối bị ngắt trước khi tạo xong câu hỏi");
+}
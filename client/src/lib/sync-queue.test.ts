@@ -0,0 +1,53 @@
+import { test, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { SyncQueue } from "./sync-queue";
+
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => void store.set(key, value),
+  removeItem: (key: string) => void store.delete(key),
+} as Storage;
+
+function respondWith(status: number) {
+  globalThis.fetch = async () => new Response("{}", { status });
+}
+
+beforeEach(() => store.clear());
+
+test("keeps an operation while logged out", async () => {
+  respondWith(401);
+  const queue = new SyncQueue("test_queue");
+  queue.enqueue({ method: "POST", url: "/api/banks/import", body: { banks: [] } });
+
+  assert.equal(await queue.flush(), false);
+  assert.equal(queue.getOperations().length, 1);
+});
+
+test("drops an operation the server rejects", async () => {
+  respondWith(400);
+  const queue = new SyncQueue("test_queue");
+  queue.enqueue({ method: "DELETE", url: "/api/banks/missing" });
+
+  assert.equal(await queue.flush(), true);
+  assert.equal(queue.getOperations().length, 0);
+});
+
+test("moves past an operation too large for the server", async () => {
+  const sent: string[] = [];
+  globalThis.fetch = async (url) => {
+    sent.push(String(url));
+    return new Response("{}", { status: String(url).endsWith("/entries") ? 413 : 200 });
+  };
+  const dropped: number[] = [];
+  const queue = new SyncQueue("test_queue", (_operation, status) => dropped.push(status));
+  store.set("test_queue", JSON.stringify([
+    { method: "POST", url: "/api/banks/bank-1/entries", body: { generatedQuestions: [] } },
+    { method: "PUT", url: "/api/banks/bank-1", body: { name: "Đổi tên" } },
+  ]));
+
+  assert.equal(await queue.flush(), true);
+  assert.deepEqual(sent, ["/api/banks/bank-1/entries", "/api/banks/bank-1"]);
+  assert.deepEqual(dropped, [413]);
+  assert.equal(queue.getOperations().length, 0);
+});
@@ -0,0 +1,108 @@
+// A local change that still has to reach the server
+export type PendingOperation = {
+  method: "POST" | "PUT" | "PATCH" | "DELETE";
+  url: string;
+  body?: unknown;
+};
+
+// Logged out: not a rejection of the change itself, so it is kept and retried
+const RETRY_STATUSES = new Set([401]);
+
+/**
+ * Requests persisted in localStorage and replayed in order, so changes made
+ * while offline (or before the server answered) are not lost.
+ */
+export class SyncQueue {
+  private flushing: Promise<boolean> | null = null;
+
+  /**
+   * onDropped is told about each change the server rejected for good, e.g.
+   * one too large to save (413), so the user can be warned.
+   */
+  constructor(
+    private storageKey: string,
+    private onDropped?: (operation: PendingOperation, status: number) => void,
+  ) {}
+
+  /**
+   * Get changes not yet sent to the server
+   */
+  public getOperations(): PendingOperation[] {
+    try {
+      return JSON.parse(localStorage.getItem(this.storageKey) || "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private saveOperations(operations: PendingOperation[]): void {
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(operations));
+    } catch (error) {
+      console.error("Error saving sync queue:", error);
+    }
+  }
+
+  /**
+   * Drop every queued change
+   */
+  public clear(): void {
+    localStorage.removeItem(this.storageKey);
+  }
+
+  /**
+   * Queue a change and try to send it right away
+   */
+  public enqueue(operation: PendingOperation): void {
+    this.saveOperations([...this.getOperations(), operation]);
+    void this.flush();
+  }
+
+  /**
+   * Send queued changes in order. Stops at the first network or server error
+   * or 401 so nothing is lost; changes the server rejects (other 4xx,
+   * including 413) are dropped so they cannot block the ones after them.
+   * Resolves true when the queue is empty.
+   */
+  public flush(): Promise<boolean> {
+    if (this.flushing) {
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      let operations = this.getOperations();
+
+      while (operations.length > 0) {
+        const operation = operations[0];
+        try {
+          const res = await fetch(operation.url, {
+            method: operation.method,
+            headers: operation.body ? { "Content-Type": "application/json" } : {},
+            body: operation.body ? JSON.stringify(operation.body) : undefined,
+            credentials: "include",
+          });
+
+          if (res.status >= 500 || RETRY_STATUSES.has(res.status)) {
+            return false;
+          }
+          if (!res.ok) {
+            console.warn(`Server rejected ${operation.method} ${operation.url}:`, await res.text());
+            this.onDropped?.(operation, res.status);
+          }
+        } catch {
+          // Offline: keep the queue for the next flush
+          return false;
+        }
+
+        operations = this.getOperations().slice(1);
+        this.saveOperations(operations);
+      }
+
+      return true;
+    })().finally(() => {
+      this.flushing = null;
+    });
+
+    return this.flushing;
+  }
+}
@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratedQuestion, QuestionRequest } from "@shared/schema";
+import { texExporter } from "./tex-exporter";
+
+function exam(question: Partial<GeneratedQuestion>): QuestionRequest {
+  return {
+    id: "exam-1",
+    subject: "anh",
+    difficulty: "medium",
+    topic: "Environment",
+    generatedQuestions: [{ id: "1", explanation: "", ...question } as GeneratedQuestion],
+  } as QuestionRequest;
+}
+
+test("cloze blanks are drawn once, whatever marker the passage had", () => {
+  const tex = texExporter.generateTexContent(exam({
+    type: "multiple_choice_reading1",
+    question: "Read the passage.",
+    passage: "We (1) _______ trees, ______ (2) rivers and (3) ... the air. Then (4) people came.",
+    clozeBlanks: [1, 2, 3, 4].map((number) => ({ number, options: ["A. a", "B. b", "C. c", "D. d"], correctAnswer: "A" })),
+  }));
+
+  assert.match(tex, /We \(1\) \\_\\_\\_\\_\\_\\_ trees, \(2\) \\_\\_\\_\\_\\_\\_ rivers/);
+  assert.match(tex, /and \(3\) \\_\\_\\_\\_\\_\\_ the air\. Then \(4\) \\_\\_\\_\\_\\_\\_ people/);
+});
+
+test("true/false statements and explanations drop their own a)-d) labels", () => {
+  const tex = texExporter.generateTexContent(exam({
+    type: "true_false",
+    question: "Đúng hay sai?",
+    statements: ["a) Mệnh đề một", "b) Mệnh đề hai", "c. Mệnh đề ba", "d) Mệnh đề bốn"],
+    statementAnswers: [true, false, true, false],
+    statementExplanations: ["a) Vì một", "b) Vì hai", "c) Vì ba", "d) Vì bốn"],
+  }));
+
+  assert.match(tex, /\\choiceTF\n  \{\\True Mệnh đề một\}\n  \{Mệnh đề hai\}\n  \{\\True Mệnh đề ba\}\n  \{Mệnh đề bốn\}/);
+  assert.match(tex, /a\) \\textbf\{Đúng:\} Vì một/);
+  assert.match(tex, /d\) \\textbf\{Sai:\} Vì bốn/);
+});
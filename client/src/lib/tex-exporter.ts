@@ -0,0 +1,426 @@
+import type { QuestionBank, QuestionRequest, GeneratedQuestion } from '@shared/schema';
+
+export interface TexExportOptions {
+  includeAnswers?: boolean; // mark keys with \True and give non-choice answers in \loigiai
+  includeExplanations?: boolean;
+  includeHeader?: boolean;
+}
+
+// One block of questions in the document: an exam, or one entry of a bank
+type TexSection = {
+  title: string;
+  subject: string;
+  difficulty: string;
+  topic: string;
+  generatedQuestions: GeneratedQuestion[];
+};
+
+// $$...$$, $...$, \(...\) and \[...\], as written by the generator
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\$([^$]+?)\$|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// Options written with their own label, e.g. "A. whose" in cloze and reading passages
+const OPTION_LABEL = /^\s*[A-Z][.)]\s*/;
+
+// True/false statements and their explanations written with their own label, e.g. "a) ..."
+const STATEMENT_LABEL = /^\s*[a-z][.)]\s+/;
+
+// A blank the passage already draws next to its number, e.g. "(1) _______" or "(1) ....."
+const BLANK_MARKER = String.raw`(?:_{2,}|…+|\.{3,})`;
+
+// Characters LaTeX treats as markup, and symbols the vietnam package has no text glyph for
+const TEXT_REPLACEMENTS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '#': '\\#',
+  '%': '\\%',
+  '&': '\\&',
+  '_': '\\_',
+  '$': '\\$',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '<': '\\textless{}',
+  '>': '\\textgreater{}',
+  '≤': '$\\le$',
+  '≥': '$\\ge$',
+  '≠': '$\\ne$',
+  '≈': '$\\approx$',
+  '±': '$\\pm$',
+  '×': '$\\times$',
+  '÷': '$\\div$',
+  '∞': '$\\infty$',
+  '→': '$\\rightarrow$',
+  '←': '$\\leftarrow$',
+  '↔': '$\\leftrightarrow$',
+  '⇒': '$\\Rightarrow$',
+  '⇔': '$\\Leftrightarrow$',
+  '°': '\\textdegree{}',
+  '…': '\\ldots{}',
+  '–': '--',
+  '—': '---',
+  '“': '``',
+  '”': "''",
+};
+
+export class TexExporter {
+  /**
+   * Text with its formulas kept as LaTeX and everything else escaped. Text is
+   * normalized to NFC first: decomposed Vietnamese marks do not compile.
+   */
+  private formatText = (text: string): string => {
+    const source = text.normalize('NFC').replace(/\\n/g, '\n').replace(/<br\s*\/?>/gi, '\n');
+    let result = '';
+    let last = 0;
+    for (const match of Array.from(source.matchAll(MATH_PATTERN))) {
+      result += this.escapeText(source.slice(last, match.index));
+      if (match[1] !== undefined || match[4] !== undefined) {
+        result += `\\[${(match[1] ?? match[4]).trim()}\\]`;
+      } else {
+        result += `$${(match[2] ?? match[3]).trim()}$`;
+      }
+      last = match.index! + match[0].length;
+    }
+    return result + this.escapeText(source.slice(last));
+  };
+
+  private escapeText = (text: string): string => {
+    return Array.from(text, char => TEXT_REPLACEMENTS[char] ?? char).join('')
+      .replace(/\*\*([^*]+)\*\*/g, '\\textbf{$1}')
+      .replace(/[ \t]*\n[ \t]*/g, '\n')
+      .replace(/\n+/g, '\\par\n');
+  };
+
+  // Passages keep their paragraphs; blank lines are paragraph breaks in LaTeX
+  private formatPassage = (passage: string): string => {
+    const paragraphs = passage.normalize('NFC').replace(/\\n/g, '\n').split(/\n+/).filter(line => line.trim());
+    return `\\begin{quote}\n${paragraphs.map(this.formatText).join('\n\n')}\n\\end{quote}\n`;
+  };
+
+  private optionText = (option: string): string => {
+    return this.formatText(option.replace(OPTION_LABEL, ''));
+  };
+
+  private statementText = (statement: string): string => {
+    return this.formatText(statement.replace(STATEMENT_LABEL, ''));
+  };
+
+  // Each numbered blank drawn once, whatever marker the passage already had
+  private formatClozeBlanks = (passage: string, blanks: { number: number }[]): string => {
+    return blanks.reduce((text, blank) => text.replace(
+      new RegExp(String.raw`(?:${BLANK_MARKER}[ \t]*)?\(${blank.number}\)(?:[ \t]*${BLANK_MARKER})?`),
+      `(${blank.number}) ______`,
+    ), passage);
+  };
+
+  /**
+   * ex_test's \choice takes exactly four options; other counts are written
+   * as a labelled list, with the key given in \loigiai instead.
+   */
+  private formatChoices = (options: string[], correctAnswer: string | undefined, includeAnswers: boolean): string => {
+    const correctIndex = (correctAnswer?.trim().toUpperCase().charCodeAt(0) ?? 0) - 65;
+    if (options.length === 4) {
+      const choices = options.map((option, index) =>
+        `{${includeAnswers && index === correctIndex ? '\\True ' : ''}${this.optionText(option)}}`
+      );
+      return `\\choice\n  ${choices.join('\n  ')}\n`;
+    }
+    return options.map((option, index) => `\\textbf{${String.fromCharCode(65 + index)}.} ${this.optionText(option)}`).join('\\quad\n') + '\n';
+  };
+
+  private formatSolution = (question: GeneratedQuestion, includeAnswers: boolean, includeExplanations: boolean): string => {
+    const parts: string[] = [];
+    const answer = includeAnswers ? this.answerText(question) : '';
+    if (answer) {
+      parts.push(`\\textbf{Đáp án:} ${this.formatText(answer)}`);
+    }
+    if (includeExplanations && question.explanation) {
+      parts.push(this.formatText(question.explanation));
+    }
+    if (includeExplanations && question.statementExplanations?.length && question.type === 'true_false') {
+      question.statementExplanations.forEach((explanation, idx) => {
+        const verdict = question.statementAnswers?.[idx] ? 'Đúng' : 'Sai';
+        parts.push(`${String.fromCharCode(97 + idx)}) \\textbf{${verdict}:} ${this.statementText(explanation)}`);
+      });
+    }
+    return parts.length ? `\\loigiai{\n  ${parts.join('\\par\n  ')}\n}\n` : '';
+  };
+
+  /**
+   * Keys \choice, \choiceTF and \shortans cannot carry: everything but
+   * four-option multiple choice, four-statement true/false and fill in the blank.
+   */
+  private answerText = (question: GeneratedQuestion): string => {
+    if (question.type === 'multiple_choice' && question.options?.length === 4) {
+      return '';
+    }
+    if (question.type === 'true_false' && question.statements?.length === 4) {
+      return '';
+    }
+    if (question.type === 'fill_in_blank' && question.blanks?.length) {
+      return '';
+    }
+    if (question.statementAnswers && question.type === 'true_false') {
+      return question.statementAnswers.map((answer, idx) => `${String.fromCharCode(97 + idx)}) ${answer ? 'Đúng' : 'Sai'}`).join(', ');
+    }
+    if (question.correctMatches && question.type === 'matching') {
+      return Object.entries(question.correctMatches).map(([left, right]) => {
+        const leftIndex = question.leftItems?.indexOf(left) ?? -1;
+        const rightIndex = question.rightItems?.indexOf(right) ?? -1;
+        return leftIndex >= 0 && rightIndex >= 0 ? `${leftIndex + 1}-${String.fromCharCode(65 + rightIndex)}` : `${left} → ${right}`;
+      }).join(', ');
+    }
+    if (question.correctOrder && question.type === 'ordering' && !question.options?.length) {
+      return question.correctOrder.map((index) => question.items?.[index] ?? String(index + 1)).join(' → ');
+    }
+    return question.correctAnswer ?? '';
+  };
+
+  /**
+   * One ex environment per question. Passage questions put the passage in
+   * front and give each blank or sub-question its own ex, the way English
+   * exams are typeset, so the answer key lines up with the numbering.
+   */
+  private formatQuestion = (question: GeneratedQuestion, options: Required<TexExportOptions>): string => {
+    const { includeAnswers, includeExplanations } = options;
+
+    if (question.passage && (question.clozeBlanks || question.readingQuestions)) {
+      const passage = this.formatClozeBlanks(question.passage, question.clozeBlanks ?? []);
+
+      const subQuestions = [
+        ...(question.clozeBlanks ?? []).map(blank =>
+          `\\textbf{Question ${blank.number}.}\n${this.formatChoices(blank.options, blank.correctAnswer, includeAnswers)}`),
+        ...(question.readingQuestions ?? []).map(readingQ =>
+          `${this.formatText(readingQ.question)}\n${this.formatChoices(readingQ.options, readingQ.correctAnswer, includeAnswers)}`),
+      ];
+      // \loigiai only works inside ex, so the passage's explanation goes with its last question
+      if (includeExplanations && question.explanation && subQuestions.length) {
+        subQuestions[subQuestions.length - 1] += `\\loigiai{\n  ${this.formatText(question.explanation)}\n}\n`;
+      }
+
+      return `\\noindent\\textbf{${this.formatText(question.question)}}\n${this.formatPassage(passage)}\n`
+        + subQuestions.map(body => `\\begin{ex}\n${body}\\end{ex}\n\n`).join('');
+    }
+
+    let body = `${this.formatText(question.question)}\n`;
+
+    if (question.passage) {
+      body += this.formatPassage(question.passage);
+    }
+
+    if (question.type === 'multiple_choice' && question.options) {
+      body += this.formatChoices(question.options, question.correctAnswer, includeAnswers);
+    }
+
+    if (question.type === 'true_false') {
+      if (question.statements?.length === 4) {
+        const statements = question.statements.map((statement, idx) =>
+          `{${includeAnswers && question.statementAnswers?.[idx] ? '\\True ' : ''}${this.statementText(statement)}}`
+        );
+        body += `\\choiceTF\n  ${statements.join('\n  ')}\n`;
+      } else if (question.statements) {
+        body += `\\begin{itemize}\n${question.statements.map((statement, idx) =>
+          `  \\item[${String.fromCharCode(97 + idx)})] ${this.statementText(statement)}`
+        ).join('\n')}\n\\end{itemize}\n`;
+      } else {
+        body += this.formatChoices(['Đúng', 'Sai'], question.correctAnswer, includeAnswers);
+      }
+    }
+
+    if (question.type === 'matching' && question.leftItems && question.rightItems) {
+      const rowCount = Math.max(question.leftItems.length, question.rightItems.length);
+      const rows = Array.from({ length: rowCount }, (_, idx) => [
+        question.leftItems![idx] !== undefined ? `${idx + 1}. ${this.formatText(question.leftItems![idx])}` : '',
+        question.rightItems![idx] !== undefined ? `${String.fromCharCode(65 + idx)}. ${this.formatText(question.rightItems![idx])}` : '',
+      ].join(' & ') + ' \\\\ \\hline');
+      body += `\\begin{center}\n\\begin{tabular}{|p{0.42\\linewidth}|p{0.42\\linewidth}|}\n\\hline\n`
+        + `\\textbf{Cột A} & \\textbf{Cột B} \\\\ \\hline\n${rows.join('\n')}\n\\end{tabular}\n\\end{center}\n`;
+    }
+
+    if (question.type === 'ordering' && question.items) {
+      body += `\\begin{itemize}\n${question.items.map(item => `  \\item[] ${this.formatText(item)}`).join('\n')}\n\\end{itemize}\n`;
+      if (question.options?.length) {
+        body += this.formatChoices(question.options, question.correctAnswer, includeAnswers);
+      }
+    }
+
+    if (question.type === 'fill_in_blank' && includeAnswers && question.blanks?.length) {
+      body += `\\shortans{${this.formatText(question.blanks[0])}}\n`;
+    }
+
+    return `\\begin{ex}\n${body}${this.formatSolution(question, includeAnswers, includeExplanations)}\\end{ex}\n\n`;
+  };
+
+  private formatHeader = (title: string, subject: string): string => {
+    const subjectNames: Record<string, string> = {
+      'toan': 'TOÁN HỌC',
+      'ly': 'VẬT LÝ',
+      'hoa': 'HÓA HỌC',
+      'sinh': 'SINH HỌC',
+      'van': 'NGỮ VĂN',
+      'anh': 'TIẾNG ANH',
+      'su': 'LỊCH SỬ',
+      'dia': 'ĐỊA LÝ',
+      'gdcd': 'GIÁO DỤC CÔNG DÂN',
+      'tin': 'TIN HỌC'
+    };
+
+    const subjectName = subjectNames[subject] || subject.toUpperCase();
+    return `\\begin{center}\n{\\large\\textbf{BÀI KIỂM TRA ${this.formatText(subjectName)}}}\\\\[4pt]\n`
+      + `\\textbf{${this.formatText(title)}}\\\\[2pt]\n`
+      + `Ngày tạo: ${new Date().toLocaleDateString('vi-VN')}\n\\end{center}\n\n`;
+  };
+
+  private formatSectionInfo = (section: TexSection): string => {
+    const difficultyNames: Record<string, string> = {
+      'easy': 'Dễ',
+      'medium': 'Trung bình',
+      'hard': 'Khó',
+      'mixed': 'Nhiều mức độ'
+    };
+
+    const difficulty = difficultyNames[section.difficulty] || section.difficulty;
+    return `\\noindent\\textit{Chủ đề: ${this.formatText(section.topic)} -- Độ khó: ${this.formatText(difficulty)} -- Số câu: ${section.generatedQuestions.length}}\n\n`;
+  };
+
+  /**
+   * A standalone document for pdflatex with the vietnam and ex_test packages.
+   * ex_test's [loigiai] option prints keys and solutions, [dethi] hides them.
+   * With more than one section each gets a \section* heading.
+   */
+  private generateDocument = (title: string, subject: string, sections: TexSection[], options: TexExportOptions): string => {
+    const resolved: Required<TexExportOptions> = {
+      includeAnswers: options.includeAnswers ?? true,
+      includeExplanations: options.includeExplanations ?? true,
+      includeHeader: options.includeHeader ?? true,
+    };
+    const withQuestions = sections.filter(section => section.generatedQuestions.length > 0);
+    if (withQuestions.length === 0) {
+      throw new Error('Không có câu hỏi để xuất LaTeX');
+    }
+
+    const mode = resolved.includeAnswers || resolved.includeExplanations ? 'loigiai' : 'dethi';
+    let content = [
+      '% Được tạo bởi LimVA',
+      '\\documentclass[12pt,a4paper]{article}',
+      '\\usepackage[utf8]{vietnam}',
+      '\\usepackage{amsmath,amssymb}',
+      '\\usepackage{textcomp}',
+      '\\usepackage[a4paper,margin=2cm]{geometry}',
+      `\\usepackage[${mode}]{ex_test}`,
+      '',
+      '\\begin{document}',
+      '',
+    ].join('\n');
+
+    if (resolved.includeHeader) {
+      content += this.formatHeader(title, subject);
+    }
+
+    withQuestions.forEach((section) => {
+      if (withQuestions.length > 1) {
+        content += `\\section*{${this.formatText(section.title)}}\n`;
+      }
+      content += this.formatSectionInfo(section);
+      section.generatedQuestions.forEach((question) => {
+        content += this.formatQuestion(question, resolved);
+      });
+    });
+
+    return content + '\\end{document}\n';
+  };
+
+  private generateFilename = (subject: string, name: string): string => {
+    const subjectNames: Record<string, string> = {
+      'toan': 'Toan',
+      'ly': 'VatLy',
+      'hoa': 'HoaHoc',
+      'sinh': 'SinhHoc',
+      'van': 'NguVan',
+      'anh': 'TiengAnh',
+      'su': 'LichSu',
+      'dia': 'DiaLy',
+      'gdcd': 'GDCD',
+      'tin': 'TinHoc'
+    };
+
+    const subjectName = subjectNames[subject] || subject;
+    const topic = name
+      .replace(/[^a-zA-Z0-9À-ỹ]/g, '')
+      .substring(0, 20);
+    const date = new Date().getFullYear();
+
+    return `${subjectName}_${topic}_${date}.tex`;
+  };
+
+  private download = (content: string, filename: string): void => {
+    const blob = new Blob([content], {
+      type: 'application/x-tex;charset=utf-8'
+    });
+
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  public generateTexContent = (
+    questions: QuestionRequest,
+    options: TexExportOptions = {}
+  ): string => {
+    const title = questions.customName || questions.topic;
+    return this.generateDocument(title, questions.subject, [{
+      title,
+      subject: questions.subject,
+      difficulty: questions.difficulty,
+      topic: questions.topic,
+      generatedQuestions: questions.generatedQuestions ?? [],
+    }], options);
+  };
+
+  // Every entry of a bank in one document, one section per entry
+  public generateBankTexContent = (
+    bank: QuestionBank,
+    options: TexExportOptions = {}
+  ): string => {
+    return this.generateDocument(bank.name, bank.subject, bank.entries.map(entry => ({
+      title: entry.name,
+      subject: entry.subject,
+      difficulty: entry.difficulty,
+      topic: entry.topic,
+      generatedQuestions: entry.generatedQuestions,
+    })), options);
+  };
+
+  public downloadTex = (
+    questions: QuestionRequest,
+    options: TexExportOptions = {}
+  ): void => {
+    const content = this.generateTexContent(questions, options);
+    try {
+      this.download(content, this.generateFilename(questions.subject, questions.topic));
+    } catch (error) {
+      console.error('LaTeX export failed:', error);
+      throw new Error('Không thể xuất file LaTeX. Vui lòng thử lại.');
+    }
+  };
+
+  public downloadBankTex = (
+    bank: QuestionBank,
+    options: TexExportOptions = {}
+  ): void => {
+    const content = this.generateBankTexContent(bank, options);
+    try {
+      this.download(content, this.generateFilename(bank.subject, bank.name));
+    } catch (error) {
+      console.error('LaTeX export failed:', error);
+      throw new Error('Không thể xuất file LaTeX. Vui lòng thử lại.');
+    }
+  };
+}
+
+// Export singleton instance
+export const texExporter = new TexExporter();
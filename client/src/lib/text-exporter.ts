@@ -1,9 +1,11 @@
 import type { QuestionRequest, GeneratedQuestion } from '@shared/schema';
+import { answerKeyCell, createExamVersions, type ExamVersion, type ExamVersionOptions } from '@shared/exam-versions';
 
 export interface TextExportOptions {
   includeAnswers?: boolean;
   includeExplanations?: boolean;
   includeHeader?: boolean;
+  versions?: ExamVersionOptions; // export shuffled versions (mã đề) instead of the exam as is
 }
 
 export class TextExporter {
@@ -61,7 +63,7 @@ export class TextExporter {
       .trim();
   };
 
-  private generateFilename = (questions: QuestionRequest): string => {
+  private generateFilename = (questions: QuestionRequest, versionCount = 1): string => {
     const subjectNames: Record<string, string> = {
       'toan': 'Toan',
       'ly': 'VatLy', 
@@ -81,10 +83,12 @@ export class TextExporter {
       .substring(0, 20);
     const date = new Date().getFullYear();
     
-    return `${subject}_${topic}_${date}.txt`;
+    const versions = versionCount > 1 ? `_${versionCount}MaDe` : '';
+
+    return `${subject}_${topic}_${date}${versions}.txt`;
   };
 
-  private formatHeader = (questions: QuestionRequest): string => {
+  private formatHeader = (questions: QuestionRequest, examCode?: string): string => {
     const subjectNames: Record<string, string> = {
       'toan': 'TOÁN HỌC',
       'ly': 'VẬT LÝ', 
@@ -101,7 +105,8 @@ export class TextExporter {
     const difficultyNames: Record<string, string> = {
       'easy': 'DỄ',
       'medium': 'TRUNG BÌNH',
-      'hard': 'KHÓ'
+      'hard': 'KHÓ',
+      'mixed': 'NHIỀU MỨC ĐỘ'
     };
 
     const subjectName = subjectNames[questions.subject] || questions.subject.toUpperCase();
@@ -114,7 +119,7 @@ export class TextExporter {
                         BÀI KIỂM TRA ${subjectName}
 ================================================================================
 
-Chủ đề: ${questions.topic}
+Chủ đề: ${questions.topic}${examCode ? `\nMã đề: ${examCode}` : ''}
 Độ khó: ${difficultyName}
 Số câu: ${questionCount}
 Ngày tạo: ${currentDate}
@@ -249,6 +254,50 @@ Ghi rõ lời giải cho các câu tự luận.
     return result;
   };
 
+  // Consolidated answer sheet: one row per question, one column per exam code
+  private formatVersionAnswerTable = (versions: ExamVersion[]): string => {
+    const questionCount = versions[0]?.exam.generatedQuestions?.length || 0;
+    const rows = Array.from({ length: questionCount }, (_, index) => [
+      String(index + 1),
+      ...versions.map(version => answerKeyCell(version.exam.generatedQuestions![index])),
+    ]);
+    const header = ['Câu', ...versions.map(version => version.code)];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join(' | ');
+
+    let result = '\n\n';
+    result += '================================================================================\n';
+    result += '                          BẢNG ĐÁP ÁN CÁC MÃ ĐỀ\n';
+    result += '================================================================================\n\n';
+    result += formatRow(header) + '\n';
+    result += widths.map(width => '-'.repeat(width)).join('-+-') + '\n';
+    rows.forEach(row => {
+      result += formatRow(row) + '\n';
+    });
+    return result;
+  };
+
+  // Every version one after another, then the answer sheet. Explanations are
+  // left out: they may refer to the original option letters.
+  private generateVersionsContent = (questions: QuestionRequest, options: TextExportOptions): string => {
+    const { includeAnswers = true, includeHeader = true } = options;
+    const versions = createExamVersions(questions, options.versions!);
+
+    let content = versions.map(version => {
+      let section = includeHeader ? this.formatHeader(version.exam, version.code) : `MÃ ĐỀ ${version.code}\n`;
+      version.exam.generatedQuestions?.forEach((question) => {
+        section += this.formatQuestion(question);
+      });
+      return section;
+    }).join('\n\n' + '#'.repeat(80) + '\n\n');
+
+    if (includeAnswers) {
+      content += this.formatVersionAnswerTable(versions);
+    }
+    content += this.formatFooter();
+    return content;
+  };
+
   private formatFooter = (): string => {
     const currentDateTime = `${new Date().toLocaleDateString('vi-VN')} ${new Date().toLocaleTimeString('vi-VN')}`;
     
@@ -273,6 +322,10 @@ Ghi rõ lời giải cho các câu tự luận.
       throw new Error('Không có câu hỏi để xuất văn bản');
     }
 
+    if ((options.versions?.count ?? 1) > 1) {
+      return this.generateVersionsContent(questions, options);
+    }
+
     let content = '';
 
     // Add header
@@ -307,7 +360,7 @@ Ghi rõ lời giải cho các câu tự luận.
   ): void => {
     try {
       const content = this.generateTextContent(questions, options);
-      const filename = this.generateFilename(questions);
+      const filename = this.generateFilename(questions, options.versions?.count);
 
       // Create blob and download
       const blob = new Blob([content], { 
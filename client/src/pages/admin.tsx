@@ -0,0 +1,373 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { roleLabels } from "@/contexts/auth-context";
+import { AppHeader } from "@/components/app-header";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  StudentFormDialog,
+  ResetPasswordDialog,
+  ApiKeyDialog,
+  type StudentFormData,
+} from "@/components/student-dialogs";
+import { ImportStudentsDialog } from "@/components/student-import-dialog";
+import {
+  ArrowLeft,
+  Edit,
+  FileSpreadsheet,
+  KeyRound,
+  Loader2,
+  Lock,
+  MoreHorizontal,
+  School,
+  Search,
+  Trash2,
+  Unlock,
+  UserPlus,
+} from "lucide-react";
+import { managedRoles, type StudentAccount, type UsageSummary } from "@shared/schema";
+
+const STUDENTS_KEY = ["/api/admin/students"];
+const USAGE_KEY = ["/api/admin/usage"];
+
+// The part of GET /api/admin/usage shown in the student table
+type UsageReport = {
+  students: {
+    id: string;
+    effectiveLimits: { dailyRequestLimit: number | null; dailyTokenLimit: number | null };
+    today: UsageSummary;
+  }[];
+};
+
+type StudentUpdate = Partial<Omit<StudentFormData, "username">>;
+
+function formatDate(dateStr: string | null) {
+  return dateStr ? new Date(dateStr).toLocaleDateString('vi-VN') : "—";
+}
+
+/**
+ * Teacher and student account management for admins: list, create, edit,
+ * lock/unlock, reset passwords, assign API keys and delete.
+ */
+export default function AdminPage() {
+  const { toast } = useToast();
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<StudentAccount["role"] | "all">("all");
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editing, setEditing] = useState<StudentAccount | null>(null);
+  const [resettingPassword, setResettingPassword] = useState<StudentAccount | null>(null);
+  const [assigningKey, setAssigningKey] = useState<StudentAccount | null>(null);
+  const [deleting, setDeleting] = useState<StudentAccount | null>(null);
+
+  const { data: students = [], isLoading, error } = useQuery<StudentAccount[]>({ queryKey: STUDENTS_KEY });
+  const { data: usage } = useQuery<UsageReport>({ queryKey: USAGE_KEY });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: STUDENTS_KEY });
+    queryClient.invalidateQueries({ queryKey: USAGE_KEY });
+  };
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Lỗi",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: StudentFormData) => {
+      const res = await apiRequest("POST", "/api/admin/students", data);
+      return (await res.json()) as StudentAccount;
+    },
+    onSuccess: (student) => {
+      refresh();
+      setIsCreateOpen(false);
+      toast({ title: "Thành công", description: `Đã tạo tài khoản ${student.username}` });
+    },
+    onError: (error) => showError(error, "Lỗi tạo tài khoản"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: StudentUpdate; message: string }) => {
+      const res = await apiRequest("PUT", `/api/admin/students/${id}`, data);
+      return (await res.json()) as StudentAccount;
+    },
+    onSuccess: (_student, { message }) => {
+      refresh();
+      setEditing(null);
+      setResettingPassword(null);
+      setAssigningKey(null);
+      toast({ title: "Thành công", description: message });
+    },
+    onError: (error) => showError(error, "Lỗi cập nhật tài khoản"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/admin/students/${id}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Thành công", description: "Đã xóa tài khoản" });
+    },
+    onError: (error) => showError(error, "Lỗi xóa tài khoản"),
+    onSettled: () => setDeleting(null),
+  });
+
+  const handleEdit = ({ username: _username, ...data }: StudentFormData) => {
+    updateMutation.mutate({ id: editing!.id, data, message: "Đã cập nhật tài khoản" });
+  };
+
+  const toggleActive = (student: StudentAccount) => {
+    updateMutation.mutate({
+      id: student.id,
+      data: { isActive: !student.isActive },
+      message: student.isActive ? `Đã khóa tài khoản ${student.username}` : `Đã mở khóa tài khoản ${student.username}`,
+    });
+  };
+
+  const todayUsage = (student: StudentAccount) => {
+    const row = usage?.students.find(entry => entry.id === student.id);
+    if (!row) return "—";
+    const limit = row.effectiveLimits.dailyRequestLimit;
+    return `${row.today.requests} / ${limit === null ? "∞" : limit} lượt`;
+  };
+
+  const query = search.trim().toLowerCase();
+  const filteredStudents = students.filter(student =>
+    (roleFilter === "all" || student.role === roleFilter) && (!query ||
+    student.username.toLowerCase().includes(query) ||
+    student.fullName.toLowerCase().includes(query))
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Quản trị" subtitle="Quản lý tài khoản giáo viên và học sinh">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Tạo câu hỏi
+          </Link>
+        </Button>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/classes">
+            <School className="h-4 w-4 mr-2" />
+            Lớp học
+          </Link>
+        </Button>
+      </AppHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Tài khoản</CardTitle>
+              <CardDescription>{students.length} tài khoản</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as typeof roleFilter)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Tất cả</SelectItem>
+                  {managedRoles.map(role => (
+                    <SelectItem key={role} value={role}>{roleLabels[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="relative">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Tìm theo tên..."
+                  className="pl-8 w-56"
+                />
+              </div>
+              <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+                <FileSpreadsheet className="h-4 w-4 mr-2" />
+                Nhập từ file
+              </Button>
+              <Button onClick={() => setIsCreateOpen(true)}>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Thêm tài khoản
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Đang tải...
+              </div>
+            ) : error ? (
+              <p className="py-12 text-center text-red-600">
+                {getErrorMessage(error, "Lỗi lấy danh sách học sinh")}
+              </p>
+            ) : filteredStudents.length === 0 ? (
+              <p className="py-12 text-center text-gray-500">
+                {students.length === 0 ? "Chưa có tài khoản nào" : "Không tìm thấy tài khoản phù hợp"}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tài khoản</TableHead>
+                    <TableHead>Vai trò</TableHead>
+                    <TableHead>API key</TableHead>
+                    <TableHead>Hôm nay</TableHead>
+                    <TableHead>Trạng thái</TableHead>
+                    <TableHead>Ngày tạo</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredStudents.map(student => (
+                    <TableRow key={student.id}>
+                      <TableCell>
+                        <div className="font-medium">{student.fullName}</div>
+                        <div className="text-xs text-gray-500">{student.username}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{roleLabels[student.role]}</TableCell>
+                      <TableCell className="font-mono text-sm">
+                        {student.hasApiKey ? student.apiKeyHint : <span className="font-sans text-gray-500">Hệ thống</span>}
+                      </TableCell>
+                      <TableCell className="text-sm">{todayUsage(student)}</TableCell>
+                      <TableCell>
+                        <Badge variant={student.isActive ? 'default' : 'secondary'}>
+                          {student.isActive ? "Hoạt động" : "Đã khóa"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDate(student.createdAt)}</TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button variant="ghost" size="sm">
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setEditing(student)}>
+                              <Edit className="h-4 w-4 mr-2" />
+                              Sửa thông tin
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setResettingPassword(student)}>
+                              <Lock className="h-4 w-4 mr-2" />
+                              Đặt lại mật khẩu
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => setAssigningKey(student)}>
+                              <KeyRound className="h-4 w-4 mr-2" />
+                              Gán API key
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => toggleActive(student)}>
+                              {student.isActive ? (
+                                <><Lock className="h-4 w-4 mr-2" />Khóa tài khoản</>
+                              ) : (
+                                <><Unlock className="h-4 w-4 mr-2" />Mở khóa</>
+                              )}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem className="text-red-600" onClick={() => setDeleting(student)}>
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Xóa tài khoản
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <ImportStudentsDialog open={isImportOpen} onOpenChange={setIsImportOpen} onImported={refresh} />
+      <StudentFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        isSaving={createMutation.isPending}
+        onSubmit={(data) => createMutation.mutate(data)}
+      />
+      <StudentFormDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        student={editing}
+        isSaving={updateMutation.isPending}
+        onSubmit={handleEdit}
+      />
+      <ResetPasswordDialog
+        open={!!resettingPassword}
+        onOpenChange={(open) => !open && setResettingPassword(null)}
+        student={resettingPassword}
+        isSaving={updateMutation.isPending}
+        onSubmit={(password) => updateMutation.mutate({
+          id: resettingPassword!.id,
+          data: { password },
+          message: `Đã đặt lại mật khẩu cho ${resettingPassword!.username}`,
+        })}
+      />
+      <ApiKeyDialog
+        open={!!assigningKey}
+        onOpenChange={(open) => !open && setAssigningKey(null)}
+        student={assigningKey}
+        isSaving={updateMutation.isPending}
+        onSubmit={(apiKey) => updateMutation.mutate({
+          id: assigningKey!.id,
+          data: { apiKey },
+          message: apiKey ? `Đã gán API key cho ${assigningKey!.username}` : `${assigningKey!.username} sẽ dùng API key của hệ thống`,
+        })}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa tài khoản?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Tài khoản {deleting?.username} sẽ bị xóa vĩnh viễn. Nếu chỉ muốn tạm ngưng, hãy khóa tài khoản thay vì xóa.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteMutation.mutate(deleting!.id);
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { AppHeader } from "@/components/app-header";
+import { AssignmentDialog } from "@/components/assignment-dialog";
+import { SubmissionReviewDialog } from "@/components/submission-review-dialog";
+import { formatScore } from "@/components/grade-details";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, Loader2, Megaphone, Plus, School, Trash2 } from "lucide-react";
+import type { AssignmentDetail, AssignmentStudentStatus, AssignmentSummary, InsertAssignment } from "@shared/schema";
+
+const ASSIGNMENTS_KEY = ["/api/assignments"];
+
+const studentStatusLabels: Record<AssignmentStudentStatus["status"], string> = {
+  not_started: "Chưa làm",
+  in_progress: "Đang làm",
+  submitted: "Đã nộp",
+};
+
+function formatDateTime(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' }) : "—";
+}
+
+/**
+ * Tests the teacher has assigned to their classes and how far each
+ * student has got with them.
+ */
+export default function AssignmentsPage() {
+  const { can } = useAuth();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [deleting, setDeleting] = useState<AssignmentSummary | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const { data: assignments = [], isLoading, error } = useQuery<AssignmentSummary[]>({
+    queryKey: ASSIGNMENTS_KEY,
+    staleTime: 0,
+  });
+  const { data: detail, isLoading: isDetailLoading } = useQuery<AssignmentDetail>({
+    queryKey: [...ASSIGNMENTS_KEY, selectedId],
+    enabled: !!selectedId,
+    staleTime: 0,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ASSIGNMENTS_KEY });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Lỗi",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertAssignment) => {
+      const res = await apiRequest("POST", "/api/assignments", data);
+      return (await res.json()) as AssignmentSummary;
+    },
+    onSuccess: (assignment) => {
+      refresh();
+      setIsCreateOpen(false);
+      setSelectedId(assignment.id);
+      toast({ title: "Thành công", description: `Đã giao bài ${assignment.title} cho lớp ${assignment.className}` });
+    },
+    onError: (error) => showError(error, "Lỗi giao bài"),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/assignments/${id}/publish`);
+      return (await res.json()) as { published: number; pending: number };
+    },
+    onSuccess: ({ published, pending }) => {
+      refresh();
+      toast({
+        title: "Thành công",
+        description: pending > 0
+          ? `Đã công bố ${published} bài. ${pending} bài còn câu tự luận chưa chấm nên chưa được công bố`
+          : `Đã công bố ${published} bài`,
+      });
+    },
+    onError: (error) => showError(error, "Lỗi công bố kết quả"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/assignments/${id}`),
+    onSuccess: (_res, id) => {
+      if (selectedId === id) setSelectedId(null);
+      refresh();
+      toast({ title: "Thành công", description: "Đã xóa bài kiểm tra" });
+    },
+    onError: (error) => showError(error, "Lỗi xóa bài kiểm tra"),
+    onSettled: () => setDeleting(null),
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Bài kiểm tra" subtitle="Giao bài kiểm tra trực tuyến cho lớp và theo dõi bài làm">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Tạo câu hỏi
+          </Link>
+        </Button>
+        {can('classes:view') && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/classes">
+              <School className="h-4 w-4 mr-2" />
+              Lớp học
+            </Link>
+          </Button>
+        )}
+      </AppHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-5 gap-8">
+        <Card className="lg:col-span-3">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Bài đã giao</CardTitle>
+              <CardDescription>{assignments.length} bài kiểm tra</CardDescription>
+            </div>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Giao bài
+            </Button>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Đang tải...
+              </div>
+            ) : error ? (
+              <p className="py-12 text-center text-red-600">{getErrorMessage(error, "Lỗi lấy danh sách bài kiểm tra")}</p>
+            ) : assignments.length === 0 ? (
+              <p className="py-12 text-center text-gray-500">Chưa giao bài kiểm tra nào</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bài kiểm tra</TableHead>
+                    <TableHead>Lớp</TableHead>
+                    <TableHead>Hạn nộp</TableHead>
+                    <TableHead className="text-right">Đã nộp</TableHead>
+                    <TableHead className="w-12" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {assignments.map(assignment => (
+                    <TableRow
+                      key={assignment.id}
+                      className={`cursor-pointer ${assignment.id === selectedId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedId(assignment.id)}
+                    >
+                      <TableCell>
+                        <div className="font-medium">{assignment.title}</div>
+                        <div className="text-xs text-gray-500">
+                          {assignment.questionCount} câu · {assignment.durationMinutes ? `${assignment.durationMinutes} phút` : "không giới hạn thời gian"}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{assignment.className}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(assignment.dueAt)}</TableCell>
+                      <TableCell className="text-right text-sm">
+                        {assignment.submittedCount}/{assignment.studentCount}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setDeleting(assignment);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          {!selectedId ? (
+            <CardContent className="py-24 text-center text-gray-500">Chọn một bài kiểm tra để xem tình hình làm bài</CardContent>
+          ) : isDetailLoading || !detail ? (
+            <CardContent className="flex items-center justify-center py-24 text-gray-500">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Đang tải...
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+                <div>
+                  <CardTitle>{detail.title}</CardTitle>
+                  <CardDescription>
+                    Lớp {detail.className} · Mở lúc {formatDateTime(detail.opensAt)} · Hạn nộp {formatDateTime(detail.dueAt)}
+                  </CardDescription>
+                </div>
+                <Button
+                  size="sm"
+                  onClick={() => publishMutation.mutate(detail.id)}
+                  disabled={publishMutation.isPending || detail.submittedCount === 0}
+                >
+                  {publishMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Megaphone className="h-4 w-4 mr-2" />}
+                  Công bố điểm
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {detail.students.length === 0 ? (
+                  <p className="py-12 text-center text-gray-500">Lớp chưa có học sinh</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Học sinh</TableHead>
+                        <TableHead>Trạng thái</TableHead>
+                        <TableHead>Nộp lúc</TableHead>
+                        <TableHead className="text-right">Điểm</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detail.students.map(student => (
+                        <TableRow
+                          key={student.studentId}
+                          className={student.status === 'submitted' ? "cursor-pointer" : ""}
+                          onClick={() => student.status === 'submitted' && setReviewingId(student.studentId)}
+                        >
+                          <TableCell>
+                            <div className="font-medium">{student.fullName ?? "Tài khoản đã xóa"}</div>
+                            <div className="font-mono text-xs text-gray-500">{student.username ?? "—"}</div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={student.status === 'submitted' ? 'default' : student.status === 'in_progress' ? 'secondary' : 'outline'}>
+                              {studentStatusLabels[student.status]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-sm">{formatDateTime(student.submittedAt)}</TableCell>
+                          <TableCell className="text-right text-sm">
+                            {student.grade ? (
+                              <>
+                                <div className="font-medium">{formatScore(student.grade.score)}/{formatScore(student.grade.maxScore)}</div>
+                                {student.grade.pendingCount > 0 ? (
+                                  <div className="text-xs text-gray-500">{student.grade.pendingCount} câu tự luận chờ chấm</div>
+                                ) : student.publishedAt && (
+                                  <div className="text-xs text-gray-500">Đã công bố</div>
+                                )}
+                              </>
+                            ) : "—"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+
+      {detail && (
+        <SubmissionReviewDialog
+          assignmentId={detail.id}
+          questions={detail.questions}
+          studentId={reviewingId}
+          onOpenChange={(open) => !open && setReviewingId(null)}
+        />
+      )}
+
+      <AssignmentDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        isSaving={createMutation.isPending}
+        onSubmit={(data) => createMutation.mutate(data)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa bài kiểm tra?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Bài {deleting?.title} của lớp {deleting?.className} sẽ bị xóa cùng toàn bộ bài làm của học sinh.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteMutation.mutate(deleting!.id);
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
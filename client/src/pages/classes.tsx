@@ -0,0 +1,399 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/auth-context";
+import { AppHeader } from "@/components/app-header";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ClassFormDialog, AddMembersDialog } from "@/components/class-dialogs";
+import { ImportStudentsDialog } from "@/components/student-import-dialog";
+import { ArrowLeft, Edit, FileSpreadsheet, Loader2, Plus, Shield, Trash2, UserMinus, UserPlus } from "lucide-react";
+import type { ClassDetail, ClassMemberProfile, ClassMemberRole, ClassSummary, InsertClass, StudentAccount } from "@shared/schema";
+
+const CLASSES_KEY = ["/api/classes"];
+
+const memberRoleLabels: Record<ClassMemberRole, string> = {
+  teacher: "Giáo viên bộ môn",
+  student: "Học sinh",
+};
+
+/**
+ * Classes of each school year with their homeroom teacher and members.
+ * Admins create and edit classes; admins and homeroom teachers manage
+ * members.
+ */
+export default function ClassesPage() {
+  const { user, can } = useAuth();
+  const { toast } = useToast();
+  const canManageClasses = can('classes:manage');
+  const [schoolYear, setSchoolYear] = useState<string>("all");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editing, setEditing] = useState<ClassSummary | null>(null);
+  const [deleting, setDeleting] = useState<ClassSummary | null>(null);
+  const [isAddMembersOpen, setIsAddMembersOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [removing, setRemoving] = useState<ClassMemberProfile | null>(null);
+
+  const { data: classes = [], isLoading, error } = useQuery<ClassSummary[]>({ queryKey: CLASSES_KEY });
+  const { data: detail, isLoading: isDetailLoading } = useQuery<ClassDetail>({
+    queryKey: [...CLASSES_KEY, selectedId],
+    enabled: !!selectedId,
+  });
+  // Homeroom teachers are picked from the teacher accounts, which only admins can list
+  const { data: accounts = [] } = useQuery<StudentAccount[]>({
+    queryKey: ["/api/admin/students"],
+    enabled: canManageClasses,
+  });
+  const teachers = accounts.filter(account => account.role === 'teacher');
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: CLASSES_KEY });
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Lỗi",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertClass) => {
+      const res = await apiRequest("POST", "/api/classes", data);
+      return (await res.json()) as ClassSummary;
+    },
+    onSuccess: (schoolClass) => {
+      refresh();
+      setIsCreateOpen(false);
+      setSelectedId(schoolClass.id);
+      toast({ title: "Thành công", description: `Đã tạo lớp ${schoolClass.name}` });
+    },
+    onError: (error) => showError(error, "Lỗi tạo lớp"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: InsertClass }) => {
+      const res = await apiRequest("PUT", `/api/classes/${id}`, data);
+      return (await res.json()) as ClassSummary;
+    },
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+      toast({ title: "Thành công", description: "Đã cập nhật lớp" });
+    },
+    onError: (error) => showError(error, "Lỗi cập nhật lớp"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/classes/${id}`),
+    onSuccess: (_res, id) => {
+      if (selectedId === id) setSelectedId(null);
+      refresh();
+      toast({ title: "Thành công", description: "Đã xóa lớp" });
+    },
+    onError: (error) => showError(error, "Lỗi xóa lớp"),
+    onSettled: () => setDeleting(null),
+  });
+
+  const addMembersMutation = useMutation({
+    mutationFn: async (data: { usernames: string[]; role: ClassMemberRole }) => {
+      const res = await apiRequest("POST", `/api/classes/${selectedId}/members`, data);
+      return (await res.json()) as { added: number; notFound: string[] };
+    },
+    onSuccess: ({ added, notFound }) => {
+      refresh();
+      setIsAddMembersOpen(false);
+      toast({
+        title: "Thành công",
+        description: notFound.length > 0
+          ? `Đã thêm ${added} tài khoản. Không tìm thấy: ${notFound.join(", ")}`
+          : `Đã thêm ${added} tài khoản`,
+      });
+    },
+    onError: (error) => showError(error, "Lỗi thêm thành viên"),
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (accountId: string) => apiRequest("DELETE", `/api/classes/${selectedId}/members/${accountId}`),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Thành công", description: "Đã xóa khỏi lớp" });
+    },
+    onError: (error) => showError(error, "Lỗi xóa thành viên"),
+    onSettled: () => setRemoving(null),
+  });
+
+  const schoolYears = Array.from(new Set(classes.map(schoolClass => schoolClass.schoolYear))).sort().reverse();
+  const visibleClasses = classes.filter(schoolClass => schoolYear === "all" || schoolClass.schoolYear === schoolYear);
+  const canManageMembers = !!detail && (canManageClasses || detail.homeroomTeacherId === user?.id);
+  const members = detail?.members ?? [];
+  const sortedMembers = [...members].sort((a, b) =>
+    a.role === b.role ? (a.fullName ?? "").localeCompare(b.fullName ?? "", 'vi') : a.role === 'teacher' ? -1 : 1
+  );
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Lớp học" subtitle="Danh sách lớp, giáo viên chủ nhiệm và học sinh">
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Tạo câu hỏi
+          </Link>
+        </Button>
+        {can('accounts:manage') && (
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/admin">
+              <Shield className="h-4 w-4 mr-2" />
+              Quản trị
+            </Link>
+          </Button>
+        )}
+      </AppHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-5 gap-8">
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle>Lớp</CardTitle>
+              <CardDescription>{visibleClasses.length} lớp</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={schoolYear} onValueChange={setSchoolYear}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Mọi năm học</SelectItem>
+                  {schoolYears.map(year => (
+                    <SelectItem key={year} value={year}>{year}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canManageClasses && (
+                <Button onClick={() => setIsCreateOpen(true)}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Thêm lớp
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Đang tải...
+              </div>
+            ) : error ? (
+              <p className="py-12 text-center text-red-600">{getErrorMessage(error, "Lỗi lấy danh sách lớp")}</p>
+            ) : visibleClasses.length === 0 ? (
+              <p className="py-12 text-center text-gray-500">
+                {canManageClasses ? "Chưa có lớp nào" : "Bạn chưa được phân công lớp nào"}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Lớp</TableHead>
+                    <TableHead>Năm học</TableHead>
+                    <TableHead>GVCN</TableHead>
+                    <TableHead className="text-right">Sĩ số</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleClasses.map(schoolClass => (
+                    <TableRow
+                      key={schoolClass.id}
+                      className={`cursor-pointer ${schoolClass.id === selectedId ? "bg-muted" : ""}`}
+                      onClick={() => setSelectedId(schoolClass.id)}
+                    >
+                      <TableCell className="font-medium">{schoolClass.name}</TableCell>
+                      <TableCell className="text-sm">{schoolClass.schoolYear}</TableCell>
+                      <TableCell className="text-sm">{schoolClass.homeroomTeacherName ?? "—"}</TableCell>
+                      <TableCell className="text-right text-sm">{schoolClass.studentCount}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-3">
+          {!selectedId ? (
+            <CardContent className="py-24 text-center text-gray-500">Chọn một lớp để xem danh sách thành viên</CardContent>
+          ) : isDetailLoading || !detail ? (
+            <CardContent className="flex items-center justify-center py-24 text-gray-500">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Đang tải...
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <div>
+                  <CardTitle>Lớp {detail.name}</CardTitle>
+                  <CardDescription>
+                    Năm học {detail.schoolYear} · GVCN: {detail.homeroomTeacherName ?? "chưa phân công"} · {detail.studentCount} học sinh
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  {canManageClasses && (
+                    <>
+                      <Button variant="outline" size="sm" onClick={() => setEditing(detail)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setDeleting(detail)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                  {can('accounts:manage') && (
+                    <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      Nhập từ file
+                    </Button>
+                  )}
+                  {canManageMembers && (
+                    <Button size="sm" onClick={() => setIsAddMembersOpen(true)}>
+                      <UserPlus className="h-4 w-4 mr-2" />
+                      Thêm thành viên
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent>
+                {sortedMembers.length === 0 ? (
+                  <p className="py-12 text-center text-gray-500">Lớp chưa có thành viên</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Họ và tên</TableHead>
+                        <TableHead>Tên đăng nhập</TableHead>
+                        <TableHead>Vai trò</TableHead>
+                        {canManageMembers && <TableHead className="w-12" />}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sortedMembers.map(member => (
+                        <TableRow key={member.accountId}>
+                          <TableCell className="font-medium">{member.fullName ?? "Tài khoản đã xóa"}</TableCell>
+                          <TableCell className="font-mono text-sm">{member.username ?? "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant={member.role === 'teacher' ? 'default' : 'secondary'}>
+                              {memberRoleLabels[member.role]}
+                            </Badge>
+                          </TableCell>
+                          {canManageMembers && (
+                            <TableCell>
+                              <Button variant="ghost" size="sm" onClick={() => setRemoving(member)}>
+                                <UserMinus className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </main>
+
+      <ClassFormDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        teachers={teachers}
+        isSaving={createMutation.isPending}
+        onSubmit={(data) => createMutation.mutate(data)}
+      />
+      <ClassFormDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        schoolClass={editing}
+        teachers={teachers}
+        isSaving={updateMutation.isPending}
+        onSubmit={(data) => updateMutation.mutate({ id: editing!.id, data })}
+      />
+      <AddMembersDialog
+        open={isAddMembersOpen}
+        onOpenChange={setIsAddMembersOpen}
+        className={detail?.name ?? ""}
+        isSaving={addMembersMutation.isPending}
+        onSubmit={(data) => addMembersMutation.mutate(data)}
+      />
+      {selectedId && (
+        <ImportStudentsDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          onImported={refresh}
+          classId={selectedId}
+        />
+      )}
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa lớp?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Lớp {deleting?.name} ({deleting?.schoolYear}) sẽ bị xóa cùng danh sách thành viên. Tài khoản học sinh và ngân hàng câu hỏi của lớp vẫn được giữ lại.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                deleteMutation.mutate(deleting!.id);
+              }}
+              disabled={deleteMutation.isPending}
+            >
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={!!removing} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Xóa khỏi lớp?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {removing?.fullName ?? removing?.username} sẽ không còn là thành viên lớp {detail?.name}. Tài khoản vẫn được giữ lại.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Hủy</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                removeMemberMutation.mutate(removing!.accountId);
+              }}
+              disabled={removeMemberMutation.isPending}
+            >
+              Xóa
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
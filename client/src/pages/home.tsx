@@ -4,19 +4,42 @@ import { GeneratedQuestions } from "@/components/generated-questions";
 import { QuestionHistory } from "@/components/question-history";
 import { LatexRenderer } from "@/lib/latex-renderer";
 import { useAuth } from "@/contexts/auth-context";
+import { AppHeader } from "@/components/app-header";
 import { Button } from "@/components/ui/button";
-import { LogOut, User } from "lucide-react";
-import type { QuestionRequest, InsertQuestionRequest } from "@shared/schema";
+import { Link } from "wouter";
+import { ClipboardList, School, Shield } from "lucide-react";
+import type { QuestionRequest, InsertQuestionRequest, GeneratedQuestion, QuestionStreamEvent } from "@shared/schema";
 
 export default function Home() {
-  const { user, logout } = useAuth();
+  const { can } = useAuth();
   const [generatedQuestions, setGeneratedQuestions] = useState<QuestionRequest | null>(null);
   const [loadFormData, setLoadFormData] = useState<InsertQuestionRequest | null>(null);
+  const [streamingQuestions, setStreamingQuestions] = useState<GeneratedQuestion[]>([]);
+  const [isStreaming, setIsStreaming] = useState(false);
 
   const handleQuestionsGenerated = (questions: QuestionRequest) => {
+    setIsStreaming(false);
+    setStreamingQuestions([]);
     setGeneratedQuestions(questions);
   };
 
+  const handleStreamEvent = (event: QuestionStreamEvent) => {
+    switch (event.type) {
+      case 'prompt_sent':
+        setGeneratedQuestions(null);
+        setStreamingQuestions([]);
+        setIsStreaming(true);
+        break;
+      case 'question':
+        setStreamingQuestions(prev => [...prev, event.question]);
+        break;
+      case 'error':
+        setIsStreaming(false);
+        setStreamingQuestions([]);
+        break;
+    }
+  };
+
   const handleLoadQuestions = (questions: QuestionRequest) => {
     setGeneratedQuestions(questions);
   };
@@ -26,40 +49,48 @@ export default function Home() {
     setTimeout(() => setLoadFormData(null), 100);
   };
 
-  const handleLogout = async () => {
-    await logout();
-  };
-
   return (
     <LatexRenderer>
       <div className="min-h-screen bg-background">
-        <header className="border-b bg-white">
-          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
-            <div>
-              <h1 className="text-2xl font-bold text-gray-900">Hệ thống tạo câu hỏi</h1>
-              <p className="text-sm text-gray-600">Tạo câu hỏi tự động bằng AI</p>
-            </div>
-            <div className="flex items-center gap-4">
-              <div className="flex items-center gap-2 text-sm">
-                <User className="h-4 w-4" />
-                <span className="font-medium">{user?.fullName}</span>
-                <span className="text-gray-500">({user?.gradeLevel} - Lớp {user?.classNumber})</span>
-              </div>
-              <Button variant="outline" size="sm" onClick={handleLogout}>
-                <LogOut className="h-4 w-4 mr-2" />
-                Đăng xuất
-              </Button>
-            </div>
-          </div>
-        </header>
+        <AppHeader title="Hệ thống tạo câu hỏi" subtitle="Tạo câu hỏi tự động bằng AI">
+          {can('tests:assign') && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/assignments">
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Bài kiểm tra
+              </Link>
+            </Button>
+          )}
+          {can('classes:view') && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/classes">
+                <School className="h-4 w-4 mr-2" />
+                Lớp học
+              </Link>
+            </Button>
+          )}
+          {can('accounts:manage') && (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/admin">
+                <Shield className="h-4 w-4 mr-2" />
+                Quản trị
+              </Link>
+            </Button>
+          )}
+        </AppHeader>
 
         <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             <QuestionForm
               onQuestionsGenerated={handleQuestionsGenerated}
+              onStreamEvent={handleStreamEvent}
               loadFormData={loadFormData}
             />
-            <GeneratedQuestions questions={generatedQuestions} />
+            <GeneratedQuestions
+              questions={generatedQuestions}
+              streamingQuestions={streamingQuestions}
+              isStreaming={isStreaming}
+            />
           </div>
         </main>
       </div>
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { useLocation, useRoute } from "wouter";
+import { Redirect, useLocation } from "wouter";
 import { useAuth } from "@/contexts/auth-context";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,8 +8,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 
 export default function LoginPage() {
   const [, navigate] = useLocation();
-  const { login, isLoading } = useAuth();
-  const [email, setEmail] = useState("");
+  const { login, isLoading, isAuthenticated } = useAuth();
+  const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -18,7 +18,7 @@ export default function LoginPage() {
     setIsSubmitting(true);
 
     try {
-      await login(email, password);
+      await login(username, password);
       navigate("/");
     } catch (error) {
       console.error("Login failed:", error);
@@ -27,6 +27,10 @@ export default function LoginPage() {
     }
   };
 
+  if (isAuthenticated) {
+    return <Redirect to="/" />;
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -47,13 +51,13 @@ export default function LoginPage() {
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <Label htmlFor="username">Tên đăng nhập</Label>
               <Input
-                id="email"
-                type="email"
-                placeholder="email@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                id="username"
+                autoComplete="username"
+                placeholder="Nhập tên đăng nhập"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
                 required
               />
             </div>
@@ -63,6 +67,7 @@ export default function LoginPage() {
               <Input
                 id="password"
                 type="password"
+                autoComplete="current-password"
                 placeholder="Nhập mật khẩu"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
@@ -78,16 +83,9 @@ export default function LoginPage() {
               {isSubmitting ? "Đang đăng nhập..." : "Đăng nhập"}
             </Button>
 
-            <div className="text-center text-sm">
-              Chưa có tài khoản?{" "}
-              <button
-                type="button"
-                onClick={() => navigate("/register")}
-                className="text-blue-600 hover:underline font-medium"
-              >
-                Đăng ký ngay
-              </button>
-            </div>
+            <p className="text-center text-sm text-gray-600">
+              Chưa có tài khoản? Liên hệ giáo viên hoặc quản trị viên để được cấp tài khoản.
+            </p>
           </form>
         </CardContent>
       </Card>
@@ -1,184 +0,0 @@
-import { useState } from "react";
-import { useLocation } from "wouter";
-import { useAuth } from "@/contexts/auth-context";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-
-export default function RegisterPage() {
-  const [, navigate] = useLocation();
-  const { register, isLoading } = useAuth();
-  const [fullName, setFullName] = useState("");
-  const [gradeLevel, setGradeLevel] = useState("");
-  const [classNumber, setClassNumber] = useState("");
-  const [email, setEmail] = useState("");
-  const [password, setPassword] = useState("");
-  const [confirmPassword, setConfirmPassword] = useState("");
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const getClassOptions = () => {
-    if (gradeLevel === "Tiểu học") {
-      return [1, 2, 3, 4, 5];
-    } else if (gradeLevel === "THCS") {
-      return [6, 7, 8, 9];
-    } else if (gradeLevel === "THPT") {
-      return [10, 11, 12];
-    }
-    return [];
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-
-    try {
-      await register({
-        fullName,
-        gradeLevel,
-        classNumber: parseInt(classNumber),
-        email,
-        password,
-        confirmPassword,
-      });
-      navigate("/");
-    } catch (error) {
-      console.error("Registration failed:", error);
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
-
-  if (isLoading) {
-    return (
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="text-center">Đang tải...</div>
-      </div>
-    );
-  }
-
-  return (
-    <div className="flex items-center justify-center min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 p-4">
-      <Card className="w-full max-w-md">
-        <CardHeader>
-          <CardTitle className="text-2xl font-bold text-center">Đăng ký tài khoản</CardTitle>
-          <CardDescription className="text-center">
-            Tạo tài khoản mới để sử dụng hệ thống
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="fullName">Họ và tên</Label>
-              <Input
-                id="fullName"
-                type="text"
-                placeholder="Nguyễn Văn A"
-                value={fullName}
-                onChange={(e) => setFullName(e.target.value)}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="gradeLevel">Cấp học</Label>
-              <Select value={gradeLevel} onValueChange={(value) => {
-                setGradeLevel(value);
-                setClassNumber("");
-              }}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Chọn cấp học" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="Tiểu học">Tiểu học</SelectItem>
-                  <SelectItem value="THCS">THCS</SelectItem>
-                  <SelectItem value="THPT">THPT</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="classNumber">Lớp</Label>
-              <Select
-                value={classNumber}
-                onValueChange={setClassNumber}
-                disabled={!gradeLevel}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Chọn lớp" />
-                </SelectTrigger>
-                <SelectContent>
-                  {getClassOptions().map((cls) => (
-                    <SelectItem key={cls} value={cls.toString()}>
-                      Lớp {cls}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="email@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="password">Mật khẩu</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Ví dụ: Vanan24042008@"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                minLength={6}
-              />
-              <p className="text-xs text-gray-500">
-                Mật khẩu phải có ít nhất 6 ký tự, bao gồm chữ in hoa, in thường, số và ký tự đặc biệt
-              </p>
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword">Xác nhận mật khẩu</Label>
-              <Input
-                id="confirmPassword"
-                type="password"
-                placeholder="Nhập lại mật khẩu"
-                value={confirmPassword}
-                onChange={(e) => setConfirmPassword(e.target.value)}
-                required
-              />
-            </div>
-
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isSubmitting}
-            >
-              {isSubmitting ? "Đang đăng ký..." : "Đăng ký"}
-            </Button>
-
-            <div className="text-center text-sm">
-              Đã có tài khoản?{" "}
-              <button
-                type="button"
-                onClick={() => navigate("/login")}
-                className="text-blue-600 hover:underline font-medium"
-              >
-                Đăng nhập
-              </button>
-            </div>
-          </form>
-        </CardContent>
-      </Card>
-    </div>
-  );
-}
@@ -0,0 +1,112 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { AppHeader } from "@/components/app-header";
+import { formatScore } from "@/components/grade-details";
+import { getErrorMessage } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, Loader2 } from "lucide-react";
+import type { StudentTest } from "@shared/schema";
+
+function formatDateTime(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' }) : "—";
+}
+
+// What the student can do with the test right now
+function testState(test: StudentTest, now: number): { label: string; variant: "default" | "secondary" | "outline"; action?: string } {
+  if (test.status === "submitted") return { label: "Đã nộp", variant: "secondary", action: "Xem lại" };
+  if (test.status === "in_progress") return { label: "Đang làm", variant: "default", action: "Làm tiếp" };
+  if (test.opensAt && now < new Date(test.opensAt).getTime()) return { label: "Chưa mở", variant: "outline" };
+  if (test.dueAt && now > new Date(test.dueAt).getTime()) return { label: "Quá hạn", variant: "outline" };
+  return { label: "Chưa làm", variant: "default", action: "Làm bài" };
+}
+
+/**
+ * Landing page for students: the tests assigned to their classes.
+ */
+export default function StudentHome() {
+  const { data: tests = [], isLoading, error } = useQuery<StudentTest[]>({
+    queryKey: ["/api/tests"],
+    staleTime: 0,
+  });
+  const now = Date.now();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title="Bài kiểm tra" subtitle="Các bài kiểm tra giáo viên đã giao cho bạn" />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Bài kiểm tra được giao</CardTitle>
+            <CardDescription>Bài làm được lưu tự động; hãy nộp bài trước khi hết giờ</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-gray-500">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Đang tải...
+              </div>
+            ) : error ? (
+              <p className="py-12 text-center text-red-600">{getErrorMessage(error, "Lỗi lấy danh sách bài kiểm tra")}</p>
+            ) : tests.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+                <ClipboardList className="h-10 w-10 mb-3" />
+                <p>Chưa có bài kiểm tra nào được giao</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bài kiểm tra</TableHead>
+                    <TableHead>Lớp</TableHead>
+                    <TableHead>Thời gian</TableHead>
+                    <TableHead>Mở lúc</TableHead>
+                    <TableHead>Hạn nộp</TableHead>
+                    <TableHead>Trạng thái</TableHead>
+                    <TableHead className="text-right">Điểm</TableHead>
+                    <TableHead className="w-28" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tests.map(test => {
+                    const state = testState(test, now);
+                    return (
+                      <TableRow key={test.id}>
+                        <TableCell>
+                          <div className="font-medium">{test.title}</div>
+                          <div className="text-xs text-gray-500">{test.questionCount} câu</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{test.className}</TableCell>
+                        <TableCell className="text-sm">
+                          {test.durationMinutes ? `${test.durationMinutes} phút` : "Không giới hạn"}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDateTime(test.opensAt)}</TableCell>
+                        <TableCell className="text-sm">{formatDateTime(test.dueAt)}</TableCell>
+                        <TableCell>
+                          <Badge variant={state.variant}>{state.label}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right text-sm font-medium">
+                          {test.score !== null && test.maxScore !== null ? `${formatScore(test.score)}/${formatScore(test.maxScore)}` : "—"}
+                        </TableCell>
+                        <TableCell>
+                          {state.action && (
+                            <Button size="sm" variant={test.status === "submitted" ? "outline" : "default"} asChild>
+                              <Link href={`/tests/${test.id}`}>{state.action}</Link>
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Link, useParams } from "wouter";
+import { AppHeader } from "@/components/app-header";
+import { TestQuestionInput, isAnswered } from "@/components/test-question";
+import { GradeBadge, RubricScores, formatScore } from "@/components/grade-details";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient, getErrorMessage } from "@/lib/queryClient";
+import { MathText } from "@/lib/latex-renderer";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ArrowLeft, CheckCircle, Clock, Loader2, Send } from "lucide-react";
+import type { QuestionResponse, TestSession } from "@shared/schema";
+
+// Answers are saved this long after the last change
+const AUTOSAVE_DELAY_MS = 3000;
+
+type SaveState = "saved" | "pending" | "saving" | "error";
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+/**
+ * A student's attempt at one test: answers are autosaved while the timer
+ * runs, and the test is handed in when the student submits or time is up.
+ */
+export default function TakeTestPage() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const [session, setSession] = useState<TestSession | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [responses, setResponses] = useState<Record<string, QuestionResponse>>({});
+  const [saveState, setSaveState] = useState<SaveState>("saved");
+  const [now, setNow] = useState(Date.now());
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Server time minus local time, so the countdown follows the server's clock
+  const clockOffset = useRef(0);
+  const responsesRef = useRef(responses);
+  responsesRef.current = responses;
+  // Bumped on every change, so a save that finishes after a newer change keeps it pending
+  const editVersion = useRef(0);
+
+  const isSubmitted = session?.test.status === "submitted";
+
+  const applySession = useCallback((next: TestSession) => {
+    clockOffset.current = new Date(next.serverTime).getTime() - Date.now();
+    setSession(next);
+  }, []);
+
+  useEffect(() => {
+    apiRequest("POST", `/api/tests/${id}/start`)
+      .then(res => res.json())
+      .then((started: TestSession) => {
+        applySession(started);
+        setResponses(started.responses);
+        queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      })
+      .catch(error => setLoadError(getErrorMessage(error, "Không thể mở bài kiểm tra")));
+  }, [id, applySession]);
+
+  // The server refuses answers once time is up; show what it recorded instead
+  const handleClosed = useCallback(async (error: unknown) => {
+    toast({ title: "Không thể lưu bài làm", description: getErrorMessage(error, "Lỗi lưu bài làm"), variant: "destructive" });
+    try {
+      const res = await apiRequest("POST", `/api/tests/${id}/start`);
+      const latest: TestSession = await res.json();
+      applySession(latest);
+      if (latest.test.status === "submitted") setResponses(latest.responses);
+    } catch {
+      // Keep the current state; the student can retry
+    }
+    queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+  }, [id, applySession, toast]);
+
+  const save = useCallback(async () => {
+    const version = editVersion.current;
+    setSaveState("saving");
+    try {
+      const res = await apiRequest("PUT", `/api/tests/${id}/responses`, { responses: responsesRef.current });
+      applySession(await res.json());
+      setSaveState(current => version === editVersion.current ? "saved" : current);
+    } catch (error) {
+      setSaveState("error");
+      if (error instanceof Error && error.message.startsWith("409")) await handleClosed(error);
+    }
+  }, [id, applySession, handleClosed]);
+
+  const submit = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      const res = await apiRequest("POST", `/api/tests/${id}/submit`, { responses: responsesRef.current });
+      applySession(await res.json());
+      setSaveState("saved");
+      setIsConfirmOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/tests"] });
+      toast({ title: "Đã nộp bài", description: "Bài làm của bạn đã được ghi nhận" });
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("409")) {
+        await handleClosed(error);
+      } else {
+        toast({ title: "Lỗi", description: getErrorMessage(error, "Không thể nộp bài"), variant: "destructive" });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [id, applySession, handleClosed, toast]);
+
+  const handleChange = (questionId: string, response: QuestionResponse) => {
+    editVersion.current++;
+    setResponses(current => ({ ...current, [questionId]: response }));
+    setSaveState("pending");
+  };
+
+  useEffect(() => {
+    if (saveState !== "pending" || isSubmitted) return;
+    const timer = setTimeout(save, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [responses, saveState, isSubmitted, save]);
+
+  // Warn before leaving with answers that have not reached the server
+  useEffect(() => {
+    if (saveState === "saved" || isSubmitted) return;
+    const warn = (e: BeforeUnloadEvent) => e.preventDefault();
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [saveState, isSubmitted]);
+
+  const deadline = session?.deadline ? new Date(session.deadline).getTime() : null;
+  const remaining = deadline === null ? null : deadline - (now + clockOffset.current);
+
+  useEffect(() => {
+    if (deadline === null || isSubmitted) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline, isSubmitted]);
+
+  // Hand the test in when time runs out
+  const autoSubmitted = useRef(false);
+  useEffect(() => {
+    if (remaining === null || remaining > 0 || isSubmitted || autoSubmitted.current) return;
+    autoSubmitted.current = true;
+    toast({ title: "Hết giờ làm bài", description: "Bài làm đang được nộp tự động" });
+    submit();
+  }, [remaining, isSubmitted, submit, toast]);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-background">
+        <AppHeader title="Bài kiểm tra" subtitle="Làm bài trực tuyến" />
+        <main className="max-w-3xl mx-auto px-4 py-8 space-y-4">
+          <Alert variant="destructive">
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+          <Button variant="outline" asChild>
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Danh sách bài kiểm tra
+            </Link>
+          </Button>
+        </main>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="flex items-center justify-center min-h-screen text-gray-500">
+        <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+        Đang mở bài kiểm tra...
+      </div>
+    );
+  }
+
+  const answeredCount = session.questions.filter(question => isAnswered(question, responses[question.id])).length;
+  const unansweredCount = session.questions.length - answeredCount;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <AppHeader title={session.test.title} subtitle={`Lớp ${session.test.className} · ${session.questions.length} câu`}>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Danh sách bài
+          </Link>
+        </Button>
+      </AppHeader>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <div className="lg:col-span-3 space-y-6">
+          {isSubmitted && (
+            <Alert>
+              <CheckCircle className="h-4 w-4" />
+              <AlertDescription>
+                Bạn đã nộp bài lúc {new Date(session.test.submittedAt!).toLocaleString('vi-VN')}. Bài làm bên dưới chỉ để xem lại.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {session.questions.map((question, index) => {
+            const grade = session.result?.questions.find(item => item.questionId === question.id);
+            return (
+              <Card key={question.id} id={`question-${index + 1}`}>
+                <CardHeader>
+                  <CardTitle className="flex items-start justify-between gap-4 text-base font-medium">
+                    <div>
+                      <span className="font-bold mr-2">Câu {index + 1}.</span>
+                      <MathText text={question.question} />
+                    </div>
+                    {grade && <GradeBadge grade={grade} />}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <TestQuestionInput
+                    question={question}
+                    response={responses[question.id]}
+                    onChange={(response) => handleChange(question.id, response)}
+                    disabled={isSubmitted}
+                  />
+                  {grade && <RubricScores question={question} grade={grade} />}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <aside className="lg:sticky lg:top-4 h-fit space-y-4">
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              {session.result && (
+                <div>
+                  <div className="text-sm text-gray-500">Điểm của bạn</div>
+                  <div className="text-2xl font-bold">
+                    {formatScore(session.result.score)}/{formatScore(session.result.maxScore)}
+                  </div>
+                </div>
+              )}
+              {remaining !== null && !isSubmitted && (
+                <div className={`flex items-center gap-2 text-2xl font-mono font-bold ${remaining < 5 * 60_000 ? "text-red-600" : ""}`}>
+                  <Clock className="h-5 w-5" />
+                  {formatRemaining(remaining)}
+                </div>
+              )}
+              <div className="flex items-center justify-between text-sm">
+                <span>Đã làm {answeredCount}/{session.questions.length} câu</span>
+                {!isSubmitted && (
+                  <Badge variant={saveState === "error" ? "destructive" : "secondary"}>
+                    {saveState === "saved" && "Đã lưu"}
+                    {saveState === "pending" && "Chưa lưu"}
+                    {saveState === "saving" && "Đang lưu..."}
+                    {saveState === "error" && "Lỗi lưu"}
+                  </Badge>
+                )}
+              </div>
+              <div className="grid grid-cols-5 gap-2">
+                {session.questions.map((question, index) => (
+                  <a
+                    key={question.id}
+                    href={`#question-${index + 1}`}
+                    className={`flex h-9 items-center justify-center rounded-md border text-sm ${isAnswered(question, responses[question.id]) ? "bg-primary text-primary-foreground" : ""}`}
+                  >
+                    {index + 1}
+                  </a>
+                ))}
+              </div>
+              {!isSubmitted && (
+                <>
+                  {saveState === "error" && (
+                    <Button variant="outline" className="w-full" onClick={save}>
+                      Lưu lại
+                    </Button>
+                  )}
+                  <Button className="w-full" onClick={() => setIsConfirmOpen(true)} disabled={isSubmitting}>
+                    {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                    Nộp bài
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </aside>
+      </main>
+
+      <AlertDialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Nộp bài?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {unansweredCount > 0
+                ? `Bạn còn ${unansweredCount} câu chưa làm. Sau khi nộp bạn không thể sửa bài làm.`
+                : "Sau khi nộp bạn không thể sửa bài làm."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Làm tiếp</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                submit();
+              }}
+              disabled={isSubmitting}
+            >
+              Nộp bài
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
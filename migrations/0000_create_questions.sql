@@ -0,0 +1,11 @@
+CREATE TABLE "questions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"subject" text NOT NULL,
+	"difficulty" text NOT NULL,
+	"topic" text NOT NULL,
+	"requirements" text,
+	"question_types" json NOT NULL,
+	"question_count" integer NOT NULL,
+	"generated_questions" json,
+	"created_at" timestamp DEFAULT now()
+);
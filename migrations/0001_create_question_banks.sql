@@ -0,0 +1,29 @@
+CREATE TABLE "question_bank_entries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bank_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"subject" text NOT NULL,
+	"difficulty" text NOT NULL,
+	"topic" text NOT NULL,
+	"requirements" text,
+	"question_types" json NOT NULL,
+	"question_count" integer NOT NULL,
+	"generated_questions" json NOT NULL,
+	"tags" json NOT NULL,
+	"original_id" varchar,
+	"added_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "question_banks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" varchar,
+	"name" text NOT NULL,
+	"description" text,
+	"subject" text NOT NULL,
+	"tags" json NOT NULL,
+	"is_template" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_modified" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "question_bank_entries" ADD CONSTRAINT "question_bank_entries_bank_id_question_banks_id_fk" FOREIGN KEY ("bank_id") REFERENCES "public"."question_banks"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
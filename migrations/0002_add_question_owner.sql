@@ -0,0 +1,3 @@
+ALTER TABLE "questions" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "custom_name" text;--> statement-breakpoint
+ALTER TABLE "questions" ADD COLUMN "saved_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "batch_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"owner_id" varchar,
+	"name" text NOT NULL,
+	"configs" json NOT NULL,
+	"options" json NOT NULL,
+	"status" text NOT NULL,
+	"progress" json NOT NULL,
+	"results" json NOT NULL,
+	"errors" json NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,24 @@
+CREATE TABLE "class_members" (
+	"class_id" varchar NOT NULL,
+	"account_id" varchar NOT NULL,
+	"role" text NOT NULL,
+	"added_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "class_members_class_id_account_id_pk" PRIMARY KEY("class_id","account_id")
+);
+--> statement-breakpoint
+CREATE TABLE "classes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"grade" integer NOT NULL,
+	"class_number" integer NOT NULL,
+	"school_year" text NOT NULL,
+	"homeroom_teacher_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "question_banks" ADD COLUMN "class_id" varchar;--> statement-breakpoint
+ALTER TABLE "class_members" ADD CONSTRAINT "class_members_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "class_members_account_idx" ON "class_members" USING btree ("account_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "classes_year_grade_number_idx" ON "classes" USING btree ("school_year","grade","class_number");--> statement-breakpoint
+ALTER TABLE "question_banks" ADD CONSTRAINT "question_banks_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE "assignments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"title" text NOT NULL,
+	"class_id" varchar NOT NULL,
+	"created_by" varchar NOT NULL,
+	"subject" text NOT NULL,
+	"questions" json NOT NULL,
+	"source_bank_id" varchar,
+	"source_entry_id" varchar,
+	"duration_minutes" integer,
+	"opens_at" timestamp,
+	"due_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "submissions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"assignment_id" varchar NOT NULL,
+	"student_id" varchar NOT NULL,
+	"responses" json NOT NULL,
+	"status" text NOT NULL,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"saved_at" timestamp DEFAULT now() NOT NULL,
+	"submitted_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "assignments" ADD CONSTRAINT "assignments_class_id_classes_id_fk" FOREIGN KEY ("class_id") REFERENCES "public"."classes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submissions" ADD CONSTRAINT "submissions_assignment_id_assignments_id_fk" FOREIGN KEY ("assignment_id") REFERENCES "public"."assignments"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "assignments_class_idx" ON "assignments" USING btree ("class_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "submissions_assignment_student_idx" ON "submissions" USING btree ("assignment_id","student_id");--> statement-breakpoint
+CREATE INDEX "submissions_student_idx" ON "submissions" USING btree ("student_id");
\ No newline at end of file
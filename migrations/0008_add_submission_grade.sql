@@ -0,0 +1 @@
+ALTER TABLE "submissions" ADD COLUMN "grade" json;
\ No newline at end of file
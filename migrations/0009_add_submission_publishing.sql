@@ -0,0 +1 @@
+ALTER TABLE "submissions" ADD COLUMN "published_at" timestamp;
\ No newline at end of file
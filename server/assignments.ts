@@ -0,0 +1,638 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  createAssignmentSchema,
+  gradeOverrideSchema,
+  hasPermission,
+  saveResponsesSchema,
+  type Assignment,
+  type AssignmentDetail,
+  type AssignmentStudentStatus,
+  type AssignmentSummary,
+  type ClassMember,
+  type GeneratedQuestion,
+  type QuestionResponse,
+  type StudentTest,
+  type Submission,
+  type SubmissionGrade,
+  type SubmissionReview,
+  type TestQuestion,
+  type TestSession,
+} from "@shared/schema";
+import { gradeSubmission, rubricFor, statusFromScore, withQuestionGrade } from "@shared/grading";
+import { storage, type StoredClass } from "./storage";
+import { displayName, getVisibleClassIds, loadProfiles, type AccountProfile } from "./classes";
+import { EssayGradingError, gradeEssay } from "./essay-grading";
+import { QuotaExceededError } from "./usage";
+
+// Saves that arrive shortly after the deadline (slow network, clock drift) still count
+const DEADLINE_GRACE_MS = 60_000;
+
+class TestUnavailableError extends Error {}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  if (error instanceof TestUnavailableError) {
+    return res.status(409).json({ message: error.message });
+  }
+  if (error instanceof QuotaExceededError) {
+    return res.status(429).json({ message: error.message });
+  }
+  if (error instanceof EssayGradingError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`[ASSIGNMENTS] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+// Answers are keyed by question id, so ids must be unique within a test
+function withUniqueIds(questions: GeneratedQuestion[]): GeneratedQuestion[] {
+  const seen = new Set<string>();
+  return questions.map((question, index) => {
+    let id = question.id || `q${index + 1}`;
+    while (seen.has(id)) id = `${id}_${index + 1}`;
+    seen.add(id);
+    return id === question.id ? question : { ...question, id };
+  });
+}
+
+// Deterministic shuffle, so a student sees the same order after reloading
+function seededShuffle<T>(items: T[], seed: string): T[] {
+  let state = 0;
+  for (const char of seed) state = (state * 31 + char.charCodeAt(0)) | 0;
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Items of an ordering question as first shown: shuffled, and never already in the right order
+function initialItemOrder(question: GeneratedQuestion, seed: string): number[] | undefined {
+  if (question.type !== 'ordering' || question.options || !question.items || question.items.length < 2) return undefined;
+  const order = seededShuffle(question.items.map((_, index) => index), `${seed}:${question.id}`);
+  const answer = question.correctOrder ?? order.map((_, index) => index);
+  return order.every((item, index) => item === answer[index]) ? [...order.slice(1), order[0]] : order;
+}
+
+/**
+ * The question without anything that gives the answer away. The right
+ * column of matching questions and the items of ordering questions are
+ * shuffled per submission because models tend to list them in the answer
+ * order.
+ */
+function toTestQuestion(question: GeneratedQuestion, seed: string): TestQuestion {
+  const {
+    correctAnswer: _correctAnswer,
+    explanation: _explanation,
+    blanks: _blanks,
+    correctMatches: _correctMatches,
+    correctOrder: _correctOrder,
+    statementAnswers: _statementAnswers,
+    statementExplanations: _statementExplanations,
+    clozeBlanks,
+    readingQuestions,
+    ...rest
+  } = question;
+
+  return {
+    ...rest,
+    rightItems: question.rightItems && seededShuffle(question.rightItems, `${seed}:${question.id}`),
+    clozeBlanks: clozeBlanks?.map(({ number, options }) => ({ number, options })),
+    readingQuestions: readingQuestions?.map(({ number, question, options }) => ({ number, question, options })),
+    itemOrder: initialItemOrder(question, seed),
+  };
+}
+
+function deadlineOf(assignment: Assignment, submission: Submission): Date | null {
+  const limits = [
+    assignment.durationMinutes ? submission.startedAt.getTime() + assignment.durationMinutes * 60_000 : Infinity,
+    assignment.dueAt ? assignment.dueAt.getTime() : Infinity,
+  ];
+  const deadline = Math.min(...limits);
+  return deadline === Infinity ? null : new Date(deadline);
+}
+
+/**
+ * Submit an attempt whose time ran out with what was saved last. Runs
+ * whenever a submission is read, so no background job is needed.
+ */
+async function finalizeIfExpired(assignment: Assignment, submission: Submission): Promise<Submission> {
+  const deadline = deadlineOf(assignment, submission);
+  if (submission.status !== "in_progress" || !deadline || Date.now() <= deadline.getTime() + DEADLINE_GRACE_MS) {
+    return submission;
+  }
+  return (await storage.updateSubmission(submission.id, {
+    status: "submitted",
+    submittedAt: deadline,
+    grade: gradeSubmission(assignment.questions, submission.responses),
+  })) ?? submission;
+}
+
+// Keep only answers to questions of the test
+function pickResponses(assignment: Assignment, responses: Record<string, QuestionResponse>): Record<string, QuestionResponse> {
+  const ids = new Set(assignment.questions.map(question => question.id));
+  return Object.fromEntries(Object.entries(responses).filter(([id]) => ids.has(id)));
+}
+
+// Submissions handed in before grading existed are graded when first read
+function currentGrade(assignment: Assignment, submission: Submission): SubmissionGrade {
+  return submission.grade ?? gradeSubmission(assignment.questions, submission.responses);
+}
+
+// The grade, once the teacher published it
+function visibleGrade(assignment: Assignment, submission: Submission | undefined): SubmissionGrade | null {
+  return submission?.publishedAt ? currentGrade(assignment, submission) : null;
+}
+
+function toStudentTest(assignment: Assignment, className: string, submission: Submission | undefined): StudentTest {
+  const result = visibleGrade(assignment, submission);
+  return {
+    id: assignment.id,
+    title: assignment.title,
+    subject: assignment.subject,
+    className,
+    questionCount: assignment.questions.length,
+    durationMinutes: assignment.durationMinutes,
+    opensAt: assignment.opensAt,
+    dueAt: assignment.dueAt,
+    status: submission?.status ?? "not_started",
+    submittedAt: submission?.submittedAt ?? null,
+    score: result?.score ?? null,
+    maxScore: result?.maxScore ?? null,
+  };
+}
+
+function toSession(assignment: Assignment, className: string, submission: Submission): TestSession {
+  return {
+    test: toStudentTest(assignment, className, submission),
+    questions: assignment.questions.map(question => toTestQuestion(question, submission.id)),
+    responses: submission.responses,
+    startedAt: submission.startedAt,
+    savedAt: submission.savedAt,
+    deadline: deadlineOf(assignment, submission),
+    serverTime: new Date(),
+    result: visibleGrade(assignment, submission),
+  };
+}
+
+async function toSummaries(list: Assignment[]): Promise<AssignmentSummary[]> {
+  const classById = new Map((await storage.listClasses()).map(schoolClass => [schoolClass.id, schoolClass]));
+  const submitted = await storage.listSubmissions({ assignmentIds: list.map(assignment => assignment.id) });
+
+  return list.map(({ questions, ...assignment }) => ({
+    ...assignment,
+    className: classById.get(assignment.classId)?.name ?? "",
+    questionCount: questions.length,
+    studentCount: classById.get(assignment.classId)?.studentCount ?? 0,
+    submittedCount: submitted.filter(submission =>
+      submission.assignmentId === assignment.id && submission.status === "submitted"
+    ).length,
+  }));
+}
+
+function toStudentStatus(
+  assignment: Assignment,
+  student: ClassMember,
+  profile: AccountProfile | undefined,
+  submission: Submission | undefined,
+): AssignmentStudentStatus {
+  return {
+    studentId: student.accountId,
+    username: profile?.username ?? null,
+    fullName: displayName(profile),
+    status: submission?.status ?? "not_started",
+    startedAt: submission?.startedAt ?? null,
+    submittedAt: submission?.submittedAt ?? null,
+    grade: submission?.status === "submitted" ? currentGrade(assignment, submission) : null,
+    publishedAt: submission?.publishedAt ?? null,
+  };
+}
+
+/**
+ * Load an assignment its teacher (or an admin) may manage; otherwise answer
+ * 404 and return undefined.
+ */
+async function findOwnAssignment(req: Request, res: Response): Promise<Assignment | undefined> {
+  const assignment = await storage.getAssignment(req.params.id);
+  const isOwner = assignment?.createdBy === req.session.userId || hasPermission(req.session.role, 'classes:manage');
+  if (!assignment || !isOwner) {
+    res.status(404).json({ message: "Không tìm thấy bài kiểm tra" });
+    return undefined;
+  }
+  return assignment;
+}
+
+/**
+ * Load an assignment of a class the session's student is in; otherwise
+ * answer 404 and return undefined.
+ */
+async function findStudentAssignment(req: Request, res: Response): Promise<{ assignment: Assignment; schoolClass: StoredClass } | undefined> {
+  const assignment = await storage.getAssignment(req.params.id);
+  const members = assignment ? await storage.listClassMembers(assignment.classId) : [];
+  const schoolClass = assignment && await storage.getClass(assignment.classId);
+  const isStudent = members.some(member => member.accountId === req.session.userId && member.role === "student");
+  if (!assignment || !schoolClass || !isStudent) {
+    res.status(404).json({ message: "Không tìm thấy bài kiểm tra" });
+    return undefined;
+  }
+  return { assignment, schoolClass };
+}
+
+/**
+ * GET /api/assignments — tests the teacher published (every test for admins).
+ */
+export async function listAssignments(req: Request, res: Response) {
+  try {
+    const createdBy = hasPermission(req.session.role, 'classes:manage') ? undefined : req.session.userId;
+    res.json(await toSummaries(await storage.listAssignments({ createdBy })));
+  } catch (error) {
+    sendError(res, error, "Không thể tải danh sách bài kiểm tra");
+  }
+}
+
+/**
+ * POST /api/assignments — publish one set of the teacher's bank to a class
+ * the teacher teaches.
+ */
+export async function createAssignment(req: Request, res: Response) {
+  try {
+    const data = createAssignmentSchema.parse(req.body);
+
+    const visible = await getVisibleClassIds(req);
+    const schoolClass = await storage.getClass(data.classId);
+    if (!schoolClass || (visible !== "all" && !visible.has(schoolClass.id))) {
+      return res.status(400).json({ message: "Không tìm thấy lớp" });
+    }
+
+    const bank = await storage.getBank(req.session.userId ?? null, data.bankId);
+    const entry = bank?.entries.find(candidate => candidate.id === data.entryId);
+    if (!bank || !entry) {
+      return res.status(400).json({ message: "Không tìm thấy bộ câu hỏi trong ngân hàng" });
+    }
+    if (entry.generatedQuestions.length === 0) {
+      return res.status(400).json({ message: "Bộ câu hỏi không có câu hỏi nào" });
+    }
+
+    const assignment = await storage.createAssignment({
+      title: data.title,
+      classId: schoolClass.id,
+      createdBy: req.session.userId!,
+      subject: entry.subject,
+      questions: withUniqueIds(entry.generatedQuestions),
+      sourceBankId: bank.id,
+      sourceEntryId: entry.id,
+      durationMinutes: data.durationMinutes ?? null,
+      opensAt: data.opensAt ?? null,
+      dueAt: data.dueAt ?? null,
+    });
+    console.log(`[ASSIGNMENTS] "${assignment.title}" published to ${schoolClass.name} (${assignment.questions.length} questions)`);
+
+    const [summary] = await toSummaries([assignment]);
+    res.status(201).json(summary);
+  } catch (error) {
+    sendError(res, error, "Không thể giao bài kiểm tra");
+  }
+}
+
+/**
+ * GET /api/assignments/:id — the test with its questions and where every
+ * student of the class is with it.
+ */
+export async function getAssignment(req: Request, res: Response) {
+  try {
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+
+    const [summary] = await toSummaries([assignment]);
+    const students = (await storage.listClassMembers(assignment.classId)).filter(member => member.role === "student");
+    const attempts = await Promise.all(
+      (await storage.listSubmissions({ assignmentIds: [assignment.id] }))
+        .map(submission => finalizeIfExpired(assignment, submission))
+    );
+    const profiles = await loadProfiles(students.map(student => student.accountId));
+
+    const detail: AssignmentDetail = {
+      ...summary,
+      submittedCount: attempts.filter(submission => submission.status === "submitted").length,
+      questions: assignment.questions,
+      students: students.map(student => toStudentStatus(
+        assignment,
+        student,
+        profiles.get(student.accountId),
+        attempts.find(attempt => attempt.studentId === student.accountId),
+      )),
+    };
+    res.json(detail);
+  } catch (error) {
+    sendError(res, error, "Không thể tải bài kiểm tra");
+  }
+}
+
+/**
+ * Load the submitted attempt of the student in the route; answers 404 (and
+ * returns undefined) for students who are not in the class.
+ */
+async function findSubmittedAttempt(req: Request, res: Response, assignment: Assignment): Promise<{ student: ClassMember; submission: Submission } | undefined> {
+  const members = await storage.listClassMembers(assignment.classId);
+  const student = members.find(member => member.accountId === req.params.studentId && member.role === "student");
+  if (!student) {
+    res.status(404).json({ message: "Không tìm thấy học sinh trong lớp" });
+    return undefined;
+  }
+
+  const attempt = await storage.getSubmission(assignment.id, student.accountId);
+  const submission = attempt && await finalizeIfExpired(assignment, attempt);
+  if (submission?.status !== "submitted") {
+    throw new TestUnavailableError("Học sinh chưa nộp bài");
+  }
+  return { student, submission };
+}
+
+async function toReview(assignment: Assignment, student: ClassMember, submission: Submission): Promise<SubmissionReview> {
+  const profiles = await loadProfiles([student.accountId]);
+  return {
+    ...toStudentStatus(assignment, student, profiles.get(student.accountId), submission),
+    responses: submission.responses,
+  };
+}
+
+/**
+ * GET /api/assignments/:id/students/:studentId — the student's answers and
+ * grade, for review.
+ */
+export async function getSubmissionReview(req: Request, res: Response) {
+  try {
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+    const found = await findSubmittedAttempt(req, res, assignment);
+    if (!found) return;
+
+    res.json(await toReview(assignment, found.student, found.submission));
+  } catch (error) {
+    sendError(res, error, "Không thể tải bài làm");
+  }
+}
+
+/**
+ * POST /api/assignments/:id/students/:studentId/grade-essays — grade the
+ * student's essay answers against their rubric with AI. Grades only what is
+ * still pending unless `questionId` asks to regrade one question.
+ */
+export async function gradeEssays(req: Request, res: Response) {
+  try {
+    const { questionId } = z.object({ questionId: z.string().optional() }).parse(req.body ?? {});
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+    const found = await findSubmittedAttempt(req, res, assignment);
+    if (!found) return;
+    const { student, submission } = found;
+
+    let grade = currentGrade(assignment, submission);
+    const targets = assignment.questions.filter(question => {
+      const existing = grade.questions.find(item => item.questionId === question.id);
+      if (!rubricFor(question) || existing?.status === "unanswered") return false;
+      return questionId ? question.id === questionId : existing?.status === "pending";
+    });
+    if (targets.length === 0) {
+      return res.status(400).json({ message: "Không có câu tự luận nào cần chấm" });
+    }
+
+    // One question at a time, so a failure keeps the grades already obtained
+    try {
+      for (const question of targets) {
+        const questionGrade = await gradeEssay(
+          question,
+          submission.responses[question.id]?.text ?? "",
+          assignment.subject,
+          req.session.userId ?? null,
+          submission.id,
+        );
+        grade = withQuestionGrade(grade, questionGrade);
+      }
+    } finally {
+      await storage.updateSubmission(submission.id, { grade });
+    }
+    console.log(`[ASSIGNMENTS] AI graded ${targets.length} essay(s) of submission ${submission.id}`);
+
+    res.json(await toReview(assignment, student, { ...submission, grade }));
+  } catch (error) {
+    sendError(res, error, "Không thể chấm bài tự luận");
+  }
+}
+
+/**
+ * PUT /api/assignments/:id/students/:studentId/grades/:questionId — the
+ * teacher's own score (and feedback) for one question, replacing the
+ * automatic or AI grade.
+ */
+export async function overrideGrade(req: Request, res: Response) {
+  try {
+    const data = gradeOverrideSchema.parse(req.body);
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+    const found = await findSubmittedAttempt(req, res, assignment);
+    if (!found) return;
+    const { student, submission } = found;
+
+    const grade = currentGrade(assignment, submission);
+    const existing = grade.questions.find(item => item.questionId === req.params.questionId);
+    if (!existing) {
+      return res.status(404).json({ message: "Không tìm thấy câu hỏi" });
+    }
+    if (data.score > existing.maxScore) {
+      return res.status(400).json({ message: `Điểm tối đa của câu này là ${existing.maxScore}` });
+    }
+
+    const updated = withQuestionGrade(grade, {
+      ...existing,
+      status: statusFromScore(data.score, existing.maxScore),
+      score: data.score,
+      feedback: data.feedback ?? existing.feedback,
+      gradedBy: "teacher",
+    });
+    await storage.updateSubmission(submission.id, { grade: updated });
+
+    res.json(await toReview(assignment, student, { ...submission, grade: updated }));
+  } catch (error) {
+    sendError(res, error, "Không thể lưu điểm");
+  }
+}
+
+/**
+ * POST /api/assignments/:id/publish — let students see their grade. Only
+ * submissions without pending essays are published; the others are counted
+ * so the teacher knows what is left to grade.
+ */
+export async function publishResults(req: Request, res: Response) {
+  try {
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+
+    const attempts = await Promise.all(
+      (await storage.listSubmissions({ assignmentIds: [assignment.id] }))
+        .map(submission => finalizeIfExpired(assignment, submission))
+    );
+    const now = new Date();
+    let published = 0;
+    let pending = 0;
+    for (const submission of attempts) {
+      if (submission.status !== "submitted" || submission.publishedAt) continue;
+      const grade = currentGrade(assignment, submission);
+      if (grade.pendingCount > 0) {
+        pending++;
+        continue;
+      }
+      await storage.updateSubmission(submission.id, { grade, publishedAt: now });
+      published++;
+    }
+    console.log(`[ASSIGNMENTS] Published ${published} result(s) of "${assignment.title}"`);
+
+    res.json({ published, pending });
+  } catch (error) {
+    sendError(res, error, "Không thể công bố kết quả");
+  }
+}
+
+export async function deleteAssignment(req: Request, res: Response) {
+  try {
+    const assignment = await findOwnAssignment(req, res);
+    if (!assignment) return;
+
+    await storage.deleteAssignment(assignment.id);
+    res.json({ message: "Đã xóa bài kiểm tra" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa bài kiểm tra");
+  }
+}
+
+/**
+ * GET /api/tests — tests published to the student's classes, with how far
+ * the student got.
+ */
+export async function listTests(req: Request, res: Response) {
+  try {
+    const studentId = req.session.userId!;
+    const myClasses = await storage.listClasses({ memberId: studentId });
+    const classById = new Map(myClasses.map(schoolClass => [schoolClass.id, schoolClass]));
+    const list = await storage.listAssignments({ classIds: myClasses.map(schoolClass => schoolClass.id) });
+    const attempts = await storage.listSubmissions({ studentId });
+
+    const tests = await Promise.all(list.map(async assignment => {
+      const attempt = attempts.find(submission => submission.assignmentId === assignment.id);
+      const submission = attempt && await finalizeIfExpired(assignment, attempt);
+      return toStudentTest(assignment, classById.get(assignment.classId)?.name ?? "", submission);
+    }));
+    res.json(tests);
+  } catch (error) {
+    sendError(res, error, "Không thể tải danh sách bài kiểm tra");
+  }
+}
+
+/**
+ * POST /api/tests/:id/start — open the test, starting the timer on the first
+ * call. Later calls resume the same attempt; submitted attempts come back
+ * read-only.
+ */
+export async function startTest(req: Request, res: Response) {
+  try {
+    const found = await findStudentAssignment(req, res);
+    if (!found) return;
+    const { assignment, schoolClass } = found;
+    const studentId = req.session.userId!;
+
+    let submission = await storage.getSubmission(assignment.id, studentId);
+    if (!submission) {
+      const now = Date.now();
+      if (assignment.opensAt && now < assignment.opensAt.getTime()) {
+        throw new TestUnavailableError("Bài kiểm tra chưa đến giờ làm bài");
+      }
+      if (assignment.dueAt && now > assignment.dueAt.getTime()) {
+        throw new TestUnavailableError("Bài kiểm tra đã hết hạn");
+      }
+      submission = await storage.startSubmission(assignment.id, studentId);
+    }
+
+    submission = await finalizeIfExpired(assignment, submission);
+    res.json(toSession(assignment, schoolClass.name, submission));
+  } catch (error) {
+    sendError(res, error, "Không thể mở bài kiểm tra");
+  }
+}
+
+async function findOpenSubmission(assignment: Assignment, studentId: string): Promise<Submission> {
+  const existing = await storage.getSubmission(assignment.id, studentId);
+  if (!existing) {
+    throw new TestUnavailableError("Bạn chưa bắt đầu làm bài này");
+  }
+  if (existing.status === "submitted") {
+    throw new TestUnavailableError("Bài làm đã được nộp");
+  }
+  const submission = await finalizeIfExpired(assignment, existing);
+  if (submission.status === "submitted") {
+    throw new TestUnavailableError("Đã hết giờ làm bài, bài làm đã được nộp tự động");
+  }
+  return submission;
+}
+
+/**
+ * PUT /api/tests/:id/responses — autosave the answers given so far.
+ */
+export async function saveTestResponses(req: Request, res: Response) {
+  try {
+    const { responses } = saveResponsesSchema.parse(req.body);
+    const found = await findStudentAssignment(req, res);
+    if (!found) return;
+    const { assignment, schoolClass } = found;
+
+    const submission = await findOpenSubmission(assignment, req.session.userId!);
+    const saved = await storage.updateSubmission(submission.id, {
+      responses: pickResponses(assignment, responses),
+      savedAt: new Date(),
+    });
+    res.json(toSession(assignment, schoolClass.name, saved!));
+  } catch (error) {
+    sendError(res, error, "Không thể lưu bài làm");
+  }
+}
+
+/**
+ * POST /api/tests/:id/submit — hand in the attempt, optionally with the
+ * latest answers in the body.
+ */
+export async function submitTest(req: Request, res: Response) {
+  try {
+    const { responses } = saveResponsesSchema.partial().parse(req.body ?? {});
+    const found = await findStudentAssignment(req, res);
+    if (!found) return;
+    const { assignment, schoolClass } = found;
+
+    const submission = await findOpenSubmission(assignment, req.session.userId!);
+    const now = new Date();
+    const finalResponses = responses ? pickResponses(assignment, responses) : submission.responses;
+    const grade = gradeSubmission(assignment.questions, finalResponses);
+    const submitted = await storage.updateSubmission(submission.id, {
+      ...(responses && { responses: finalResponses, savedAt: now }),
+      status: "submitted",
+      submittedAt: now,
+      grade,
+    });
+    console.log(`[ASSIGNMENTS] Submission ${submission.id} handed in for "${assignment.title}" (${grade.score}/${grade.maxScore})`);
+    res.json(toSession(assignment, schoolClass.name, submitted!));
+  } catch (error) {
+    sendError(res, error, "Không thể nộp bài");
+  }
+}
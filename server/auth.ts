@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from "express";
 import bcrypt from "bcryptjs";
+import { hasPermission, managedRoles, type Permission, type SessionUser, type StudentAccount } from "@shared/schema";
 import { supabase } from "./supabase";
+import { storage } from "./storage";
 
 declare module "express-session" {
   interface SessionData {
@@ -9,6 +11,34 @@ declare module "express-session" {
   }
 }
 
+// The client never receives the account's API key, only whether it has one
+function toSessionUser(account: any): SessionUser {
+  return {
+    id: account.id,
+    username: account.username,
+    fullName: account.full_name || account.username,
+    role: account.role,
+    hasApiKey: !!account.api_key,
+    createdAt: account.created_at ?? null,
+  };
+}
+
+// Admins see which key a student uses, not the key itself
+function toStudentAccount(account: any): StudentAccount {
+  return {
+    id: account.id,
+    username: account.username,
+    fullName: account.full_name || account.username,
+    role: account.role,
+    isActive: account.is_active,
+    hasApiKey: !!account.api_key,
+    apiKeyHint: account.api_key ? `…${account.api_key.slice(-4)}` : null,
+    dailyRequestLimit: account.daily_request_limit,
+    dailyTokenLimit: account.daily_token_limit,
+    createdAt: account.created_at ?? null,
+  };
+}
+
 export async function login(req: Request, res: Response) {
   try {
     const { username, password } = req.body;
@@ -47,13 +77,7 @@ export async function login(req: Request, res: Response) {
     req.session.userId = account.id;
     req.session.role = account.role;
 
-    res.json({
-      id: account.id,
-      username: account.username,
-      fullName: account.full_name,
-      role: account.role,
-      apiKey: account.api_key,
-    });
+    res.json(toSessionUser(account));
   } catch (error) {
     console.error("[LOGIN] Error:", error);
     res.status(500).json({ message: "Lỗi đăng nhập" });
@@ -87,39 +111,98 @@ export async function checkSession(req: Request, res: Response) {
     return res.status(401).json({ message: "Phiên đăng nhập không hợp lệ" });
   }
 
-  res.json({
-    id: account.id,
-    username: account.username,
-    fullName: account.full_name,
-    role: account.role,
-    apiKey: account.api_key,
-  });
+  // Pick up role changes made since login
+  req.session.role = account.role;
+  res.json(toSessionUser(account));
 }
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.userId) {
-    return res.status(401).json({ message: "Cần đăng nhập" });
+// How long a looked-up role is trusted before the account is read again
+const ACCOUNT_STATUS_TTL = 30_000;
+
+// Current role per account id; null once the account is deactivated or deleted
+const accountRoles = new Map<string, { role: string | null; expiresAt: number }>();
+
+async function currentRole(userId: string): Promise<string | null> {
+  const cached = accountRoles.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.role;
   }
-  next();
-}
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.session.userId || req.session.role !== 'admin') {
-    return res.status(403).json({ message: "Chỉ admin mới có quyền truy cập" });
+  const { data: account, error } = await supabase
+    .from('accounts')
+    .select('role, is_active')
+    .eq('id', userId)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw error;
   }
-  next();
+
+  const role = account?.is_active ? account.role : null;
+  accountRoles.set(userId, { role, expiresAt: Date.now() + ACCOUNT_STATUS_TTL });
+  return role;
+}
+
+/**
+ * Let the request through only when the account's current role has
+ * `permission` in the shared permission matrix. Deactivating an account or
+ * changing its role applies to sessions that are already logged in.
+ */
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Cần đăng nhập" });
+    }
+
+    let role: string | null;
+    try {
+      role = await currentRole(req.session.userId);
+    } catch (error) {
+      console.error("[AUTH] Error loading account:", error);
+      return res.status(500).json({ message: "Lỗi kiểm tra phiên đăng nhập" });
+    }
+    if (!role) {
+      req.session.destroy(() => {});
+      return res.status(401).json({ message: "Phiên đăng nhập không hợp lệ" });
+    }
+
+    req.session.role = role;
+    if (!hasPermission(role, permission)) {
+      return res.status(403).json({ message: "Tài khoản của bạn không có quyền thực hiện thao tác này" });
+    }
+    next();
+  };
+}
+
+function isManagedRole(value: unknown): value is StudentAccount["role"] {
+  return managedRoles.includes(value as StudentAccount["role"]);
+}
+
+export const MIN_PASSWORD_LENGTH = 6;
+
+// Daily quota fields: omitted, null (server default) or a non-negative integer
+function isValidLimit(value: unknown): boolean {
+  return value === undefined || value === null || (Number.isInteger(value) && (value as number) >= 0);
 }
 
 export async function createStudentAccount(req: Request, res: Response) {
   try {
-    const { username, password, apiKey, fullName } = req.body;
+    const { username, password, apiKey, fullName, role = 'student', dailyRequestLimit, dailyTokenLimit } = req.body;
 
     if (!username || !password) {
       return res.status(400).json({ message: "Vui lòng nhập tên đăng nhập và mật khẩu" });
     }
 
-    if (!apiKey) {
-      return res.status(400).json({ message: "Vui lòng nhập API key" });
+    if (!isManagedRole(role)) {
+      return res.status(400).json({ message: "Vai trò không hợp lệ" });
+    }
+
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ message: `Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự` });
+    }
+
+    if (!isValidLimit(dailyRequestLimit) || !isValidLimit(dailyTokenLimit)) {
+      return res.status(400).json({ message: "Hạn mức mỗi ngày phải là số nguyên không âm" });
     }
 
     const { data: existingAccount } = await supabase
@@ -140,11 +223,14 @@ export async function createStudentAccount(req: Request, res: Response) {
       .insert({
         username,
         password_hash: hashedPassword,
-        role: 'student',
-        api_key: apiKey,
+        role,
+        // Without its own key the account uses the server's key
+        api_key: apiKey || null,
         full_name: fullName || username,
         created_by: req.session.userId,
         is_active: true,
+        daily_request_limit: dailyRequestLimit ?? null,
+        daily_token_limit: dailyTokenLimit ?? null,
       })
       .select()
       .single();
@@ -154,13 +240,7 @@ export async function createStudentAccount(req: Request, res: Response) {
       return res.status(500).json({ message: "Lỗi tạo tài khoản" });
     }
 
-    res.json({
-      id: newAccount.id,
-      username: newAccount.username,
-      fullName: newAccount.full_name,
-      role: newAccount.role,
-      createdAt: newAccount.created_at,
-    });
+    res.json(toStudentAccount(newAccount));
   } catch (error) {
     console.error("[CREATE_ACCOUNT] Error:", error);
     res.status(500).json({ message: "Lỗi tạo tài khoản" });
@@ -171,8 +251,8 @@ export async function getAllStudents(req: Request, res: Response) {
   try {
     const { data: students, error } = await supabase
       .from('accounts')
-      .select('id, username, full_name, api_key, created_at, is_active')
-      .eq('role', 'student')
+      .select('id, username, full_name, role, api_key, created_at, is_active, daily_request_limit, daily_token_limit')
+      .in('role', managedRoles)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -180,7 +260,7 @@ export async function getAllStudents(req: Request, res: Response) {
       return res.status(500).json({ message: "Lỗi lấy danh sách học sinh" });
     }
 
-    res.json(students);
+    res.json(students.map(toStudentAccount));
   } catch (error) {
     console.error("[GET_STUDENTS] Error:", error);
     res.status(500).json({ message: "Lỗi lấy danh sách học sinh" });
@@ -190,45 +270,72 @@ export async function getAllStudents(req: Request, res: Response) {
 export async function updateStudentAccount(req: Request, res: Response) {
   try {
     const { id } = req.params;
-    const { password, apiKey, fullName, isActive } = req.body;
+    const { password, apiKey, fullName, role, isActive, dailyRequestLimit, dailyTokenLimit } = req.body;
+
+    if (role !== undefined && !isManagedRole(role)) {
+      return res.status(400).json({ message: "Vai trò không hợp lệ" });
+    }
+
+    if (!isValidLimit(dailyRequestLimit) || !isValidLimit(dailyTokenLimit)) {
+      return res.status(400).json({ message: "Hạn mức mỗi ngày phải là số nguyên không âm" });
+    }
 
     const updateData: any = {};
 
+    if (password !== undefined && (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH)) {
+      return res.status(400).json({ message: `Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự` });
+    }
+
     if (password) {
       updateData.password_hash = await bcrypt.hash(password, 10);
     }
 
+    // An empty key goes back to the server's key
     if (apiKey !== undefined) {
-      updateData.api_key = apiKey;
+      updateData.api_key = apiKey || null;
     }
 
     if (fullName !== undefined) {
       updateData.full_name = fullName;
     }
 
+    if (role !== undefined) {
+      updateData.role = role;
+    }
+
     if (isActive !== undefined) {
       updateData.is_active = isActive;
     }
 
+    // null falls back to the server default, 0 means unlimited
+    if (dailyRequestLimit !== undefined) {
+      updateData.daily_request_limit = dailyRequestLimit;
+    }
+
+    if (dailyTokenLimit !== undefined) {
+      updateData.daily_token_limit = dailyTokenLimit;
+    }
+
     const { data: updatedAccount, error } = await supabase
       .from('accounts')
       .update(updateData)
       .eq('id', id)
-      .eq('role', 'student')
+      .in('role', managedRoles)
       .select()
-      .single();
+      .maybeSingle();
 
     if (error) {
       console.error("[UPDATE_ACCOUNT] Error:", error);
       return res.status(500).json({ message: "Lỗi cập nhật tài khoản" });
     }
 
-    res.json({
-      id: updatedAccount.id,
-      username: updatedAccount.username,
-      fullName: updatedAccount.full_name,
-      isActive: updatedAccount.is_active,
-    });
+    // Unknown id, or an account this route does not manage
+    if (!updatedAccount) {
+      return res.status(404).json({ message: "Không tìm thấy tài khoản" });
+    }
+
+    accountRoles.delete(id);
+    res.json(toStudentAccount(updatedAccount));
   } catch (error) {
     console.error("[UPDATE_ACCOUNT] Error:", error);
     res.status(500).json({ message: "Lỗi cập nhật tài khoản" });
@@ -239,17 +346,24 @@ export async function deleteStudentAccount(req: Request, res: Response) {
   try {
     const { id } = req.params;
 
-    const { error } = await supabase
+    const { data: deleted, error } = await supabase
       .from('accounts')
       .delete()
       .eq('id', id)
-      .eq('role', 'student');
+      .in('role', managedRoles)
+      .select('id');
 
     if (error) {
       console.error("[DELETE_ACCOUNT] Error:", error);
       return res.status(500).json({ message: "Lỗi xóa tài khoản" });
     }
 
+    if (deleted.length === 0) {
+      return res.status(404).json({ message: "Không tìm thấy tài khoản" });
+    }
+
+    accountRoles.delete(id);
+    await storage.removeAccountFromClasses(id);
     res.json({ message: "Xóa tài khoản thành công" });
   } catch (error) {
     console.error("[DELETE_ACCOUNT] Error:", error);
@@ -0,0 +1,314 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  createBankSchema,
+  insertBankSchema,
+  insertBankEntrySchema,
+  questionBankSchema,
+  updateBankEntrySchema,
+  type BankSearchFilters,
+  type InsertBankEntry,
+  type QuestionBank,
+} from "@shared/schema";
+import { filterBanks } from "@shared/bank-utils";
+import { storage, type OwnerId } from "./storage";
+import { getVisibleClassIds } from "./classes";
+
+const BANKS_LIMIT = 50;
+
+const duplicateBankSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1).max(100).optional(),
+});
+
+const moveEntrySchema = z.object({
+  toBankId: z.string().min(1, "Vui lòng chọn ngân hàng đích"),
+});
+
+const importBanksSchema = z.object({
+  banks: z.array(z.unknown()),
+});
+
+function ownerOf(req: Request): OwnerId {
+  return req.session.userId ?? null;
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  console.error(`[BANKS] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+function hasNameConflict(banks: QuestionBank[], name: string, subject: string, exceptId?: string): boolean {
+  return banks.some(
+    bank => bank.id !== exceptId &&
+            bank.name.toLowerCase() === name.trim().toLowerCase() &&
+            bank.subject === subject
+  );
+}
+
+function uniqueName(banks: QuestionBank[], baseName: string, subject: string): string {
+  let name = baseName;
+  let counter = 1;
+  while (hasNameConflict(banks, name, subject)) {
+    name = `${baseName} (${counter})`;
+    counter++;
+  }
+  return name;
+}
+
+// A bank can only be prepared for a class the account teaches
+async function isUsableClass(req: Request, classId: string | null | undefined): Promise<boolean> {
+  if (!classId) return true;
+  const visible = await getVisibleClassIds(req);
+  return visible === "all" ? !!(await storage.getClass(classId)) : visible.has(classId);
+}
+
+function toInsertEntry(entry: QuestionBank["entries"][number], keepId: boolean): InsertBankEntry {
+  const { id, ...rest } = entry;
+  return keepId ? { ...rest, id } : rest;
+}
+
+/**
+ * GET /api/banks?classId= — the account's banks, optionally only those
+ * prepared for one class.
+ */
+export async function listBanks(req: Request, res: Response) {
+  try {
+    const banks = await storage.listBanks(ownerOf(req));
+    const classId = typeof req.query.classId === "string" ? req.query.classId : undefined;
+    res.json(classId ? banks.filter(bank => bank.classId === classId) : banks);
+  } catch (error) {
+    sendError(res, error, "Không thể tải ngân hàng");
+  }
+}
+
+export async function searchBanks(req: Request, res: Response) {
+  try {
+    const { q, subject, tags, difficulty, questionType, from, to } = req.query as Record<string, string | undefined>;
+    const filters: BankSearchFilters = {
+      subject: subject || undefined,
+      tags: tags ? tags.split(",").map(tag => tag.trim()).filter(Boolean) : undefined,
+      difficulty: difficulty || undefined,
+      questionType: questionType || undefined,
+      dateRange: from && to ? { start: from, end: to } : undefined,
+    };
+
+    const banks = await storage.listBanks(ownerOf(req));
+    res.json(filterBanks(banks, q || "", filters));
+  } catch (error) {
+    sendError(res, error, "Không thể tìm kiếm ngân hàng");
+  }
+}
+
+export async function getBank(req: Request, res: Response) {
+  try {
+    const bank = await storage.getBank(ownerOf(req), req.params.id);
+    if (!bank) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng" });
+    }
+    res.json(bank);
+  } catch (error) {
+    sendError(res, error, "Không thể tải ngân hàng");
+  }
+}
+
+export async function createBank(req: Request, res: Response) {
+  try {
+    const data = insertBankSchema.parse(req.body);
+    const owner = ownerOf(req);
+    const banks = await storage.listBanks(owner);
+
+    if (hasNameConflict(banks, data.name, data.subject)) {
+      return res.status(409).json({ message: `Đã tồn tại ngân hàng "${data.name}" cho môn học này` });
+    }
+    if (banks.length >= BANKS_LIMIT) {
+      return res.status(400).json({ message: `Chỉ được tạo tối đa ${BANKS_LIMIT} ngân hàng` });
+    }
+    if (!(await isUsableClass(req, data.classId))) {
+      return res.status(400).json({ message: "Không tìm thấy lớp" });
+    }
+
+    res.status(201).json(await storage.createBank(owner, data));
+  } catch (error) {
+    sendError(res, error, "Không thể tạo ngân hàng");
+  }
+}
+
+export async function updateBank(req: Request, res: Response) {
+  try {
+    const updates = createBankSchema.partial().parse(req.body);
+    const owner = ownerOf(req);
+    const existing = await storage.getBank(owner, req.params.id);
+
+    if (!existing) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng" });
+    }
+
+    const name = updates.name || existing.name;
+    const subject = updates.subject || existing.subject;
+    if (hasNameConflict(await storage.listBanks(owner), name, subject, existing.id)) {
+      return res.status(409).json({ message: `Đã tồn tại ngân hàng "${name}" cho môn học này` });
+    }
+    if (!(await isUsableClass(req, updates.classId))) {
+      return res.status(400).json({ message: "Không tìm thấy lớp" });
+    }
+
+    res.json(await storage.updateBank(owner, existing.id, updates));
+  } catch (error) {
+    sendError(res, error, "Không thể cập nhật ngân hàng");
+  }
+}
+
+export async function deleteBank(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteBank(ownerOf(req), req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng" });
+    }
+    res.json({ message: "Đã xóa ngân hàng" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa ngân hàng");
+  }
+}
+
+export async function duplicateBank(req: Request, res: Response) {
+  try {
+    const { id, name } = duplicateBankSchema.parse(req.body ?? {});
+    const owner = ownerOf(req);
+    const original = await storage.getBank(owner, req.params.id);
+
+    if (!original) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng để sao chép" });
+    }
+
+    const banks = await storage.listBanks(owner);
+    const copy = await storage.createBank(owner, {
+      id,
+      name: uniqueName(banks, name || `${original.name} (Copy)`, original.subject),
+      description: original.description,
+      subject: original.subject,
+      tags: original.tags,
+      classId: original.classId,
+    });
+
+    // Entries are stored newest first, so add them oldest first to keep the order
+    for (const entry of [...original.entries].reverse()) {
+      await storage.addBankEntry(owner, copy.id, toInsertEntry(entry, false));
+    }
+
+    res.status(201).json(await storage.getBank(owner, copy.id));
+  } catch (error) {
+    sendError(res, error, "Không thể sao chép ngân hàng");
+  }
+}
+
+/**
+ * Create banks from an export file or a client's offline cache. Bank and
+ * entry ids are kept when free; name clashes get an "(Imported)" suffix.
+ */
+export async function importBanks(req: Request, res: Response) {
+  try {
+    const { banks: rawBanks } = importBanksSchema.parse(req.body);
+    const owner = ownerOf(req);
+    const existing = await storage.listBanks(owner);
+    const imported: QuestionBank[] = [];
+    const errors: string[] = [];
+
+    for (const rawBank of rawBanks) {
+      const parsed = questionBankSchema.safeParse(rawBank);
+      if (!parsed.success) {
+        const bankId = (rawBank as { id?: string } | null)?.id ?? "?";
+        errors.push(`Ngân hàng ${bankId}: ${parsed.error.errors[0]?.message || "Dữ liệu không hợp lệ"}`);
+        continue;
+      }
+
+      if (existing.length + imported.length >= BANKS_LIMIT) {
+        errors.push(`Ngân hàng ${parsed.data.id}: vượt quá giới hạn ${BANKS_LIMIT} ngân hàng`);
+        continue;
+      }
+
+      const bank = parsed.data as QuestionBank;
+      const name = hasNameConflict([...existing, ...imported], bank.name, bank.subject)
+        ? uniqueName([...existing, ...imported], `${bank.name} (Imported)`, bank.subject)
+        : bank.name;
+
+      const created = await storage.createBank(owner, {
+        id: bank.id,
+        name,
+        description: bank.description,
+        subject: bank.subject,
+        tags: bank.tags,
+        createdAt: bank.createdAt,
+      });
+      for (const entry of [...bank.entries].reverse()) {
+        await storage.addBankEntry(owner, created.id, toInsertEntry(entry, true));
+      }
+      imported.push((await storage.getBank(owner, created.id))!);
+    }
+
+    res.json({ importedCount: imported.length, banks: imported, errors });
+  } catch (error) {
+    sendError(res, error, "Không thể nhập ngân hàng");
+  }
+}
+
+export async function addBankEntry(req: Request, res: Response) {
+  try {
+    const data = insertBankEntrySchema.parse(req.body) as InsertBankEntry;
+    if (!data.generatedQuestions.length) {
+      return res.status(400).json({ message: "Không có câu hỏi để thêm" });
+    }
+
+    const entry = await storage.addBankEntry(ownerOf(req), req.params.id, data);
+    if (!entry) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng" });
+    }
+    res.status(201).json(entry);
+  } catch (error) {
+    sendError(res, error, "Không thể thêm bộ câu hỏi");
+  }
+}
+
+export async function updateBankEntry(req: Request, res: Response) {
+  try {
+    const updates = updateBankEntrySchema.parse(req.body);
+    const entry = await storage.updateBankEntry(ownerOf(req), req.params.id, req.params.entryId, updates);
+    if (!entry) {
+      return res.status(404).json({ message: "Không tìm thấy bộ câu hỏi" });
+    }
+    res.json(entry);
+  } catch (error) {
+    sendError(res, error, "Không thể cập nhật bộ câu hỏi");
+  }
+}
+
+export async function deleteBankEntry(req: Request, res: Response) {
+  try {
+    const deleted = await storage.deleteBankEntry(ownerOf(req), req.params.id, req.params.entryId);
+    if (!deleted) {
+      return res.status(404).json({ message: "Không tìm thấy bộ câu hỏi" });
+    }
+    res.json({ message: "Đã xóa bộ câu hỏi" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa bộ câu hỏi");
+  }
+}
+
+export async function moveBankEntry(req: Request, res: Response) {
+  try {
+    const { toBankId } = moveEntrySchema.parse(req.body);
+    const moved = await storage.moveBankEntry(ownerOf(req), req.params.id, toBankId, req.params.entryId);
+    if (!moved) {
+      return res.status(404).json({ message: "Không tìm thấy ngân hàng hoặc bộ câu hỏi" });
+    }
+    res.json({ message: "Đã chuyển bộ câu hỏi" });
+  } catch (error) {
+    sendError(res, error, "Không thể chuyển bộ câu hỏi");
+  }
+}
@@ -0,0 +1,333 @@
+import { EventEmitter } from "events";
+import type {
+  BatchGenerationConfig,
+  BatchGenerationError,
+  BatchGenerationRequest,
+  BatchGenerationResult,
+  QuestionRequest,
+} from "@shared/schema";
+import { storage, type BatchJobUpdate, type OwnerId } from "./storage";
+import { generateQuestionSet } from "./generation";
+import { AIResponseError } from "./question-validation";
+import { QuotaExceededError } from "./usage";
+
+const RETRY_LIMIT = 2;
+const RETRY_DELAY = 5000; // multiplied by the attempt number
+
+// Configs generated at the same time across every batch
+function getBatchConcurrency(): number {
+  return Math.max(1, Number(process.env.BATCH_CONCURRENCY) || 2);
+}
+
+type BatchTask = {
+  batchId: string;
+  ownerId: OwnerId;
+  config: BatchGenerationConfig;
+};
+
+function describeError(error: unknown): string {
+  if (error instanceof AIResponseError || error instanceof QuotaExceededError) return error.message;
+  if (error instanceof Error && error.message.includes("API")) return "Lỗi kết nối API";
+  return error instanceof Error ? error.message : "Lỗi không xác định";
+}
+
+function isFinished(batch: BatchGenerationRequest): boolean {
+  return batch.status !== "pending" && batch.status !== "processing";
+}
+
+/**
+ * Runs batch generation jobs on the server. Every config of a batch becomes
+ * a task; tasks from all batches share a fixed number of worker slots. Each
+ * result is persisted as soon as it arrives, so a restart resumes a batch
+ * from the configs that have not completed yet.
+ *
+ * Emits "update" with (batch, ownerId) after every change.
+ */
+export class BatchQueue extends EventEmitter {
+  private tasks: BatchTask[] = [];
+  private running = new Map<string, Set<AbortController>>();
+  private activeCount = 0;
+  // Serializes read-modify-write updates of the same batch
+  private locks = new Map<string, Promise<unknown>>();
+
+  /**
+   * Queue every config of the batch that has no result yet.
+   */
+  enqueue(ownerId: OwnerId, batch: BatchGenerationRequest): void {
+    const done = new Set(batch.results.map(result => result.configId));
+    const remaining = batch.configs.filter(config => !done.has(config.id));
+    if (remaining.length === 0) {
+      // Stopped after the last result was saved but before it was closed
+      void this.finishIfDone(ownerId, batch.id).catch(error => console.error("[BATCH] Finish failed:", error));
+      return;
+    }
+
+    for (const config of remaining) {
+      this.tasks.push({ batchId: batch.id, ownerId, config });
+    }
+    this.pump();
+  }
+
+  /**
+   * Pick up batches left pending or processing by a previous server run.
+   * Configs that were in flight when it stopped are generated again.
+   */
+  async resume(): Promise<void> {
+    const jobs = await storage.listUnfinishedBatchJobs();
+    for (const { ownerId, batch } of jobs) {
+      console.log(`[BATCH] Resuming "${batch.name}" (${batch.progress.current}/${batch.progress.total})`);
+      this.enqueue(ownerId, batch);
+    }
+  }
+
+  async cancel(ownerId: OwnerId, batchId: string): Promise<BatchGenerationRequest | undefined> {
+    const batch = await storage.getBatchJob(ownerId, batchId);
+    if (!batch || isFinished(batch)) return batch;
+
+    this.tasks = this.tasks.filter(task => task.batchId !== batchId);
+    this.running.get(batchId)?.forEach(controller => controller.abort());
+
+    return this.update(ownerId, batchId, current => ({
+      status: "cancelled",
+      progress: { ...current.progress, currentConfig: undefined, estimatedCompletion: undefined },
+    }));
+  }
+
+  /**
+   * Drop failed results and generate those configs again.
+   */
+  async retryFailed(ownerId: OwnerId, batchId: string): Promise<BatchGenerationRequest | undefined> {
+    const batch = await storage.getBatchJob(ownerId, batchId);
+    if (!batch || !isFinished(batch)) return batch;
+
+    const completed = batch.results.filter(result => result.status === "completed");
+    if (completed.length === batch.configs.length) return batch;
+
+    const retried = await this.update(ownerId, batchId, current => ({
+      status: "pending",
+      results: completed,
+      errors: current.errors.filter(error => completed.some(result => result.configId === error.configId)),
+      progress: {
+        current: completed.length,
+        total: current.configs.length,
+      },
+    }));
+    if (retried) this.enqueue(ownerId, retried);
+    return retried;
+  }
+
+  async remove(ownerId: OwnerId, batchId: string): Promise<boolean> {
+    await this.cancel(ownerId, batchId);
+    return storage.deleteBatchJob(ownerId, batchId);
+  }
+
+  isActive(batchId: string): boolean {
+    return this.running.has(batchId) || this.tasks.some(task => task.batchId === batchId);
+  }
+
+  private pump(): void {
+    while (this.activeCount < getBatchConcurrency() && this.tasks.length > 0) {
+      const task = this.tasks.shift()!;
+      this.activeCount++;
+      this.runTask(task)
+        .catch(error => console.error("[BATCH] Task failed:", error))
+        .finally(() => {
+          this.activeCount--;
+          this.pump();
+        });
+    }
+  }
+
+  private async runTask({ batchId, ownerId, config }: BatchTask): Promise<void> {
+    const controller = new AbortController();
+    const controllers = this.running.get(batchId) ?? new Set<AbortController>();
+    controllers.add(controller);
+    this.running.set(batchId, controllers);
+
+    try {
+      const started = await this.update(ownerId, batchId, current =>
+        isFinished(current)
+          ? {}
+          : {
+              status: "processing",
+              progress: {
+                ...current.progress,
+                currentConfig: config.name,
+                startedAt: current.progress.startedAt ?? new Date().toISOString(),
+              },
+            },
+      );
+      if (!started || isFinished(started)) return;
+
+      let questionRequest: QuestionRequest | undefined;
+      let lastError = "";
+      for (let attempt = 0; attempt <= RETRY_LIMIT && !questionRequest; attempt++) {
+        if (attempt > 0) {
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * attempt));
+        }
+        if (controller.signal.aborted) return;
+
+        try {
+          const { request } = await generateQuestionSet(
+            {
+              subject: config.subject,
+              difficulty: config.difficulty,
+              topic: config.topic,
+              requirements: config.requirements,
+              questionTypes: config.questionTypes,
+              questionCount: config.questionCount,
+            },
+            ownerId,
+            controller.signal,
+          );
+          questionRequest = request;
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          lastError = describeError(error);
+          console.warn(`[BATCH] "${config.name}" attempt ${attempt + 1} failed:`, lastError);
+          // Retrying will not help until the quota resets
+          if (error instanceof QuotaExceededError) break;
+        }
+      }
+
+      await this.update(ownerId, batchId, current => {
+        if (isFinished(current)) return {};
+
+        const result: BatchGenerationResult = questionRequest
+          ? {
+              configId: config.id,
+              configName: config.name,
+              questionRequest,
+              status: "completed",
+              createdAt: new Date().toISOString(),
+            }
+          : {
+              configId: config.id,
+              configName: config.name,
+              questionRequest: {} as QuestionRequest, // Empty placeholder
+              status: "failed",
+              error: lastError,
+            };
+        const errors: BatchGenerationError[] = questionRequest
+          ? current.errors
+          : [
+              ...current.errors,
+              {
+                configId: config.id,
+                configName: config.name,
+                error: lastError,
+                timestamp: new Date().toISOString(),
+                retryable: true,
+              },
+            ];
+        const results = [...current.results.filter(r => r.configId !== config.id), result];
+
+        return {
+          results,
+          errors,
+          progress: {
+            ...current.progress,
+            current: results.length,
+            estimatedCompletion: estimateCompletion(current.progress.startedAt, results.length, current.configs.length),
+          },
+        };
+      });
+    } finally {
+      controllers.delete(controller);
+      if (controllers.size === 0) this.running.delete(batchId);
+      await this.finishIfDone(ownerId, batchId);
+    }
+  }
+
+  /**
+   * Close the batch once no task of it is queued or running, then save the
+   * results to the configured bank.
+   */
+  private async finishIfDone(ownerId: OwnerId, batchId: string): Promise<void> {
+    if (this.isActive(batchId)) return;
+
+    const finished = await this.update(ownerId, batchId, current => {
+      if (isFinished(current)) return {};
+
+      const completedCount = current.results.filter(r => r.status === "completed").length;
+      const failedCount = current.results.filter(r => r.status === "failed").length;
+      return {
+        status: failedCount === 0 || completedCount > 0 ? "completed" : "failed",
+        progress: {
+          ...current.progress,
+          current: current.configs.length,
+          currentConfig: undefined,
+          estimatedCompletion: undefined,
+        },
+      };
+    });
+
+    if (finished?.status === "completed" && finished.options.autoSaveToBank) {
+      await this.autoSaveToBank(ownerId, finished);
+    }
+  }
+
+  private async autoSaveToBank(ownerId: OwnerId, batch: BatchGenerationRequest): Promise<void> {
+    const bankId = batch.options.autoSaveToBank!;
+    try {
+      for (const result of batch.results) {
+        const { questionRequest } = result;
+        if (result.status !== "completed" || !questionRequest.generatedQuestions?.length) continue;
+
+        const entry = await storage.addBankEntry(ownerId, bankId, {
+          name: result.configName,
+          subject: questionRequest.subject,
+          difficulty: questionRequest.difficulty,
+          topic: questionRequest.topic,
+          requirements: questionRequest.requirements ?? undefined,
+          questionTypes: questionRequest.questionTypes,
+          questionCount: questionRequest.questionCount,
+          generatedQuestions: questionRequest.generatedQuestions,
+          tags: batch.options.commonTags ?? [],
+          originalId: questionRequest.id,
+        });
+        if (!entry) {
+          console.warn("[BATCH] Auto-save bank not found:", bankId);
+          return;
+        }
+      }
+    } catch (error) {
+      console.error("[BATCH] Error in auto-save to bank:", error);
+    }
+  }
+
+  private update(
+    ownerId: OwnerId,
+    batchId: string,
+    mutate: (batch: BatchGenerationRequest) => BatchJobUpdate,
+  ): Promise<BatchGenerationRequest | undefined> {
+    const previous = this.locks.get(batchId) ?? Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const current = await storage.getBatchJob(ownerId, batchId);
+        if (!current) return undefined;
+
+        const updates = mutate(current);
+        if (Object.keys(updates).length === 0) return current;
+
+        const updated = await storage.updateBatchJob(batchId, updates);
+        if (updated) this.emit("update", updated, ownerId);
+        return updated;
+      });
+
+    this.locks.set(batchId, next);
+    next.finally(() => {
+      if (this.locks.get(batchId) === next) this.locks.delete(batchId);
+    }).catch(() => undefined);
+    return next;
+  }
+}
+
+function estimateCompletion(startedAt: string | undefined, done: number, total: number): string | undefined {
+  if (!startedAt || done === 0 || done >= total) return undefined;
+  const elapsed = Date.now() - new Date(startedAt).getTime();
+  return new Date(Date.now() + (elapsed / done) * (total - done)).toISOString();
+}
+
+export const batchQueue = new BatchQueue();
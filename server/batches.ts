@@ -0,0 +1,157 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { createBatchSchema, type BatchGenerationRequest } from "@shared/schema";
+import { storage, type OwnerId } from "./storage";
+import { batchQueue } from "./batch-queue";
+import { QuotaExceededError, assertWithinDailyQuota, getGenerationAccount } from "./usage";
+
+// Batches one account may have pending or processing at the same time
+const MAX_ACTIVE_BATCHES = 3;
+
+function ownerOf(req: Request): OwnerId {
+  return req.session.userId ?? null;
+}
+
+function isFinished(batch: BatchGenerationRequest): boolean {
+  return batch.status !== "pending" && batch.status !== "processing";
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof QuotaExceededError) {
+    return res.status(429).json({ message: error.message });
+  }
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  console.error(`[BATCH] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+export async function listBatches(req: Request, res: Response) {
+  try {
+    res.json(await storage.listBatchJobs(ownerOf(req)));
+  } catch (error) {
+    sendError(res, error, "Không thể tải danh sách batch");
+  }
+}
+
+/**
+ * Persist the batch and queue it; generation continues on the server even
+ * if the browser tab is closed.
+ */
+export async function createBatch(req: Request, res: Response) {
+  try {
+    const data = createBatchSchema.parse(req.body);
+    const owner = ownerOf(req);
+
+    await assertWithinDailyQuota(owner, await getGenerationAccount(owner));
+
+    const batches = await storage.listBatchJobs(owner);
+    if (batches.filter(batch => !isFinished(batch)).length >= MAX_ACTIVE_BATCHES) {
+      return res.status(429).json({
+        message: `Chỉ được chạy tối đa ${MAX_ACTIVE_BATCHES} batch cùng lúc, vui lòng đợi batch hiện tại hoàn thành`,
+      });
+    }
+
+    const batch = await storage.createBatchJob(owner, {
+      ...data,
+      options: { ...data.options, autoSaveToBank: data.options.autoSaveToBank || undefined },
+    });
+    batchQueue.enqueue(owner, batch);
+    res.status(201).json(batch);
+  } catch (error) {
+    sendError(res, error, "Không thể bắt đầu batch");
+  }
+}
+
+export async function getBatch(req: Request, res: Response) {
+  try {
+    const batch = await storage.getBatchJob(ownerOf(req), req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Không tìm thấy batch request" });
+    }
+    res.json(batch);
+  } catch (error) {
+    sendError(res, error, "Không thể tải batch");
+  }
+}
+
+/**
+ * GET /api/batches/:id/events — Server-Sent Events with the full batch after
+ * every change. The stream ends once the batch is finished.
+ */
+export async function streamBatchEvents(req: Request, res: Response) {
+  const owner = ownerOf(req);
+  let batch: BatchGenerationRequest | undefined;
+  try {
+    batch = await storage.getBatchJob(owner, req.params.id);
+  } catch (error) {
+    return sendError(res, error, "Không thể tải batch");
+  }
+  if (!batch) {
+    return res.status(404).json({ message: "Không tìm thấy batch request" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+
+  const send = (current: BatchGenerationRequest) => {
+    res.write(`data: ${JSON.stringify(current)}\n\n`);
+    if (isFinished(current)) {
+      res.end();
+    }
+  };
+
+  const onUpdate = (updated: BatchGenerationRequest, updatedOwner: OwnerId) => {
+    if (updated.id === batch!.id && updatedOwner === owner) {
+      send(updated);
+    }
+  };
+
+  batchQueue.on("update", onUpdate);
+  res.on("close", () => batchQueue.off("update", onUpdate));
+  send(batch);
+}
+
+export async function cancelBatch(req: Request, res: Response) {
+  try {
+    const batch = await batchQueue.cancel(ownerOf(req), req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Không tìm thấy batch request" });
+    }
+    res.json(batch);
+  } catch (error) {
+    sendError(res, error, "Không thể hủy batch");
+  }
+}
+
+export async function retryBatch(req: Request, res: Response) {
+  try {
+    const batch = await batchQueue.retryFailed(ownerOf(req), req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Không tìm thấy batch request" });
+    }
+    res.json(batch);
+  } catch (error) {
+    sendError(res, error, "Không thể thử lại batch");
+  }
+}
+
+export async function deleteBatch(req: Request, res: Response) {
+  try {
+    const deleted = await batchQueue.remove(ownerOf(req), req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Không tìm thấy batch request" });
+    }
+    res.json({ message: "Đã xóa batch" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa batch");
+  }
+}
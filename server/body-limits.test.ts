@@ -0,0 +1,58 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerBodyParsers } from "./body-limits";
+
+// A bank the size teachers actually keep: well over Express's 100kb default
+function largeBankPayload() {
+  const generatedQuestions = Array.from({ length: 300 }, (_, index) => ({
+    id: String(index + 1),
+    type: "multiple_choice",
+    question: `Câu hỏi số ${index + 1}: ${"nội dung ".repeat(40)}`,
+    options: ["A. 1", "B. 2", "C. 3", "D. 4"],
+    correctAnswer: "A",
+  }));
+  return { banks: [{ id: "bank-1", name: "Ngân hàng", subject: "toan", entries: [{ id: "entry-1", generatedQuestions }] }] };
+}
+
+async function post(path: string, body: unknown): Promise<number> {
+  const app = express();
+  app.set("env", "test"); // no stack traces for the expected 413
+  registerBodyParsers(app);
+  app.post(["/api/banks/import", "/api/banks/:id/entries", "/api/history/import"], (_req, res) => res.json({}));
+  app.post("/api/banks", (_req, res) => res.json({}));
+
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const res = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return res.status;
+  } finally {
+    server.close();
+  }
+}
+
+test("bank import accepts a payload over 100kb", async () => {
+  const payload = largeBankPayload();
+  assert.ok(JSON.stringify(payload).length > 100 * 1024);
+  assert.equal(await post("/api/banks/import", payload), 200);
+});
+
+test("bank entries accept a question set over 100kb", async () => {
+  const [entry] = largeBankPayload().banks[0].entries;
+  assert.equal(await post("/api/banks/bank-1/entries", entry), 200);
+});
+
+test("history import accepts a payload over 100kb", async () => {
+  const entries = largeBankPayload().banks[0].entries;
+  assert.equal(await post("/api/history/import", { entries }), 200);
+});
+
+test("other routes keep the default body limit", async () => {
+  assert.equal(await post("/api/banks", largeBankPayload()), 413);
+});
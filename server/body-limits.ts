@@ -0,0 +1,18 @@
+import express, { type Express } from "express";
+
+// Imports and exports carry whole banks, histories or exams at once, and bank
+// entries whole question sets; every other route keeps Express's 100kb default
+const LARGE_BODY_LIMIT = "10mb";
+const LARGE_BODY_ROUTES = ["/api/banks/import", "/api/banks/:id/entries", "/api/history/import", "/api/export/pdf"];
+
+/**
+ * Parse JSON and form bodies. The large-body routes are parsed first with a
+ * higher limit; the default parser then skips bodies that were already read.
+ */
+export function registerBodyParsers(app: Express): void {
+  for (const route of LARGE_BODY_ROUTES) {
+    app.use(route, express.json({ limit: LARGE_BODY_LIMIT }));
+  }
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: false }));
+}
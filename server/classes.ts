@@ -0,0 +1,269 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  addClassMembersSchema,
+  classSchema,
+  hasPermission,
+  type ClassDetail,
+  type ClassMember,
+  type ClassMemberProfile,
+  type ClassSummary,
+} from "@shared/schema";
+import { supabase } from "./supabase";
+import { storage, type StoredClass } from "./storage";
+
+export type AccountProfile = { id: string; username: string; full_name: string | null; role: string };
+
+class ClassConflictError extends Error {}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  if (error instanceof ClassConflictError) {
+    return res.status(409).json({ message: error.message });
+  }
+  console.error(`[CLASSES] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+/**
+ * Accounts by id, for showing names next to the ids stored with classes.
+ */
+export async function loadProfiles(accountIds: string[]): Promise<Map<string, AccountProfile>> {
+  const ids = Array.from(new Set(accountIds));
+  if (ids.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, username, full_name, role')
+    .in('id', ids);
+
+  if (error) throw error;
+  return new Map((data as AccountProfile[]).map(account => [account.id, account]));
+}
+
+export function displayName(profile: AccountProfile | undefined): string | null {
+  return profile ? profile.full_name || profile.username : null;
+}
+
+async function toSummaries(stored: StoredClass[]): Promise<ClassSummary[]> {
+  const profiles = await loadProfiles(stored.flatMap(schoolClass => schoolClass.homeroomTeacherId ?? []));
+  return stored.map(schoolClass => ({
+    ...schoolClass,
+    homeroomTeacherName: schoolClass.homeroomTeacherId
+      ? displayName(profiles.get(schoolClass.homeroomTeacherId))
+      : null,
+  }));
+}
+
+/**
+ * Admins see every class; teachers the classes they are homeroom teacher or
+ * a member of.
+ */
+async function canViewClass(req: Request, schoolClass: StoredClass, members?: ClassMember[]): Promise<boolean> {
+  if (hasPermission(req.session.role, 'classes:manage')) return true;
+  if (schoolClass.homeroomTeacherId === req.session.userId) return true;
+  const roster = members ?? await storage.listClassMembers(schoolClass.id);
+  return roster.some(member => member.accountId === req.session.userId && member.role === 'teacher');
+}
+
+// Admins and the homeroom teacher may change who is in the class
+function canManageMembers(req: Request, schoolClass: StoredClass): boolean {
+  return hasPermission(req.session.role, 'classes:manage') || schoolClass.homeroomTeacherId === req.session.userId;
+}
+
+async function assertHomeroomTeacher(accountId: string | null | undefined): Promise<void> {
+  if (!accountId) return;
+  const profile = (await loadProfiles([accountId])).get(accountId);
+  if (profile?.role !== 'teacher') {
+    throw new z.ZodError([{
+      code: z.ZodIssueCode.custom,
+      path: ["homeroomTeacherId"],
+      message: "Giáo viên chủ nhiệm phải là tài khoản giáo viên",
+    }]);
+  }
+}
+
+async function assertUnique(data: { schoolYear: string; grade: number; classNumber: number }, exceptId?: string): Promise<void> {
+  const sameYear = await storage.listClasses({ schoolYear: data.schoolYear });
+  if (sameYear.some(other => other.id !== exceptId && other.grade === data.grade && other.classNumber === data.classNumber)) {
+    throw new ClassConflictError(`Lớp ${data.grade}A${data.classNumber} năm học ${data.schoolYear} đã tồn tại`);
+  }
+}
+
+/**
+ * Load the class if the session may see it; otherwise answer 404 and
+ * return undefined.
+ */
+async function findVisibleClass(req: Request, res: Response): Promise<StoredClass | undefined> {
+  const schoolClass = await storage.getClass(req.params.id);
+  if (!schoolClass || !(await canViewClass(req, schoolClass))) {
+    res.status(404).json({ message: "Không tìm thấy lớp" });
+    return undefined;
+  }
+  return schoolClass;
+}
+
+/**
+ * Class ids the session may attach banks or assignments to.
+ */
+export async function getVisibleClassIds(req: Request): Promise<Set<string> | "all"> {
+  if (hasPermission(req.session.role, 'classes:manage')) return "all";
+  const visible = await storage.listClasses({ memberId: req.session.userId });
+  return new Set(visible.map(schoolClass => schoolClass.id));
+}
+
+/**
+ * GET /api/classes?schoolYear= — every class for admins, the session's
+ * classes for teachers.
+ */
+export async function listClasses(req: Request, res: Response) {
+  try {
+    const schoolYear = typeof req.query.schoolYear === "string" ? req.query.schoolYear : undefined;
+    const memberId = hasPermission(req.session.role, 'classes:manage') ? undefined : req.session.userId;
+    res.json(await toSummaries(await storage.listClasses({ schoolYear, memberId })));
+  } catch (error) {
+    sendError(res, error, "Không thể tải danh sách lớp");
+  }
+}
+
+export async function createClass(req: Request, res: Response) {
+  try {
+    const data = classSchema.parse(req.body);
+    await assertHomeroomTeacher(data.homeroomTeacherId);
+    await assertUnique(data);
+
+    const schoolClass = await storage.createClass({
+      ...data,
+      name: data.name || `${data.grade}A${data.classNumber}`,
+    });
+    const [summary] = await toSummaries([schoolClass]);
+    res.status(201).json(summary);
+  } catch (error) {
+    sendError(res, error, "Không thể tạo lớp");
+  }
+}
+
+/**
+ * GET /api/classes/:id — the class with its teachers and students.
+ */
+export async function getClass(req: Request, res: Response) {
+  try {
+    const schoolClass = await storage.getClass(req.params.id);
+    const members = schoolClass ? await storage.listClassMembers(schoolClass.id) : [];
+    if (!schoolClass || !(await canViewClass(req, schoolClass, members))) {
+      return res.status(404).json({ message: "Không tìm thấy lớp" });
+    }
+
+    const profiles = await loadProfiles(members.map(member => member.accountId));
+    const [summary] = await toSummaries([schoolClass]);
+    const detail: ClassDetail = {
+      ...summary,
+      members: members.map((member): ClassMemberProfile => ({
+        ...member,
+        username: profiles.get(member.accountId)?.username ?? null,
+        fullName: displayName(profiles.get(member.accountId)),
+      })),
+    };
+    res.json(detail);
+  } catch (error) {
+    sendError(res, error, "Không thể tải lớp");
+  }
+}
+
+export async function updateClass(req: Request, res: Response) {
+  try {
+    const updates = classSchema.partial().parse(req.body);
+    const existing = await storage.getClass(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ message: "Không tìm thấy lớp" });
+    }
+
+    await assertHomeroomTeacher(updates.homeroomTeacherId);
+    await assertUnique({ ...existing, ...updates }, existing.id);
+
+    const schoolClass = await storage.updateClass(existing.id, {
+      ...updates,
+      name: updates.name === "" ? `${updates.grade ?? existing.grade}A${updates.classNumber ?? existing.classNumber}` : updates.name,
+    });
+    const [summary] = await toSummaries([schoolClass!]);
+    res.json(summary);
+  } catch (error) {
+    sendError(res, error, "Không thể cập nhật lớp");
+  }
+}
+
+export async function deleteClass(req: Request, res: Response) {
+  try {
+    if (!(await storage.deleteClass(req.params.id))) {
+      return res.status(404).json({ message: "Không tìm thấy lớp" });
+    }
+    res.json({ message: "Đã xóa lớp" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa lớp");
+  }
+}
+
+// An ILIKE pattern matching only `text`, quoted as an element of the array PostgREST receives
+function exactPattern(text: string): string {
+  const pattern = text.replace(/[\\%_]/g, char => `\\${char}`);
+  return `"${pattern.replace(/["\\]/g, char => `\\${char}`)}"`;
+}
+
+/**
+ * POST /api/classes/:id/members — add accounts by username. Students join as
+ * students; teacher accounts can be added as subject teachers.
+ */
+export async function addClassMembers(req: Request, res: Response) {
+  try {
+    const { usernames, role } = addClassMembersSchema.parse(req.body);
+    const schoolClass = await findVisibleClass(req, res);
+    if (!schoolClass) return;
+    if (!canManageMembers(req, schoolClass)) {
+      return res.status(403).json({ message: "Chỉ giáo viên chủ nhiệm hoặc quản trị viên được thay đổi thành viên lớp" });
+    }
+
+    // Usernames match whatever case the account was created with
+    const wanted = Array.from(new Map(usernames.map(username => [username.toLowerCase(), username])).values());
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('id, username, role')
+      .ilikeAnyOf('username', wanted.map(exactPattern))
+      .eq('role', role);
+    if (error) throw error;
+
+    const wantedNames = new Set(wanted.map(username => username.toLowerCase()));
+    const found = (data as Pick<AccountProfile, "id" | "username" | "role">[])
+      .filter(account => wantedNames.has(account.username.toLowerCase()));
+    const added = await storage.addClassMembers(schoolClass.id, found.map(account => account.id), role);
+    const foundNames = new Set(found.map(account => account.username.toLowerCase()));
+
+    res.json({
+      added: added.length,
+      notFound: wanted.filter(username => !foundNames.has(username.toLowerCase())),
+    });
+  } catch (error) {
+    sendError(res, error, "Không thể thêm thành viên");
+  }
+}
+
+export async function removeClassMember(req: Request, res: Response) {
+  try {
+    const schoolClass = await findVisibleClass(req, res);
+    if (!schoolClass) return;
+    if (!canManageMembers(req, schoolClass)) {
+      return res.status(403).json({ message: "Chỉ giáo viên chủ nhiệm hoặc quản trị viên được thay đổi thành viên lớp" });
+    }
+
+    if (!(await storage.removeClassMember(schoolClass.id, req.params.accountId))) {
+      return res.status(404).json({ message: "Tài khoản không có trong lớp" });
+    }
+    res.json({ message: "Đã xóa khỏi lớp" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa thành viên");
+  }
+}
@@ -0,0 +1,42 @@
+import path from "path";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+export type StorageDriver = "memory" | "postgres" | "pglite";
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+/**
+ * Open the database for the given driver and apply pending migrations.
+ * - postgres: any PostgreSQL server (Supabase, Neon, local) via DATABASE_URL
+ * - pglite: embedded Postgres stored in PGLITE_DATA_DIR, no server needed
+ */
+export async function connectDatabase(
+  driver: Exclude<StorageDriver, "memory">,
+): Promise<Database> {
+  if (driver === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL is not set");
+    }
+
+    const { default: pg } = await import("pg");
+    const { drizzle } = await import("drizzle-orm/node-postgres");
+    const { migrate } = await import("drizzle-orm/node-postgres/migrator");
+
+    const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+    const db = drizzle(pool, { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+    return db as unknown as Database;
+  }
+
+  const { PGlite } = await import("@electric-sql/pglite");
+  const { drizzle } = await import("drizzle-orm/pglite");
+  const { migrate } = await import("drizzle-orm/pglite/migrator");
+
+  const client = new PGlite(process.env.PGLITE_DATA_DIR || "./data/pglite");
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  return db as unknown as Database;
+}
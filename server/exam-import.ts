@@ -0,0 +1,152 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { structureImportSchema, type ImportedQuestion, type StructureImportRequest } from "@shared/schema";
+import { validationMessages } from "@shared/exam-import";
+import type { OwnerId } from "./storage";
+import { llm, getModelOptions } from "./llm";
+import { parseTolerantJson } from "./json-repair";
+import { normalizeQuestion } from "./generation";
+import { QuotaExceededError, UsageMeter, assertWithinDailyQuota, getGenerationAccount } from "./usage";
+
+// Transcribing, not writing: keep the model close to the text it is given
+const STRUCTURING_TEMPERATURE = 0.1;
+const STRUCTURING_MAX_TOKENS = 8000;
+
+export class ExamImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExamImportError";
+  }
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  if (error instanceof QuotaExceededError) {
+    return res.status(429).json({ message: error.message });
+  }
+  if (error instanceof ExamImportError) {
+    return res.status(422).json({ message: error.message });
+  }
+  console.error(`[EXAM_IMPORT] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+export function buildStructuringPrompt(blocks: StructureImportRequest["blocks"]): string {
+  const texts = blocks
+    .map((block, index) => `### ĐOẠN ${index + 1} (Câu ${block.number} trong đề)\n"""\n${block.source}\n"""`)
+    .join("\n\n");
+
+  return `BẠN LÀ TRỢ LÝ SỐ HÓA ĐỀ THI. Các đoạn dưới đây được trích tự động từ file Word/PDF của một đề thi, mỗi đoạn là một câu hỏi nhưng định dạng có thể bị lỗi (mất xuống dòng, phương án dính liền, công thức bị vỡ).
+
+${texts}
+
+⚠️ YÊU CẦU:
+- Mỗi đoạn chuyển thành đúng MỘT câu hỏi, giữ đúng thứ tự các đoạn
+- Chép lại nguyên văn nội dung đề, chỉ sửa lỗi định dạng; KHÔNG sáng tác thêm hay bỏ bớt ý
+- Công thức toán viết bằng LaTeX trong $...$
+- Chỉ điền đáp án khi đoạn văn có ghi đáp án hoặc lời giải; nếu không có thì bỏ trống trường đáp án
+- Câu có 4 phương án A-D: "multiple_choice" với "options" dạng "A. ..." và "correctAnswer" là một chữ cái
+- Câu có 4 mệnh đề a)-d) cần xét đúng/sai: "true_false" với "statements" và "statementAnswers"
+- Câu trả lời ngắn (một số hoặc một cụm từ): "fill_in_blank" với "blanks"
+- Còn lại là "essay"; lời giải hoặc hướng dẫn chấm (nếu có) đưa vào "explanation"
+
+🎯 ĐỊNH DẠNG JSON ĐẦU RA:
+{
+  "questions": [
+    {
+      "type": "multiple_choice",
+      "question": "Nội dung câu hỏi",
+      "options": ["A. ...", "B. ...", "C. ...", "D. ..."],
+      "correctAnswer": "A",
+      "statements": ["..."],
+      "statementAnswers": [true, false, true, false],
+      "blanks": ["..."],
+      "explanation": "Lời giải (nếu có)"
+    }
+  ]
+}
+
+CHỈ TRẢ VỀ JSON HỢP LỆ, KHÔNG CÓ MARKDOWN HOẶC BACKTICKS.`;
+}
+
+/**
+ * Pair the model's questions with the blocks they were made from. A block
+ * the model skipped comes back as an essay holding its text, so the teacher
+ * still sees it in the review list.
+ */
+export function parseStructuredQuestions(
+  blocks: StructureImportRequest["blocks"],
+  subject: string,
+  content: string,
+): ImportedQuestion[] {
+  let parsed: any;
+  try {
+    parsed = parseTolerantJson(content.replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch {
+    throw new ExamImportError("Không đọc được kết quả của AI, vui lòng thử lại");
+  }
+  if (!Array.isArray(parsed?.questions)) {
+    throw new ExamImportError("Không đọc được kết quả của AI, vui lòng thử lại");
+  }
+
+  return blocks.map((block, index) => {
+    const raw = parsed.questions[index];
+    if (!raw || typeof raw !== "object") {
+      return {
+        number: block.number,
+        source: block.source,
+        question: { id: String(index + 1), type: "essay", question: block.source, explanation: "" },
+        issues: ["AI không trả về câu này"],
+      };
+    }
+    const question = normalizeQuestion(raw, index, { subject, questionTypes: ["essay"] });
+    return { number: block.number, source: block.source, question, issues: validationMessages(question) };
+  });
+}
+
+/**
+ * Ask the model to structure exam text the segmenter could not read with
+ * confidence, on the teacher's key and daily quota.
+ */
+export async function structureBlocks(request: StructureImportRequest, userId: OwnerId): Promise<ImportedQuestion[]> {
+  const account = await getGenerationAccount(userId);
+  await assertWithinDailyQuota(userId, account);
+
+  const meter = new UsageMeter(userId, `import_${Date.now()}`);
+  try {
+    const completion = meter.track(
+      await llm.complete({
+        ...getModelOptions(request.subject),
+        maxTokens: STRUCTURING_MAX_TOKENS,
+        temperature: STRUCTURING_TEMPERATURE,
+        prompt: buildStructuringPrompt(request.blocks),
+        importBlocks: request.blocks.map((block) => block.source),
+        apiKey: account.apiKey,
+      }),
+    );
+    return parseStructuredQuestions(request.blocks, request.subject, completion.content);
+  } finally {
+    await meter.save();
+  }
+}
+
+/**
+ * POST /api/import/structure — the questions the AI reads from the given
+ * blocks of an uploaded exam, in the same order, with what still fails
+ * validation listed as issues.
+ */
+export async function structureImport(req: Request, res: Response) {
+  try {
+    const request = structureImportSchema.parse(req.body);
+    const questions = await structureBlocks(request, req.session.userId ?? null);
+    console.log(`[EXAM_IMPORT] AI structured ${questions.length} question(s)`);
+    res.json({ questions });
+  } catch (error) {
+    sendError(res, error, "Không thể nhận dạng câu hỏi");
+  }
+}
@@ -0,0 +1,182 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  questionHistoryEntrySchema,
+  renameHistoryEntrySchema,
+  type GeneratedQuestion,
+  type QuestionHistoryEntry,
+  type QuestionRequest,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+const HISTORY_PAGE_SIZE = 20;
+const HISTORY_MAX_PAGE_SIZE = 100;
+
+const importHistorySchema = z.object({
+  entries: z.array(z.unknown()),
+});
+
+function toHistoryEntry(request: QuestionRequest): QuestionHistoryEntry {
+  return {
+    id: request.id,
+    customName: request.customName ?? undefined,
+    subject: request.subject,
+    difficulty: request.difficulty,
+    topic: request.topic,
+    requirements: request.requirements ?? undefined,
+    questionTypes: request.questionTypes,
+    questionCount: request.questionCount,
+    generatedQuestions: request.generatedQuestions ?? [],
+    createdAt: (request.createdAt ?? new Date()).toISOString(),
+    savedAt: request.savedAt?.toISOString(),
+  };
+}
+
+/**
+ * Load a request only if it belongs to the session's account
+ */
+async function getOwnedRequest(req: Request): Promise<QuestionRequest | undefined> {
+  const request = await storage.getQuestionRequest(req.params.id);
+  return request && request.userId === req.session.userId ? request : undefined;
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  console.error(`[HISTORY] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+/**
+ * GET /api/history?q=&subject=&limit=&offset= — the account's generated sets,
+ * newest first. q matches subject, topic, custom name and requirements.
+ */
+export async function listHistory(req: Request, res: Response) {
+  try {
+    const { q, subject, limit, offset } = req.query as Record<string, string | undefined>;
+    const pageSize = Math.min(Math.max(Number(limit) || HISTORY_PAGE_SIZE, 1), HISTORY_MAX_PAGE_SIZE);
+
+    const requests = await storage.searchQuestionRequests(q || "", {
+      userId: req.session.userId!,
+      subject: subject || undefined,
+      generatedOnly: true,
+      limit: pageSize,
+      offset: Math.max(Number(offset) || 0, 0),
+    });
+    res.json(requests.map(toHistoryEntry));
+  } catch (error) {
+    sendError(res, error, "Không thể tải lịch sử");
+  }
+}
+
+export async function getHistoryEntry(req: Request, res: Response) {
+  try {
+    const request = await getOwnedRequest(req);
+    if (!request) {
+      return res.status(404).json({ message: "Không tìm thấy mục trong lịch sử" });
+    }
+    res.json(toHistoryEntry(request));
+  } catch (error) {
+    sendError(res, error, "Không thể tải lịch sử");
+  }
+}
+
+export async function renameHistoryEntry(req: Request, res: Response) {
+  try {
+    const { customName } = renameHistoryEntrySchema.parse(req.body);
+    if (!(await getOwnedRequest(req))) {
+      return res.status(404).json({ message: "Không tìm thấy mục trong lịch sử" });
+    }
+
+    const renamed = await storage.renameQuestionRequest(req.params.id, customName.trim() || null);
+    res.json(toHistoryEntry(renamed!));
+  } catch (error) {
+    sendError(res, error, "Không thể lưu tên");
+  }
+}
+
+export async function deleteHistoryEntry(req: Request, res: Response) {
+  try {
+    if (!(await getOwnedRequest(req))) {
+      return res.status(404).json({ message: "Không tìm thấy mục trong lịch sử" });
+    }
+
+    await storage.deleteQuestionRequest(req.params.id);
+    res.json({ message: "Đã xóa mục lịch sử" });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa mục");
+  }
+}
+
+export async function clearHistory(req: Request, res: Response) {
+  try {
+    let deletedCount = 0;
+    while (true) {
+      const page = await storage.searchQuestionRequests("", {
+        userId: req.session.userId!,
+        limit: HISTORY_MAX_PAGE_SIZE,
+      });
+      if (page.length === 0) break;
+
+      for (const request of page) {
+        await storage.deleteQuestionRequest(request.id);
+        deletedCount++;
+      }
+    }
+    res.json({ message: "Đã xóa toàn bộ lịch sử", deletedCount });
+  } catch (error) {
+    sendError(res, error, "Không thể xóa lịch sử");
+  }
+}
+
+/**
+ * Upload history kept in the browser (localStorage) to the account. Entries
+ * whose id already exists on the server are skipped, so retrying is safe.
+ */
+export async function importHistory(req: Request, res: Response) {
+  try {
+    const { entries } = importHistorySchema.parse(req.body);
+    const errors: string[] = [];
+    let importedCount = 0;
+    let skippedCount = 0;
+
+    for (const rawEntry of entries) {
+      const parsed = questionHistoryEntrySchema.safeParse(rawEntry);
+      if (!parsed.success) {
+        const entryId = (rawEntry as { id?: string } | null)?.id ?? "?";
+        errors.push(`Mục ${entryId}: ${parsed.error.errors[0]?.message || "Dữ liệu không hợp lệ"}`);
+        continue;
+      }
+
+      const entry = parsed.data;
+      const imported = await storage.importQuestionRequest({
+        id: entry.id,
+        subject: entry.subject,
+        difficulty: entry.difficulty,
+        topic: entry.topic,
+        requirements: entry.requirements ?? null,
+        questionTypes: entry.questionTypes,
+        questionCount: entry.questionCount,
+        generatedQuestions: entry.generatedQuestions as GeneratedQuestion[],
+        userId: req.session.userId!,
+        customName: entry.customName ?? null,
+        savedAt: entry.savedAt ? new Date(entry.savedAt) : null,
+        createdAt: new Date(entry.createdAt),
+      });
+
+      if (imported) {
+        importedCount++;
+      } else {
+        skippedCount++;
+      }
+    }
+
+    res.json({ importedCount, skippedCount, errors });
+  } catch (error) {
+    sendError(res, error, "Không thể nhập lịch sử");
+  }
+}
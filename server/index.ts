@@ -4,10 +4,18 @@ import session from "express-session";
 import createMemoryStore from "memorystore";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { batchQueue } from "./batch-queue";
+import { registerBodyParsers } from "./body-limits";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+
+// Behind a reverse proxy, TRUST_PROXY (hop count or Express trust setting)
+// makes req.ip the client address so per-IP rate limits work
+if (process.env.TRUST_PROXY) {
+  const trustProxy = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", isNaN(trustProxy) ? process.env.TRUST_PROXY : trustProxy);
+}
+registerBodyParsers(app);
 
 const MemoryStore = createMemoryStore(session);
 
@@ -89,4 +97,9 @@ app.use((req, res, next) => {
   }, () => {
     log(`serving at http://127.0.0.1:${port}`);
   });
+
+  // Continue batch jobs interrupted by the last shutdown
+  batchQueue.resume().catch(error => {
+    console.error("[BATCH] Could not resume batch jobs:", error);
+  });
 })();
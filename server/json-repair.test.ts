@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTolerantJson, repairJson } from "./json-repair";
+
+test("valid JSON is parsed as it is", () => {
+  const text = '{"questions": [{"question": "Tính \\\\frac{1}{2}", "blanks": ["0,5"]}]}';
+  assert.equal(repairJson(text), text);
+  assert.deepEqual(parseTolerantJson(text), { questions: [{ question: "Tính \\frac{1}{2}", blanks: ["0,5"] }] });
+});
+
+test("a response cut off mid-string closes its string, arrays and objects", () => {
+  const parsed = parseTolerantJson('{"questions": [{"question": "Chọn đáp án", "options": ["A. 1", "B. 2');
+  assert.deepEqual(parsed, { questions: [{ question: "Chọn đáp án", options: ["A. 1", "B. 2"] }] });
+});
+
+test("a response cut off after a comma or a backslash still parses", () => {
+  assert.deepEqual(parseTolerantJson('{"questions": [{"id": "1"},'), { questions: [{ id: "1" }] });
+  assert.deepEqual(parseTolerantJson('{"questions": [{"question": "Tính \\'), { questions: [{ question: "Tính \\" }] });
+});
+
+test("single LaTeX backslashes are kept, real escapes are not doubled", () => {
+  const parsed = parseTolerantJson('{"q": "$\\frac{a}{b} + \\Delta + \\{x\\} + \\times$", "e": "Dòng 1\\nDòng 2 \\"trích\\" \\u00e0"}');
+  assert.equal(parsed.q, "$\\frac{a}{b} + \\Delta + \\{x\\} + \\times$");
+  assert.equal(parsed.e, 'Dòng 1\nDòng 2 "trích" à');
+});
+
+test("\\n starts a LaTeX command only for the commands listed", () => {
+  // Strictly valid JSON, so only repairJson() reads \nabla as LaTeX
+  const parsed = JSON.parse(repairJson('{"q": "$\\nabla f \\neq 0$\\nMột"}'));
+  assert.equal(parsed.q, "$\\nabla f \\neq 0$\nMột");
+});
+
+test("raw newlines, trailing commas and line comments are cleaned up", () => {
+  const parsed = parseTolerantJson(`{
+  // câu hỏi đầu tiên
+  "questions": [
+    {"question": "Dòng 1
+Dòng 2\tcột", "options": ["A", "B",],},
+  ],
+}`);
+  assert.deepEqual(parsed, { questions: [{ question: "Dòng 1\nDòng 2\tcột", options: ["A", "B"] }] });
+});
+
+test("a URL inside a string is not taken for a comment", () => {
+  assert.deepEqual(parseTolerantJson('{"source": "https://example.com/a",}'), { source: "https://example.com/a" });
+});
@@ -0,0 +1,125 @@
+// LaTeX commands that begin with a letter JSON treats as an escape
+// (\b \f \n \r \t). Only \n is ambiguous in practice: "\nabla" is LaTeX but
+// "\nMột" is a newline, so \n is only rewritten for commands listed here.
+const LATEX_N_COMMANDS = new Set([
+  "nabla",
+  "ne",
+  "neq",
+  "neg",
+  "ni",
+  "nu",
+  "not",
+  "notin",
+  "nexists",
+  "newline",
+  "noindent",
+  "nolimits",
+  "nleq",
+  "ngeq",
+  "nmid",
+  "nparallel",
+  "nsubseteq",
+]);
+
+const JSON_ESCAPES = new Set(['"', "\\", "/", "b", "f", "n", "r", "t", "u"]);
+
+function readLetters(text: string, start: number): string {
+  let end = start;
+  while (end < text.length && /[a-zA-Z]/.test(text[end])) end++;
+  return text.slice(start, end);
+}
+
+/**
+ * Rewrite almost-JSON produced by a model into valid JSON:
+ * - single backslashes of LaTeX commands (\frac, \Delta, \{) become \\
+ * - raw newlines and tabs inside strings are escaped
+ * - trailing commas and // line comments are removed
+ * - unterminated strings, objects and arrays (truncated output) are closed
+ */
+export function repairJson(text: string): string {
+  let result = "";
+  let inString = false;
+  const closers: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (char === "\\") {
+        const next = text[i + 1];
+        if (next === undefined) {
+          result += "\\\\";
+          continue;
+        }
+
+        const word = readLetters(text, i + 1);
+        const isLatexCommand =
+          (word.length > 1 && "bfrt".includes(next)) ||
+          (next === "n" && LATEX_N_COMMANDS.has(word));
+        const isUnicodeEscape =
+          next === "u" && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6));
+
+        if (isLatexCommand || (next === "u" && !isUnicodeEscape)) {
+          result += "\\\\";
+        } else if (JSON_ESCAPES.has(next)) {
+          // Valid escape: copy both characters
+          result += char + next;
+          i++;
+        } else {
+          result += "\\\\";
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = false;
+        result += char;
+      } else if (char === "\n") {
+        result += "\\n";
+      } else if (char === "\r") {
+        result += "\\r";
+      } else if (char === "\t") {
+        result += "\\t";
+      } else {
+        result += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      result += char;
+    } else if (char === "/" && text[i + 1] === "/") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else if (char === "{" || char === "[") {
+      closers.push(char === "{" ? "}" : "]");
+      result += char;
+    } else if (char === "}" || char === "]") {
+      result = result.replace(/,\s*$/, "");
+      closers.pop();
+      result += char;
+    } else {
+      result += char;
+    }
+  }
+
+  // Close whatever a truncated response left open
+  if (inString) result += '"';
+  result = result.replace(/,\s*$/, "");
+  while (closers.length) {
+    result += closers.pop();
+  }
+
+  return result;
+}
+
+/**
+ * JSON.parse that falls back to repairJson() when the strict parse fails.
+ */
+export function parseTolerantJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return JSON.parse(repairJson(text));
+  }
+}
@@ -0,0 +1,169 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { insertQuestionRequestSchema, questionTypeSchema, type InsertQuestionRequest } from "@shared/schema";
+import { MockProvider, LLMStreamError, getModelOptions } from "./llm";
+import { AIResponseError } from "./question-validation";
+
+// generation.ts reaches Supabase through usage.ts; the client is never called here
+process.env.VITE_SUPABASE_URL ??= "https://offline.supabase.co";
+process.env.VITE_SUPABASE_ANON_KEY ??= "offline";
+const { buildPrompt, generateValidatedQuestions } = await import("./generation");
+
+const mock = new MockProvider();
+
+function generationRequest(questionTypes: InsertQuestionRequest["questionTypes"], questionCount = 2) {
+  return insertQuestionRequestSchema.parse({
+    subject: "toan",
+    difficulty: "medium",
+    topic: "Hàm số bậc hai",
+    questionTypes,
+    questionCount,
+  });
+}
+
+function completionRequest(data: InsertQuestionRequest, signal?: AbortSignal) {
+  return { ...getModelOptions(data.subject), prompt: buildPrompt(data), request: data, signal };
+}
+
+async function noRepairs(): Promise<string> {
+  throw new Error("The mock output should not need repairs");
+}
+
+for (const type of questionTypeSchema.options) {
+  test(`mock ${type} questions pass validation without repairs`, async () => {
+    const data = generationRequest([type]);
+    const request = completionRequest(data);
+    const { content } = await mock.complete(request);
+
+    const { questions, report } = await generateValidatedQuestions(data, request.prompt, content, noRepairs);
+
+    assert.equal(report.valid, true, JSON.stringify(report.results));
+    assert.equal(report.repairAttempts, 0);
+    assert.equal(questions.length, 2);
+    assert.ok(questions.every((question) => question.type === type));
+  });
+}
+
+test("the mock stream delivers the same questions as complete()", async () => {
+  const data = generationRequest(["multiple_choice", "true_false", "fill_in_blank"], 6);
+  const request = completionRequest(data);
+  const chunks: string[] = [];
+
+  const streamed = await mock.stream(request, (chunk) => chunks.push(chunk));
+
+  assert.ok(chunks.length > 1);
+  assert.equal(chunks.join(""), streamed.content);
+  assert.deepEqual(streamed, await mock.complete(request));
+  const { report } = await generateValidatedQuestions(data, request.prompt, streamed.content, noRepairs);
+  assert.equal(report.accepted, 6);
+});
+
+test("an aborted mock stream rejects with the usage of what was sent", async () => {
+  const data = generationRequest(["multiple_choice"], 4);
+  const abort = new AbortController();
+  const request = completionRequest(data, abort.signal);
+  let received = "";
+
+  const error = await mock
+    .stream(request, (chunk) => {
+      received += chunk;
+      abort.abort();
+    })
+    .then(() => assert.fail("the stream should reject"), (error: unknown) => error);
+
+  assert.ok(error instanceof LLMStreamError);
+  assert.equal(error.partial.content, received);
+  assert.deepEqual(error.partial.usage, {
+    promptTokens: Math.ceil(request.prompt.length / 4),
+    completionTokens: Math.ceil(received.length / 4),
+  });
+});
+
+// Two mock multiple choice questions: one to keep valid, one to break
+async function mockQuestions() {
+  const data = generationRequest(["multiple_choice"]);
+  const { content } = await mock.complete(completionRequest(data));
+  const [valid, other] = JSON.parse(content).questions;
+  return { data, valid, broken: { ...other, options: ["A. Một"] } };
+}
+
+function scriptedRepairs(...responses: string[]) {
+  const prompts: string[] = [];
+  const complete = async (prompt: string) => {
+    prompts.push(prompt);
+    return responses[Math.min(prompts.length, responses.length) - 1];
+  };
+  return { prompts, complete };
+}
+
+test("a fenced response cut off mid-question keeps what it parsed and regenerates the rest", async () => {
+  const { data, valid, broken } = await mockQuestions();
+  const truncated = "```json\n" + JSON.stringify({ questions: [valid, broken] }).slice(0, -40);
+  const fixed = { ...broken, options: valid.options };
+  const repairs = scriptedRepairs(JSON.stringify({ questions: [fixed] }));
+
+  const { questions, report } = await generateValidatedQuestions(data, "PROMPT", truncated, repairs.complete);
+
+  assert.equal(report.repairAttempts, 1);
+  assert.equal(report.valid, true);
+  assert.deepEqual(questions.map((question) => question.question), [valid.question, fixed.question]);
+  assert.equal(repairs.prompts.length, 1);
+  assert.match(repairs.prompts[0], /^PROMPT/);
+  assert.match(repairs.prompts[0], /CÓ 1 CÂU HỎI/);
+  assert.match(repairs.prompts[0], /AI không tạo câu hỏi này/);
+});
+
+test("only the broken questions are sent for repair", async () => {
+  const { data, valid, broken } = await mockQuestions();
+  const content = "Đây là kết quả:\n```json\n" + JSON.stringify({ questions: [valid, broken] }) + "\n```";
+  const repairs = scriptedRepairs(JSON.stringify({ questions: [{ ...broken, options: valid.options }] }));
+
+  const { report } = await generateValidatedQuestions(data, "PROMPT", content, repairs.complete);
+
+  assert.equal(report.accepted, 2);
+  assert.match(repairs.prompts[0], /Câu 2 \(multiple_choice\)/);
+  assert.doesNotMatch(repairs.prompts[0], /Câu 1 \(/);
+});
+
+test("repairs stop at the retry budget and keep the valid questions", async (t) => {
+  const { data, valid, broken } = await mockQuestions();
+  const content = JSON.stringify({ questions: [valid, broken] });
+  const repairs = scriptedRepairs("không phải JSON", JSON.stringify({ questions: [broken] }));
+  const previous = process.env.LLM_REPAIR_RETRIES;
+  t.after(() => {
+    if (previous === undefined) delete process.env.LLM_REPAIR_RETRIES;
+    else process.env.LLM_REPAIR_RETRIES = previous;
+  });
+
+  process.env.LLM_REPAIR_RETRIES = "3";
+  const { questions, report } = await generateValidatedQuestions(data, "PROMPT", content, repairs.complete);
+
+  assert.equal(repairs.prompts.length, 3);
+  assert.equal(report.repairAttempts, 3);
+  assert.equal(report.valid, false);
+  assert.equal(questions.length, 1);
+  assert.equal(report.errors.length, 1);
+  assert.match(report.errors[0], /^Lần sửa 1: Không tìm thấy JSON/);
+
+  process.env.LLM_REPAIR_RETRIES = "0";
+  const unrepaired = scriptedRepairs();
+  const { report: noRetries } = await generateValidatedQuestions(data, "PROMPT", content, unrepaired.complete);
+  assert.equal(unrepaired.prompts.length, 0);
+  assert.equal(noRetries.repairAttempts, 0);
+});
+
+test("a response with no usable question throws once the budget is spent", async () => {
+  const { data, broken } = await mockQuestions();
+  const repairs = scriptedRepairs(JSON.stringify({ questions: [broken, broken] }));
+
+  const error = await generateValidatedQuestions(data, "PROMPT", "Xin lỗi, tôi không thể", repairs.complete).then(
+    () => assert.fail("generation should fail"),
+    (error: unknown) => error,
+  );
+
+  assert.ok(error instanceof AIResponseError);
+  assert.equal(error.report.repairAttempts, 2);
+  assert.equal(error.report.accepted, 0);
+  assert.equal(error.report.errors[0], "Không tìm thấy JSON trong phản hồi");
+  assert.equal(repairs.prompts.length, 2);
+});
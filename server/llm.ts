@@ -0,0 +1,517 @@
+import type { InsertQuestionRequest, RubricCriterion } from "@shared/schema";
+
+export type LLMProviderName = "openrouter" | "local" | "mock";
+
+export type LLMCompletionRequest = {
+  prompt: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  // The original generation request, used by the mock provider to build output
+  request?: InsertQuestionRequest;
+  // The rubric of an essay being graded, likewise for the mock provider
+  rubric?: RubricCriterion[];
+  // The exam text being structured on import, likewise for the mock provider
+  importBlocks?: string[];
+  // Overrides the provider's key, e.g. with the logged-in account's own key
+  apiKey?: string;
+  signal?: AbortSignal;
+};
+
+export type LLMCompletion = {
+  content: string;
+  model: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+    cost?: number; // USD, when the provider reports it
+  };
+};
+
+export interface ILLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  /**
+   * Same as complete(), but calls onToken with each chunk of content as the
+   * model produces it. Resolves with the full completion once the stream ends.
+   */
+  stream(
+    request: LLMCompletionRequest,
+    onToken: (chunk: string) => void,
+  ): Promise<LLMCompletion>;
+}
+
+/**
+ * A stream that failed or was aborted after the provider accepted the
+ * request. `partial` holds the content received so far and its usage, so
+ * the tokens already spent can still be metered.
+ */
+export class LLMStreamError extends Error {
+  constructor(readonly partial: LLMCompletion, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause });
+    this.name = "LLMStreamError";
+  }
+}
+
+/**
+ * Rough token counts (about 4 characters a token), for when the provider
+ * reports no usage: the mock provider, or a stream cut off before its
+ * final usage chunk.
+ */
+function estimateUsage(prompt: string, content: string): NonNullable<LLMCompletion["usage"]> {
+  return {
+    promptTokens: Math.ceil(prompt.length / 4),
+    completionTokens: Math.ceil(content.length / 4),
+  };
+}
+
+const DEFAULT_MODEL = "google/gemini-2.5-pro";
+const DEFAULT_MAX_TOKENS = 100000;
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_REPAIR_RETRIES = 2;
+
+/**
+ * Resolve model options for a subject. A subject-specific model can be set
+ * with LLM_MODEL_<SUBJECT> (e.g. LLM_MODEL_VAN), falling back to LLM_MODEL.
+ */
+export function getModelOptions(
+  subject: string,
+): Pick<LLMCompletionRequest, "model" | "maxTokens" | "temperature"> {
+  const subjectModel = process.env[`LLM_MODEL_${subject.toUpperCase()}`];
+  const maxTokens = parseInt(process.env.LLM_MAX_TOKENS || "", 10);
+  const temperature = parseFloat(process.env.LLM_TEMPERATURE || "");
+
+  return {
+    model: subjectModel || process.env.LLM_MODEL || DEFAULT_MODEL,
+    maxTokens: isNaN(maxTokens) ? DEFAULT_MAX_TOKENS : maxTokens,
+    temperature: isNaN(temperature) ? DEFAULT_TEMPERATURE : temperature,
+  };
+}
+
+/**
+ * How many follow-up calls may be spent asking the model to fix questions
+ * that failed to parse or validate (LLM_REPAIR_RETRIES, default 2).
+ */
+export function getRepairRetryBudget(): number {
+  const retries = parseInt(process.env.LLM_REPAIR_RETRIES || "", 10);
+  return isNaN(retries) || retries < 0 ? DEFAULT_REPAIR_RETRIES : retries;
+}
+
+/**
+ * Shared implementation for any endpoint speaking the OpenAI
+ * chat/completions protocol.
+ */
+abstract class ChatCompletionsProvider implements ILLMProvider {
+  abstract readonly name: LLMProviderName;
+
+  constructor(
+    protected baseUrl: string,
+    protected apiKey: string,
+  ) {}
+
+  protected headers(apiKey = this.apiKey): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`;
+    }
+    return headers;
+  }
+
+  protected abstract label(): string;
+
+  // Provider-specific fields added to every request body
+  protected extraBody(): Record<string, unknown> {
+    return {};
+  }
+
+  private async post(
+    request: LLMCompletionRequest,
+    stream: boolean,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers: this.headers(request.apiKey || this.apiKey),
+      signal: request.signal,
+      body: JSON.stringify({
+        ...this.extraBody(),
+        model: request.model,
+        messages: [
+          {
+            role: "user",
+            content: request.prompt,
+          },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(stream
+          ? { stream: true, stream_options: { include_usage: true } }
+          : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `${this.label()} API error: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    return response;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.post(request, false);
+    const aiResponse = await response.json();
+    console.log(
+      `${this.label()} API Response:`,
+      JSON.stringify(aiResponse, null, 2),
+    );
+
+    const content = aiResponse.choices?.[0]?.message?.content;
+
+    if (!content) {
+      console.error("AI Response structure:", {
+        choices: aiResponse.choices,
+        error: aiResponse.error,
+        data: aiResponse.data,
+      });
+      throw new Error("No content received from AI model");
+    }
+
+    return {
+      content,
+      model: aiResponse.model || request.model,
+      usage: toUsage(aiResponse.usage),
+    };
+  }
+
+  async stream(
+    request: LLMCompletionRequest,
+    onToken: (chunk: string) => void,
+  ): Promise<LLMCompletion> {
+    const response = await this.post(request, true);
+    if (!response.body) {
+      throw new Error(`${this.label()} API error: empty stream`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = "";
+    let model = request.model;
+    let usage: LLMCompletion["usage"];
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          // Skip keep-alive comments (": OPENROUTER PROCESSING") and blank lines
+          if (!trimmed.startsWith("data:")) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === "[DONE]") continue;
+
+          try {
+            const chunk = JSON.parse(payload);
+            if (chunk.error) {
+              throw new Error(
+                `${this.label()} API error: ${chunk.error.message || "stream error"}`,
+              );
+            }
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+              content += delta;
+              onToken(delta);
+            }
+            if (chunk.model) model = chunk.model;
+            if (chunk.usage) usage = toUsage(chunk.usage);
+          } catch (error) {
+            if (error instanceof Error && error.message.includes("API error")) {
+              throw error;
+            }
+            console.warn("Skipping malformed stream chunk:", payload);
+          }
+        }
+      }
+
+      if (!content) {
+        throw new Error("No content received from AI model");
+      }
+    } catch (error) {
+      throw new LLMStreamError(
+        { content, model, usage: usage ?? estimateUsage(request.prompt, content) },
+        error,
+      );
+    }
+
+    return { content, model, usage };
+  }
+}
+
+function toUsage(usage: any): LLMCompletion["usage"] {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    cost: typeof usage.cost === "number" ? usage.cost : undefined,
+  };
+}
+
+export class OpenRouterProvider extends ChatCompletionsProvider {
+  readonly name = "openrouter" as const;
+
+  constructor(apiKey: string, baseUrl = "https://openrouter.ai/api/v1") {
+    super(baseUrl, apiKey);
+  }
+
+  protected label(): string {
+    return "OpenRouter";
+  }
+
+  // Ask OpenRouter to include the request's cost in `usage`
+  protected extraBody(): Record<string, unknown> {
+    return { usage: { include: true } };
+  }
+
+  protected headers(apiKey?: string): Record<string, string> {
+    return {
+      ...super.headers(apiKey),
+      "HTTP-Referer": process.env.REPLIT_DOMAINS
+        ? `https://${process.env.REPLIT_DOMAINS.split(",")[0]}`
+        : "http://localhost:5000",
+      "X-Title": "QuestionGen AI",
+    };
+  }
+}
+
+/**
+ * OpenAI-compatible local server such as Ollama (`/v1`) or llama.cpp.
+ */
+export class LocalProvider extends ChatCompletionsProvider {
+  readonly name = "local" as const;
+
+  constructor(baseUrl: string, apiKey = "") {
+    super(baseUrl.replace(/\/+$/, ""), apiKey);
+  }
+
+  protected label(): string {
+    return "Local LLM";
+  }
+}
+
+/**
+ * Deterministic provider that never touches the network. The same request
+ * always produces the same questions, so the generate flow can run offline.
+ */
+export class MockProvider implements ILLMProvider {
+  readonly name = "mock" as const;
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    if (request.rubric) {
+      return this.mockCompletion(request, buildMockEssayGrade(request.rubric));
+    }
+    if (request.importBlocks) {
+      return this.mockCompletion(request, {
+        questions: request.importBlocks.map((block) => ({ type: "essay", question: block, explanation: "" })),
+      });
+    }
+
+    const data = request.request;
+    const types = data?.questionTypes?.length
+      ? data.questionTypes
+      : ["multiple_choice"];
+    const count = data?.questionCount || 1;
+    const topic = data?.topic || "Chủ đề mẫu";
+
+    const questions = Array.from({ length: count }, (_, index) =>
+      buildMockQuestion(types[index % types.length], index + 1, topic),
+    );
+    return this.mockCompletion(request, { questions });
+  }
+
+  private mockCompletion(request: LLMCompletionRequest, output: unknown): LLMCompletion {
+    const content = JSON.stringify(output);
+    return {
+      content,
+      model: `mock/${request.model}`,
+      usage: estimateUsage(request.prompt, content),
+    };
+  }
+
+  async stream(
+    request: LLMCompletionRequest,
+    onToken: (chunk: string) => void,
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    for (let i = 0; i < completion.content.length; i += MOCK_CHUNK_SIZE) {
+      if (request.signal?.aborted) {
+        const content = completion.content.slice(0, i);
+        throw new LLMStreamError(
+          { content, model: completion.model, usage: estimateUsage(request.prompt, content) },
+          new Error("Stream aborted"),
+        );
+      }
+      onToken(completion.content.slice(i, i + MOCK_CHUNK_SIZE));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    return completion;
+  }
+}
+
+const MOCK_CHUNK_SIZE = 64;
+
+function buildMockQuestion(type: string, number: number, topic: string) {
+  const id = number.toString();
+
+  switch (type) {
+    case "true_false":
+      return {
+        id,
+        type,
+        question: `Các mệnh đề sau về ${topic} đúng hay sai?`,
+        statements: [
+          "a) Mệnh đề thứ nhất",
+          "b) Mệnh đề thứ hai",
+          "c) Mệnh đề thứ ba",
+          "d) Mệnh đề thứ tư",
+        ],
+        statementAnswers: [true, false, true, false],
+        statementExplanations: [
+          "a) ĐÚNG",
+          "b) SAI",
+          "c) ĐÚNG",
+          "d) SAI",
+        ],
+        explanation: `Giải thích câu ${id}`,
+      };
+    case "essay":
+    case "essay_reading":
+    case "essay_writing":
+      return {
+        id,
+        type,
+        question: `Câu ${id}: Trình bày hiểu biết của anh/chị về ${topic}.`,
+        explanation: `Đáp án mẫu cho câu ${id}`,
+      };
+    case "fill_in_blank":
+      return {
+        id,
+        type,
+        question: `Câu ${id}: ${topic} là _____.`,
+        blanks: ["đáp án"],
+        correctAnswer: "đáp án",
+        explanation: `Giải thích câu ${id}`,
+      };
+    case "matching":
+      return {
+        id,
+        type,
+        question: `Câu ${id}: Ghép các mục tương ứng về ${topic}:`,
+        leftItems: ["Mục 1", "Mục 2"],
+        rightItems: ["Ý A", "Ý B"],
+        correctMatches: { "Mục 1": "Ý A", "Mục 2": "Ý B" },
+        explanation: `Giải thích câu ${id}`,
+      };
+    case "ordering":
+      return {
+        id,
+        type,
+        question: "Choose the correct order to form a coherent paragraph:",
+        items: ["a. First", "b. Second", "c. Third", "d. Fourth", "e. Fifth"],
+        options: [
+          "A. a – b – c – d – e",
+          "B. b – a – c – d – e",
+          "C. a – c – b – d – e",
+          "D. e – d – c – b – a",
+        ],
+        correctAnswer: "A",
+        correctOrder: [0, 1, 2, 3, 4],
+        explanation: `Giải thích câu ${id}`,
+      };
+    case "multiple_choice_reading1":
+      return {
+        id,
+        type,
+        question:
+          "Read the following passage and mark the letter A, B, C or D on your answer sheet to indicate the option that best fits each of the numbered blanks:",
+        passage: `A short passage about ${topic} with a blank (1) _______ and another (2) _______.`,
+        blanks: [1, 2].map((blank) => ({
+          number: blank,
+          options: ["A. one", "B. two", "C. three", "D. four"],
+          correctAnswer: "A",
+        })),
+        explanation: `Giải thích câu ${id}`,
+      };
+    case "multiple_choice_reading2":
+      return {
+        id,
+        type,
+        question:
+          "Read the passage and mark the letter A, B, C or D on your answer sheet to indicate the best answer to each of the following questions:",
+        passage: `A short passage about ${topic}.`,
+        questions: [1, 2].map((q) => ({
+          number: q,
+          question: `Question ${q} about the passage?`,
+          options: ["A. one", "B. two", "C. three", "D. four"],
+          correctAnswer: "B",
+        })),
+        explanation: `Giải thích câu ${id}`,
+      };
+    default:
+      return {
+        id,
+        type: "multiple_choice",
+        question: `Câu ${id}: Phát biểu nào sau đây đúng về ${topic}?`,
+        options: ["A. Phương án A", "B. Phương án B", "C. Phương án C", "D. Phương án D"],
+        correctAnswer: "ABCD"[(number - 1) % 4],
+        explanation: `Giải thích câu ${id}`,
+      };
+  }
+}
+
+// Half marks on every criterion
+function buildMockEssayGrade(rubric: RubricCriterion[]) {
+  return {
+    criteria: rubric.map((criterion) => ({
+      id: criterion.id,
+      score: criterion.maxScore / 2,
+      comment: `Nhận xét mẫu cho tiêu chí "${criterion.label}"`,
+    })),
+    feedback: "Nhận xét chung mẫu cho bài làm.",
+  };
+}
+
+/**
+ * Create the provider selected by LLM_PROVIDER (openrouter | local | mock).
+ */
+export function createLLMProvider(
+  name = process.env.LLM_PROVIDER || "openrouter",
+): ILLMProvider {
+  switch (name) {
+    case "mock":
+      return new MockProvider();
+    case "local":
+      return new LocalProvider(
+        process.env.LLM_BASE_URL || "http://localhost:11434/v1",
+        process.env.LLM_API_KEY || "",
+      );
+    case "openrouter":
+      return new OpenRouterProvider(
+        process.env.OPENROUTER_API_KEY ||
+          process.env.VITE_OPENROUTER_API_KEY ||
+          "",
+      );
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${name}`);
+  }
+}
+
+export const llm = createLLMProvider();
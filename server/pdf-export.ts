@@ -0,0 +1,255 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import { readFileSync } from "fs";
+import path from "path";
+import { createRequire } from "module";
+import JSZip from "jszip";
+import katex from "katex";
+import puppeteer, { type Browser } from "puppeteer";
+import { exportPdfSchema, type QuestionRequest } from "@shared/schema";
+import { examHtml, examPdfFilename, type ExamHtmlOptions } from "@shared/exam-html";
+import { storage } from "./storage";
+
+const resolveModule = createRequire(import.meta.url).resolve;
+
+// Renders share one browser and run one at a time; more than this waiting are turned away
+const MAX_QUEUED_RENDERS = 8;
+const RENDER_TIMEOUT = 60_000;
+// Same margins as the browser export (html2pdf)
+const PAGE_MARGIN = "15mm";
+const INTER_WEIGHTS = [400, 500, 600, 700];
+const INTER_SUBSETS = /inter-(latin|latin-ext|vietnamese)-\d+-normal/;
+
+// Same delimiters as KaTeX auto-render in the browser. Math may hold "<",
+// as in $x < 3$, but never spans an HTML tag
+const MATH_TEXT = String.raw`(?:[^<]|<(?!\/?[a-zA-Z][^>$]*>))`;
+const MATH_PATTERN = new RegExp(
+  String.raw`\$\$(${MATH_TEXT}+?)\$\$|\\\[(${MATH_TEXT}+?)\\\]|\\\((${MATH_TEXT}+?)\\\)|\$((?:(?!\$)${MATH_TEXT})+?)\$`,
+  "g",
+);
+
+export type PdfPageOptions = {
+  paperSize?: "A4" | "Letter";
+  orientation?: "portrait" | "landscape";
+};
+
+/**
+ * The server cannot print right now: Chrome is missing or the queue is full.
+ * Clients fall back to printing in the browser.
+ */
+export class PdfRendererUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PdfRendererUnavailableError";
+  }
+}
+
+function sendError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: error.errors[0]?.message || "Dữ liệu không hợp lệ",
+      errors: error.errors,
+    });
+  }
+  if (error instanceof PdfRendererUnavailableError) {
+    return res.status(503).json({ message: error.message });
+  }
+  console.error(`[PDF_EXPORT] ${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+function attachmentHeader(filename: string): string {
+  const ascii = filename.normalize("NFD").replace(/[^\x20-\x7e]/g, "").replace(/"/g, "");
+  return `attachment; filename="${ascii}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function dataUri(file: string): string {
+  return `data:font/woff2;base64,${readFileSync(file).toString("base64")}`;
+}
+
+let fontCss: string | null = null;
+
+/**
+ * Inter (with its Vietnamese glyphs) and the KaTeX stylesheet with every
+ * font inlined, so the page never reaches out for a file and prints the
+ * same on a server without fonts installed.
+ */
+function getFontCss(): string {
+  if (fontCss) return fontCss;
+
+  const interDir = path.dirname(resolveModule("@fontsource/inter/400.css"));
+  const inter = INTER_WEIGHTS.flatMap((weight) =>
+    readFileSync(path.join(interDir, `${weight}.css`), "utf8")
+      .split(/(?=\/\* inter-)/)
+      .filter((face) => INTER_SUBSETS.test(face)),
+  )
+    .join("\n")
+    .replace(/url\(\.\/files\/([^)]+?\.woff2)\) format\('woff2'\)[^;]*/g, (_, file) =>
+      `url(${dataUri(path.join(interDir, "files", file))}) format('woff2')`,
+    );
+
+  const katexCssFile = resolveModule("katex/dist/katex.min.css");
+  const katexCss = readFileSync(katexCssFile, "utf8").replace(
+    /url\(fonts\/([^)]+?\.woff2)\) format\("woff2"\)[^;}]*/g,
+    (_, file) => `url(${dataUri(path.join(path.dirname(katexCssFile), "fonts", file))}) format("woff2")`,
+  );
+
+  fontCss = `${inter}\n${katexCss}`;
+  return fontCss;
+}
+
+/**
+ * Typeset the $...$ math of the exam HTML with KaTeX, as auto-render does
+ * in the browser, so the page needs no scripts.
+ */
+export function renderMath(html: string): string {
+  return html.replace(MATH_PATTERN, (match, display, displayBracket, inline, inlineDollar) => {
+    // The browser hands auto-render text with its entities decoded
+    const tex = (display ?? displayBracket ?? inline ?? inlineDollar)
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+    return katex.renderToString(tex, {
+      displayMode: display !== undefined || displayBracket !== undefined,
+      throwOnError: false,
+      errorColor: "#cc0000",
+      strict: false,
+    });
+  });
+}
+
+let browser: Promise<Browser> | null = null;
+
+function getBrowser(): Promise<Browser> {
+  if (!browser) {
+    browser = puppeteer
+      .launch({ headless: true, args: ["--no-sandbox", "--disable-dev-shm-usage"] })
+      .then((launched) => {
+        console.log("[PDF_EXPORT] Headless Chrome started");
+        launched.on("disconnected", () => {
+          browser = null;
+        });
+        return launched;
+      })
+      .catch((error) => {
+        browser = null;
+        console.error("[PDF_EXPORT] Could not start headless Chrome:", error);
+        throw new PdfRendererUnavailableError("Máy chủ chưa hỗ trợ xuất PDF");
+      });
+  }
+  return browser;
+}
+
+let renderQueue: Promise<unknown> = Promise.resolve();
+let queuedRenders = 0;
+
+function enqueueRender<T>(task: () => Promise<T>): Promise<T> {
+  if (queuedRenders >= MAX_QUEUED_RENDERS) {
+    return Promise.reject(new PdfRendererUnavailableError("Máy chủ đang xuất nhiều PDF, vui lòng thử lại sau"));
+  }
+  queuedRenders++;
+  const run = renderQueue.then(task).finally(() => {
+    queuedRenders--;
+  });
+  renderQueue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Print a standalone HTML body to a vector PDF in headless Chrome. Scripts
+ * are off and every request is blocked: the body is teacher content.
+ */
+export function renderHtmlToPdf(body: string, options: PdfPageOptions = {}): Promise<Buffer> {
+  const document = `<!DOCTYPE html>
+<html lang="vi">
+<head><meta charset="utf-8"><style>${getFontCss()}</style></head>
+<body style="margin: 0;">${renderMath(body)}</body>
+</html>`;
+
+  return enqueueRender(async () => {
+    const page = await (await getBrowser()).newPage();
+    try {
+      await page.setJavaScriptEnabled(false);
+      await page.setRequestInterception(true);
+      page.on("request", (request) => {
+        if (request.url().startsWith("data:")) {
+          void request.continue();
+        } else {
+          void request.abort();
+        }
+      });
+      await page.setContent(document, { waitUntil: "load", timeout: RENDER_TIMEOUT });
+      const pdf = await page.pdf({
+        format: options.paperSize ?? "A4",
+        landscape: options.orientation === "landscape",
+        printBackground: true,
+        margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN },
+        timeout: RENDER_TIMEOUT,
+      });
+      return Buffer.from(pdf);
+    } finally {
+      await page.close().catch(() => undefined);
+    }
+  });
+}
+
+/**
+ * The exam as the browser export prints it, as a PDF file. Also the
+ * attachment to use when exams are sent by email.
+ */
+export function renderExamPdf(exam: QuestionRequest, options: ExamHtmlOptions & PdfPageOptions = {}): Promise<Buffer> {
+  return renderHtmlToPdf(examHtml(exam, options), options);
+}
+
+/**
+ * POST /api/export/pdf — the exam as a vector PDF with searchable text.
+ * 503 means the server cannot print; the client then prints in the browser.
+ */
+export async function exportPdf(req: Request, res: Response) {
+  try {
+    const { exam, options } = exportPdfSchema.parse(req.body);
+    const request = exam as unknown as QuestionRequest;
+    const pdf = await renderExamPdf(request, options);
+    console.log(`[PDF_EXPORT] Rendered ${request.generatedQuestions!.length} question(s), ${pdf.length} bytes`);
+
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", attachmentHeader(examPdfFilename(request, options.versions?.count)));
+    res.send(pdf);
+  } catch (error) {
+    sendError(res, error, "Không thể tạo PDF");
+  }
+}
+
+/**
+ * GET /api/batches/:id/package — a zip with one PDF per completed set of the
+ * batch, each with its answer key and explanations.
+ */
+export async function exportBatchPackage(req: Request, res: Response) {
+  try {
+    const batch = await storage.getBatchJob(req.session.userId ?? null, req.params.id);
+    if (!batch) {
+      return res.status(404).json({ message: "Không tìm thấy batch request" });
+    }
+    const exams = batch.results
+      .filter((result) => result.status === "completed" && result.questionRequest.generatedQuestions?.length)
+      .map((result) => result.questionRequest);
+    if (exams.length === 0) {
+      return res.status(422).json({ message: "Batch chưa có bộ câu hỏi nào hoàn thành" });
+    }
+
+    const zip = new JSZip();
+    for (let index = 0; index < exams.length; index++) {
+      const exam = exams[index];
+      const pdf = await renderExamPdf(exam, { includeAnswers: true, includeExplanations: true });
+      zip.file(`${String(index + 1).padStart(2, "0")}_${examPdfFilename(exam)}`, pdf);
+    }
+    const archive = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+    console.log(`[PDF_EXPORT] Packaged ${exams.length} PDF(s) of batch ${batch.id}`);
+
+    res.setHeader("Content-Type", "application/zip");
+    res.setHeader("Content-Disposition", attachmentHeader(`${batch.name.trim() || "batch"}.zip`));
+    res.send(archive);
+  } catch (error) {
+    sendError(res, error, "Không thể xuất package");
+  }
+}
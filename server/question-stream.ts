@@ -0,0 +1,60 @@
+/**
+ * Incrementally scans streamed model output and returns each element of the
+ * top-level "questions" array as soon as its JSON object closes, so questions
+ * can be shown before the whole response has arrived.
+ *
+ * Expects the prompt's `{ "questions": [ {...}, {...} ] }` shape; anything
+ * nested deeper (reading sub-questions, cloze blanks) stays inside its parent.
+ */
+export class QuestionStreamParser {
+  private buffer = "";
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+
+  /**
+   * Feed the next chunk and get back the raw JSON text of every question
+   * object completed by it.
+   */
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const completed: string[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === "{" || char === "[") {
+        // Root object is depth 1, the questions array depth 2
+        if (char === "{" && this.depth === 2) {
+          this.objectStart = this.position;
+        }
+        this.depth++;
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+        if (char === "}" && this.depth === 2 && this.objectStart !== -1) {
+          completed.push(
+            this.buffer.slice(this.objectStart, this.position + 1),
+          );
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  }
+}
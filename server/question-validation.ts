@@ -0,0 +1,70 @@
+import {
+  generatedQuestionSchemas,
+  type GeneratedQuestion,
+  type QuestionValidationReport,
+  type QuestionValidationResult,
+} from "@shared/schema";
+
+/**
+ * Raised when the model output contains no usable question. Carries the
+ * validation report so the client can show what went wrong.
+ */
+export class AIResponseError extends Error {
+  constructor(
+    message: string,
+    public report: QuestionValidationReport,
+  ) {
+    super(message);
+    this.name = "AIResponseError";
+  }
+}
+
+/**
+ * Check one normalized question against the schema for its type.
+ */
+export function validateQuestion(
+  question: GeneratedQuestion,
+  index: number,
+): { result: QuestionValidationResult; question?: GeneratedQuestion } {
+  const schema = generatedQuestionSchemas[question.type];
+  if (!schema) {
+    return {
+      result: {
+        index,
+        id: question.id,
+        type: question.type,
+        valid: false,
+        issues: [
+          { path: "type", message: `Loại câu hỏi không hợp lệ: ${question.type}` },
+        ],
+      },
+    };
+  }
+
+  const parsed = schema.safeParse(question);
+  if (!parsed.success) {
+    return {
+      result: {
+        index,
+        id: question.id,
+        type: question.type,
+        valid: false,
+        issues: parsed.error.issues.map((issue) => ({
+          path: issue.path.join("."),
+          message: issue.message,
+        })),
+      },
+    };
+  }
+
+  return {
+    result: {
+      index,
+      id: question.id,
+      type: question.type,
+      valid: true,
+      issues: [],
+    },
+    question: parsed.data as GeneratedQuestion,
+  };
+}
@@ -0,0 +1,137 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import express, { type Request } from "express";
+import type { AddressInfo } from "net";
+import { MemoryRateLimitStore, rateLimit, type IRateLimitStore } from "./rate-limit";
+
+// Small buckets so a few requests reach the limits
+Object.assign(process.env, {
+  RATE_LIMIT_USER_CAPACITY: "2",
+  RATE_LIMIT_USER_PER_MINUTE: "2",
+  RATE_LIMIT_IP_CAPACITY: "3",
+  RATE_LIMIT_IP_PER_MINUTE: "6",
+  MAX_CONCURRENT_GENERATIONS: "1",
+});
+
+function fakeClock() {
+  const clock = { now: 0 };
+  return { clock, store: new MemoryRateLimitStore(() => clock.now) };
+}
+
+type Reply = { status: number; retryAfter: string | null; body: any };
+
+/**
+ * Serve `rateLimit` for the account named in the x-user header, answering
+ * after `hold` resolves so concurrent requests stay in flight.
+ */
+async function withServer(
+  options: Parameters<typeof rateLimit>[0],
+  run: (send: (userId: string) => Promise<Reply>) => Promise<void>,
+  hold: () => Promise<void> = async () => {},
+) {
+  const app = express();
+  app.use((req: Request, _res, next) => {
+    req.session = { userId: req.header("x-user") } as Request["session"];
+    next();
+  });
+  app.post("/api/questions/generate", rateLimit(options), async (_req, res) => {
+    await hold();
+    res.json({ questions: [] });
+  });
+
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const send = async (userId: string): Promise<Reply> => {
+    const res = await fetch(`http://127.0.0.1:${port}/api/questions/generate`, {
+      method: "POST",
+      headers: { "x-user": userId },
+    });
+    return { status: res.status, retryAfter: res.headers.get("Retry-After"), body: await res.json() };
+  };
+
+  try {
+    await run(send);
+  } finally {
+    server.close();
+  }
+}
+
+test("an account over its burst gets a 429 with Retry-After until its bucket refills", async () => {
+  const { clock, store } = fakeClock();
+
+  await withServer({ store }, async (send) => {
+    assert.equal((await send("teacher")).status, 200);
+    assert.equal((await send("teacher")).status, 200);
+
+    const throttled = await send("teacher");
+    assert.equal(throttled.status, 429);
+    assert.equal(throttled.retryAfter, "30");
+    assert.equal(throttled.body.retryAfter, 30);
+    assert.match(throttled.body.message, /sau 30 giây/);
+
+    clock.now += 29_000;
+    assert.equal((await send("teacher")).retryAfter, "1");
+    clock.now += 1_000;
+    assert.equal((await send("teacher")).status, 200);
+  });
+});
+
+test("accounts on one network share the larger IP bucket", async () => {
+  const { clock, store } = fakeClock();
+
+  await withServer({ store }, async (send) => {
+    for (const userId of ["a", "b", "c"]) {
+      assert.equal((await send(userId)).status, 200);
+    }
+
+    const throttled = await send("d");
+    assert.equal(throttled.status, 429);
+    assert.equal(throttled.retryAfter, "10");
+    assert.match(throttled.body.message, /mạng của bạn/);
+
+    clock.now += 10_000;
+    assert.equal((await send("d")).status, 200);
+  });
+});
+
+test("a second generation waits for the first to finish", async () => {
+  const { store } = fakeClock();
+  let started!: () => void;
+  let finish!: () => void;
+  const inHandler = new Promise<void>((resolve) => (started = resolve));
+  const finished = new Promise<void>((resolve) => (finish = resolve));
+
+  await withServer(
+    { store, concurrent: true },
+    async (send) => {
+      const running = send("teacher");
+      await inHandler;
+
+      const busy = await send("teacher");
+      assert.equal(busy.status, 429);
+      assert.equal(busy.retryAfter, "5");
+
+      finish();
+      assert.equal((await running).status, 200);
+      assert.equal((await send("teacher")).status, 200);
+    },
+    () => {
+      started();
+      return finished;
+    },
+  );
+});
+
+test("requests go through when the bucket store fails", async () => {
+  const broken: IRateLimitStore = {
+    take: async () => {
+      throw new Error("database unavailable");
+    },
+  };
+
+  await withServer({ store: broken }, async (send) => {
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await send("teacher")).status, 200);
+    }
+  });
+});
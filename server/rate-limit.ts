@@ -0,0 +1,181 @@
+import { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import {
+  takeFromBucket,
+  type TokenBucketLimit,
+  type TokenBucketResult,
+  type TokenBucketState,
+} from "./token-bucket";
+
+// Seconds a client should wait when all its generation slots are busy
+const CONCURRENCY_RETRY_AFTER = 5;
+// Memory store size above which full (idle) buckets are dropped
+const MAX_MEMORY_BUCKETS = 10_000;
+
+export interface IRateLimitStore {
+  take(key: string, limit: TokenBucketLimit, cost?: number): Promise<TokenBucketResult>;
+}
+
+/**
+ * Buckets kept in this process; fast, but reset on restart and not shared
+ * between server instances. `now` is the clock refills are measured with.
+ */
+export class MemoryRateLimitStore implements IRateLimitStore {
+  private buckets = new Map<string, { state: TokenBucketState; limit: TokenBucketLimit }>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  async take(key: string, limit: TokenBucketLimit, cost = 1): Promise<TokenBucketResult> {
+    const now = this.now();
+    if (this.buckets.size > MAX_MEMORY_BUCKETS) {
+      this.prune(now);
+    }
+
+    const { state, result } = takeFromBucket(this.buckets.get(key)?.state, limit, now, cost);
+    this.buckets.set(key, { state, limit });
+    return result;
+  }
+
+  private prune(now: number): void {
+    this.buckets.forEach(({ state, limit }, key) => {
+      const refilled = state.tokens + ((now - state.updatedAt) * limit.refillPerMinute) / 60_000;
+      if (refilled >= limit.capacity) this.buckets.delete(key);
+    });
+  }
+}
+
+/**
+ * Buckets persisted through the storage driver, so limits survive restarts
+ * and are shared by every instance using the same database.
+ */
+export class StorageRateLimitStore implements IRateLimitStore {
+  take(key: string, limit: TokenBucketLimit, cost = 1): Promise<TokenBucketResult> {
+    return storage.takeRateLimitToken(key, limit, cost);
+  }
+}
+
+/**
+ * Pick the bucket store from RATE_LIMIT_STORE: memory (default) or storage.
+ */
+export function createRateLimitStore(name = process.env.RATE_LIMIT_STORE || "memory"): IRateLimitStore {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "storage":
+      return new StorageRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${name}"`);
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return isNaN(value) || value <= 0 ? fallback : value;
+}
+
+/**
+ * Bucket sizes and refill rates, overridable with RATE_LIMIT_USER_CAPACITY,
+ * RATE_LIMIT_USER_PER_MINUTE, RATE_LIMIT_IP_CAPACITY and
+ * RATE_LIMIT_IP_PER_MINUTE. The IP bucket is larger because a whole class
+ * often shares one school network address.
+ */
+export function getRateLimits(): { user: TokenBucketLimit; ip: TokenBucketLimit; concurrent: number } {
+  return {
+    user: {
+      capacity: envNumber("RATE_LIMIT_USER_CAPACITY", 5),
+      refillPerMinute: envNumber("RATE_LIMIT_USER_PER_MINUTE", 2),
+    },
+    ip: {
+      capacity: envNumber("RATE_LIMIT_IP_CAPACITY", 30),
+      refillPerMinute: envNumber("RATE_LIMIT_IP_PER_MINUTE", 15),
+    },
+    concurrent: envNumber("MAX_CONCURRENT_GENERATIONS", 2),
+  };
+}
+
+const defaultStore = createRateLimitStore();
+// Generations in flight per account
+const activeGenerations = new Map<string, number>();
+
+function sendTooManyRequests(res: Response, message: string, retryAfter: number) {
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ message, retryAfter });
+}
+
+function toSeconds(ms: number): number {
+  return Math.max(1, Math.ceil(ms / 1000));
+}
+
+/**
+ * Throttle requests that spend model tokens. Takes a token from the client
+ * IP's and the account's bucket; with `concurrent`, also caps how many of
+ * the account's requests may run at once until the response ends.
+ * `store` replaces the one picked by RATE_LIMIT_STORE.
+ * Must run after requirePermission.
+ */
+export function rateLimit(
+  options: { concurrent?: boolean; store?: IRateLimitStore } = {},
+): RequestHandler {
+  const store = options.store ?? defaultStore;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.session.userId!;
+    const limits = getRateLimits();
+
+    if (options.concurrent && (activeGenerations.get(userId) ?? 0) >= limits.concurrent) {
+      return sendTooManyRequests(
+        res,
+        `Bạn đang có ${limits.concurrent} yêu cầu tạo câu hỏi chưa hoàn thành. Vui lòng đợi xong rồi thử lại.`,
+        CONCURRENCY_RETRY_AFTER,
+      );
+    }
+
+    // Reserve the slot before any await; it is freed when the response ends,
+    // including the 429 responses below
+    if (options.concurrent) {
+      activeGenerations.set(userId, (activeGenerations.get(userId) ?? 0) + 1);
+      let released = false;
+      const release = () => {
+        if (released) return;
+        released = true;
+        const active = (activeGenerations.get(userId) ?? 1) - 1;
+        if (active > 0) {
+          activeGenerations.set(userId, active);
+        } else {
+          activeGenerations.delete(userId);
+        }
+      };
+      res.on("finish", release);
+      res.on("close", release);
+    }
+
+    try {
+      const byIp = await store.take(`ip:${req.ip}`, limits.ip);
+      if (!byIp.allowed) {
+        const seconds = toSeconds(byIp.retryAfterMs);
+        console.warn(`[RATE_LIMIT] IP ${req.ip} throttled for ${seconds}s`);
+        return sendTooManyRequests(
+          res,
+          `Có quá nhiều yêu cầu từ mạng của bạn. Vui lòng thử lại sau ${seconds} giây.`,
+          seconds,
+        );
+      }
+
+      const byUser = await store.take(`user:${userId}`, limits.user);
+      if (!byUser.allowed) {
+        const seconds = toSeconds(byUser.retryAfterMs);
+        console.warn(`[RATE_LIMIT] Account ${userId} throttled for ${seconds}s`);
+        return sendTooManyRequests(
+          res,
+          `Bạn gửi yêu cầu quá nhanh. Vui lòng thử lại sau ${seconds} giây.`,
+          seconds,
+        );
+      }
+    } catch (error) {
+      // Do not lock everyone out when the bucket store is unavailable
+      console.error("[RATE_LIMIT] Store error:", error);
+    }
+
+    next();
+  };
+}
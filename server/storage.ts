@@ -1,26 +1,232 @@
-import { type QuestionRequest, type InsertQuestionRequest, type GeneratedQuestion } from "@shared/schema";
+import {
+  questions,
+  questionBanks,
+  questionBankEntries,
+  batchJobs,
+  usageRecords,
+  rateLimitBuckets,
+  classes,
+  classMembers,
+  assignments,
+  submissions,
+  type Assignment,
+  type BatchGenerationRequest,
+  type CreateBatchData,
+  type QuestionRequest,
+  type InsertQuestionRequest,
+  type GeneratedQuestion,
+  type QuestionBank,
+  type QuestionBankEntry,
+  type InsertBank,
+  type InsertBankEntry,
+  type UpdateBankEntry,
+  type CreateBankData,
+  type InsertUsageRecord,
+  type UsageRecord,
+  type UsageSummary,
+  type ClassMember,
+  type ClassMemberRole,
+  type ClassSummary,
+  type InsertClass,
+  type SchoolClass,
+  type Submission,
+} from "@shared/schema";
+import { calculateBankMetadata } from "@shared/bank-utils";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, getTableColumns, gte, ilike, inArray, isNull, lt, or, sql, sum, type SQL } from "drizzle-orm";
+import { connectDatabase, type Database, type StorageDriver } from "./db";
+import {
+  takeFromBucket,
+  type TokenBucketLimit,
+  type TokenBucketResult,
+  type TokenBucketState,
+} from "./token-bucket";
+
+export interface ListOptions {
+  limit?: number;
+  offset?: number;
+}
+
+// accounts.id of the session that owns a record; null when created without one
+export type OwnerId = string | null;
+
+export interface QuestionRequestFilters extends ListOptions {
+  subject?: string;
+  userId?: OwnerId; // omit to search every account
+  generatedOnly?: boolean; // skip requests that never produced questions
+}
+
+export interface UsageFilters extends ListOptions {
+  userId?: OwnerId; // omit for every account
+  from?: Date; // inclusive
+  to?: Date; // exclusive
+}
+
+export interface ClassFilters {
+  schoolYear?: string;
+  memberId?: string; // only classes the account is homeroom teacher or a member of
+}
+
+// A class with its number of students
+export type StoredClass = Omit<ClassSummary, "homeroomTeacherName">;
+
+// Class fields after the handler filled in the default name
+export type ClassData = InsertClass & { name: string };
+
+export interface AssignmentFilters {
+  createdBy?: string;
+  classIds?: string[];
+}
+
+export interface SubmissionFilters {
+  assignmentIds?: string[];
+  studentId?: string;
+}
+
+// Assignment fields after the handler copied the questions from the bank
+export type AssignmentData = Omit<Assignment, "id" | "createdAt">;
+
+export type SubmissionUpdate = Partial<Pick<Submission, "responses" | "status" | "savedAt" | "submittedAt" | "grade" | "publishedAt">>;
 
 export interface IStorage {
-  createQuestionRequest(request: InsertQuestionRequest): Promise<QuestionRequest>;
+  createQuestionRequest(request: InsertQuestionRequest, userId?: OwnerId): Promise<QuestionRequest>;
   updateQuestionRequest(id: string, generatedQuestions: GeneratedQuestion[]): Promise<QuestionRequest | undefined>;
   getQuestionRequest(id: string): Promise<QuestionRequest | undefined>;
+  listQuestionRequests(options?: ListOptions): Promise<QuestionRequest[]>;
+  deleteQuestionRequest(id: string): Promise<boolean>;
+  searchQuestionRequests(query: string, filters?: QuestionRequestFilters): Promise<QuestionRequest[]>;
+  renameQuestionRequest(id: string, customName: string | null): Promise<QuestionRequest | undefined>;
+  // Store a request generated elsewhere (e.g. local history); undefined if the id is taken
+  importQuestionRequest(request: QuestionRequest): Promise<QuestionRequest | undefined>;
+
+  // Question banks are always scoped to their owner
+  listBanks(ownerId: OwnerId): Promise<QuestionBank[]>;
+  getBank(ownerId: OwnerId, bankId: string): Promise<QuestionBank | undefined>;
+  createBank(ownerId: OwnerId, bank: InsertBank): Promise<QuestionBank>;
+  updateBank(ownerId: OwnerId, bankId: string, updates: Partial<CreateBankData>): Promise<QuestionBank | undefined>;
+  deleteBank(ownerId: OwnerId, bankId: string): Promise<boolean>;
+  addBankEntry(ownerId: OwnerId, bankId: string, entry: InsertBankEntry): Promise<QuestionBankEntry | undefined>;
+  updateBankEntry(ownerId: OwnerId, bankId: string, entryId: string, updates: UpdateBankEntry): Promise<QuestionBankEntry | undefined>;
+  deleteBankEntry(ownerId: OwnerId, bankId: string, entryId: string): Promise<boolean>;
+  moveBankEntry(ownerId: OwnerId, fromBankId: string, toBankId: string, entryId: string): Promise<boolean>;
+
+  // Batch generation jobs; updates come from the job queue, not the owner
+  createBatchJob(ownerId: OwnerId, batch: CreateBatchData): Promise<BatchGenerationRequest>;
+  getBatchJob(ownerId: OwnerId, batchId: string): Promise<BatchGenerationRequest | undefined>;
+  listBatchJobs(ownerId: OwnerId): Promise<BatchGenerationRequest[]>;
+  updateBatchJob(batchId: string, updates: BatchJobUpdate): Promise<BatchGenerationRequest | undefined>;
+  deleteBatchJob(ownerId: OwnerId, batchId: string): Promise<boolean>;
+  listUnfinishedBatchJobs(): Promise<StoredBatchJob[]>;
+
+  // Model usage metering
+  recordUsage(record: InsertUsageRecord): Promise<UsageRecord>;
+  listUsageRecords(filters?: UsageFilters): Promise<UsageRecord[]>;
+  // One summary per account that has usage matching the filters
+  summarizeUsage(filters?: UsageFilters): Promise<UsageSummary[]>;
+
+  // Take tokens from a persisted rate limit bucket, creating it full when missing
+  takeRateLimitToken(key: string, limit: TokenBucketLimit, cost?: number): Promise<TokenBucketResult>;
+
+  // Classes and their members; who may see or change them is checked by the handlers
+  listClasses(filters?: ClassFilters): Promise<StoredClass[]>;
+  getClass(classId: string): Promise<StoredClass | undefined>;
+  createClass(data: ClassData): Promise<StoredClass>;
+  updateClass(classId: string, updates: Partial<ClassData>): Promise<StoredClass | undefined>;
+  // Banks prepared for the class keep existing without it
+  deleteClass(classId: string): Promise<boolean>;
+  listClassMembers(classId: string): Promise<ClassMember[]>;
+  // Accounts already in the class get the new role
+  addClassMembers(classId: string, accountIds: string[], role: ClassMemberRole): Promise<ClassMember[]>;
+  removeClassMember(classId: string, accountId: string): Promise<boolean>;
+  // Forget a deleted account in every class
+  removeAccountFromClasses(accountId: string): Promise<void>;
+
+  // Tests published to classes and the students' attempts at them
+  createAssignment(data: AssignmentData): Promise<Assignment>;
+  getAssignment(assignmentId: string): Promise<Assignment | undefined>;
+  listAssignments(filters?: AssignmentFilters): Promise<Assignment[]>;
+  deleteAssignment(assignmentId: string): Promise<boolean>;
+  listSubmissions(filters: SubmissionFilters): Promise<Submission[]>;
+  getSubmission(assignmentId: string, studentId: string): Promise<Submission | undefined>;
+  // Returns the student's existing attempt when there is one
+  startSubmission(assignmentId: string, studentId: string): Promise<Submission>;
+  updateSubmission(submissionId: string, updates: SubmissionUpdate): Promise<Submission | undefined>;
+}
+
+export type BatchJobUpdate = Partial<Omit<BatchGenerationRequest, "id" | "createdAt">>;
+
+export type StoredBatchJob = { ownerId: OwnerId; batch: BatchGenerationRequest };
+
+const DEFAULT_LIST_LIMIT = 50;
+
+function isUnfinished(batch: BatchGenerationRequest): boolean {
+  return batch.status === "pending" || batch.status === "processing";
+}
+
+function newestFirst(a: QuestionRequest, b: QuestionRequest): number {
+  return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+}
+
+function paginate<T>(items: T[], options: ListOptions = {}): T[] {
+  const offset = options.offset ?? 0;
+  return items.slice(offset, offset + (options.limit ?? DEFAULT_LIST_LIMIT));
+}
+
+function cleanTags(tags: string[]): string[] {
+  return tags.filter(tag => tag.trim()).map(tag => tag.trim());
+}
+
+function newestModifiedFirst(a: QuestionBank, b: QuestionBank): number {
+  return new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime();
+}
+
+function byClassName(a: SchoolClass, b: SchoolClass): number {
+  return b.schoolYear.localeCompare(a.schoolYear) || a.grade - b.grade || a.classNumber - b.classNumber;
+}
+
+function toBankEntry(entry: InsertBankEntry): QuestionBankEntry {
+  return {
+    ...entry,
+    id: entry.id || randomUUID(),
+    name: entry.name.trim(),
+    tags: cleanTags(entry.tags),
+    addedAt: entry.addedAt || new Date().toISOString(),
+  };
 }
 
 export class MemStorage implements IStorage {
   private questionRequests: Map<string, QuestionRequest>;
+  private banks: Map<string, { ownerId: OwnerId; bank: QuestionBank }>;
+  private batchJobs: Map<string, StoredBatchJob>;
+  private usage: UsageRecord[];
+  private rateLimitBuckets: Map<string, TokenBucketState>;
+  private classes: Map<string, SchoolClass>;
+  private classMembers: ClassMember[];
+  private assignments: Map<string, Assignment>;
+  private submissions: Map<string, Submission>;
 
   constructor() {
     this.questionRequests = new Map();
+    this.banks = new Map();
+    this.batchJobs = new Map();
+    this.usage = [];
+    this.rateLimitBuckets = new Map();
+    this.classes = new Map();
+    this.classMembers = [];
+    this.assignments = new Map();
+    this.submissions = new Map();
   }
 
-  async createQuestionRequest(insertRequest: InsertQuestionRequest): Promise<QuestionRequest> {
+  async createQuestionRequest(insertRequest: InsertQuestionRequest, userId: OwnerId = null): Promise<QuestionRequest> {
     const id = randomUUID();
     const request: QuestionRequest = {
       ...insertRequest,
       id,
       requirements: insertRequest.requirements ?? null,
       generatedQuestions: null,
+      userId,
+      customName: null,
+      savedAt: null,
       createdAt: new Date(),
     };
     this.questionRequests.set(id, request);
@@ -39,6 +245,1121 @@ export class MemStorage implements IStorage {
   async getQuestionRequest(id: string): Promise<QuestionRequest | undefined> {
     return this.questionRequests.get(id);
   }
+
+  async listQuestionRequests(options?: ListOptions): Promise<QuestionRequest[]> {
+    const requests = Array.from(this.questionRequests.values()).sort(newestFirst);
+    return paginate(requests, options);
+  }
+
+  async deleteQuestionRequest(id: string): Promise<boolean> {
+    return this.questionRequests.delete(id);
+  }
+
+  async searchQuestionRequests(query: string, filters: QuestionRequestFilters = {}): Promise<QuestionRequest[]> {
+    const term = query.trim().toLowerCase();
+    const requests = Array.from(this.questionRequests.values())
+      .filter(request => !filters.subject || request.subject === filters.subject)
+      .filter(request => filters.userId === undefined || request.userId === filters.userId)
+      .filter(request => !filters.generatedOnly || !!request.generatedQuestions?.length)
+      .filter(request =>
+        !term ||
+        request.topic.toLowerCase().includes(term) ||
+        request.subject.toLowerCase().includes(term) ||
+        (request.customName ?? "").toLowerCase().includes(term) ||
+        (request.requirements ?? "").toLowerCase().includes(term)
+      )
+      .sort(newestFirst);
+    return paginate(requests, filters);
+  }
+
+  async renameQuestionRequest(id: string, customName: string | null): Promise<QuestionRequest | undefined> {
+    const request = this.questionRequests.get(id);
+    if (!request) return undefined;
+
+    const updatedRequest = { ...request, customName, savedAt: new Date() };
+    this.questionRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+
+  async importQuestionRequest(request: QuestionRequest): Promise<QuestionRequest | undefined> {
+    if (this.questionRequests.has(request.id)) return undefined;
+
+    this.questionRequests.set(request.id, request);
+    return request;
+  }
+
+  private findBank(ownerId: OwnerId, bankId: string): QuestionBank | undefined {
+    const record = this.banks.get(bankId);
+    return record && record.ownerId === ownerId ? record.bank : undefined;
+  }
+
+  private touch(bank: QuestionBank): void {
+    bank.lastModified = new Date().toISOString();
+    bank.metadata = calculateBankMetadata(bank.entries);
+  }
+
+  async listBanks(ownerId: OwnerId): Promise<QuestionBank[]> {
+    return Array.from(this.banks.values())
+      .filter(record => record.ownerId === ownerId)
+      .map(record => record.bank)
+      .sort(newestModifiedFirst);
+  }
+
+  async getBank(ownerId: OwnerId, bankId: string): Promise<QuestionBank | undefined> {
+    return this.findBank(ownerId, bankId);
+  }
+
+  async createBank(ownerId: OwnerId, insertBank: InsertBank): Promise<QuestionBank> {
+    const id = insertBank.id && !this.banks.has(insertBank.id) ? insertBank.id : randomUUID();
+    const now = new Date().toISOString();
+    const bank: QuestionBank = {
+      id,
+      name: insertBank.name.trim(),
+      description: insertBank.description?.trim(),
+      subject: insertBank.subject,
+      tags: cleanTags(insertBank.tags),
+      classId: insertBank.classId || undefined,
+      entries: [],
+      createdAt: insertBank.createdAt || now,
+      lastModified: now,
+      metadata: calculateBankMetadata([]),
+    };
+    this.banks.set(id, { ownerId, bank });
+    return bank;
+  }
+
+  async updateBank(ownerId: OwnerId, bankId: string, updates: Partial<CreateBankData>): Promise<QuestionBank | undefined> {
+    const bank = this.findBank(ownerId, bankId);
+    if (!bank) return undefined;
+
+    bank.name = updates.name?.trim() || bank.name;
+    bank.description = updates.description?.trim() || bank.description;
+    bank.subject = updates.subject || bank.subject;
+    bank.tags = updates.tags ? cleanTags(updates.tags) : bank.tags;
+    if (updates.classId !== undefined) {
+      bank.classId = updates.classId || undefined;
+    }
+    this.touch(bank);
+    return bank;
+  }
+
+  async deleteBank(ownerId: OwnerId, bankId: string): Promise<boolean> {
+    if (!this.findBank(ownerId, bankId)) return false;
+    return this.banks.delete(bankId);
+  }
+
+  async addBankEntry(ownerId: OwnerId, bankId: string, insertEntry: InsertBankEntry): Promise<QuestionBankEntry | undefined> {
+    const bank = this.findBank(ownerId, bankId);
+    if (!bank) return undefined;
+
+    const entry = toBankEntry(insertEntry);
+    if (bank.entries.some(existing => existing.id === entry.id)) {
+      entry.id = randomUUID();
+    }
+    bank.entries.unshift(entry);
+    this.touch(bank);
+    return entry;
+  }
+
+  async updateBankEntry(ownerId: OwnerId, bankId: string, entryId: string, updates: UpdateBankEntry): Promise<QuestionBankEntry | undefined> {
+    const bank = this.findBank(ownerId, bankId);
+    const entry = bank?.entries.find(existing => existing.id === entryId);
+    if (!bank || !entry) return undefined;
+
+    entry.name = updates.name?.trim() || entry.name;
+    entry.tags = updates.tags ? cleanTags(updates.tags) : entry.tags;
+    bank.lastModified = new Date().toISOString();
+    return entry;
+  }
+
+  async deleteBankEntry(ownerId: OwnerId, bankId: string, entryId: string): Promise<boolean> {
+    const bank = this.findBank(ownerId, bankId);
+    if (!bank) return false;
+
+    const remaining = bank.entries.filter(entry => entry.id !== entryId);
+    if (remaining.length === bank.entries.length) return false;
+
+    bank.entries = remaining;
+    this.touch(bank);
+    return true;
+  }
+
+  async moveBankEntry(ownerId: OwnerId, fromBankId: string, toBankId: string, entryId: string): Promise<boolean> {
+    const fromBank = this.findBank(ownerId, fromBankId);
+    const toBank = this.findBank(ownerId, toBankId);
+    const entry = fromBank?.entries.find(existing => existing.id === entryId);
+    if (!fromBank || !toBank || !entry) return false;
+
+    fromBank.entries = fromBank.entries.filter(existing => existing.id !== entryId);
+    toBank.entries.unshift({ ...entry, addedAt: new Date().toISOString() });
+    this.touch(fromBank);
+    this.touch(toBank);
+    return true;
+  }
+
+  async createBatchJob(ownerId: OwnerId, data: CreateBatchData): Promise<BatchGenerationRequest> {
+    const batch: BatchGenerationRequest = {
+      id: randomUUID(),
+      name: data.name.trim(),
+      configs: data.configs,
+      options: data.options,
+      createdAt: new Date().toISOString(),
+      status: "pending",
+      progress: { current: 0, total: data.configs.length },
+      results: [],
+      errors: [],
+    };
+    this.batchJobs.set(batch.id, { ownerId, batch });
+    return batch;
+  }
+
+  async getBatchJob(ownerId: OwnerId, batchId: string): Promise<BatchGenerationRequest | undefined> {
+    const record = this.batchJobs.get(batchId);
+    return record && record.ownerId === ownerId ? record.batch : undefined;
+  }
+
+  async listBatchJobs(ownerId: OwnerId): Promise<BatchGenerationRequest[]> {
+    return Array.from(this.batchJobs.values())
+      .filter(record => record.ownerId === ownerId)
+      .map(record => record.batch)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async updateBatchJob(batchId: string, updates: BatchJobUpdate): Promise<BatchGenerationRequest | undefined> {
+    const record = this.batchJobs.get(batchId);
+    if (!record) return undefined;
+
+    record.batch = { ...record.batch, ...updates };
+    return record.batch;
+  }
+
+  async deleteBatchJob(ownerId: OwnerId, batchId: string): Promise<boolean> {
+    if (!(await this.getBatchJob(ownerId, batchId))) return false;
+    return this.batchJobs.delete(batchId);
+  }
+
+  async listUnfinishedBatchJobs(): Promise<StoredBatchJob[]> {
+    return Array.from(this.batchJobs.values()).filter(record => isUnfinished(record.batch));
+  }
+
+  async recordUsage(record: InsertUsageRecord): Promise<UsageRecord> {
+    const usage: UsageRecord = {
+      id: record.id || randomUUID(),
+      userId: record.userId ?? null,
+      requestId: record.requestId ?? null,
+      model: record.model,
+      promptTokens: record.promptTokens ?? 0,
+      completionTokens: record.completionTokens ?? 0,
+      cost: record.cost ?? 0,
+      createdAt: record.createdAt ?? new Date(),
+    };
+    this.usage.push(usage);
+    return usage;
+  }
+
+  async listUsageRecords(filters: UsageFilters = {}): Promise<UsageRecord[]> {
+    const records = this.filterUsage(filters)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    return paginate(records, filters);
+  }
+
+  async summarizeUsage(filters: UsageFilters = {}): Promise<UsageSummary[]> {
+    const summaries = new Map<string | null, UsageSummary>();
+    for (const record of this.filterUsage(filters)) {
+      const summary = summaries.get(record.userId) ?? {
+        userId: record.userId,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        cost: 0,
+      };
+      summary.requests++;
+      summary.promptTokens += record.promptTokens;
+      summary.completionTokens += record.completionTokens;
+      summary.cost += record.cost;
+      summaries.set(record.userId, summary);
+    }
+    return Array.from(summaries.values());
+  }
+
+  async takeRateLimitToken(key: string, limit: TokenBucketLimit, cost = 1): Promise<TokenBucketResult> {
+    const { state, result } = takeFromBucket(this.rateLimitBuckets.get(key), limit, Date.now(), cost);
+    this.rateLimitBuckets.set(key, state);
+    return result;
+  }
+
+  async listClasses(filters: ClassFilters = {}): Promise<StoredClass[]> {
+    return Array.from(this.classes.values())
+      .filter(schoolClass =>
+        (!filters.schoolYear || schoolClass.schoolYear === filters.schoolYear) &&
+        (!filters.memberId ||
+          schoolClass.homeroomTeacherId === filters.memberId ||
+          this.classMembers.some(member => member.classId === schoolClass.id && member.accountId === filters.memberId))
+      )
+      .sort(byClassName)
+      .map(schoolClass => this.withStudentCount(schoolClass));
+  }
+
+  async getClass(classId: string): Promise<StoredClass | undefined> {
+    const schoolClass = this.classes.get(classId);
+    return schoolClass && this.withStudentCount(schoolClass);
+  }
+
+  async createClass(data: ClassData): Promise<StoredClass> {
+    const now = new Date();
+    const schoolClass: SchoolClass = {
+      id: randomUUID(),
+      name: data.name,
+      grade: data.grade,
+      classNumber: data.classNumber,
+      schoolYear: data.schoolYear,
+      homeroomTeacherId: data.homeroomTeacherId ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.classes.set(schoolClass.id, schoolClass);
+    return this.withStudentCount(schoolClass);
+  }
+
+  async updateClass(classId: string, updates: Partial<ClassData>): Promise<StoredClass | undefined> {
+    const schoolClass = this.classes.get(classId);
+    if (!schoolClass) return undefined;
+
+    Object.assign(schoolClass, {
+      name: updates.name ?? schoolClass.name,
+      grade: updates.grade ?? schoolClass.grade,
+      classNumber: updates.classNumber ?? schoolClass.classNumber,
+      schoolYear: updates.schoolYear ?? schoolClass.schoolYear,
+      homeroomTeacherId: updates.homeroomTeacherId === undefined ? schoolClass.homeroomTeacherId : updates.homeroomTeacherId,
+      updatedAt: new Date(),
+    });
+    return this.withStudentCount(schoolClass);
+  }
+
+  async deleteClass(classId: string): Promise<boolean> {
+    if (!this.classes.delete(classId)) return false;
+    this.classMembers = this.classMembers.filter(member => member.classId !== classId);
+    this.banks.forEach(({ bank }) => {
+      if (bank.classId === classId) bank.classId = undefined;
+    });
+    this.assignments.forEach(assignment => {
+      if (assignment.classId === classId) this.assignments.delete(assignment.id);
+    });
+    this.submissions.forEach(submission => {
+      if (!this.assignments.has(submission.assignmentId)) this.submissions.delete(submission.id);
+    });
+    return true;
+  }
+
+  async listClassMembers(classId: string): Promise<ClassMember[]> {
+    return this.classMembers
+      .filter(member => member.classId === classId)
+      .sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime());
+  }
+
+  async addClassMembers(classId: string, accountIds: string[], role: ClassMemberRole): Promise<ClassMember[]> {
+    if (!this.classes.has(classId)) return [];
+
+    const added: ClassMember[] = [];
+    for (const accountId of Array.from(new Set(accountIds))) {
+      let member = this.classMembers.find(existing => existing.classId === classId && existing.accountId === accountId);
+      if (member) {
+        member.role = role;
+      } else {
+        member = { classId, accountId, role, addedAt: new Date() };
+        this.classMembers.push(member);
+      }
+      added.push(member);
+    }
+    return added;
+  }
+
+  async removeClassMember(classId: string, accountId: string): Promise<boolean> {
+    const before = this.classMembers.length;
+    this.classMembers = this.classMembers.filter(member => !(member.classId === classId && member.accountId === accountId));
+    return this.classMembers.length < before;
+  }
+
+  async removeAccountFromClasses(accountId: string): Promise<void> {
+    this.classMembers = this.classMembers.filter(member => member.accountId !== accountId);
+    this.classes.forEach(schoolClass => {
+      if (schoolClass.homeroomTeacherId === accountId) schoolClass.homeroomTeacherId = null;
+    });
+  }
+
+  async createAssignment(data: AssignmentData): Promise<Assignment> {
+    const assignment: Assignment = { ...data, id: randomUUID(), createdAt: new Date() };
+    this.assignments.set(assignment.id, assignment);
+    return assignment;
+  }
+
+  async getAssignment(assignmentId: string): Promise<Assignment | undefined> {
+    return this.assignments.get(assignmentId);
+  }
+
+  async listAssignments(filters: AssignmentFilters = {}): Promise<Assignment[]> {
+    return Array.from(this.assignments.values())
+      .filter(assignment =>
+        (!filters.createdBy || assignment.createdBy === filters.createdBy) &&
+        (!filters.classIds || filters.classIds.includes(assignment.classId))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async deleteAssignment(assignmentId: string): Promise<boolean> {
+    if (!this.assignments.delete(assignmentId)) return false;
+    this.submissions.forEach(submission => {
+      if (submission.assignmentId === assignmentId) this.submissions.delete(submission.id);
+    });
+    return true;
+  }
+
+  async listSubmissions(filters: SubmissionFilters): Promise<Submission[]> {
+    return Array.from(this.submissions.values()).filter(submission =>
+      (!filters.assignmentIds || filters.assignmentIds.includes(submission.assignmentId)) &&
+      (!filters.studentId || submission.studentId === filters.studentId)
+    );
+  }
+
+  async getSubmission(assignmentId: string, studentId: string): Promise<Submission | undefined> {
+    return Array.from(this.submissions.values())
+      .find(submission => submission.assignmentId === assignmentId && submission.studentId === studentId);
+  }
+
+  async startSubmission(assignmentId: string, studentId: string): Promise<Submission> {
+    const existing = await this.getSubmission(assignmentId, studentId);
+    if (existing) return existing;
+
+    const now = new Date();
+    const submission: Submission = {
+      id: randomUUID(),
+      assignmentId,
+      studentId,
+      responses: {},
+      status: "in_progress",
+      startedAt: now,
+      savedAt: now,
+      submittedAt: null,
+      grade: null,
+      publishedAt: null,
+    };
+    this.submissions.set(submission.id, submission);
+    return submission;
+  }
+
+  async updateSubmission(submissionId: string, updates: SubmissionUpdate): Promise<Submission | undefined> {
+    const submission = this.submissions.get(submissionId);
+    if (!submission) return undefined;
+    Object.assign(submission, updates);
+    return submission;
+  }
+
+  private withStudentCount(schoolClass: SchoolClass): StoredClass {
+    const studentCount = this.classMembers
+      .filter(member => member.classId === schoolClass.id && member.role === "student")
+      .length;
+    return { ...schoolClass, studentCount };
+  }
+
+  private filterUsage(filters: UsageFilters): UsageRecord[] {
+    return this.usage.filter(record =>
+      (filters.userId === undefined || record.userId === filters.userId) &&
+      (!filters.from || record.createdAt >= filters.from) &&
+      (!filters.to || record.createdAt < filters.to)
+    );
+  }
+}
+
+/**
+ * IStorage backed by Drizzle. The connection (and its migrations) is opened
+ * lazily, so every method waits for it before querying.
+ */
+export class DrizzleStorage implements IStorage {
+  private ready: Promise<Database>;
+
+  constructor(driver: Exclude<StorageDriver, "memory">) {
+    this.ready = connectDatabase(driver);
+    this.ready.catch(error => {
+      console.error(`Failed to open ${driver} storage:`, error);
+    });
+  }
+
+  async createQuestionRequest(insertRequest: InsertQuestionRequest, userId: OwnerId = null): Promise<QuestionRequest> {
+    const db = await this.ready;
+    const [request] = await db
+      .insert(questions)
+      .values({ ...insertRequest, requirements: insertRequest.requirements ?? null, userId })
+      .returning();
+    return request;
+  }
+
+  async updateQuestionRequest(id: string, generatedQuestions: GeneratedQuestion[]): Promise<QuestionRequest | undefined> {
+    const db = await this.ready;
+    const [request] = await db
+      .update(questions)
+      .set({ generatedQuestions })
+      .where(eq(questions.id, id))
+      .returning();
+    return request;
+  }
+
+  async getQuestionRequest(id: string): Promise<QuestionRequest | undefined> {
+    const db = await this.ready;
+    const [request] = await db.select().from(questions).where(eq(questions.id, id));
+    return request;
+  }
+
+  async listQuestionRequests(options: ListOptions = {}): Promise<QuestionRequest[]> {
+    const db = await this.ready;
+    return db
+      .select()
+      .from(questions)
+      .orderBy(desc(questions.createdAt))
+      .limit(options.limit ?? DEFAULT_LIST_LIMIT)
+      .offset(options.offset ?? 0);
+  }
+
+  async deleteQuestionRequest(id: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(questions)
+      .where(eq(questions.id, id))
+      .returning({ id: questions.id });
+    return deleted.length > 0;
+  }
+
+  async searchQuestionRequests(query: string, filters: QuestionRequestFilters = {}): Promise<QuestionRequest[]> {
+    const db = await this.ready;
+    const conditions: SQL[] = [];
+
+    if (filters.subject) {
+      conditions.push(eq(questions.subject, filters.subject));
+    }
+    if (filters.userId !== undefined) {
+      conditions.push(filters.userId === null ? isNull(questions.userId) : eq(questions.userId, filters.userId));
+    }
+    if (filters.generatedOnly) {
+      conditions.push(sql`json_array_length(${questions.generatedQuestions}) > 0`);
+    }
+
+    const term = query.trim();
+    if (term) {
+      const pattern = `%${term}%`;
+      conditions.push(or(
+        ilike(questions.topic, pattern),
+        ilike(questions.subject, pattern),
+        ilike(questions.customName, pattern),
+        ilike(questions.requirements, pattern),
+      )!);
+    }
+
+    return db
+      .select()
+      .from(questions)
+      .where(and(...conditions))
+      .orderBy(desc(questions.createdAt))
+      .limit(filters.limit ?? DEFAULT_LIST_LIMIT)
+      .offset(filters.offset ?? 0);
+  }
+
+  async renameQuestionRequest(id: string, customName: string | null): Promise<QuestionRequest | undefined> {
+    const db = await this.ready;
+    const [request] = await db
+      .update(questions)
+      .set({ customName, savedAt: new Date() })
+      .where(eq(questions.id, id))
+      .returning();
+    return request;
+  }
+
+  async importQuestionRequest(request: QuestionRequest): Promise<QuestionRequest | undefined> {
+    const db = await this.ready;
+    const [imported] = await db
+      .insert(questions)
+      .values(request)
+      .onConflictDoNothing({ target: questions.id })
+      .returning();
+    return imported;
+  }
+
+  private ownedBy(ownerId: OwnerId): SQL {
+    return ownerId === null ? isNull(questionBanks.ownerId) : eq(questionBanks.ownerId, ownerId);
+  }
+
+  private async loadBanks(db: Database, where: SQL): Promise<QuestionBank[]> {
+    const bankRows = await db
+      .select()
+      .from(questionBanks)
+      .where(where)
+      .orderBy(desc(questionBanks.lastModified));
+    if (bankRows.length === 0) return [];
+
+    const entryRows = await db
+      .select()
+      .from(questionBankEntries)
+      .where(inArray(questionBankEntries.bankId, bankRows.map(bank => bank.id)))
+      .orderBy(desc(questionBankEntries.addedAt));
+
+    return bankRows.map(row => {
+      const entries = entryRows
+        .filter(entry => entry.bankId === row.id)
+        .map(toQuestionBankEntry);
+      return {
+        id: row.id,
+        name: row.name,
+        description: row.description ?? undefined,
+        subject: row.subject,
+        tags: row.tags,
+        entries,
+        createdAt: row.createdAt.toISOString(),
+        lastModified: row.lastModified.toISOString(),
+        isTemplate: row.isTemplate || undefined,
+        classId: row.classId ?? undefined,
+        metadata: calculateBankMetadata(entries),
+      };
+    });
+  }
+
+  private async touchBanks(db: Database, bankIds: string[]): Promise<void> {
+    await db
+      .update(questionBanks)
+      .set({ lastModified: new Date() })
+      .where(inArray(questionBanks.id, bankIds));
+  }
+
+  async listBanks(ownerId: OwnerId): Promise<QuestionBank[]> {
+    const db = await this.ready;
+    return this.loadBanks(db, this.ownedBy(ownerId));
+  }
+
+  async getBank(ownerId: OwnerId, bankId: string): Promise<QuestionBank | undefined> {
+    const db = await this.ready;
+    const [bank] = await this.loadBanks(db, and(this.ownedBy(ownerId), eq(questionBanks.id, bankId))!);
+    return bank;
+  }
+
+  async createBank(ownerId: OwnerId, insertBank: InsertBank): Promise<QuestionBank> {
+    const db = await this.ready;
+    let id = insertBank.id;
+    if (id) {
+      const [existing] = await db.select({ id: questionBanks.id }).from(questionBanks).where(eq(questionBanks.id, id));
+      if (existing) id = undefined;
+    }
+
+    const [row] = await db
+      .insert(questionBanks)
+      .values({
+        id,
+        ownerId,
+        name: insertBank.name.trim(),
+        description: insertBank.description?.trim(),
+        subject: insertBank.subject,
+        tags: cleanTags(insertBank.tags),
+        classId: insertBank.classId || null,
+        createdAt: insertBank.createdAt ? new Date(insertBank.createdAt) : undefined,
+      })
+      .returning();
+    return (await this.getBank(ownerId, row.id))!;
+  }
+
+  async updateBank(ownerId: OwnerId, bankId: string, updates: Partial<CreateBankData>): Promise<QuestionBank | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .update(questionBanks)
+      .set({
+        name: updates.name?.trim() || undefined,
+        description: updates.description?.trim() || undefined,
+        subject: updates.subject || undefined,
+        tags: updates.tags ? cleanTags(updates.tags) : undefined,
+        classId: updates.classId === undefined ? undefined : updates.classId || null,
+        lastModified: new Date(),
+      })
+      .where(and(this.ownedBy(ownerId), eq(questionBanks.id, bankId)))
+      .returning({ id: questionBanks.id });
+    return row ? this.getBank(ownerId, row.id) : undefined;
+  }
+
+  async deleteBank(ownerId: OwnerId, bankId: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(questionBanks)
+      .where(and(this.ownedBy(ownerId), eq(questionBanks.id, bankId)))
+      .returning({ id: questionBanks.id });
+    return deleted.length > 0;
+  }
+
+  async addBankEntry(ownerId: OwnerId, bankId: string, insertEntry: InsertBankEntry): Promise<QuestionBankEntry | undefined> {
+    const db = await this.ready;
+    if (!(await this.isOwnedBank(db, ownerId, bankId))) return undefined;
+
+    const entry = toBankEntry(insertEntry);
+    const [existing] = await db
+      .select({ id: questionBankEntries.id })
+      .from(questionBankEntries)
+      .where(eq(questionBankEntries.id, entry.id));
+    if (existing) entry.id = randomUUID();
+
+    const [row] = await db
+      .insert(questionBankEntries)
+      .values({
+        ...entry,
+        bankId,
+        requirements: entry.requirements ?? null,
+        originalId: entry.originalId ?? null,
+        addedAt: new Date(entry.addedAt),
+      })
+      .returning();
+    await this.touchBanks(db, [bankId]);
+    return toQuestionBankEntry(row);
+  }
+
+  async updateBankEntry(ownerId: OwnerId, bankId: string, entryId: string, updates: UpdateBankEntry): Promise<QuestionBankEntry | undefined> {
+    const db = await this.ready;
+    if (!(await this.isOwnedBank(db, ownerId, bankId))) return undefined;
+
+    const [row] = await db
+      .update(questionBankEntries)
+      .set({
+        name: updates.name?.trim() || undefined,
+        tags: updates.tags ? cleanTags(updates.tags) : undefined,
+      })
+      .where(and(eq(questionBankEntries.bankId, bankId), eq(questionBankEntries.id, entryId)))
+      .returning();
+    if (!row) return undefined;
+
+    await this.touchBanks(db, [bankId]);
+    return toQuestionBankEntry(row);
+  }
+
+  async deleteBankEntry(ownerId: OwnerId, bankId: string, entryId: string): Promise<boolean> {
+    const db = await this.ready;
+    if (!(await this.isOwnedBank(db, ownerId, bankId))) return false;
+
+    const deleted = await db
+      .delete(questionBankEntries)
+      .where(and(eq(questionBankEntries.bankId, bankId), eq(questionBankEntries.id, entryId)))
+      .returning({ id: questionBankEntries.id });
+    if (deleted.length === 0) return false;
+
+    await this.touchBanks(db, [bankId]);
+    return true;
+  }
+
+  async moveBankEntry(ownerId: OwnerId, fromBankId: string, toBankId: string, entryId: string): Promise<boolean> {
+    const db = await this.ready;
+    if (!(await this.isOwnedBank(db, ownerId, fromBankId)) || !(await this.isOwnedBank(db, ownerId, toBankId))) {
+      return false;
+    }
+
+    const moved = await db
+      .update(questionBankEntries)
+      .set({ bankId: toBankId, addedAt: new Date() })
+      .where(and(eq(questionBankEntries.bankId, fromBankId), eq(questionBankEntries.id, entryId)))
+      .returning({ id: questionBankEntries.id });
+    if (moved.length === 0) return false;
+
+    await this.touchBanks(db, [fromBankId, toBankId]);
+    return true;
+  }
+
+  private async isOwnedBank(db: Database, ownerId: OwnerId, bankId: string): Promise<boolean> {
+    const [bank] = await db
+      .select({ id: questionBanks.id })
+      .from(questionBanks)
+      .where(and(this.ownedBy(ownerId), eq(questionBanks.id, bankId)));
+    return !!bank;
+  }
+
+  async createBatchJob(ownerId: OwnerId, data: CreateBatchData): Promise<BatchGenerationRequest> {
+    const db = await this.ready;
+    const [row] = await db
+      .insert(batchJobs)
+      .values({
+        ownerId,
+        name: data.name.trim(),
+        configs: data.configs,
+        options: data.options,
+        status: "pending",
+        progress: { current: 0, total: data.configs.length },
+        results: [],
+        errors: [],
+      })
+      .returning();
+    return toBatchRequest(row);
+  }
+
+  async getBatchJob(ownerId: OwnerId, batchId: string): Promise<BatchGenerationRequest | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .select()
+      .from(batchJobs)
+      .where(and(this.batchOwnedBy(ownerId), eq(batchJobs.id, batchId)));
+    return row ? toBatchRequest(row) : undefined;
+  }
+
+  async listBatchJobs(ownerId: OwnerId): Promise<BatchGenerationRequest[]> {
+    const db = await this.ready;
+    const rows = await db
+      .select()
+      .from(batchJobs)
+      .where(this.batchOwnedBy(ownerId))
+      .orderBy(desc(batchJobs.createdAt));
+    return rows.map(toBatchRequest);
+  }
+
+  async updateBatchJob(batchId: string, updates: BatchJobUpdate): Promise<BatchGenerationRequest | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .update(batchJobs)
+      .set(updates)
+      .where(eq(batchJobs.id, batchId))
+      .returning();
+    return row ? toBatchRequest(row) : undefined;
+  }
+
+  async deleteBatchJob(ownerId: OwnerId, batchId: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(batchJobs)
+      .where(and(this.batchOwnedBy(ownerId), eq(batchJobs.id, batchId)))
+      .returning({ id: batchJobs.id });
+    return deleted.length > 0;
+  }
+
+  async listUnfinishedBatchJobs(): Promise<StoredBatchJob[]> {
+    const db = await this.ready;
+    const rows = await db
+      .select()
+      .from(batchJobs)
+      .where(inArray(batchJobs.status, ["pending", "processing"]))
+      .orderBy(batchJobs.createdAt);
+    return rows.map(row => ({ ownerId: row.ownerId, batch: toBatchRequest(row) }));
+  }
+
+  private batchOwnedBy(ownerId: OwnerId): SQL {
+    return ownerId === null ? isNull(batchJobs.ownerId) : eq(batchJobs.ownerId, ownerId);
+  }
+
+  async recordUsage(record: InsertUsageRecord): Promise<UsageRecord> {
+    const db = await this.ready;
+    const [usage] = await db.insert(usageRecords).values(record).returning();
+    return usage;
+  }
+
+  async listUsageRecords(filters: UsageFilters = {}): Promise<UsageRecord[]> {
+    const db = await this.ready;
+    return db
+      .select()
+      .from(usageRecords)
+      .where(and(...this.usageConditions(filters)))
+      .orderBy(desc(usageRecords.createdAt))
+      .limit(filters.limit ?? DEFAULT_LIST_LIMIT)
+      .offset(filters.offset ?? 0);
+  }
+
+  async summarizeUsage(filters: UsageFilters = {}): Promise<UsageSummary[]> {
+    const db = await this.ready;
+    const rows = await db
+      .select({
+        userId: usageRecords.userId,
+        requests: count(),
+        promptTokens: sum(usageRecords.promptTokens),
+        completionTokens: sum(usageRecords.completionTokens),
+        cost: sum(usageRecords.cost),
+      })
+      .from(usageRecords)
+      .where(and(...this.usageConditions(filters)))
+      .groupBy(usageRecords.userId);
+
+    // sum() comes back as a numeric string
+    return rows.map(row => ({
+      userId: row.userId,
+      requests: row.requests,
+      promptTokens: Number(row.promptTokens ?? 0),
+      completionTokens: Number(row.completionTokens ?? 0),
+      cost: Number(row.cost ?? 0),
+    }));
+  }
+
+  async takeRateLimitToken(key: string, limit: TokenBucketLimit, cost = 1): Promise<TokenBucketResult> {
+    const db = await this.ready;
+    // Lock the row so concurrent requests cannot spend the same tokens
+    return db.transaction(async (tx) => {
+      const [row] = await tx
+        .select()
+        .from(rateLimitBuckets)
+        .where(eq(rateLimitBuckets.key, key))
+        .for("update");
+
+      const now = new Date();
+      const { state, result } = takeFromBucket(
+        row ? { tokens: row.tokens, updatedAt: row.updatedAt.getTime() } : undefined,
+        limit,
+        now.getTime(),
+        cost,
+      );
+
+      await tx
+        .insert(rateLimitBuckets)
+        .values({ key, tokens: state.tokens, updatedAt: now })
+        .onConflictDoUpdate({
+          target: rateLimitBuckets.key,
+          set: { tokens: state.tokens, updatedAt: now },
+        });
+      return result;
+    });
+  }
+
+  async listClasses(filters: ClassFilters = {}): Promise<StoredClass[]> {
+    const db = await this.ready;
+    const conditions: SQL[] = [];
+    if (filters.schoolYear) {
+      conditions.push(eq(classes.schoolYear, filters.schoolYear));
+    }
+    if (filters.memberId) {
+      const memberOf = db
+        .select({ classId: classMembers.classId })
+        .from(classMembers)
+        .where(eq(classMembers.accountId, filters.memberId));
+      conditions.push(or(eq(classes.homeroomTeacherId, filters.memberId), inArray(classes.id, memberOf))!);
+    }
+
+    return db
+      .select({ ...getTableColumns(classes), studentCount: this.studentCount() })
+      .from(classes)
+      .where(and(...conditions))
+      .orderBy(desc(classes.schoolYear), asc(classes.grade), asc(classes.classNumber));
+  }
+
+  async getClass(classId: string): Promise<StoredClass | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .select({ ...getTableColumns(classes), studentCount: this.studentCount() })
+      .from(classes)
+      .where(eq(classes.id, classId));
+    return row;
+  }
+
+  async createClass(data: ClassData): Promise<StoredClass> {
+    const db = await this.ready;
+    const [row] = await db
+      .insert(classes)
+      .values({ ...data, homeroomTeacherId: data.homeroomTeacherId ?? null })
+      .returning();
+    return { ...row, studentCount: 0 };
+  }
+
+  async updateClass(classId: string, updates: Partial<ClassData>): Promise<StoredClass | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .update(classes)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(classes.id, classId))
+      .returning({ id: classes.id });
+    return row ? this.getClass(row.id) : undefined;
+  }
+
+  async deleteClass(classId: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(classes)
+      .where(eq(classes.id, classId))
+      .returning({ id: classes.id });
+    return deleted.length > 0;
+  }
+
+  async listClassMembers(classId: string): Promise<ClassMember[]> {
+    const db = await this.ready;
+    return db
+      .select()
+      .from(classMembers)
+      .where(eq(classMembers.classId, classId))
+      .orderBy(asc(classMembers.addedAt));
+  }
+
+  async addClassMembers(classId: string, accountIds: string[], role: ClassMemberRole): Promise<ClassMember[]> {
+    const db = await this.ready;
+    const uniqueIds = Array.from(new Set(accountIds));
+    if (uniqueIds.length === 0 || !(await this.getClass(classId))) return [];
+
+    return db
+      .insert(classMembers)
+      .values(uniqueIds.map(accountId => ({ classId, accountId, role })))
+      .onConflictDoUpdate({
+        target: [classMembers.classId, classMembers.accountId],
+        set: { role },
+      })
+      .returning();
+  }
+
+  async removeClassMember(classId: string, accountId: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(classMembers)
+      .where(and(eq(classMembers.classId, classId), eq(classMembers.accountId, accountId)))
+      .returning({ accountId: classMembers.accountId });
+    return deleted.length > 0;
+  }
+
+  async removeAccountFromClasses(accountId: string): Promise<void> {
+    const db = await this.ready;
+    await db.delete(classMembers).where(eq(classMembers.accountId, accountId));
+    await db
+      .update(classes)
+      .set({ homeroomTeacherId: null })
+      .where(eq(classes.homeroomTeacherId, accountId));
+  }
+
+  async createAssignment(data: AssignmentData): Promise<Assignment> {
+    const db = await this.ready;
+    const [row] = await db.insert(assignments).values(data).returning();
+    return row;
+  }
+
+  async getAssignment(assignmentId: string): Promise<Assignment | undefined> {
+    const db = await this.ready;
+    const [row] = await db.select().from(assignments).where(eq(assignments.id, assignmentId));
+    return row;
+  }
+
+  async listAssignments(filters: AssignmentFilters = {}): Promise<Assignment[]> {
+    if (filters.classIds?.length === 0) return [];
+
+    const db = await this.ready;
+    const conditions: SQL[] = [];
+    if (filters.createdBy) {
+      conditions.push(eq(assignments.createdBy, filters.createdBy));
+    }
+    if (filters.classIds) {
+      conditions.push(inArray(assignments.classId, filters.classIds));
+    }
+    return db
+      .select()
+      .from(assignments)
+      .where(and(...conditions))
+      .orderBy(desc(assignments.createdAt));
+  }
+
+  async deleteAssignment(assignmentId: string): Promise<boolean> {
+    const db = await this.ready;
+    const deleted = await db
+      .delete(assignments)
+      .where(eq(assignments.id, assignmentId))
+      .returning({ id: assignments.id });
+    return deleted.length > 0;
+  }
+
+  async listSubmissions(filters: SubmissionFilters): Promise<Submission[]> {
+    if (filters.assignmentIds?.length === 0) return [];
+
+    const db = await this.ready;
+    const conditions: SQL[] = [];
+    if (filters.assignmentIds) {
+      conditions.push(inArray(submissions.assignmentId, filters.assignmentIds));
+    }
+    if (filters.studentId) {
+      conditions.push(eq(submissions.studentId, filters.studentId));
+    }
+    return db.select().from(submissions).where(and(...conditions));
+  }
+
+  async getSubmission(assignmentId: string, studentId: string): Promise<Submission | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .select()
+      .from(submissions)
+      .where(and(eq(submissions.assignmentId, assignmentId), eq(submissions.studentId, studentId)));
+    return row;
+  }
+
+  async startSubmission(assignmentId: string, studentId: string): Promise<Submission> {
+    const db = await this.ready;
+    await db
+      .insert(submissions)
+      .values({ assignmentId, studentId, responses: {}, status: "in_progress" })
+      .onConflictDoNothing({ target: [submissions.assignmentId, submissions.studentId] });
+    return (await this.getSubmission(assignmentId, studentId))!;
+  }
+
+  async updateSubmission(submissionId: string, updates: SubmissionUpdate): Promise<Submission | undefined> {
+    const db = await this.ready;
+    const [row] = await db
+      .update(submissions)
+      .set(updates)
+      .where(eq(submissions.id, submissionId))
+      .returning();
+    return row;
+  }
+
+  private studentCount(): SQL<number> {
+    return sql<number>`(
+      select count(*) from ${classMembers}
+      where ${classMembers.classId} = ${classes.id} and ${classMembers.role} = 'student'
+    )`.mapWith(Number);
+  }
+
+  private usageConditions(filters: UsageFilters): SQL[] {
+    const conditions: SQL[] = [];
+    if (filters.userId !== undefined) {
+      conditions.push(filters.userId === null ? isNull(usageRecords.userId) : eq(usageRecords.userId, filters.userId));
+    }
+    if (filters.from) {
+      conditions.push(gte(usageRecords.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lt(usageRecords.createdAt, filters.to));
+    }
+    return conditions;
+  }
+}
+
+function toBatchRequest(row: typeof batchJobs.$inferSelect): BatchGenerationRequest {
+  return {
+    id: row.id,
+    name: row.name,
+    configs: row.configs,
+    options: row.options,
+    createdAt: row.createdAt.toISOString(),
+    status: row.status,
+    progress: row.progress,
+    results: row.results,
+    errors: row.errors,
+  };
+}
+
+function toQuestionBankEntry(row: typeof questionBankEntries.$inferSelect): QuestionBankEntry {
+  return {
+    id: row.id,
+    name: row.name,
+    subject: row.subject,
+    difficulty: row.difficulty,
+    topic: row.topic,
+    requirements: row.requirements ?? undefined,
+    questionTypes: row.questionTypes,
+    questionCount: row.questionCount,
+    generatedQuestions: row.generatedQuestions,
+    tags: row.tags,
+    addedAt: row.addedAt.toISOString(),
+    originalId: row.originalId ?? undefined,
+  };
+}
+
+/**
+ * Pick the storage backend from STORAGE_DRIVER:
+ * - memory (default): in-process Map, lost on restart
+ * - postgres: PostgreSQL at DATABASE_URL (Supabase, Neon, local server)
+ * - pglite: embedded Postgres in PGLITE_DATA_DIR for local development
+ */
+export function createStorage(driver = process.env.STORAGE_DRIVER || "memory"): IStorage {
+  switch (driver) {
+    case "memory":
+      return new MemStorage();
+    case "postgres":
+    case "pglite":
+      return new DrizzleStorage(driver);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import ExcelJS from "exceljs";
+
+// student-import.ts reaches Supabase for the usernames in use; the client is never called here
+process.env.VITE_SUPABASE_URL ??= "https://offline.supabase.co";
+process.env.VITE_SUPABASE_ANON_KEY ??= "offline";
+const { parseCsv, planImport, readRosterSheet, toRosterEntries, usernameFromName } = await import("./student-import");
+
+function plan(csv: string, taken: string[] = []) {
+  return planImport(toRosterEntries(parseCsv(csv)), new Set(taken));
+}
+
+test("parseCsv reads quoted fields with separators, quotes and line breaks", () => {
+  const rows = parseCsv('Họ và tên,Ghi chú\r\n"Nguyễn Văn An","Lớp 10A1, tổ 2"\r\n"Trần ""Bé"" Bình","Dòng 1\nDòng 2"\r\n');
+
+  assert.deepEqual(rows, [
+    ["Họ và tên", "Ghi chú"],
+    ["Nguyễn Văn An", "Lớp 10A1, tổ 2"],
+    ['Trần "Bé" Bình', "Dòng 1\nDòng 2"],
+  ]);
+});
+
+test("parseCsv drops Excel's byte order mark and finds its separator", () => {
+  const semicolons = parseCsv("\uFEFFHọ và tên;Tên đăng nhập\nLê Thị Hoa;hoalt");
+  assert.deepEqual(semicolons, [["Họ và tên", "Tên đăng nhập"], ["Lê Thị Hoa", "hoalt"]]);
+  assert.deepEqual(parseCsv("Họ\tTên\nPhạm\tMinh"), [["Họ", "Tên"], ["Phạm", "Minh"]]);
+});
+
+test("roster entries start after the title block and join family and given names", () => {
+  const entries = toRosterEntries(parseCsv(`DANH SÁCH LỚP 10A1
+,,
+STT,Họ,Tên,Tên đăng nhập
+1,Nguyễn  Văn,An,AnNV
+,,,
+2,Trần Thị,Bình,`));
+
+  assert.deepEqual(entries, [
+    { row: 4, fullName: "Nguyễn Văn An", username: "annv", password: "" },
+    { row: 6, fullName: "Trần Thị Bình", username: "", password: "" },
+  ]);
+  assert.throws(() => toRosterEntries(parseCsv("STT,Lớp\n1,10A1")), { name: "RosterFormatError" });
+});
+
+test("usernames are made from the given name and initials", () => {
+  assert.equal(usernameFromName("Nguyễn Văn Đức"), "ducnv");
+  assert.equal(usernameFromName("  Lê   Thị Hồng Nhung "), "nhunglth");
+  assert.equal(usernameFromName("!!!"), "");
+});
+
+test("a username used twice in the file fails on its later rows", () => {
+  const rows = plan(`Họ và tên,Tên đăng nhập
+Nguyễn Văn An,annv
+Nguyễn Văn An,ANNV
+Trần Văn Bình,annv`);
+
+  assert.deepEqual(rows.map((row) => [row.status, row.message]), [
+    ["ready", undefined],
+    ["error", "Trùng tên đăng nhập với dòng 2"],
+    ["error", "Trùng tên đăng nhập với dòng 2"],
+  ]);
+});
+
+test("existing accounts block their username and push generated ones to a suffix", () => {
+  const rows = plan(`Họ và tên,Tên đăng nhập
+Nguyễn Văn An,annv
+Nguyễn Văn An,
+Nguyễn Văn An,
+Phạm Văn Bình,`, ["annv", "annv2"]);
+
+  assert.deepEqual(rows.map((row) => [row.username, row.status, row.generatedUsername]), [
+    ["annv", "error", false],
+    ["annv3", "ready", true],
+    ["annv4", "ready", true],
+    ["binhpv", "ready", true],
+  ]);
+  assert.equal(rows[0].message, "Tên đăng nhập đã tồn tại");
+});
+
+test("a generated username skips the names written in the file", () => {
+  const rows = plan(`Họ và tên,Tên đăng nhập
+Nguyễn Văn An,
+Ngô Văn An,annv`);
+
+  assert.deepEqual(rows.map((row) => row.username), ["annv2", "annv"]);
+});
+
+test("rows without a name, with a short password or a bad username fail", () => {
+  const rows = plan(`Họ và tên,Tên đăng nhập,Mật khẩu
+,ghost,
+Lê Văn Cường,,123
+Đỗ Thị Dung,dung thi,
+Võ Văn Em,,bimat123`);
+
+  assert.deepEqual(rows.map((row) => row.status), ["error", "error", "error", "ready"]);
+  assert.equal(rows[0].message, "Thiếu họ tên");
+  assert.match(rows[1].message!, /ít nhất 6 ký tự/);
+  assert.match(rows[2].message!, /Tên đăng nhập chỉ gồm/);
+  assert.equal(rows[3].password, "bimat123");
+  assert.equal(rows[3].generatedPassword, false);
+});
+
+test("an XLSX roster is read like a CSV one", async () => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Lớp 10A1");
+  sheet.addRows([["Họ và tên", "Tên đăng nhập"], ["Nguyễn Văn An", "annv"]]);
+  const buffer = Buffer.from(await workbook.xlsx.writeBuffer());
+
+  assert.deepEqual(await readRosterSheet(buffer), [["Họ và tên", "Tên đăng nhập"], ["Nguyễn Văn An", "annv"]]);
+  await assert.rejects(readRosterSheet(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1])), { name: "RosterFormatError" });
+});
@@ -0,0 +1,361 @@
+import express, { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import ExcelJS from "exceljs";
+import { randomInt } from "crypto";
+import type { StudentImportResult, StudentImportRow } from "@shared/schema";
+import { supabase } from "./supabase";
+import { storage } from "./storage";
+import { MIN_PASSWORD_LENGTH } from "./auth";
+
+const MAX_IMPORT_ROWS = 500;
+// Rows searched for the header; rosters usually start with a title block
+const HEADER_SEARCH_ROWS = 10;
+const GENERATED_PASSWORD_LENGTH = 8;
+// No 0/o, 1/l/i, so printed passwords can be read back
+const PASSWORD_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const USERNAME_PATTERN = /^[a-z0-9._-]{3,50}$/;
+const SUPABASE_PAGE_SIZE = 1000;
+
+type RosterColumn = "fullName" | "lastName" | "firstName" | "username" | "password";
+
+// Header names, compared after toAscii() and removing spaces
+const COLUMN_ALIASES: Record<RosterColumn, string[]> = {
+  fullName: ["hovaten", "hoten", "hotenhocsinh", "tenhocsinh", "fullname", "name"],
+  lastName: ["ho", "hodem", "holot", "hovatendem", "lastname"],
+  firstName: ["ten", "firstname"],
+  username: ["tendangnhap", "taikhoan", "username"],
+  password: ["matkhau", "password"],
+};
+
+type RosterEntry = {
+  row: number;
+  fullName: string;
+  username: string;
+  password: string;
+};
+
+/**
+ * Takes the uploaded sheet as the raw request body, so no multipart parser
+ * is needed. The client sends the file with its own content type.
+ */
+export const rosterUpload = express.raw({ type: () => true, limit: "5mb" });
+
+export class RosterFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RosterFormatError";
+  }
+}
+
+// Vietnamese text to lowercase ASCII: "Nguyễn Văn Đức" -> "nguyen van duc"
+function toAscii(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase();
+}
+
+function normalizeHeader(value: string): string {
+  return toAscii(value).replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * Split CSV text into rows. Handles quoted fields, doubled quotes and the
+ * `;` or tab separators Excel uses in some locales.
+ */
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+async function parseXlsx(buffer: Buffer): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: string[][] = [];
+  for (let r = 1; r <= sheet.rowCount; r++) {
+    const row = sheet.getRow(r);
+    const cells: string[] = [];
+    for (let c = 1; c <= row.cellCount; c++) {
+      cells.push(row.getCell(c).text ?? "");
+    }
+    rows.push(cells);
+  }
+  return rows;
+}
+
+/**
+ * Read the uploaded sheet: XLSX files are recognised by their zip
+ * signature, anything else is read as UTF-8 CSV.
+ */
+export async function readRosterSheet(buffer: Buffer): Promise<string[][]> {
+  const isZip = buffer.length > 4 && buffer[0] === 0x50 && buffer[1] === 0x4b && buffer[2] === 0x03 && buffer[3] === 0x04;
+  // Legacy .xls files are OLE compound documents
+  const isXls = buffer.length > 4 && buffer[0] === 0xd0 && buffer[1] === 0xcf && buffer[2] === 0x11 && buffer[3] === 0xe0;
+
+  if (isXls) {
+    throw new RosterFormatError("Không hỗ trợ file .xls cũ, vui lòng lưu lại dưới dạng .xlsx hoặc .csv");
+  }
+  if (isZip) {
+    try {
+      return await parseXlsx(buffer);
+    } catch (error) {
+      console.error("[IMPORT_STUDENTS] Could not read XLSX:", error);
+      throw new RosterFormatError("Không đọc được file Excel");
+    }
+  }
+  return parseCsv(buffer.toString("utf8"));
+}
+
+/**
+ * Find the header row and map each roster column to its index.
+ */
+function findColumns(rows: string[][]): { headerIndex: number; columns: Partial<Record<RosterColumn, number>> } {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SEARCH_ROWS); r++) {
+    const columns: Partial<Record<RosterColumn, number>> = {};
+    rows[r].forEach((cell, index) => {
+      const header = normalizeHeader(cell);
+      for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [RosterColumn, string[]][]) {
+        if (columns[column] === undefined && aliases.includes(header)) {
+          columns[column] = index;
+        }
+      }
+    });
+
+    if (columns.fullName !== undefined || columns.firstName !== undefined) {
+      return { headerIndex: r, columns };
+    }
+  }
+  throw new RosterFormatError("Không tìm thấy cột \"Họ và tên\" (hoặc \"Họ\" và \"Tên\") trong file");
+}
+
+/**
+ * Turn the sheet into roster entries, skipping blank lines. Row numbers
+ * match what the admin sees in Excel.
+ */
+export function toRosterEntries(rows: string[][]): RosterEntry[] {
+  const { headerIndex, columns } = findColumns(rows);
+  const cell = (row: string[], column: RosterColumn) =>
+    columns[column] === undefined ? "" : (row[columns[column]!] ?? "").trim();
+
+  const entries: RosterEntry[] = [];
+  for (let r = headerIndex + 1; r < rows.length; r++) {
+    const row = rows[r];
+    if (row.every(value => !value.trim())) continue;
+
+    const fullName = cell(row, "fullName") ||
+      [cell(row, "lastName"), cell(row, "firstName")].filter(Boolean).join(" ");
+    entries.push({
+      row: r + 1,
+      fullName: fullName.replace(/\s+/g, " "),
+      username: cell(row, "username").toLowerCase(),
+      password: cell(row, "password"),
+    });
+  }
+  return entries;
+}
+
+/**
+ * School-style username from a Vietnamese name: given name followed by the
+ * initials of the family and middle names, "Nguyễn Văn An" -> "annv".
+ */
+export function usernameFromName(fullName: string): string {
+  const words = toAscii(fullName).replace(/[^a-z0-9 ]/g, " ").split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "";
+  const given = words[words.length - 1];
+  const initials = words.slice(0, -1).map(word => word[0]).join("");
+  return given + initials;
+}
+
+function generatePassword(): string {
+  let password = "";
+  for (let i = 0; i < GENERATED_PASSWORD_LENGTH; i++) {
+    password += PASSWORD_ALPHABET[randomInt(PASSWORD_ALPHABET.length)];
+  }
+  return password;
+}
+
+// Every username in use; Supabase returns at most SUPABASE_PAGE_SIZE rows per request
+async function loadUsernames(): Promise<Set<string>> {
+  const usernames = new Set<string>();
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('accounts')
+      .select('username')
+      .order('username')
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    data.forEach(account => usernames.add(account.username.toLowerCase()));
+    if (data.length < SUPABASE_PAGE_SIZE) return usernames;
+  }
+}
+
+/**
+ * Validate the entries and pick a username for each. Explicit usernames
+ * must be free; generated ones get a number suffix until they are.
+ */
+export function planImport(entries: RosterEntry[], taken: Set<string>): StudentImportRow[] {
+  const seenInFile = new Map<string, number>();
+  entries.forEach(entry => {
+    if (entry.username && !seenInFile.has(entry.username)) seenInFile.set(entry.username, entry.row);
+  });
+
+  return entries.map(entry => {
+    const base = {
+      row: entry.row,
+      fullName: entry.fullName,
+      username: entry.username,
+      generatedUsername: !entry.username,
+      generatedPassword: !entry.password,
+    };
+    const fail = (message: string): StudentImportRow => ({ ...base, status: 'error', message });
+
+    if (!entry.fullName) {
+      return fail("Thiếu họ tên");
+    }
+    if (entry.password && entry.password.length < MIN_PASSWORD_LENGTH) {
+      return fail(`Mật khẩu phải có ít nhất ${MIN_PASSWORD_LENGTH} ký tự`);
+    }
+
+    if (entry.username) {
+      if (!USERNAME_PATTERN.test(entry.username)) {
+        return fail("Tên đăng nhập chỉ gồm chữ không dấu, số, dấu chấm, gạch ngang, gạch dưới (3-50 ký tự)");
+      }
+      const firstRow = seenInFile.get(entry.username)!;
+      if (firstRow !== entry.row) {
+        return fail(`Trùng tên đăng nhập với dòng ${firstRow}`);
+      }
+      if (taken.has(entry.username)) {
+        return fail("Tên đăng nhập đã tồn tại");
+      }
+      taken.add(entry.username);
+      return { ...base, status: 'ready', password: entry.password || undefined };
+    }
+
+    const stem = usernameFromName(entry.fullName).slice(0, 45) || "hocsinh";
+    let username = stem;
+    for (let suffix = 2; taken.has(username) || seenInFile.has(username); suffix++) {
+      username = `${stem}${suffix}`;
+    }
+    taken.add(username);
+    return { ...base, username, status: 'ready', password: entry.password || undefined };
+  });
+}
+
+/**
+ * POST /api/admin/students/import?dryRun=1&classId= — create student accounts
+ * from a CSV or XLSX roster, adding them to the class when one is given.
+ * With dryRun the rows are only validated. Created rows
+ * carry the password so the admin can download the credentials sheet; it
+ * is not stored anywhere in plain text.
+ */
+export async function importStudents(req: Request, res: Response) {
+  try {
+    const dryRun = req.query.dryRun === "1" || req.query.dryRun === "true";
+    const classId = typeof req.query.classId === "string" && req.query.classId ? req.query.classId : undefined;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: "Vui lòng chọn file danh sách học sinh" });
+    }
+    if (classId && !(await storage.getClass(classId))) {
+      return res.status(400).json({ message: "Không tìm thấy lớp" });
+    }
+
+    const entries = toRosterEntries(await readRosterSheet(req.body));
+    if (entries.length === 0) {
+      return res.status(400).json({ message: "File không có học sinh nào" });
+    }
+    if (entries.length > MAX_IMPORT_ROWS) {
+      return res.status(400).json({ message: `Mỗi lần chỉ nhập tối đa ${MAX_IMPORT_ROWS} học sinh` });
+    }
+
+    const planned = planImport(entries, await loadUsernames());
+    const ready = planned.filter(row => row.status === 'ready');
+
+    if (!dryRun && ready.length > 0) {
+      ready.forEach(row => {
+        row.password = row.password || generatePassword();
+      });
+      const accounts = await Promise.all(ready.map(async row => ({
+        username: row.username,
+        password_hash: await bcrypt.hash(row.password!, 10),
+        role: 'student',
+        full_name: row.fullName,
+        created_by: req.session.userId,
+        is_active: true,
+      })));
+
+      const { data: created, error } = await supabase.from('accounts').insert(accounts).select('id');
+      if (error) {
+        console.error("[IMPORT_STUDENTS] Insert error:", error);
+        return res.status(500).json({ message: "Lỗi tạo tài khoản" });
+      }
+      if (classId) {
+        await storage.addClassMembers(classId, created.map(account => account.id), 'student');
+      }
+      ready.forEach(row => {
+        row.status = 'created';
+      });
+      console.log(`[IMPORT_STUDENTS] Created ${ready.length} accounts`);
+    }
+
+    const result: StudentImportResult = {
+      dryRun,
+      total: planned.length,
+      created: dryRun ? 0 : ready.length,
+      failed: planned.length - ready.length,
+      rows: planned.map(row => dryRun ? { ...row, password: undefined } : row),
+    };
+    res.json(result);
+  } catch (error) {
+    if (error instanceof RosterFormatError) {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error("[IMPORT_STUDENTS] Error:", error);
+    res.status(500).json({ message: "Lỗi nhập danh sách học sinh" });
+  }
+}
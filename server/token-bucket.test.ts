@@ -0,0 +1,72 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { takeFromBucket, type TokenBucketLimit, type TokenBucketState } from "./token-bucket";
+
+// One token every 30 seconds
+const limit: TokenBucketLimit = { capacity: 3, refillPerMinute: 2 };
+
+// Take `count` tokens at the same instant, returning the last result
+function drain(state: TokenBucketState | undefined, now: number, count: number) {
+  let taken = takeFromBucket(state, limit, now);
+  for (let i = 1; i < count; i++) taken = takeFromBucket(taken.state, limit, now);
+  return taken;
+}
+
+test("a new bucket allows a burst of its capacity, then refuses", () => {
+  const results = [];
+  let state: TokenBucketState | undefined;
+  for (let i = 0; i < 4; i++) {
+    const taken = takeFromBucket(state, limit, 1_000);
+    state = taken.state;
+    results.push(taken.result);
+  }
+
+  assert.deepEqual(results.map((result) => [result.allowed, result.remaining]), [
+    [true, 2],
+    [true, 1],
+    [true, 0],
+    [false, 0],
+  ]);
+  assert.equal(results[3].retryAfterMs, 30_000);
+});
+
+test("tokens come back with the time elapsed", () => {
+  const empty = drain(undefined, 0, 3).state;
+
+  const early = takeFromBucket(empty, limit, 20_000);
+  assert.equal(early.result.allowed, false);
+  assert.equal(early.result.retryAfterMs, 10_000);
+
+  const refilled = takeFromBucket(early.state, limit, 30_000);
+  assert.equal(refilled.result.allowed, true);
+  assert.equal(refilled.result.remaining, 0);
+  assert.deepEqual(refilled.state, { tokens: 0, updatedAt: 30_000 });
+});
+
+test("an idle bucket refills to its capacity and no further", () => {
+  const empty = drain(undefined, 0, 3).state;
+  const later = drain(empty, 10 * 60_000, 3);
+
+  assert.equal(later.result.allowed, true);
+  assert.equal(takeFromBucket(later.state, limit, 10 * 60_000).result.allowed, false);
+});
+
+test("a costly request waits for all the tokens it needs", () => {
+  const { state, result } = takeFromBucket(undefined, limit, 0, 5);
+
+  assert.equal(result.allowed, false);
+  assert.equal(result.remaining, 3);
+  assert.equal(result.retryAfterMs, 60_000);
+  assert.equal(state.tokens, 3);
+});
+
+test("a clock that moves backwards refills nothing", () => {
+  const empty = drain(undefined, 60_000, 3).state;
+  assert.equal(takeFromBucket(empty, limit, 0).result.allowed, false);
+});
+
+test("a bucket that never refills never says when to retry", () => {
+  const frozen = { capacity: 1, refillPerMinute: 0 };
+  const { state } = takeFromBucket(undefined, frozen, 0);
+  assert.equal(takeFromBucket(state, frozen, 60_000).result.retryAfterMs, Infinity);
+});
@@ -0,0 +1,50 @@
+// A bucket holding up to `capacity` tokens, refilled continuously
+export type TokenBucketLimit = {
+  capacity: number;
+  refillPerMinute: number;
+};
+
+export type TokenBucketState = {
+  tokens: number;
+  updatedAt: number; // epoch ms of the last refill
+};
+
+export type TokenBucketResult = {
+  allowed: boolean;
+  remaining: number;
+  // How long until enough tokens are back; 0 when allowed
+  retryAfterMs: number;
+};
+
+/**
+ * Refill the bucket for the time elapsed since its last update and take
+ * `cost` tokens if there are enough. A missing state is a full bucket.
+ */
+export function takeFromBucket(
+  state: TokenBucketState | undefined,
+  limit: TokenBucketLimit,
+  now: number,
+  cost = 1,
+): { state: TokenBucketState; result: TokenBucketResult } {
+  const perMs = limit.refillPerMinute / 60_000;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state
+    ? Math.min(limit.capacity, state.tokens + elapsed * perMs)
+    : limit.capacity;
+
+  if (tokens >= cost) {
+    return {
+      state: { tokens: tokens - cost, updatedAt: now },
+      result: { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 },
+    };
+  }
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: {
+      allowed: false,
+      remaining: Math.floor(tokens),
+      retryAfterMs: perMs > 0 ? Math.ceil((cost - tokens) / perMs) : Infinity,
+    },
+  };
+}
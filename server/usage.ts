@@ -0,0 +1,258 @@
+import { Request, Response } from "express";
+import { managedRoles, type UsageSummary } from "@shared/schema";
+import { supabase } from "./supabase";
+import { storage, type OwnerId } from "./storage";
+import type { LLMCompletion } from "./llm";
+
+const REPORT_DAYS = 30;
+const RECORDS_PAGE_SIZE = 50;
+const RECORDS_MAX_PAGE_SIZE = 200;
+
+// Settings of the account a generation runs for
+export type GenerationAccount = {
+  apiKey?: string;
+  // null when the account has no limit
+  dailyRequestLimit: number | null;
+  dailyTokenLimit: number | null;
+};
+
+export class QuotaExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Server-wide daily limits (DAILY_REQUEST_LIMIT, DAILY_TOKEN_LIMIT) for
+ * accounts without their own; unset or 0 means unlimited.
+ */
+export function getDefaultLimits(): Pick<GenerationAccount, "dailyRequestLimit" | "dailyTokenLimit"> {
+  return {
+    dailyRequestLimit: toLimit(Number(process.env.DAILY_REQUEST_LIMIT)),
+    dailyTokenLimit: toLimit(Number(process.env.DAILY_TOKEN_LIMIT)),
+  };
+}
+
+// An account column overrides the default; 0 lifts the limit
+function toLimit(value: number | null | undefined, fallback: number | null = null): number | null {
+  if (value === null || value === undefined || isNaN(value)) return fallback;
+  return value > 0 ? value : null;
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+function emptySummary(userId: string | null): UsageSummary {
+  return { userId, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+/**
+ * Load the API key and daily limits of the session's account. Anonymous
+ * sessions and admins are not limited; if the account cannot be read the
+ * global key and default limits apply.
+ */
+export async function getGenerationAccount(userId: OwnerId): Promise<GenerationAccount> {
+  const defaults = getDefaultLimits();
+  if (!userId) {
+    return { dailyRequestLimit: null, dailyTokenLimit: null };
+  }
+
+  try {
+    const { data: account, error } = await supabase
+      .from('accounts')
+      .select('api_key, role, daily_request_limit, daily_token_limit')
+      .eq('id', userId)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!account) return defaults;
+
+    return {
+      apiKey: account.api_key || undefined,
+      dailyRequestLimit: account.role === 'admin' ? null : toLimit(account.daily_request_limit, defaults.dailyRequestLimit),
+      dailyTokenLimit: account.role === 'admin' ? null : toLimit(account.daily_token_limit, defaults.dailyTokenLimit),
+    };
+  } catch (error) {
+    console.error("[USAGE] Could not load account settings:", error);
+    return defaults;
+  }
+}
+
+/**
+ * Throw QuotaExceededError once the account used up today's requests or tokens.
+ */
+export async function assertWithinDailyQuota(userId: OwnerId, account: GenerationAccount): Promise<void> {
+  if (!userId || (account.dailyRequestLimit === null && account.dailyTokenLimit === null)) {
+    return;
+  }
+
+  const [today = emptySummary(userId)] = await storage.summarizeUsage({ userId, from: startOfToday() });
+
+  if (account.dailyRequestLimit !== null && today.requests >= account.dailyRequestLimit) {
+    throw new QuotaExceededError(
+      `Bạn đã dùng hết ${account.dailyRequestLimit} lượt tạo câu hỏi của hôm nay. Vui lòng thử lại vào ngày mai hoặc liên hệ giáo viên để tăng hạn mức.`,
+    );
+  }
+  if (account.dailyTokenLimit !== null && today.promptTokens + today.completionTokens >= account.dailyTokenLimit) {
+    throw new QuotaExceededError(
+      `Bạn đã dùng hết ${account.dailyTokenLimit.toLocaleString("vi-VN")} token của hôm nay. Vui lòng thử lại vào ngày mai hoặc liên hệ giáo viên để tăng hạn mức.`,
+    );
+  }
+}
+
+/**
+ * Adds up the tokens and cost of every model call made for one generation
+ * request (first answer plus repairs) and records them as a single entry.
+ */
+export class UsageMeter {
+  private model = "";
+  private calls = 0;
+  private promptTokens = 0;
+  private completionTokens = 0;
+  private cost = 0;
+
+  constructor(
+    private userId: OwnerId,
+    private requestId: string,
+  ) {}
+
+  track(completion: LLMCompletion): LLMCompletion {
+    this.calls++;
+    this.model = completion.model;
+    this.promptTokens += completion.usage?.promptTokens ?? 0;
+    this.completionTokens += completion.usage?.completionTokens ?? 0;
+    this.cost += completion.usage?.cost ?? 0;
+    return completion;
+  }
+
+  async save(): Promise<void> {
+    if (this.calls === 0) return;
+    try {
+      await storage.recordUsage({
+        userId: this.userId,
+        requestId: this.requestId,
+        model: this.model,
+        promptTokens: this.promptTokens,
+        completionTokens: this.completionTokens,
+        cost: this.cost,
+      });
+    } catch (error) {
+      console.error("[USAGE] Could not record usage:", error);
+    }
+  }
+}
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Date range from ?from=&to= (to is inclusive of that day); defaults to the
+ * last REPORT_DAYS days.
+ */
+function parseRange(req: Request): { from: Date; to: Date } {
+  const to = parseDate(req.query.to) ?? startOfToday();
+  to.setHours(0, 0, 0, 0);
+  to.setDate(to.getDate() + 1);
+
+  const from = parseDate(req.query.from) ?? new Date(to.getTime() - REPORT_DAYS * 24 * 60 * 60 * 1000);
+  from.setHours(0, 0, 0, 0);
+  return { from, to };
+}
+
+/**
+ * GET /api/admin/usage?from=&to= — usage of every teacher and student over the range,
+ * plus today's usage against their daily limits.
+ */
+export async function getUsageReport(req: Request, res: Response) {
+  try {
+    const { from, to } = parseRange(req);
+
+    const { data: students, error } = await supabase
+      .from('accounts')
+      .select('id, username, full_name, role, is_active, daily_request_limit, daily_token_limit')
+      .in('role', managedRoles)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error("[USAGE] Error:", error);
+      return res.status(500).json({ message: "Lỗi lấy danh sách học sinh" });
+    }
+
+    const period = await storage.summarizeUsage({ from, to });
+    const today = await storage.summarizeUsage({ from: startOfToday() });
+    const defaults = getDefaultLimits();
+    const byUser = (summaries: UsageSummary[], userId: string) =>
+      summaries.find(summary => summary.userId === userId) ?? emptySummary(userId);
+
+    const rows = students.map(student => ({
+      id: student.id,
+      username: student.username,
+      fullName: student.full_name,
+      role: student.role,
+      isActive: student.is_active,
+      dailyRequestLimit: student.daily_request_limit,
+      dailyTokenLimit: student.daily_token_limit,
+      effectiveLimits: {
+        dailyRequestLimit: toLimit(student.daily_request_limit, defaults.dailyRequestLimit),
+        dailyTokenLimit: toLimit(student.daily_token_limit, defaults.dailyTokenLimit),
+      },
+      usage: byUser(period, student.id),
+      today: byUser(today, student.id),
+    }));
+
+    const totals = period.reduce(
+      (total, summary) => ({
+        ...total,
+        requests: total.requests + summary.requests,
+        promptTokens: total.promptTokens + summary.promptTokens,
+        completionTokens: total.completionTokens + summary.completionTokens,
+        cost: total.cost + summary.cost,
+      }),
+      emptySummary(null),
+    );
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      defaults,
+      totals,
+      students: rows,
+    });
+  } catch (error) {
+    console.error("[USAGE] Error:", error);
+    res.status(500).json({ message: "Lỗi lấy báo cáo sử dụng" });
+  }
+}
+
+/**
+ * GET /api/admin/students/:id/usage?from=&to=&limit=&offset= — one student's
+ * requests with their tokens and cost, newest first.
+ */
+export async function getStudentUsage(req: Request, res: Response) {
+  try {
+    const { from, to } = parseRange(req);
+    const limit = Math.min(Math.max(Number(req.query.limit) || RECORDS_PAGE_SIZE, 1), RECORDS_MAX_PAGE_SIZE);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+
+    const records = await storage.listUsageRecords({ userId: req.params.id, from, to, limit, offset });
+    const [summary = emptySummary(req.params.id)] = await storage.summarizeUsage({ userId: req.params.id, from, to });
+
+    res.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      summary,
+      records,
+    });
+  } catch (error) {
+    console.error("[USAGE] Error:", error);
+    res.status(500).json({ message: "Lỗi lấy báo cáo sử dụng" });
+  }
+}
@@ -0,0 +1,83 @@
+import type { BankSearchFilters, QuestionBank, QuestionBankEntry } from "./schema";
+
+/**
+ * Calculate bank metadata from entries
+ */
+export function calculateBankMetadata(entries: QuestionBankEntry[]): QuestionBank["metadata"] {
+  const difficultyDistribution: Record<string, number> = {};
+  const questionTypeDistribution: Record<string, number> = {};
+
+  entries.forEach(entry => {
+    difficultyDistribution[entry.difficulty] = (difficultyDistribution[entry.difficulty] || 0) + 1;
+
+    entry.questionTypes.forEach(type => {
+      questionTypeDistribution[type] = (questionTypeDistribution[type] || 0) + 1;
+    });
+  });
+
+  return {
+    totalQuestions: entries.reduce((sum, entry) => sum + entry.questionCount, 0),
+    totalSets: entries.length,
+    difficultyDistribution,
+    questionTypeDistribution,
+  };
+}
+
+/**
+ * Filter banks by free text (bank name, description, tags, entry names and
+ * topics) and the optional search filters. Shared by the client cache and
+ * the server so both return the same results.
+ */
+export function filterBanks(banks: QuestionBank[], query: string, filters?: BankSearchFilters): QuestionBank[] {
+  let result = banks;
+
+  if (query.trim()) {
+    const searchTerm = query.toLowerCase().trim();
+    result = result.filter(bank =>
+      bank.name.toLowerCase().includes(searchTerm) ||
+      bank.description?.toLowerCase().includes(searchTerm) ||
+      bank.tags.some(tag => tag.toLowerCase().includes(searchTerm)) ||
+      bank.entries.some(entry =>
+        entry.name.toLowerCase().includes(searchTerm) ||
+        entry.topic.toLowerCase().includes(searchTerm)
+      )
+    );
+  }
+
+  if (!filters) {
+    return result;
+  }
+
+  if (filters.subject) {
+    result = result.filter(bank => bank.subject === filters.subject);
+  }
+
+  if (filters.tags?.length) {
+    result = result.filter(bank =>
+      filters.tags!.some(tag => bank.tags.includes(tag))
+    );
+  }
+
+  if (filters.difficulty) {
+    result = result.filter(bank =>
+      bank.entries.some(entry => entry.difficulty === filters.difficulty)
+    );
+  }
+
+  if (filters.questionType) {
+    result = result.filter(bank =>
+      bank.entries.some(entry => entry.questionTypes.includes(filters.questionType!))
+    );
+  }
+
+  if (filters.dateRange) {
+    const startDate = new Date(filters.dateRange.start);
+    const endDate = new Date(filters.dateRange.end);
+    result = result.filter(bank => {
+      const bankDate = new Date(bank.createdAt);
+      return bankDate >= startDate && bankDate <= endDate;
+    });
+  }
+
+  return result;
+}
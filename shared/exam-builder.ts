@@ -0,0 +1,146 @@
+import type {
+  AssembledExam,
+  BlueprintRow,
+  BlueprintShortfall,
+  ExamBlueprint,
+  GeneratedQuestion,
+  QuestionBank,
+} from "./schema";
+
+/**
+ * Cognitive levels of the Vietnamese exam matrix, keyed by the difficulty
+ * values question sets are generated with.
+ */
+export const DIFFICULTY_LEVELS: Record<string, string> = {
+  easy: "Nhận biết",
+  medium: "Thông hiểu",
+  hard: "Vận dụng",
+  expert: "Vận dụng cao",
+};
+
+// Difficulty of an exam drawn from more than one level
+export const MIXED_DIFFICULTY = "mixed";
+
+type PoolQuestion = {
+  question: GeneratedQuestion;
+  bankId: string;
+  entryId: string;
+  difficulty: string;
+  topic: string;
+  tags: string[];
+};
+
+function normalize(text: string): string {
+  return text.normalize("NFC").toLocaleLowerCase("vi").trim();
+}
+
+// Every question of the selected banks with the set it came from
+function buildPool(banks: QuestionBank[], blueprint: ExamBlueprint): PoolQuestion[] {
+  return banks
+    .filter(bank => blueprint.bankIds.includes(bank.id))
+    .flatMap(bank => bank.entries
+      .filter(entry => entry.subject === blueprint.subject)
+      .flatMap(entry => entry.generatedQuestions.map(question => ({
+        question,
+        bankId: bank.id,
+        entryId: entry.id,
+        difficulty: entry.difficulty,
+        topic: `${entry.topic}\n${entry.name}`,
+        tags: [...entry.tags, ...bank.tags].map(normalize),
+      }))));
+}
+
+function matchesRow(item: PoolQuestion, row: BlueprintRow): boolean {
+  if (row.questionType && item.question.type !== row.questionType) return false;
+  if (row.difficulty && item.difficulty !== row.difficulty) return false;
+  if (row.topic?.trim() && !normalize(item.topic).includes(normalize(row.topic))) return false;
+  if (row.tag?.trim() && !item.tags.includes(normalize(row.tag))) return false;
+  return true;
+}
+
+function constraintCount(row: BlueprintRow): number {
+  return [row.questionType, row.difficulty, row.topic?.trim(), row.tag?.trim()].filter(Boolean).length;
+}
+
+/**
+ * Small seeded generator (mulberry32) so a draw or shuffle can be reproduced.
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/**
+ * Number of questions in the selected banks matching one blueprint row on
+ * its own, before other rows take their share.
+ */
+export function countAvailable(banks: QuestionBank[], blueprint: ExamBlueprint, row: BlueprintRow): number {
+  return buildPool(banks, blueprint).filter(item => matchesRow(item, row)).length;
+}
+
+/**
+ * Draw the questions a blueprint asks for from the selected banks. The most
+ * specific rows pick first so broad rows ("any 10 questions") do not use up
+ * questions a narrow row needs, and no question is drawn twice. Questions
+ * come out in blueprint row order, renumbered from 1; rows that could not be
+ * filled are reported as shortfalls.
+ */
+export function assembleExam(banks: QuestionBank[], blueprint: ExamBlueprint, seed = Date.now()): AssembledExam {
+  const random = createRandom(seed);
+  const pool = shuffle(buildPool(banks, blueprint), random);
+  const used = new Set<PoolQuestion>();
+  const drawnByRow = new Map<string, PoolQuestion[]>();
+
+  const byConstraints = blueprint.rows
+    .map((row, index) => ({ row, index }))
+    .sort((a, b) => constraintCount(b.row) - constraintCount(a.row) || a.index - b.index);
+
+  for (const { row } of byConstraints) {
+    const drawn = pool.filter(item => !used.has(item) && matchesRow(item, row)).slice(0, row.count);
+    drawn.forEach(item => used.add(item));
+    drawnByRow.set(row.id, drawn);
+  }
+
+  const shortfalls: BlueprintShortfall[] = blueprint.rows
+    .filter(row => drawnByRow.get(row.id)!.length < row.count)
+    .map(row => ({ rowId: row.id, requested: row.count, drawn: drawnByRow.get(row.id)!.length }));
+
+  const drawn = blueprint.rows.flatMap(row => drawnByRow.get(row.id)!);
+  const generatedQuestions = drawn.map((item, index) => ({ ...item.question, id: String(index + 1) }));
+  const difficulties = Array.from(new Set(drawn.map(item => item.difficulty)));
+  const questionTypes = Array.from(new Set(generatedQuestions.map(question => question.type)));
+
+  return {
+    exam: {
+      id: `exam_${seed.toString(36)}`,
+      subject: blueprint.subject,
+      difficulty: difficulties.length === 1 ? difficulties[0] : MIXED_DIFFICULTY,
+      topic: blueprint.title.trim(),
+      requirements: null,
+      questionTypes,
+      questionCount: generatedQuestions.length,
+      generatedQuestions,
+      userId: null,
+      customName: blueprint.title.trim(),
+      savedAt: null,
+      createdAt: new Date(),
+    },
+    shortfalls,
+    sources: drawn.map((item, index) => ({ questionId: String(index + 1), bankId: item.bankId, entryId: item.entryId })),
+  };
+}
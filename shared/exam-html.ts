@@ -0,0 +1,364 @@
+import type { GeneratedQuestion, QuestionRequest } from "./schema";
+import { answerKeyCell, createExamVersions, type ExamVersion, type ExamVersionOptions } from "./exam-versions";
+
+/**
+ * The printable exam as one HTML string, shared by the browser preview and
+ * the server's PDF renderer so both print the same page. Math is left in
+ * its $...$ delimiters for KaTeX to render afterwards.
+ */
+export type ExamHtmlOptions = {
+  includeAnswers?: boolean;
+  includeExplanations?: boolean;
+  versions?: ExamVersionOptions; // print shuffled versions (mã đề) instead of the exam as is
+};
+
+const FONT_FAMILY = "'Inter', -apple-system, BlinkMacSystemFont, sans-serif";
+
+const SUBJECT_TITLES: Record<string, string> = {
+  toan: 'TOÁN HỌC',
+  ly: 'VẬT LÝ',
+  hoa: 'HÓA HỌC',
+  sinh: 'SINH HỌC',
+  van: 'NGỮ VĂN',
+  anh: 'TIẾNG ANH',
+  tin: 'TIN HỌC',
+};
+
+const SUBJECT_FILE_NAMES: Record<string, string> = {
+  toan: 'Toan',
+  ly: 'VatLy',
+  hoa: 'HoaHoc',
+  sinh: 'SinhHoc',
+  van: 'NguVan',
+  anh: 'TiengAnh',
+  tin: 'TinHoc',
+};
+
+const DIFFICULTY_TITLES: Record<string, string> = {
+  easy: 'DỄ',
+  medium: 'TRUNG BÌNH',
+  hard: 'KHÓ',
+  expert: 'CHUYÊN GIA',
+  mixed: 'NHIỀU MỨC ĐỘ',
+};
+
+const SECTION_STYLE = 'page-break-before: always; border-top: 2px solid #000; padding-top: 20px; margin-top: 40px;';
+const SECTION_TITLE_STYLE = 'font-size: 18px; font-weight: 600; margin-bottom: 20px; text-align: center;';
+const TABLE_CELL_STYLE = 'border: 1px solid #333; padding: 8px;';
+const TABLE_HEADER_STYLE = `${TABLE_CELL_STYLE} background-color: #f5f5f5; text-align: center; font-weight: bold;`;
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function lineBreaks(text: string): string {
+  return text.replace(/\n/g, '<br>');
+}
+
+function isCloze(question: GeneratedQuestion): boolean {
+  return (question.type === 'multiple_choice_reading1' || question.type === 'multiple_choice') && !!question.clozeBlanks;
+}
+
+/**
+ * File name of the exported PDF, e.g. "Toan_HamSo_2026_4MaDe.pdf".
+ */
+export function examPdfFilename(exam: QuestionRequest, versionCount = 1): string {
+  const subject = SUBJECT_FILE_NAMES[exam.subject] || exam.subject;
+  const topic = exam.topic.replace(/[^a-zA-Z0-9À-ỹ]/g, '').substring(0, 20);
+  const versions = versionCount > 1 ? `_${versionCount}MaDe` : '';
+  return `${subject}_${topic}_${new Date().getFullYear()}${versions}.pdf`;
+}
+
+function headerHtml(exam: QuestionRequest, examCode?: string): string {
+  return `<div style="text-align: center; margin-bottom: 30px; border-bottom: 2px solid #000; padding-bottom: 20px;">
+      <h1 style="font-size: 24px; font-weight: 700; margin: 0 0 10px 0;">
+        BÀI KIỂM TRA ${SUBJECT_TITLES[exam.subject] || exam.subject.toUpperCase()}
+      </h1>
+      <div style="font-size: 16px; font-weight: 500; margin-bottom: 5px;">
+        Chủ đề: ${exam.topic}
+      </div>
+      ${examCode ? `<div style="font-size: 16px; font-weight: 700; margin-bottom: 5px;">Mã đề: ${examCode}</div>` : ''}
+      <div style="font-size: 14px; color: #666;">
+        Độ khó: ${DIFFICULTY_TITLES[exam.difficulty] || exam.difficulty} •
+        Số câu: ${exam.generatedQuestions?.length || 0} •
+        Ngày tạo: ${new Date().toLocaleDateString('vi-VN')}
+      </div>
+    </div>`;
+}
+
+function clozeHtml(question: GeneratedQuestion): string {
+  // Numbered blanks print as a line to fill in
+  let passage = question.passage!;
+  question.clozeBlanks!.forEach((blank) => {
+    passage = passage.replace(`(${blank.number})`, '______');
+  });
+
+  const blanks = question.clozeBlanks!.map((blank) => `<div style="margin-bottom: 12px; font-size: 14px;">
+        <div style="font-weight: 600; margin-bottom: 5px;">Question ${blank.number}.</div>
+        <div style="margin-left: 15px; display: grid; grid-template-columns: 1fr 1fr; gap: 8px;">
+          ${blank.options.map((option) => `<div style="font-size: 14px;">${option}</div>`).join('')}
+        </div>
+      </div>`).join('');
+
+  return `<div style="margin-left: 20px; margin-top: 10px; margin-bottom: 20px; font-size: 14px; line-height: 1.5; background: #f9f9f9; padding: 15px; border-radius: 5px; border-left: 4px solid #007bff;">${lineBreaks(passage)}</div>
+    <div style="margin-left: 20px; margin-top: 15px;">${blanks}</div>`;
+}
+
+function readingHtml(question: GeneratedQuestion): string {
+  const readingQuestions = question.readingQuestions!.map((readingQ) => `<div style="margin-bottom: 18px; font-size: 14px;">
+        <div style="font-weight: 600; margin-bottom: 8px; color: #1a1a1a;">Question ${readingQ.number}. ${readingQ.question}</div>
+        <div style="margin-left: 15px;">
+          ${readingQ.options.map((option) => `<div style="margin-bottom: 4px; font-size: 14px;">${option}</div>`).join('')}
+        </div>
+      </div>`).join('');
+
+  return `<div style="margin-left: 20px; margin-top: 10px; margin-bottom: 20px; font-size: 14px; line-height: 1.6; background: #f9f9f9; padding: 15px; border-radius: 5px; border-left: 4px solid #28a745;">${lineBreaks(question.passage!)}</div>
+    <div style="margin-left: 20px; margin-top: 20px;">${readingQuestions}</div>`;
+}
+
+function trueFalseHtml(question: GeneratedQuestion): string {
+  if (!question.statements || !question.statementAnswers) {
+    // Legacy simple true/false format
+    return `<div style="margin-left: 20px; margin-top: 10px; display: flex; gap: 20px;">
+        <span style="font-size: 14px;">A. Đúng</span>
+        <span style="font-size: 14px;">B. Sai</span>
+      </div>`;
+  }
+
+  // The Đúng/Sai cells stay empty for students to fill in
+  const rows = question.statements.map((statement) => `<tr>
+          <td style="${TABLE_CELL_STYLE} text-align: left;">${statement}</td>
+          <td style="${TABLE_CELL_STYLE} text-align: center;"></td>
+          <td style="${TABLE_CELL_STYLE} text-align: center;"></td>
+        </tr>`).join('');
+
+  return `<div style="margin-top: 15px; margin-left: 20px;">
+      <table style="width: 100%; border-collapse: collapse; border: 1px solid #333; font-size: 14px;">
+        <thead><tr>
+          <th style="${TABLE_HEADER_STYLE} width: 70%;">Mệnh đề</th>
+          <th style="${TABLE_HEADER_STYLE} width: 15%;">Đúng</th>
+          <th style="${TABLE_HEADER_STYLE} width: 15%;">Sai</th>
+        </tr></thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>`;
+}
+
+function matchingHtml(question: GeneratedQuestion): string {
+  const left = question.leftItems!.map((item, idx) => `${idx + 1}. ${item}`).join('<br>');
+  const right = question.rightItems!.map((item, idx) => `${letter(idx)}. ${item}`).join('<br>');
+  const placeholders = Array.from({ length: question.leftItems!.length }, (_, i) => `${i + 1}-__`).join(', ');
+
+  return `<div style="margin-top: 10px; margin-left: 20px; display: grid; grid-template-columns: 1fr 1fr; gap: 20px; font-size: 14px;">
+      <div><strong>Cột A:</strong><br>${left}</div>
+      <div><strong>Cột B:</strong><br>${right}</div>
+    </div>
+    <div style="margin-top: 15px; margin-left: 20px; font-size: 14px; border: 1px solid #ddd; border-radius: 4px; padding: 10px; background: #fafafa;">Đáp án: ${placeholders}</div>`;
+}
+
+function orderingHtml(question: GeneratedQuestion): string {
+  const items = `<div style="margin-top: 10px; margin-left: 20px; font-size: 14px;">
+      <div style="margin-bottom: 10px;"><strong>Sắp xếp các mục sau theo thứ tự đúng:</strong></div>
+      ${question.items!.join('<br>')}
+    </div>`;
+  if (!question.options?.length) return items;
+
+  return `${items}
+    <div style="margin-top: 15px; margin-left: 20px; font-size: 14px;">
+      ${question.options.map((option) => `<div style="margin-bottom: 5px;">${option}</div>`).join('')}
+    </div>`;
+}
+
+function questionHtml(question: GeneratedQuestion): string {
+  // Literature passages and essay prompts keep their own line layout
+  const isLiterature = question.type === 'essay_reading' || question.type === 'essay_writing';
+  const titleStyle = `font-weight: 600; font-size: 16px; margin-bottom: 8px; color: #1a1a1a;${isLiterature ? ' line-height: 1.6; text-align: justify; white-space: pre-line;' : ''}`;
+  const formattedQuestion = question.question.replace(/\\n/g, '<br>').replace(/\n/g, '<br>');
+  const parts = [`<div style="${titleStyle}">Câu ${question.id}: ${formattedQuestion}</div>`];
+
+  if ((question.type === 'multiple_choice_reading1' || question.type === 'multiple_choice') && question.passage && question.clozeBlanks) {
+    parts.push(clozeHtml(question));
+  }
+  if ((question.type === 'multiple_choice' || question.type === 'multiple_choice_reading2') && question.passage && question.readingQuestions) {
+    parts.push(readingHtml(question));
+  }
+  if (question.type === 'multiple_choice' && question.options) {
+    const options = question.options
+      .map((option, optionIndex) => `<div style="margin-bottom: 5px; font-size: 14px;">${letter(optionIndex)}. ${option}</div>`)
+      .join('');
+    parts.push(`<div style="margin-left: 20px; margin-top: 10px;">${options}</div>`);
+  }
+  if (question.type === 'true_false') {
+    parts.push(trueFalseHtml(question));
+  }
+  if (question.type === 'essay_writing') {
+    parts.push(`<div style="margin-top: 20px; border: 1px solid #ddd; border-radius: 4px; height: 120px; background: #fafafa; padding: 10px; font-size: 12px; color: #666; text-align: center; display: flex; align-items: center; justify-content: center;">Khu vực viết đoạn văn nghị luận (khoảng 200 chữ)</div>`);
+  }
+  if (question.type === 'essay') {
+    parts.push(`<div style="margin-top: 15px; border: 1px solid #ddd; border-radius: 4px; height: 80px; background: #fafafa;"></div>`);
+  }
+  if (question.type === 'fill_in_blank') {
+    parts.push(`<div style="margin-top: 10px; margin-left: 20px; font-size: 14px; color: #666;">Điền vào chỗ trống: _________________</div>`);
+  }
+  if (question.type === 'matching' && question.leftItems && question.rightItems) {
+    parts.push(matchingHtml(question));
+  }
+  if (question.type === 'ordering' && question.items) {
+    parts.push(orderingHtml(question));
+  }
+
+  return `<div style="margin-bottom: 25px; page-break-inside: avoid;">${parts.join('')}</div>`;
+}
+
+function answerText(question: GeneratedQuestion): string {
+  if (question.correctAnswer) {
+    return question.correctAnswer;
+  }
+  if (question.correctMatches && question.type === 'matching') {
+    return Object.values(question.correctMatches).map((right, idx) => `${idx + 1}→${right}`).join(', ');
+  }
+  if (question.blanks && question.type === 'fill_in_blank') {
+    return question.blanks.join(', ');
+  }
+  if (question.statementAnswers && question.type === 'true_false' && question.statements) {
+    return question.statementAnswers.map((answer, idx) => `${String.fromCharCode(97 + idx)}) ${answer ? 'Đúng' : 'Sai'}`).join(', ');
+  }
+  if (question.clozeBlanks && (question.type === 'multiple_choice_reading1' || question.type === 'multiple_choice')) {
+    return question.clozeBlanks.map((blank) => `(${blank.number}) ${blank.correctAnswer}`).join(', ');
+  }
+  if (question.readingQuestions && question.type === 'multiple_choice_reading2') {
+    return question.readingQuestions.map((readingQ) => `${readingQ.number}. ${readingQ.correctAnswer}`).join(', ');
+  }
+  return '';
+}
+
+function answerKeyHtml(questions: GeneratedQuestion[]): string {
+  const items = questions
+    .map((question) => ({ question, text: answerText(question) }))
+    .filter(({ text }) => text)
+    .map(({ question, text }) => `<div style="margin-bottom: 10px; font-size: 14px;"><strong>Câu ${question.id}:</strong> ${text}</div>`)
+    .join('');
+  return `<div style="${SECTION_STYLE}"><h2 style="${SECTION_TITLE_STYLE}">ĐÁP ÁN</h2>${items}</div>`;
+}
+
+// AI explanations come as run-on text with "**Bước n:**" markers; give them lines and headings
+function formatExplanation(explanation: string): string {
+  return explanation
+    .replace(/\\n/g, '<br>')
+    .replace(/\n/g, '<br>')
+    .replace(/==>/g, '<br><strong>→</strong> ')
+    .replace(/\*\*Bước \d+:\*\*/g, match => `<br><br><strong>${match.replace(/\*\*/g, '')}</strong>`)
+    .replace(/\*\*KẾT QUẢ:\*\*/g, '<br><br><strong>KẾT QUẢ:</strong>')
+    .replace(/\*\*([^*]+):\*\*/g, '<br><strong>$1:</strong>')
+    .replace(/Câu \d+:/g, match => `<br><strong>${match}</strong>`)
+    .replace(/\. ([A-ZĐẾỊỌĂÂÊÔƯA])/g, '.<br>$1')
+    .replace(/(<br>\s*){3,}/g, '<br><br>');
+}
+
+function explanationHtml(question: GeneratedQuestion): string {
+  let content = `<strong>Câu ${question.id}:</strong><br>`;
+
+  if (question.explanation) {
+    content += `<div style="margin: 10px 0; line-height: 1.6; text-align: justify; white-space: pre-line;">${formatExplanation(question.explanation)}</div>`;
+  }
+  if (question.statementExplanations && question.statements && question.type === 'true_false') {
+    content += `<br><strong>Giải thích từng mệnh đề:</strong><br>`;
+    question.statementExplanations.forEach((explanation, idx) => {
+      const answer = question.statementAnswers?.[idx] ? 'Đúng' : 'Sai';
+      content += `<div style="margin: 8px 0;"><strong>${String.fromCharCode(97 + idx)}) ${answer}:</strong> ${explanation}</div>`;
+    });
+  }
+  if (isCloze(question)) {
+    content += `<br><strong>Giải thích từng câu hỏi:</strong><br>`;
+    question.clozeBlanks!.forEach((blank) => {
+      content += `<div style="margin: 8px 0;"><strong>Question ${blank.number}: ${blank.correctAnswer}</strong></div>`;
+    });
+  }
+  if (question.type === 'multiple_choice_reading2' && question.readingQuestions) {
+    content += `<br><strong>Giải thích từng câu hỏi:</strong><br>`;
+    question.readingQuestions.forEach((readingQ) => {
+      content += `<div style="margin: 8px 0;"><strong>Question ${readingQ.number}: ${readingQ.correctAnswer}</strong></div>`;
+    });
+  }
+
+  return `<div style="margin-bottom: 20px; padding: 15px; background: #f8f9fa; border-radius: 8px; font-size: 14px;">${content}</div>`;
+}
+
+function explanationsHtml(questions: GeneratedQuestion[]): string {
+  const items = questions
+    .filter((question) =>
+      question.explanation ||
+      (question.statementExplanations && question.statementExplanations.length > 0) ||
+      isCloze(question) ||
+      (question.readingQuestions && question.type === 'multiple_choice_reading2'))
+    .map(explanationHtml)
+    .join('');
+  return `<div style="${SECTION_STYLE}"><h2 style="${SECTION_TITLE_STYLE}">HƯỚNG DẪN GIẢI</h2>${items}</div>`;
+}
+
+/**
+ * One exam as printed: header, instructions, questions, then the answer
+ * key and explanations when asked for.
+ */
+function examPageHtml(exam: QuestionRequest, options: ExamHtmlOptions, examCode?: string, extraStyle = ''): string {
+  const questions = exam.generatedQuestions ?? [];
+  const hasAnswers = questions.some(q =>
+    q.correctAnswer || q.correctMatches || q.correctOrder || q.blanks || q.statementAnswers || q.clozeBlanks || q.readingQuestions
+  );
+  const hasExplanations = questions.some(q => q.explanation || q.statementExplanations || q.readingQuestions);
+  const now = new Date();
+
+  return `<div style="font-family: ${FONT_FAMILY}; padding: 40px; max-width: 800px; margin: 0 auto; background: white; color: black; line-height: 1.6;${extraStyle}">
+    ${headerHtml(exam, examCode)}
+    <div style="background: #f8f9fa; padding: 15px; border-radius: 8px; margin-bottom: 30px; font-size: 14px;">
+      <strong>Hướng dẫn:</strong> Đọc kỹ đề bài và chọn đáp án đúng nhất.
+      Ghi rõ lời giải cho các câu tự luận.
+    </div>
+    <div style="margin-bottom: 40px;">${questions.map(questionHtml).join('')}</div>
+    ${options.includeAnswers && hasAnswers ? answerKeyHtml(questions) : ''}
+    ${options.includeExplanations && hasExplanations ? explanationsHtml(questions) : ''}
+    <div style="margin-top: 40px; text-align: center; font-size: 12px; color: #666; border-top: 1px solid #ddd; padding-top: 15px;">
+      <div>Được tạo bởi LimVA • ${now.toLocaleDateString('vi-VN')} ${now.toLocaleTimeString('vi-VN')}</div>
+    </div>
+  </div>`;
+}
+
+// Consolidated answer sheet: one row per question, one column per exam code
+function versionAnswerTableHtml(versions: ExamVersion[]): string {
+  const cellStyle = 'border: 1px solid #333; padding: 6px; text-align: center; font-size: 13px;';
+  const headerCells = versions.map(version => `<th style="${cellStyle} background-color: #f5f5f5;">${version.code}</th>`).join('');
+  const questionCount = versions[0]?.exam.generatedQuestions?.length || 0;
+  const rows = Array.from({ length: questionCount }, (_, index) => {
+    const cells = versions
+      .map(version => `<td style="${cellStyle}">${answerKeyCell(version.exam.generatedQuestions![index])}</td>`)
+      .join('');
+    return `<tr><td style="${cellStyle} font-weight: 600;">${index + 1}</td>${cells}</tr>`;
+  }).join('');
+
+  return `<div style="page-break-before: always; padding: 40px; max-width: 800px; margin: 0 auto; font-family: ${FONT_FAMILY}; color: black;">
+    <h2 style="font-size: 18px; font-weight: 600; margin-bottom: 20px; text-align: center;">BẢNG ĐÁP ÁN CÁC MÃ ĐỀ</h2>
+    <table style="width: 100%; border-collapse: collapse; border: 1px solid #333;">
+      <thead><tr><th style="${cellStyle} background-color: #f5f5f5;">Câu</th>${headerCells}</tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  </div>`;
+}
+
+/**
+ * The whole export in a single root element: the exam, or every shuffled
+ * version one after another, each starting on a new page, then the answer
+ * sheet. Versions leave out explanations: they may refer to the original
+ * option letters.
+ */
+export function examHtml(exam: QuestionRequest, options: ExamHtmlOptions): string {
+  if ((options.versions?.count ?? 1) <= 1) {
+    return examPageHtml(exam, options);
+  }
+
+  const versions = createExamVersions(exam, options.versions!);
+  const pages = versions.map((version, index) =>
+    examPageHtml(version.exam, { ...options, includeAnswers: false, includeExplanations: false }, version.code, index > 0 ? ' page-break-before: always;' : '')
+  );
+  const answerTable = options.includeAnswers ? versionAnswerTableHtml(versions) : '';
+  return `<div style="background: white;">${pages.join('')}${answerTable}</div>`;
+}
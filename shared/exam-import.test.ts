@@ -0,0 +1,135 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { IMAGE_PLACEHOLDER, parseStatementKey, segmentExam, validationMessages } from "./exam-import";
+
+// Text as extracted from a THPT-style DOCX: three parts, numbering restarting in each
+const THPT_EXAM = `SỞ GIÁO DỤC VÀ ĐÀO TẠO
+ĐỀ KIỂM TRA GIỮA KÌ I
+Môn: Toán 12
+
+PHẦN I. Câu trắc nghiệm nhiều phương án lựa chọn.
+Câu 1. Hàm số $y = x^3$ đồng biến trên khoảng nào?
+A. $(-\\infty; 0)$ B. $(0; +\\infty)$
+C. $\\mathbb{R}$ D. $(-1; 1)$
+Câu 2: (0,25 điểm) Giá trị nhỏ nhất của $y = x^2 + 1$ là
+A. 0
+B. 1
+C. 2
+D. 3
+Trang 1/2
+PHẦN II. Câu trắc nghiệm đúng sai.
+Câu 1. Cho hàm số $y = x^2 - 4x$.
+a) Hàm số có đạo hàm $y' = 2x - 4$.
+b) Hàm số đồng biến trên $\\mathbb{R}$.
+c) Hàm số đạt cực tiểu tại $x = 2$.
+d) Giá trị cực tiểu bằng $4$.
+PHẦN III. Câu trắc nghiệm trả lời ngắn.
+Câu 1. Tính $\\int_0^5 x \\, dx$.
+----- HẾT -----
+
+ĐÁP ÁN
+PHẦN I
+Câu | 1 | 2
+Đáp án | C | B
+PHẦN II
+Câu 1: Đ-S-Đ-S
+PHẦN III
+Câu 1: 12,5
+`;
+
+test("splits the parts and keeps the numbering of each", () => {
+  const questions = segmentExam(THPT_EXAM);
+
+  assert.deepEqual(questions.map((imported) => imported.number), [1, 2, 1, 1]);
+  assert.deepEqual(questions.map((imported) => imported.question.type), ["multiple_choice", "multiple_choice", "true_false", "fill_in_blank"]);
+  assert.deepEqual(questions.map((imported) => imported.question.id), ["1", "2", "3", "4"]);
+  assert.deepEqual(questions.flatMap((imported) => imported.issues), []);
+});
+
+test("reads options on one or several lines, without labels or footers", () => {
+  const [first, second] = segmentExam(THPT_EXAM);
+
+  assert.equal(first.question.question, "Hàm số $y = x^3$ đồng biến trên khoảng nào?");
+  assert.deepEqual(first.question.options, ["A. $(-\\infty; 0)$", "B. $(0; +\\infty)$", "C. $\\mathbb{R}$", "D. $(-1; 1)$"]);
+  assert.equal(second.question.question, "Giá trị nhỏ nhất của $y = x^2 + 1$ là");
+  assert.deepEqual(second.question.options, ["A. 0", "B. 1", "C. 2", "D. 3"]);
+});
+
+test("takes each part's answers from the key table and lines after ĐÁP ÁN", () => {
+  const [first, second, trueFalse, shortAnswer] = segmentExam(THPT_EXAM);
+
+  assert.equal(first.question.correctAnswer, "C");
+  assert.equal(second.question.correctAnswer, "B");
+  assert.deepEqual(trueFalse.question.statements, [
+    "Hàm số có đạo hàm $y' = 2x - 4$.",
+    "Hàm số đồng biến trên $\\mathbb{R}$.",
+    "Hàm số đạt cực tiểu tại $x = 2$.",
+    "Giá trị cực tiểu bằng $4$.",
+  ]);
+  assert.deepEqual(trueFalse.question.statementAnswers, [true, false, true, false]);
+  assert.deepEqual(shortAnswer.question.blanks, ["12,5"]);
+  for (const { question } of [first, second, trueFalse, shortAnswer]) {
+    assert.deepEqual(validationMessages(question), []);
+  }
+});
+
+test("reads a compact key with no parts", () => {
+  const questions = segmentExam(`Câu 1. Một?
+A. a B. b C. c D. d
+Câu 2. Hai?
+A. a B. b C. c D. d
+Câu 3. Ba?
+A. a B. b C. c D. d
+BẢNG ĐÁP ÁN
+1A 2D 3B`);
+
+  assert.deepEqual(questions.map((imported) => imported.question.correctAnswer), ["A", "D", "B"]);
+});
+
+test("takes the answer from a marked option and a solution, and flags disagreement", () => {
+  const [marked, fromSolution] = segmentExam(`Câu 1. Thủ đô của Việt Nam?
+A. Huế *B. Hà Nội C. Đà Nẵng D. Cần Thơ
+Lời giải: Hà Nội là thủ đô từ năm 1010 đến nay. Chọn B
+Câu 2. $1 + 1 = ?$
+A. 1 B. 2 C. 3 D. 4
+Lời giải: Chọn C`);
+
+  assert.equal(marked.question.correctAnswer, "B");
+  assert.equal(marked.question.options![1], "B. Hà Nội");
+  assert.match(marked.question.explanation!, /^Hà Nội là thủ đô/);
+  assert.deepEqual(marked.issues, []);
+  assert.equal(fromSolution.question.correctAnswer, "C");
+  assert.equal(fromSolution.question.explanation, "");
+
+  const [disputed] = segmentExam(`Câu 1. Chọn một
+A. x *B. y C. z D. t
+Lời giải: Chọn D`);
+  assert.ok(disputed.issues.some((issue) => issue.includes("B, D")));
+});
+
+test("lists what could not be read", () => {
+  const questions = segmentExam(`PHẦN I. Trắc nghiệm
+Câu 1. Quan sát hình ${IMAGE_PLACEHOLDER} và chọn đáp án
+A. 1 B. 2 C. 3
+Câu 1. Câu bị trùng số
+A. 1 B. 2 C. 3 D. 4
+PHẦN II. Tự luận
+Câu 1. Chứng minh định lí Pythagore.`);
+
+  assert.deepEqual(questions[0].issues, [
+    "Chỉ tìm thấy 3 phương án",
+    "Chưa tìm thấy đáp án",
+    "Có hình ảnh hoặc công thức không đọc được từ file",
+  ]);
+  assert.ok(questions[1].issues.includes('Số thứ tự "Câu 1" bị trùng'));
+  assert.equal(questions[2].question.type, "essay");
+  assert.deepEqual(questions[2].issues, []);
+});
+
+test("parseStatementKey reads the usual ways of writing true/false keys", () => {
+  assert.deepEqual(parseStatementKey("ĐSĐS"), [true, false, true, false]);
+  assert.deepEqual(parseStatementKey("Đ - S - S - Đ"), [true, false, false, true]);
+  assert.deepEqual(parseStatementKey("a) Đúng b) Sai c) Sai d) Đúng"), [true, false, false, true]);
+  assert.equal(parseStatementKey("B"), undefined);
+  assert.equal(parseStatementKey("12,5"), undefined);
+});
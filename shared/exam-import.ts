@@ -0,0 +1,344 @@
+import { generatedQuestionSchemas, type GeneratedQuestion, type ImportedQuestion } from "./schema";
+
+// Extractors put these where a picture or an equation object could not be read as text
+export const IMAGE_PLACEHOLDER = "[hình ảnh]";
+export const FORMULA_PLACEHOLDER = "[công thức]";
+
+const QUESTION_START = /^(?:Câu|Bài|Question)\s*(\d{1,3})\s*[.:)\-–]?\s*/i;
+const PART_HEADING = /^(?:PHẦN|Phần)\s+(?:[IVX]+|\d+)(?=[\s.:)\-–]|$)|^[IVX]{1,4}\s*[.)]\s+(?:TRẮC NGHIỆM|TỰ LUẬN|PHẦN)/i;
+// Only an upper-case heading on its own line starts the key, not "Đáp án: B" inside a question
+const KEY_HEADING = /^(?:BẢNG\s+)?(?:ĐÁP\s*ÁN|HƯỚNG\s+DẪN\s+(?:GIẢI|CHẤM)|LỜI\s+GIẢI\s+CHI\s+TIẾT)(?:[\s:.]|$)/;
+// "----- HẾT -----" closes the questions; page footers are dropped wherever they are
+const END_MARK = /^[-–—_=.*\s]*HẾT[-–—_=.*\s]*$/i;
+const FOOTER = /^Trang\s*\d+(?:\s*\/\s*\d+)?$|^[-–—_=.*\s]+$/i;
+const SOLUTION_START = /^(?:Lời\s+giải|Hướng\s+dẫn(?:\s+giải)?|Giải(?=\s*[:.])|Đáp\s+án|Chọn(?=\s+[A-D](?:$|[\s.,;)])))(?:\s+chi\s+tiết)?\s*[:.]?\s*/i;
+// "(0,5 điểm)", "[NB]" and similar labels right after "Câu N."
+const LEADING_LABEL = /^(?:\([^)]{0,20}điểm\)|\[[^\]]{1,12}\])\s*/i;
+const OPTION_MARK = /(^|\s)(\*?)([A-D])\s*[.)]\s*/g;
+const STATEMENT_MARK = /(^|\n)(\*?)([a-d])\s*[.)]\s*/g;
+const CHOICE_VALUE = /^(?:(?:[Cc]họn|[Đđ]áp\s+án(?:\s+đúng)?(?:\s+là)?)\s*[:.]?\s*)?([A-D])(?=$|[\s.,;)])/;
+const NUMERIC_VALUE = /^-?\d+(?:[.,]\d+)?$/;
+
+type PartKind = GeneratedQuestion['type'] | undefined;
+
+type Marker = { index: number; end: number; marked: boolean };
+
+// Values found in the answer key, keyed by "<part>:<number>"
+type AnswerKey = Map<string, string[]>;
+
+function normalizeText(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[\u00a0\u2007\u202f]/g, " ")
+    .replace(/[\u200b-\u200d\ufeff]/g, "")
+    .split("\n")
+    .map((line) => line.replace(/ {2,}/g, " ").trim());
+}
+
+function partKind(heading: string): PartKind {
+  if (/đúng\s*[-–/]?\s*sai/i.test(heading)) return "true_false";
+  if (/trả\s+lời\s+ngắn|điền/i.test(heading)) return "fill_in_blank";
+  if (/tự\s+luận/i.test(heading)) return "essay";
+  if (/trắc\s+nghiệm|lựa\s+chọn/i.test(heading)) return "multiple_choice";
+  return undefined;
+}
+
+/**
+ * The true/false answers of a four-statement question written as "ĐSĐS",
+ * "Đ-S-Đ-S" or "a) Đúng b) Sai …"; undefined when the value is neither.
+ */
+export function parseStatementKey(value: string): boolean[] | undefined {
+  const labelled = Array.from(value.matchAll(/([a-d])\s*[).:\-–]?\s*(Đúng|Sai|Đ|S)(?=$|[\s,;.)])/gi));
+  if (labelled.length >= 2) return labelled.map((match) => /^đ/i.test(match[2]));
+  const compact = value.replace(/[\s,;\-–/]/g, "").toUpperCase();
+  if (/^[ĐDS]{2,6}$/.test(compact)) return Array.from(compact, (letter) => letter !== "S");
+  return undefined;
+}
+
+function choiceValue(value: string): string | undefined {
+  return value.trim().match(CHOICE_VALUE)?.[1];
+}
+
+// Whether a cell of the key reads as an answer rather than ordinary text
+function isKeyValue(value: string): boolean {
+  return Boolean(choiceValue(value) || parseStatementKey(value) || NUMERIC_VALUE.test(value.trim()));
+}
+
+function addKeyValue(key: AnswerKey, part: number, number: number, value: string) {
+  const id = `${part}:${number}`;
+  key.set(id, [...(key.get(id) ?? []), value.trim()]);
+}
+
+// Two-row tables: a row of question numbers over a row of answers
+function readKeyTable(cells: string[], next: string[] | undefined): Array<[number, string]> | undefined {
+  const numbers = cells.filter((cell) => /^\d{1,3}$/.test(cell));
+  if (numbers.length < 2 || numbers.length < cells.length - 1 || !next) return undefined;
+  const offset = cells.length - numbers.length;
+  const answers = next.length === cells.length ? next.slice(offset) : next.length === numbers.length ? next : undefined;
+  if (!answers || !answers.some((answer) => isKeyValue(answer))) return undefined;
+  return numbers.map((number, index) => [Number(number), answers[index]]);
+}
+
+function splitCells(line: string): string[] {
+  return line.split(/\t|\s*\|\s*|\s*;\s*/).map((cell) => cell.trim()).filter(Boolean);
+}
+
+/**
+ * Read the answer key and per-question solutions from the part of the file
+ * after the "ĐÁP ÁN" heading.
+ */
+function parseKeySection(lines: string[]): { key: AnswerKey; explanations: Map<string, string>; parts: number } {
+  const key: AnswerKey = new Map();
+  const explanations = new Map<string, string>();
+  let part = 0;
+  let current: { id: string; lines: string[] } | undefined;
+
+  const closeSolution = () => {
+    if (!current) return;
+    const text = current.lines.join("\n").trim().replace(CHOICE_VALUE, "").replace(/^[.,;)]\s*/, "").trim();
+    if (text.length >= 20) explanations.set(current.id, text);
+    current = undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line) continue;
+    if (PART_HEADING.test(line)) {
+      closeSolution();
+      part++;
+      continue;
+    }
+
+    const cells = splitCells(line);
+    const table = readKeyTable(cells, lines[i + 1] ? splitCells(lines[i + 1]) : undefined);
+    if (table) {
+      closeSolution();
+      table.forEach(([number, value]) => addKeyValue(key, part, number, value));
+      i++;
+      continue;
+    }
+
+    const start = line.match(QUESTION_START);
+    if (start) {
+      closeSolution();
+      const rest = line.slice(start[0].length).trim();
+      if (isKeyValue(rest)) addKeyValue(key, part, Number(start[1]), rest);
+      current = { id: `${part}:${start[1]}`, lines: [rest] };
+      continue;
+    }
+
+    let found = 0;
+    for (const cell of cells) {
+      const pair = cell.match(/^(\d{1,3})\s*[.:)\-–]\s*(.+)$/);
+      if (pair && isKeyValue(pair[2])) {
+        addKeyValue(key, part, Number(pair[1]), pair[2]);
+        found++;
+      }
+    }
+    // "1A 2B 3C …" on one line
+    const compact = Array.from(line.matchAll(/(?:^|\s)(\d{1,3})\s*[.:)\-–]?\s*([A-D])(?=$|[\s,;.])/g));
+    if (!found && compact.length >= 2) {
+      compact.forEach((match) => addKeyValue(key, part, Number(match[1]), match[2]));
+      found = compact.length;
+    }
+    if (!found && current) current.lines.push(line);
+  }
+  closeSolution();
+  return { key, explanations, parts: part };
+}
+
+/**
+ * Find the markers of a labelled list ("A." … "D.", "a)" … "d)") in order,
+ * the first one at the start of a line. Picks the start giving the longest run.
+ */
+function findMarkers(text: string, pattern: RegExp, labels: string[]): Marker[] {
+  const matches = Array.from(text.matchAll(pattern)).map((match) => ({
+    label: match[3],
+    marked: match[2] === "*",
+    atLineStart: match.index === 0 || match[1] === "\n",
+    index: match.index! + match[1].length,
+    end: match.index! + match[0].length,
+  }));
+
+  let best: Marker[] = [];
+  matches.forEach((first, start) => {
+    if (first.label !== labels[0] || !first.atLineStart) return;
+    const run: Marker[] = [first];
+    for (const match of matches.slice(start + 1)) {
+      if (run.length === labels.length) break;
+      if (match.label === labels[run.length] && match.index >= run[run.length - 1].end) run.push(match);
+    }
+    if (run.length > best.length) best = run;
+  });
+  return best.length >= 2 ? best : [];
+}
+
+function markedTexts(text: string, markers: Marker[]): string[] {
+  return markers.map((marker, index) =>
+    text.slice(marker.end, markers[index + 1]?.index ?? text.length).trim().replace(/\s*\n\s*/g, " "),
+  );
+}
+
+// "Lời giải: … Chọn B" → answer and explanation
+function readSolution(solution: string): { letter?: string; statements?: boolean[]; explanation: string } {
+  const letter = solution.match(/(?:[Cc]họn|[Đđ]áp\s+án(?:\s+đúng)?(?:\s+là)?)\s*[:.]?\s*([A-D])(?=$|[\s.,;)])/)?.[1];
+  const statementLine = solution.match(/[Đđ]áp\s+án\s*[:.]?\s*([^\n]+)/)?.[1];
+  const explanation = solution.replace(SOLUTION_START, "").trim();
+  return {
+    letter,
+    statements: statementLine ? parseStatementKey(statementLine) : undefined,
+    // A bare "Đáp án: B" is not worth keeping as an explanation
+    explanation: choiceValue(explanation) && explanation.length < 12 ? "" : explanation,
+  };
+}
+
+function lookupKey(key: AnswerKey, id: string, accept: (value: string) => boolean): string | undefined {
+  return key.get(id)?.find(accept);
+}
+
+type QuestionBlock = { number: number; part: number; kind: PartKind; lines: string[] };
+
+function buildQuestion(
+  block: QuestionBlock,
+  index: number,
+  keySection: ReturnType<typeof parseKeySection>,
+): ImportedQuestion {
+  const issues: string[] = [];
+  const keyId = `${keySection.parts ? block.part : 0}:${block.number}`;
+
+  const solutionAt = block.lines.findIndex((line, lineIndex) => lineIndex > 0 && SOLUTION_START.test(line));
+  const body = (solutionAt === -1 ? block.lines : block.lines.slice(0, solutionAt)).join("\n").trim();
+  const solution = readSolution(solutionAt === -1 ? "" : block.lines.slice(solutionAt).join("\n").trim());
+  const source = block.lines.join("\n").trim();
+
+  const question: GeneratedQuestion = {
+    id: String(index + 1),
+    type: "essay",
+    question: body,
+    explanation: solution.explanation || keySection.explanations.get(keyId) || "",
+  };
+
+  const options = findMarkers(body, OPTION_MARK, ["A", "B", "C", "D"]);
+  const statements = options.length ? [] : findMarkers(body, STATEMENT_MARK, ["a", "b", "c", "d"]);
+
+  if (options.length) {
+    question.type = "multiple_choice";
+    question.question = body.slice(0, options[0].index).trim();
+    // Labelled like generated options, which the exporters expect
+    question.options = markedTexts(body, options).map((text, optionIndex) => `${"ABCD"[optionIndex]}. ${text}`);
+    if (options.length < 4) issues.push(`Chỉ tìm thấy ${options.length} phương án`);
+
+    // Every letter marked is the file's styling, not its key
+    const marked = options.every((option) => option.marked) ? [] : options.filter((option) => option.marked);
+    if (marked.length > 1) issues.push("Có nhiều phương án được đánh dấu là đáp án");
+    const fromKey = lookupKey(keySection.key, keyId, (value) => Boolean(choiceValue(value)));
+    const found = [
+      marked.length ? "ABCD"[options.indexOf(marked[0])] : undefined,
+      solution.letter,
+      fromKey ? choiceValue(fromKey) : undefined,
+    ].filter((letter): letter is string => Boolean(letter));
+    if (new Set(found).size > 1) issues.push(`Các nguồn đáp án không khớp nhau (${found.join(", ")})`);
+    if (found.length) question.correctAnswer = found[0];
+  } else if (statements.length) {
+    question.type = "true_false";
+    question.question = body.slice(0, statements[0].index).trim();
+    question.statements = markedTexts(body, statements);
+    if (statements.length < 4) issues.push(`Chỉ tìm thấy ${statements.length} mệnh đề`);
+
+    const fromKey = lookupKey(keySection.key, keyId, (value) => parseStatementKey(value)?.length === statements.length);
+    const answers = statements.some((statement) => statement.marked)
+      ? statements.map((statement) => statement.marked)
+      : solution.statements?.length === statements.length
+        ? solution.statements
+        : fromKey ? parseStatementKey(fromKey) : undefined;
+    if (answers) question.statementAnswers = answers;
+  } else {
+    const fromKey = lookupKey(keySection.key, keyId, (value) => !choiceValue(value) && !parseStatementKey(value));
+    if (fromKey) {
+      question.type = "fill_in_blank";
+      question.blanks = [fromKey];
+    } else if (block.kind === "fill_in_blank") {
+      question.type = "fill_in_blank";
+    } else if (block.kind === "multiple_choice") {
+      issues.push("Không tìm thấy các phương án A-D");
+    } else if (block.kind === "true_false") {
+      issues.push("Không tìm thấy các mệnh đề a)-d)");
+    }
+  }
+
+  const answered = question.correctAnswer || question.statementAnswers || question.blanks;
+  if (!answered && question.type !== "essay") issues.push("Chưa tìm thấy đáp án");
+  if (block.kind && block.kind !== "essay" && question.type !== "essay" && block.kind !== question.type) {
+    issues.push("Dạng câu hỏi khác với phần đề chứa nó");
+  }
+  if (source.includes(IMAGE_PLACEHOLDER) || source.includes(FORMULA_PLACEHOLDER)) {
+    issues.push("Có hình ảnh hoặc công thức không đọc được từ file");
+  }
+  if (!question.question) issues.push("Không đọc được nội dung câu hỏi");
+
+  return { number: block.number, source, question, issues };
+}
+
+/**
+ * Split the text of an exam into its "Câu N." questions. Options A-D make a
+ * multiple choice question, statements a)-d) a true/false one; answers come
+ * from options marked with "*", a "Lời giải" under the question or the key
+ * after the "ĐÁP ÁN" heading. Anything doubtful is listed in `issues`.
+ */
+export function segmentExam(text: string): ImportedQuestion[] {
+  const lines = normalizeText(text);
+  const blocks: QuestionBlock[] = [];
+  let part = 0;
+  let kind: PartKind;
+  let keyStart = lines.length;
+  let ended = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (blocks.length && KEY_HEADING.test(line) && line.length <= 60) {
+      keyStart = i + 1;
+      break;
+    }
+    if (END_MARK.test(line)) {
+      ended = true;
+      continue;
+    }
+    if (FOOTER.test(line)) continue;
+    if (PART_HEADING.test(line)) {
+      part++;
+      kind = partKind(line);
+      ended = false;
+      continue;
+    }
+    const start = line.match(QUESTION_START);
+    if (start) {
+      ended = false;
+      const rest = line.slice(start[0].length).replace(LEADING_LABEL, "");
+      blocks.push({ number: Number(start[1]), part, kind, lines: [rest] });
+      continue;
+    }
+    // Text before the first question is the exam's header
+    if (blocks.length && line && !ended) blocks[blocks.length - 1].lines.push(line);
+  }
+
+  const keySection = parseKeySection(lines.slice(keyStart));
+  const seen = new Set<string>();
+  return blocks.map((block, index) => {
+    const imported = buildQuestion(block, index, keySection);
+    const id = `${block.part}:${block.number}`;
+    if (seen.has(id)) imported.issues.push(`Số thứ tự "Câu ${block.number}" bị trùng`);
+    seen.add(id);
+    return imported;
+  });
+}
+
+/**
+ * What keeps a question from being saved, in the words of its type's schema.
+ */
+export function validationMessages(question: GeneratedQuestion): string[] {
+  const schema = generatedQuestionSchemas[question.type];
+  if (!schema) return [`Loại câu hỏi không hợp lệ: ${question.type}`];
+  const parsed = schema.safeParse(question);
+  return parsed.success ? [] : Array.from(new Set(parsed.error.issues.map((issue) => issue.message)));
+}
@@ -0,0 +1,122 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratedQuestion, QuestionRequest } from "./schema";
+import { createExamVersions } from "./exam-versions";
+
+function exam(generatedQuestions: GeneratedQuestion[]): QuestionRequest {
+  return { id: "exam", subject: "toan", topic: "Hàm số", generatedQuestions } as QuestionRequest;
+}
+
+function choice(id: string, options: string[], correctAnswer: string): GeneratedQuestion {
+  return { id, type: "multiple_choice", question: `Câu ${id}`, options, correctAnswer };
+}
+
+// Text of an option without its "A." label
+function text(option: string): string {
+  return option.replace(/^[A-Z]\. /, "");
+}
+
+function keyText(question: GeneratedQuestion): string {
+  return text(question.options![question.correctAnswer!.charCodeAt(0) - 65]);
+}
+
+// Enough versions that every shuffle of four options is likely to move something
+const SHUFFLES = { count: 12, seed: 2025 };
+
+test("the key follows the correct option to its new letter", () => {
+  const source = choice("1", ["Một", "Hai", "Ba", "Bốn"], "C");
+  const versions = createExamVersions(exam([source]), SHUFFLES);
+
+  assert.ok(versions.some((version) => version.exam.generatedQuestions![0].correctAnswer !== "C"));
+  for (const version of versions) {
+    const question = version.exam.generatedQuestions![0];
+    assert.equal(keyText(question), "Ba");
+    assert.deepEqual([...question.options!].sort(), [...source.options!].sort());
+  }
+});
+
+test("labelled options are relabelled A-D in their new order", () => {
+  const versions = createExamVersions(exam([choice("1", ["A. Một", "B. Hai", "C) Ba", "D. Bốn"], "B")]), SHUFFLES);
+
+  for (const version of versions) {
+    const question = version.exam.generatedQuestions![0];
+    assert.deepEqual(question.options!.map((option) => option[0]), ["A", "B", "C", "D"]);
+    assert.equal(keyText(question), "Hai");
+    assert.ok(question.options!.some((option) => option.startsWith(`${option[0]}) Ba`)));
+  }
+});
+
+test("an option about all the others stays where it is", () => {
+  const versions = createExamVersions(exam([choice("1", ["A. Một", "B. Hai", "C. Ba", "D. Tất cả các đáp án trên"], "D")]), SHUFFLES);
+
+  assert.ok(versions.some((version) => text(version.exam.generatedQuestions![0].options![0]) !== "Một"));
+  for (const version of versions) {
+    const question = version.exam.generatedQuestions![0];
+    assert.equal(question.options![3], "D. Tất cả các đáp án trên");
+    assert.equal(question.correctAnswer, "D");
+  }
+});
+
+test("a question whose options name others by letter keeps its order", () => {
+  const source = choice("1", ["A. Một", "B. Hai", "C. Ba", "D. Cả A và B đều đúng"], "D");
+  for (const version of createExamVersions(exam([source]), SHUFFLES)) {
+    const question = version.exam.generatedQuestions![0];
+    assert.deepEqual(question.options, source.options);
+    assert.equal(question.correctAnswer, "D");
+  }
+});
+
+test("cloze blanks and reading sub-questions keep their own keys", () => {
+  const options = ["A. one", "B. two", "C. three", "D. four"];
+  const cloze: GeneratedQuestion = {
+    id: "1",
+    type: "multiple_choice_reading1",
+    question: "Read the passage",
+    passage: "A (1) ___ and a (2) ___.",
+    clozeBlanks: [{ number: 1, options, correctAnswer: "A" }, { number: 2, options, correctAnswer: "D" }],
+  };
+  const reading: GeneratedQuestion = {
+    id: "2",
+    type: "multiple_choice_reading2",
+    question: "Answer the questions",
+    passage: "A passage.",
+    readingQuestions: [{ number: 3, question: "Which?", options, correctAnswer: "C" }],
+  };
+
+  for (const version of createExamVersions(exam([cloze, reading]), SHUFFLES)) {
+    const [shuffledCloze, shuffledReading] = version.exam.generatedQuestions!;
+    const key = (sub: { options: string[]; correctAnswer: string }) => text(sub.options[sub.correctAnswer.charCodeAt(0) - 65]);
+    assert.deepEqual(shuffledCloze.clozeBlanks!.map(key), ["one", "four"]);
+    assert.deepEqual(shuffledCloze.clozeBlanks!.map((blank) => blank.number), [1, 2]);
+    assert.deepEqual(shuffledReading.readingQuestions!.map(key), ["three"]);
+  }
+});
+
+test("questions are shuffled within their type and renumbered", () => {
+  const questions = [
+    choice("1", ["Một", "Hai", "Ba", "Bốn"], "A"),
+    choice("2", ["Một", "Hai", "Ba", "Bốn"], "B"),
+    { id: "3", type: "essay", question: "Tự luận" } as GeneratedQuestion,
+    choice("4", ["Một", "Hai", "Ba", "Bốn"], "C"),
+  ];
+
+  for (const version of createExamVersions(exam(questions), SHUFFLES)) {
+    const shuffled = version.exam.generatedQuestions!;
+    assert.deepEqual(shuffled.map((question) => question.id), ["1", "2", "3", "4"]);
+    assert.deepEqual(shuffled.map((question) => question.type), ["multiple_choice", "multiple_choice", "multiple_choice", "essay"]);
+    assert.deepEqual([...version.sourceIds].sort(), ["1", "2", "3", "4"]);
+    version.sourceIds.forEach((sourceId, position) => {
+      const source = questions.find((question) => question.id === sourceId)!;
+      if (source.options) assert.equal(keyText(shuffled[position]), keyText(source));
+    });
+  }
+});
+
+test("the same seed gives the same versions, with codes from 101", () => {
+  const questions = [choice("1", ["Một", "Hai", "Ba", "Bốn"], "A"), choice("2", ["Một", "Hai", "Ba", "Bốn"], "D")];
+  const first = createExamVersions(exam(questions), { count: 4, seed: 7 });
+
+  assert.deepEqual(createExamVersions(exam(questions), { count: 4, seed: 7 }), first);
+  assert.deepEqual(first.map((version) => version.code), ["101", "102", "103", "104"]);
+  assert.notDeepEqual(createExamVersions(exam(questions), { count: 4, seed: 8 }), first);
+});
@@ -0,0 +1,151 @@
+import type { GeneratedQuestion, QuestionRequest } from "./schema";
+import { createRandom, shuffle } from "./exam-builder";
+
+/**
+ * How many shuffled versions (mã đề) to print and the seed that fixes the
+ * shuffle, so a preview and the download of the same export match.
+ */
+export type ExamVersionOptions = {
+  count: number;
+  seed: number;
+  firstCode?: number; // codes count up from here, 101 by default
+};
+
+export type ExamVersion = {
+  code: string;
+  exam: QuestionRequest; // questions renumbered from 1 in this version's order
+  sourceIds: string[]; // original question id at each position
+};
+
+export const MAX_EXAM_VERSIONS = 24;
+
+// Version counts offered by the export dialogs; 1 prints the exam as is
+export const EXAM_VERSION_COUNTS = [1, 2, 4, 6, 8, 12, MAX_EXAM_VERSIONS];
+
+// Options written with their own label, e.g. "A. whose" in cloze and reading passages
+const OPTION_LABEL = /^\s*([A-Z])([.)])\s*/;
+
+// Options naming others by letter ("Cả A và B đều đúng"): their question keeps its order
+const LETTER_REFERENCE = /\b[A-D]\s*(?:,|&|và|hoặc|and|or)\s*[A-D]\b|(?:[Đđ]áp án|[Pp]hương án|[Oo]ption)\s+[A-D]\b/;
+
+// Options about the others as a whole ("Tất cả các đáp án trên"): pinned to their place
+const OTHER_OPTIONS = /tất cả|không có (?:đáp án|phương án|câu)|cả (?:hai|ba|bốn) (?:đáp án|phương án|ý)|(?:đáp án|phương án) (?:nào )?(?:ở )?trên|all of the above|none of the above|both of the above/i;
+
+function letter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+/**
+ * Shuffle a set of options and return them with the new letter of the
+ * correct one. Options that carry their own "A." labels are relabelled, and
+ * options about all the others stay where they are. Returns null when the
+ * key is not one of the option letters or an option names others by letter.
+ */
+function shuffleOptions(options: string[], correctAnswer: string | undefined, random: () => number): { options: string[]; correctAnswer: string } | null {
+  const correctIndex = (correctAnswer?.trim().toUpperCase().charCodeAt(0) ?? 0) - 65;
+  if (!correctAnswer || correctIndex < 0 || correctIndex >= options.length || options.length < 2) return null;
+
+  const texts = options.map(option => option.replace(OPTION_LABEL, ''));
+  if (texts.some(text => LETTER_REFERENCE.test(text))) return null;
+
+  const labelled = options.every(option => OPTION_LABEL.test(option));
+  const pinned = texts.map(text => OTHER_OPTIONS.test(text));
+  const free = shuffle(options.map((_, index) => index).filter(index => !pinned[index]), random);
+  let next = 0;
+  const order = options.map((_, index) => pinned[index] ? index : free[next++]);
+  const shuffled = order.map((from, index) => {
+    const option = options[from];
+    if (!labelled) return option;
+    const separator = option.match(OPTION_LABEL)![2];
+    return `${letter(index)}${separator} ${option.replace(OPTION_LABEL, '')}`;
+  });
+  return { options: shuffled, correctAnswer: letter(order.indexOf(correctIndex)) };
+}
+
+// One question with its A-D options (and those of its blanks or sub-questions) shuffled
+function shuffleQuestion(question: GeneratedQuestion, random: () => number): GeneratedQuestion {
+  const result: GeneratedQuestion = { ...question };
+
+  if (question.options && question.correctAnswer) {
+    const shuffled = shuffleOptions(question.options, question.correctAnswer, random);
+    if (shuffled) Object.assign(result, shuffled);
+  }
+  if (question.clozeBlanks) {
+    result.clozeBlanks = question.clozeBlanks.map(blank => ({
+      ...blank,
+      ...shuffleOptions(blank.options, blank.correctAnswer, random),
+    }));
+  }
+  if (question.readingQuestions) {
+    result.readingQuestions = question.readingQuestions.map(sub => ({
+      ...sub,
+      ...shuffleOptions(sub.options, sub.correctAnswer, random),
+    }));
+  }
+  return result;
+}
+
+/**
+ * Shuffled versions of an exam, coded 101, 102, ... Questions are shuffled
+ * within each question type so the parts of the exam (trắc nghiệm, đúng/sai,
+ * tự luận...) stay in their original order, and the A-D options of every
+ * question, cloze blank and reading sub-question are shuffled with their
+ * keys remapped. Passages keep their blank and sub-question numbering.
+ */
+export function createExamVersions(exam: QuestionRequest, options: ExamVersionOptions): ExamVersion[] {
+  const random = createRandom(options.seed);
+  const firstCode = options.firstCode ?? 101;
+  const questions = exam.generatedQuestions ?? [];
+  const types = Array.from(new Set(questions.map(question => question.type)));
+  const count = Math.min(Math.max(1, Math.floor(options.count)), MAX_EXAM_VERSIONS);
+
+  return Array.from({ length: count }, (_, index) => {
+    const code = String(firstCode + index);
+    const ordered = types.flatMap(type => shuffle(questions.filter(question => question.type === type), random));
+    const generatedQuestions = ordered.map((question, position) => ({
+      ...shuffleQuestion(question, random),
+      id: String(position + 1),
+    }));
+
+    return {
+      code,
+      exam: { ...exam, id: `${exam.id}_${code}`, generatedQuestions },
+      sourceIds: ordered.map(question => question.id),
+    };
+  });
+}
+
+/**
+ * A question's key in the short form of an answer sheet table: the letter
+ * for multiple choice, "1A 2C" for passages, "ĐSĐS" for true/false, "TL"
+ * for essays.
+ */
+export function answerKeyCell(question: GeneratedQuestion): string {
+  const subs = question.clozeBlanks ?? question.readingQuestions;
+  if (subs) {
+    return subs.map(sub => `${sub.number}${sub.correctAnswer}`).join(' ');
+  }
+
+  switch (question.type) {
+    case 'true_false':
+      return (question.statementAnswers ?? []).map(answer => answer ? 'Đ' : 'S').join('');
+    case 'fill_in_blank':
+      return question.blanks?.[0] ?? question.correctAnswer ?? '';
+    case 'matching':
+      return Object.entries(question.correctMatches ?? {})
+        .map(([left, right]) => {
+          const leftIndex = question.leftItems?.indexOf(left) ?? -1;
+          const rightIndex = question.rightItems?.indexOf(right) ?? -1;
+          return leftIndex >= 0 && rightIndex >= 0 ? `${leftIndex + 1}${letter(rightIndex)}` : `${left}→${right}`;
+        })
+        .join(' ');
+    case 'ordering':
+      return question.correctAnswer ?? (question.correctOrder ?? []).map(index => index + 1).join('-');
+    case 'essay':
+    case 'essay_reading':
+    case 'essay_writing':
+      return 'TL';
+    default:
+      return question.correctAnswer ?? '';
+  }
+}
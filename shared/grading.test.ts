@@ -0,0 +1,113 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { GeneratedQuestion } from "./schema";
+import {
+  TRUE_FALSE_CREDIT,
+  answersMatch,
+  gradeQuestion,
+  gradeSubmission,
+  normalizeAnswer,
+  questionPoints,
+  statusFromScore,
+  withQuestionGrade,
+} from "./grading";
+
+const trueFalse: GeneratedQuestion = {
+  id: "tf",
+  type: "true_false",
+  question: "Xét hàm số $y = x^2$.",
+  statements: ["a) Đồng biến", "b) Có cực tiểu", "c) Là hàm lẻ", "d) Đi qua gốc tọa độ"],
+  statementAnswers: [false, true, false, true],
+};
+
+const keys = trueFalse.statementAnswers!;
+
+// The statements answered correctly are the first `correct` ones
+function verdicts(correct: number): boolean[] {
+  return keys.map((key, index) => (index < correct ? key : !key));
+}
+
+test("true/false earns the THPT share for each number of correct statements", () => {
+  assert.deepEqual(TRUE_FALSE_CREDIT, [0, 0.1, 0.25, 0.5, 1]);
+  const scores = [0, 1, 2, 3, 4].map((correct) => gradeQuestion(trueFalse, { statements: verdicts(correct) }).score);
+  assert.deepEqual(scores, [0, 0.1, 0.25, 0.5, 1]);
+});
+
+test("true/false reports its correct parts and status", () => {
+  assert.deepEqual(gradeQuestion(trueFalse, { statements: verdicts(3) }), {
+    questionId: "tf",
+    status: "partial",
+    score: 0.5,
+    maxScore: 1,
+    correctParts: 3,
+    totalParts: 4,
+  });
+  assert.equal(gradeQuestion(trueFalse, { statements: verdicts(4) }).status, "correct");
+  assert.equal(gradeQuestion(trueFalse, { statements: verdicts(0) }).status, "incorrect");
+});
+
+test("true/false statements left unanswered count as wrong, all of them as unanswered", () => {
+  assert.equal(gradeQuestion(trueFalse, { statements: [false, true, null, null] }).score, 0.25);
+  assert.equal(gradeQuestion(trueFalse, { statements: [null, null, null, null] }).status, "unanswered");
+});
+
+test("true/false with other statement counts earns a proportional share", () => {
+  const three = { ...trueFalse, statements: trueFalse.statements!.slice(0, 3), statementAnswers: keys.slice(0, 3) };
+  assert.equal(gradeQuestion(three, { statements: [false, true, true] }).score, 0.67);
+});
+
+test("normalizeAnswer ignores case, spacing, dollar signs and a final full stop", () => {
+  assert.equal(normalizeAnswer("  Hà   NỘI. "), "hà nội");
+  assert.equal(normalizeAnswer("$x = 2$"), "x=2");
+  assert.equal(normalizeAnswer("x − 1 ( a + b )"), "x-1(a+b)");
+});
+
+test("composed and decomposed diacritics compare equal, missing ones do not", () => {
+  const decomposed = "Hà Nội".normalize("NFD");
+  assert.notEqual(decomposed, "Hà Nội");
+  assert.ok(answersMatch(decomposed, "hà nội"));
+  assert.ok(!answersMatch("Ha Noi", "Hà Nội"));
+});
+
+test("numbers match by value with either decimal separator", () => {
+  assert.ok(answersMatch("0,5", "0.5"));
+  assert.ok(answersMatch(".5", "0.50"));
+  assert.ok(!answersMatch("0,6", "0.5"));
+  assert.ok(!answersMatch("", ""));
+});
+
+test("fill in the blank accepts any listed answer", () => {
+  const question: GeneratedQuestion = {
+    id: "fb",
+    type: "fill_in_blank",
+    question: "Thủ đô của Việt Nam là _____.",
+    blanks: ["Hà Nội", "Thủ đô Hà Nội"],
+  };
+  assert.equal(gradeQuestion(question, { text: "thủ đô  hà nội" }).status, "correct");
+  assert.equal(gradeQuestion(question, { text: "Huế" }).score, 0);
+});
+
+test("essays are worth their rubric total and wait for a teacher once answered", () => {
+  const writing: GeneratedQuestion = { id: "w", type: "essay_writing", question: "Viết đoạn văn" };
+  const reading: GeneratedQuestion = { id: "r", type: "essay_reading", question: "Đọc hiểu" };
+  const essay: GeneratedQuestion = { id: "e", type: "essay", question: "Giải bài toán" };
+
+  assert.equal(questionPoints(writing), 2);
+  assert.equal(questionPoints(reading), 4);
+  assert.equal(questionPoints(essay), 1);
+  assert.deepEqual(gradeQuestion(writing, { text: "Bài làm" }), { questionId: "w", status: "pending", score: 0, maxScore: 2 });
+  assert.equal(gradeQuestion(writing, { text: "   " }).status, "unanswered");
+});
+
+test("an essay's grade replaces the pending one in the totals", () => {
+  const questions: GeneratedQuestion[] = [
+    { id: "1", type: "multiple_choice", question: "Chọn", options: ["A. 1", "B. 2", "C. 3", "D. 4"], correctAnswer: "C" },
+    { id: "2", type: "essay_writing", question: "Viết đoạn văn" },
+  ];
+  const grade = gradeSubmission(questions, { "1": { choice: "c" }, "2": { text: "Bài làm" } });
+  assert.deepEqual([grade.score, grade.maxScore, grade.pendingCount], [1, 3, 1]);
+
+  const graded = withQuestionGrade(grade, { questionId: "2", status: statusFromScore(1.25, 2), score: 1.25, maxScore: 2 });
+  assert.deepEqual([graded.score, graded.maxScore, graded.pendingCount], [2.25, 3, 0]);
+  assert.equal(graded.questions[1].status, "partial");
+});
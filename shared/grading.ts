@@ -0,0 +1,218 @@
+import type { GeneratedQuestion, GradeStatus, QuestionGrade, QuestionResponse, RubricCriterion, SubmissionGrade } from "./schema";
+
+/**
+ * Share of the points earned on a four-statement true/false question by the
+ * number of correct verdicts, following the THPT 2025 exam scheme
+ * (0.1 / 0.25 / 0.5 / 1 point out of 1).
+ */
+export const TRUE_FALSE_CREDIT = [0, 0.1, 0.25, 0.5, 1];
+
+type EssayType = 'essay' | 'essay_reading' | 'essay_writing';
+
+/**
+ * Rubric of each essay type. essay_writing is the 2.0-point nghị luận
+ * paragraph and essay_reading the 4.0-point đọc hiểu section of the THPT
+ * 2025 Ngữ văn exam; other essays are worth one point like objective
+ * questions.
+ */
+export const ESSAY_RUBRICS: Record<EssayType, RubricCriterion[]> = {
+  essay: [
+    { id: "noi_dung", label: "Nội dung, kết quả đúng so với đáp án", maxScore: 0.5 },
+    { id: "lap_luan", label: "Lập luận hoặc các bước giải hợp lí, đầy đủ", maxScore: 0.25 },
+    { id: "trinh_bay", label: "Trình bày rõ ràng, dùng đúng thuật ngữ và kí hiệu", maxScore: 0.25 },
+  ],
+  essay_reading: [
+    { id: "cau_1", label: "Câu 1: trả lời đúng yêu cầu nhận biết", maxScore: 0.5 },
+    { id: "cau_2", label: "Câu 2: nhận diện đúng chi tiết, có trích dẫn", maxScore: 0.5 },
+    { id: "cau_3", label: "Câu 3: phân tích được tác dụng của biện pháp tu từ", maxScore: 1 },
+    { id: "cau_4", label: "Câu 4: lí giải được vai trò, ý nghĩa của chi tiết", maxScore: 1 },
+    { id: "cau_5", label: "Câu 5: liên hệ, so sánh hoặc bày tỏ quan điểm có lí lẽ", maxScore: 1 },
+  ],
+  essay_writing: [
+    { id: "hinh_thuc", label: "Đảm bảo yêu cầu về hình thức và dung lượng đoạn văn (khoảng 200 chữ)", maxScore: 0.25 },
+    { id: "van_de", label: "Xác định đúng vấn đề cần nghị luận", maxScore: 0.25 },
+    { id: "he_thong_y", label: "Đề xuất được hệ thống ý phù hợp để làm rõ vấn đề", maxScore: 0.5 },
+    { id: "trien_khai", label: "Triển khai vấn đề: lí lẽ xác đáng, dẫn chứng tiêu biểu", maxScore: 0.5 },
+    { id: "chinh_ta", label: "Đảm bảo chuẩn chính tả, ngữ pháp, liên kết câu", maxScore: 0.25 },
+    { id: "sang_tao", label: "Sáng tạo: suy nghĩ mới mẻ, cách diễn đạt có giọng điệu riêng", maxScore: 0.25 },
+  ],
+};
+
+// Avoids scores like 0.30000000000000004 in totals
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Canonical form of a short text answer: Unicode NFC (so composed and
+ * decomposed Vietnamese diacritics compare equal), lower case, no LaTeX
+ * dollar signs, single spaces, no spaces around operators and punctuation,
+ * no trailing full stop.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLocaleLowerCase('vi')
+    .replace(/\$/g, '')
+    .replace(/[−–]/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*([=+\-*/^(),;:<>])\s*/g, '$1')
+    .trim()
+    .replace(/[.。]+$/, '');
+}
+
+// "0,5", "0.5" and ".5" are the same number; a comma is a decimal separator in Vietnamese
+function parseNumber(text: string): number | null {
+  const candidate = text.replace(/,/g, '.');
+  if (!/^-?(\d+\.?\d*|\.\d+)$/.test(candidate)) return null;
+  return Number(candidate);
+}
+
+/**
+ * The rubric an essay-type question is graded against; undefined for
+ * objective types.
+ */
+export function rubricFor(question: Pick<GeneratedQuestion, 'type'>): RubricCriterion[] | undefined {
+  return ESSAY_RUBRICS[question.type as EssayType];
+}
+
+/**
+ * Points a question is worth in a test: its rubric's total for essay types,
+ * one point otherwise.
+ */
+export function questionPoints(question: Pick<GeneratedQuestion, 'type'>): number {
+  const rubric = rubricFor(question);
+  return rubric ? round(rubric.reduce((sum, criterion) => sum + criterion.maxScore, 0)) : 1;
+}
+
+/**
+ * Whether a student's short answer matches one accepted answer, comparing
+ * normalized text and, when both are plain numbers, their values.
+ */
+export function answersMatch(given: string, expected: string): boolean {
+  const a = normalizeAnswer(given);
+  const b = normalizeAnswer(expected);
+  if (!a) return false;
+  if (a === b) return true;
+
+  const x = parseNumber(a);
+  const y = parseNumber(b);
+  return x !== null && y !== null && Math.abs(x - y) < 1e-9;
+}
+
+function isBlankResponse(response: QuestionResponse | undefined): boolean {
+  if (!response) return true;
+  return !response.choice
+    && !response.text?.trim()
+    && !response.statements?.some(verdict => verdict !== null)
+    && Object.keys(response.matches ?? {}).length === 0
+    && !response.order?.length
+    && Object.values(response.subAnswers ?? {}).every(answer => !answer);
+}
+
+/**
+ * Status of a question graded by points rather than by key, e.g. an essay
+ * scored against its rubric.
+ */
+export function statusFromScore(score: number, maxScore: number): GradeStatus {
+  return score >= maxScore ? 'correct' : score <= 0 ? 'incorrect' : 'partial';
+}
+
+// Grade built from the number of correct parts and the share of the points they earn
+function partsGrade(questionId: string, maxScore: number, correctParts: number, totalParts: number, credit: number): QuestionGrade {
+  const status: GradeStatus = correctParts === totalParts ? 'correct' : correctParts === 0 ? 'incorrect' : 'partial';
+  return { questionId, status, score: round(maxScore * credit), maxScore, correctParts, totalParts };
+}
+
+function allOrNothing(questionId: string, maxScore: number, isCorrect: boolean): QuestionGrade {
+  return { questionId, status: isCorrect ? 'correct' : 'incorrect', score: isCorrect ? maxScore : 0, maxScore };
+}
+
+function sameLetter(given: string | undefined, expected: string | undefined): boolean {
+  return !!given && !!expected && given.trim().toUpperCase() === expected.trim().toUpperCase();
+}
+
+/**
+ * Score one answer out of `maxScore` points. Answered essay types cannot be
+ * checked against a key and come back "pending" with no points.
+ */
+export function gradeQuestion(question: GeneratedQuestion, response: QuestionResponse | undefined, maxScore = questionPoints(question)): QuestionGrade {
+  const questionId = question.id;
+  if (isBlankResponse(response)) {
+    return { questionId, status: 'unanswered', score: 0, maxScore };
+  }
+  if (rubricFor(question)) {
+    return { questionId, status: 'pending', score: 0, maxScore };
+  }
+  const answer = response!;
+
+  // Cloze and reading passages: each blank or sub-question earns an equal share
+  const subQuestions = question.clozeBlanks ?? question.readingQuestions;
+  if (subQuestions?.length) {
+    const correct = subQuestions.filter(sub => sameLetter(answer.subAnswers?.[String(sub.number)], sub.correctAnswer)).length;
+    return partsGrade(questionId, maxScore, correct, subQuestions.length, correct / subQuestions.length);
+  }
+
+  switch (question.type) {
+    case 'true_false': {
+      const keys = question.statementAnswers ?? [];
+      const correct = keys.filter((key, index) => answer.statements?.[index] === key).length;
+      // Other statement counts have no official scheme; they earn a proportional share
+      const credit = keys.length === 4 ? TRUE_FALSE_CREDIT[correct] : keys.length ? correct / keys.length : 0;
+      return partsGrade(questionId, maxScore, correct, keys.length, credit);
+    }
+
+    case 'fill_in_blank': {
+      const accepted = question.blanks?.length ? question.blanks : question.correctAnswer ? [question.correctAnswer] : [];
+      return allOrNothing(questionId, maxScore, accepted.some(expected => answersMatch(answer.text ?? '', expected)));
+    }
+
+    case 'matching': {
+      const pairs = Object.entries(question.correctMatches ?? {});
+      const correct = pairs.filter(([left, right]) => answer.matches?.[left] === right).length;
+      return partsGrade(questionId, maxScore, correct, pairs.length, pairs.length ? correct / pairs.length : 0);
+    }
+
+    case 'ordering': {
+      // Some ordering questions are asked as "which option gives the right order"
+      if (question.options && question.correctAnswer) {
+        return allOrNothing(questionId, maxScore, sameLetter(answer.choice, question.correctAnswer));
+      }
+      const expected = question.correctOrder ?? [];
+      const given = answer.order ?? [];
+      return allOrNothing(questionId, maxScore, expected.length > 0 && given.length === expected.length && given.every((item, index) => item === expected[index]));
+    }
+
+    default:
+      return allOrNothing(questionId, maxScore, sameLetter(answer.choice, question.correctAnswer));
+  }
+}
+
+/**
+ * Totals of a set of question grades.
+ */
+export function summarizeGrades(questions: QuestionGrade[]): SubmissionGrade {
+  return {
+    score: round(questions.reduce((sum, grade) => sum + grade.score, 0)),
+    maxScore: round(questions.reduce((sum, grade) => sum + grade.maxScore, 0)),
+    pendingCount: questions.filter(grade => grade.status === 'pending').length,
+    questions,
+  };
+}
+
+/**
+ * Score every question of a test from the answers keyed by question id.
+ */
+export function gradeSubmission(questions: GeneratedQuestion[], responses: Record<string, QuestionResponse>): SubmissionGrade {
+  return summarizeGrades(questions.map(question => gradeQuestion(question, responses[question.id])));
+}
+
+/**
+ * The submission grade with one question's grade replaced (after AI or
+ * teacher grading) and the totals recomputed.
+ */
+export function withQuestionGrade(grade: SubmissionGrade, questionGrade: QuestionGrade): SubmissionGrade {
+  return summarizeGrades(grade.questions.map(existing =>
+    existing.questionId === questionGrade.questionId ? questionGrade : existing
+  ));
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, json, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, json, timestamp, integer, boolean, doublePrecision, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -12,9 +12,138 @@ export const questions = pgTable("questions", {
   questionTypes: json("question_types").$type<string[]>().notNull(),
   questionCount: integer("question_count").notNull(),
   generatedQuestions: json("generated_questions").$type<GeneratedQuestion[]>(),
+  userId: varchar("user_id"), // accounts.id of the session that generated it, null when anonymous
+  customName: text("custom_name"),
+  savedAt: timestamp("saved_at"), // set when the set is renamed from the history
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const questionBanks = pgTable("question_banks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id"), // accounts.id of the session that created it, null when anonymous
+  name: text("name").notNull(),
+  description: text("description"),
+  subject: text("subject").notNull(),
+  tags: json("tags").$type<string[]>().notNull(),
+  isTemplate: boolean("is_template").notNull().default(false),
+  // Class the bank is prepared for, if any
+  classId: varchar("class_id").references(() => classes.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  lastModified: timestamp("last_modified").notNull().defaultNow(),
+});
+
+export const questionBankEntries = pgTable("question_bank_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bankId: varchar("bank_id").notNull().references(() => questionBanks.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  subject: text("subject").notNull(),
+  difficulty: text("difficulty").notNull(),
+  topic: text("topic").notNull(),
+  requirements: text("requirements"),
+  questionTypes: json("question_types").$type<string[]>().notNull(),
+  questionCount: integer("question_count").notNull(),
+  generatedQuestions: json("generated_questions").$type<GeneratedQuestion[]>().notNull(),
+  tags: json("tags").$type<string[]>().notNull(),
+  originalId: varchar("original_id"),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+});
+
+// Server-side batch generation jobs; the columns mirror BatchGenerationRequest
+export const batchJobs = pgTable("batch_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id"),
+  name: text("name").notNull(),
+  configs: json("configs").$type<BatchGenerationConfig[]>().notNull(),
+  options: json("options").$type<BatchGenerationRequest['options']>().notNull(),
+  status: text("status").$type<BatchGenerationRequest['status']>().notNull(),
+  progress: json("progress").$type<BatchGenerationRequest['progress']>().notNull(),
+  results: json("results").$type<BatchGenerationResult[]>().notNull(),
+  errors: json("errors").$type<BatchGenerationError[]>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Model usage of one generation request, summed over its repair calls
+export const usageRecords = pgTable("usage_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id"), // accounts.id billed for the request, null when anonymous
+  requestId: varchar("request_id"),
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  cost: doublePrecision("cost").notNull().default(0), // USD as reported by the provider
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("usage_records_user_created_idx").on(table.userId, table.createdAt),
+]);
+
+// A class in one school year, e.g. 10A1 of 2025-2026
+export const classes = pgTable("classes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  grade: integer("grade").notNull(), // 1-12
+  classNumber: integer("class_number").notNull(),
+  schoolYear: text("school_year").notNull(), // "2025-2026"
+  homeroomTeacherId: varchar("homeroom_teacher_id"), // accounts.id of the teacher
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("classes_year_grade_number_idx").on(table.schoolYear, table.grade, table.classNumber),
+]);
+
+// Students of a class and the subject teachers who teach it
+export const classMembers = pgTable("class_members", {
+  classId: varchar("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
+  accountId: varchar("account_id").notNull(), // accounts.id
+  role: text("role").$type<ClassMemberRole>().notNull(),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.classId, table.accountId] }),
+  index("class_members_account_idx").on(table.accountId),
+]);
+
+// A test published to a class. The questions are copied from the bank entry
+// so later edits to the bank do not change a test students already took.
+export const assignments = pgTable("assignments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: text("title").notNull(),
+  classId: varchar("class_id").notNull().references(() => classes.id, { onDelete: "cascade" }),
+  createdBy: varchar("created_by").notNull(), // accounts.id of the teacher
+  subject: text("subject").notNull(),
+  questions: json("questions").$type<GeneratedQuestion[]>().notNull(),
+  sourceBankId: varchar("source_bank_id"),
+  sourceEntryId: varchar("source_entry_id"),
+  durationMinutes: integer("duration_minutes"), // null for no time limit
+  opensAt: timestamp("opens_at"),
+  dueAt: timestamp("due_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("assignments_class_idx").on(table.classId),
+]);
+
+// One student's attempt at an assignment, autosaved while in progress
+export const submissions = pgTable("submissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  assignmentId: varchar("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  studentId: varchar("student_id").notNull(), // accounts.id
+  responses: json("responses").$type<Record<string, QuestionResponse>>().notNull(), // keyed by question id
+  status: text("status").$type<SubmissionStatus>().notNull(),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  savedAt: timestamp("saved_at").notNull().defaultNow(),
+  submittedAt: timestamp("submitted_at"),
+  grade: json("grade").$type<SubmissionGrade>(), // set when the attempt is submitted
+  publishedAt: timestamp("published_at"), // when the student was allowed to see the grade
+}, (table) => [
+  uniqueIndex("submissions_assignment_student_idx").on(table.assignmentId, table.studentId),
+  index("submissions_student_idx").on(table.studentId),
+]);
+
+// Token buckets of the persisted rate limiter, keyed by "user:<id>" / "ip:<address>"
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: text("key").primaryKey(),
+  tokens: doublePrecision("tokens").notNull(),
+  updatedAt: timestamp("updated_at").notNull(),
+});
+
 export type GeneratedQuestion = {
   id: string;
   type: 'multiple_choice' | 'multiple_choice_reading1' | 'multiple_choice_reading2' | 'true_false' | 'essay' | 'essay_reading' | 'essay_writing' | 'fill_in_blank' | 'matching' | 'ordering';
@@ -49,22 +178,400 @@ export type GeneratedQuestion = {
   }>; // For reading comprehension: separate questions about the passage
 };
 
+export const questionTypeSchema = z.enum(["multiple_choice", "multiple_choice_reading1", "multiple_choice_reading2", "true_false", "essay", "essay_reading", "essay_writing", "fill_in_blank", "matching", "ordering"]);
+
 export const insertQuestionRequestSchema = createInsertSchema(questions).omit({
   id: true,
   createdAt: true,
   generatedQuestions: true,
+  userId: true,
+  customName: true,
+  savedAt: true,
 }).extend({
   subject: z.string().min(1, "Vui lòng chọn môn học"),
   difficulty: z.enum(["easy", "medium", "hard", "expert"]),
   topic: z.string().min(1, "Vui lòng nhập chủ đề"),
   requirements: z.string().optional(),
-  questionTypes: z.array(z.enum(["multiple_choice", "multiple_choice_reading1", "multiple_choice_reading2", "true_false", "essay", "essay_reading", "essay_writing", "fill_in_blank", "matching", "ordering"])).min(1, "Vui lòng chọn ít nhất một loại câu hỏi"),
+  questionTypes: z.array(questionTypeSchema).min(1, "Vui lòng chọn ít nhất một loại câu hỏi"),
   questionCount: z.number().min(1).max(8),
 });
 
 export type InsertQuestionRequest = z.infer<typeof insertQuestionRequestSchema>;
 export type QuestionRequest = typeof questions.$inferSelect;
 
+export type UsageRecord = typeof usageRecords.$inferSelect;
+export type InsertUsageRecord = typeof usageRecords.$inferInsert;
+
+export type ClassMemberRole = 'teacher' | 'student';
+export type SchoolClass = typeof classes.$inferSelect;
+export type ClassMember = typeof classMembers.$inferSelect;
+
+// A class as listed by GET /api/classes
+export type ClassSummary = SchoolClass & {
+  studentCount: number;
+  homeroomTeacherName: string | null;
+};
+
+// A member with the account details shown in the class roster
+export type ClassMemberProfile = ClassMember & {
+  username: string | null; // null when the account no longer exists
+  fullName: string | null;
+};
+
+export type ClassDetail = ClassSummary & {
+  members: ClassMemberProfile[];
+};
+
+export const classSchema = z.object({
+  // Defaults to "<grade>A<classNumber>"
+  name: z.string().trim().max(50, "Tên lớp quá dài").optional(),
+  grade: z.number().int().min(1, "Khối lớp từ 1 đến 12").max(12, "Khối lớp từ 1 đến 12"),
+  classNumber: z.number().int().min(1, "Số thứ tự lớp phải từ 1").max(99, "Số thứ tự lớp quá lớn"),
+  schoolYear: z.string().regex(/^\d{4}-\d{4}$/, "Năm học có dạng 2025-2026"),
+  homeroomTeacherId: z.string().nullable().optional(),
+});
+
+export type InsertClass = z.infer<typeof classSchema>;
+
+export const addClassMembersSchema = z.object({
+  usernames: z.array(z.string().trim().min(1)).min(1, "Vui lòng nhập ít nhất một tên đăng nhập").max(200, "Mỗi lần thêm tối đa 200 tài khoản"),
+  role: z.enum(['teacher', 'student']).default('student'),
+});
+
+export type SubmissionStatus = 'in_progress' | 'submitted';
+
+// A student's answer to one question; which field is used depends on the type
+export type QuestionResponse = {
+  choice?: string; // multiple_choice and ordering with options: "A"-"D"
+  text?: string; // fill_in_blank and essay types
+  statements?: (boolean | null)[]; // true_false: one verdict per statement, null when unanswered
+  matches?: Record<string, string>; // matching: {leftItem: rightItem}
+  order?: number[]; // ordering: indices of `items` in the student's order
+  subAnswers?: Record<string, string>; // cloze blanks and reading questions: {number: "A"-"D"}
+};
+
+// How one answer was scored; "pending" questions (essay types) need a teacher
+export type GradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered' | 'pending';
+
+// One line of an essay rubric, e.g. "Xác định đúng vấn đề cần nghị luận" worth 0.25
+export type RubricCriterion = {
+  id: string;
+  label: string;
+  maxScore: number;
+};
+
+export type CriterionScore = {
+  criterionId: string;
+  score: number;
+  comment: string;
+};
+
+export type QuestionGrade = {
+  questionId: string;
+  status: GradeStatus;
+  score: number;
+  maxScore: number;
+  correctParts?: number; // blanks, sub-questions, statements or pairs answered correctly
+  totalParts?: number;
+  // Essay types once graded against their rubric
+  criteria?: CriterionScore[];
+  feedback?: string;
+  gradedBy?: 'ai' | 'teacher';
+};
+
+export type SubmissionGrade = {
+  score: number; // points earned on the graded questions
+  maxScore: number; // points of the whole test, pending questions included
+  pendingCount: number;
+  questions: QuestionGrade[];
+};
+
+// Body of PUT /api/assignments/:id/students/:studentId/grades/:questionId
+export const gradeOverrideSchema = z.object({
+  score: z.number({ invalid_type_error: "Điểm phải là số" }).min(0, "Điểm không được âm"),
+  feedback: z.string().max(5000, "Nhận xét quá dài").optional(),
+});
+
+export const questionResponseSchema = z.object({
+  choice: z.string().max(10).optional(),
+  text: z.string().max(20000, "Câu trả lời quá dài").optional(),
+  statements: z.array(z.boolean().nullable()).max(20).optional(),
+  matches: z.record(z.string()).optional(),
+  order: z.array(z.number().int()).max(50).optional(),
+  subAnswers: z.record(z.string().max(10)).optional(),
+});
+
+export const saveResponsesSchema = z.object({
+  responses: z.record(questionResponseSchema),
+});
+
+export type Assignment = typeof assignments.$inferSelect;
+export type Submission = typeof submissions.$inferSelect;
+
+// Body of POST /api/assignments: publish one set of a bank to a class
+export const createAssignmentSchema = z.object({
+  title: z.string().trim().min(1, "Vui lòng nhập tên bài kiểm tra").max(200, "Tên bài kiểm tra quá dài"),
+  classId: z.string().min(1, "Vui lòng chọn lớp"),
+  bankId: z.string().min(1, "Vui lòng chọn ngân hàng"),
+  entryId: z.string().min(1, "Vui lòng chọn bộ câu hỏi"),
+  durationMinutes: z.number().int().min(1, "Thời gian làm bài tối thiểu 1 phút").max(600, "Thời gian làm bài tối đa 600 phút").nullable().optional(),
+  opensAt: z.coerce.date().nullable().optional(),
+  dueAt: z.coerce.date().nullable().optional(),
+}).refine(data => !data.opensAt || !data.dueAt || data.dueAt > data.opensAt, {
+  path: ["dueAt"],
+  message: "Hạn nộp phải sau thời điểm mở bài",
+});
+
+export type InsertAssignment = z.infer<typeof createAssignmentSchema>;
+
+// An assignment as listed for its teacher, without the questions
+export type AssignmentSummary = Omit<Assignment, "questions"> & {
+  className: string;
+  questionCount: number;
+  studentCount: number;
+  submittedCount: number;
+};
+
+// Where one student of the class is with the assignment
+export type AssignmentStudentStatus = {
+  studentId: string;
+  username: string | null;
+  fullName: string | null;
+  status: SubmissionStatus | 'not_started';
+  startedAt: Date | null;
+  submittedAt: Date | null;
+  grade: SubmissionGrade | null;
+  publishedAt: Date | null;
+};
+
+// One student's answers with their grade, for the teacher to review
+export type SubmissionReview = AssignmentStudentStatus & {
+  responses: Record<string, QuestionResponse>;
+};
+
+export type AssignmentDetail = AssignmentSummary & {
+  questions: GeneratedQuestion[];
+  students: AssignmentStudentStatus[];
+};
+
+// An assignment as listed for a student of the class
+export type StudentTest = {
+  id: string;
+  title: string;
+  subject: string;
+  className: string;
+  questionCount: number;
+  durationMinutes: number | null;
+  opensAt: Date | null;
+  dueAt: Date | null;
+  status: SubmissionStatus | 'not_started';
+  submittedAt: Date | null;
+  score: number | null; // set once the teacher publishes the results
+  maxScore: number | null;
+};
+
+// A question as sent to students: every answer key and explanation removed
+export type TestQuestion = Omit<
+  GeneratedQuestion,
+  'correctAnswer' | 'explanation' | 'blanks' | 'correctMatches' | 'correctOrder' |
+  'statementAnswers' | 'statementExplanations' | 'clozeBlanks' | 'readingQuestions'
+> & {
+  clozeBlanks?: Array<{ number: number; options: string[] }>;
+  readingQuestions?: Array<{ number: number; question: string; options: string[] }>;
+  itemOrder?: number[]; // ordering: indices of `items` as first shown, until the student moves them
+};
+
+// Returned when a student opens a test and after every save or submit
+export type TestSession = {
+  test: StudentTest;
+  questions: TestQuestion[];
+  responses: Record<string, QuestionResponse>;
+  startedAt: Date;
+  savedAt: Date;
+  deadline: Date | null; // end of the time limit or the due date, whichever comes first
+  serverTime: Date; // lets the client correct its clock for the countdown
+  result: SubmissionGrade | null; // once the teacher publishes the results
+};
+
+// Totals over a set of usage records; requests counts generation requests
+export type UsageSummary = {
+  userId: string | null;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+};
+
+// Strict per-type schemas for questions parsed from model output
+const answerLetterSchema = z.enum(["A", "B", "C", "D"], {
+  errorMap: () => ({ message: "Đáp án phải là A, B, C hoặc D" }),
+});
+const fourOptionsSchema = z
+  .array(z.string().min(1, "Phương án không được để trống"))
+  .length(4, "Cần đúng 4 phương án A-D");
+
+const clozeBlankSchema = z.object({
+  number: z.coerce.number(),
+  options: fourOptionsSchema,
+  correctAnswer: answerLetterSchema,
+});
+
+const readingQuestionSchema = z.object({
+  number: z.coerce.number(),
+  question: z.string().min(1, "Câu hỏi không được để trống"),
+  options: fourOptionsSchema,
+  correctAnswer: answerLetterSchema,
+});
+
+const baseQuestionSchema = z.object({
+  id: z.string(),
+  question: z.string().min(1, "Câu hỏi không được để trống"),
+  explanation: z.string().optional(),
+}).passthrough();
+
+const passageSchema = z.string().min(1, "Thiếu đoạn văn (passage)");
+
+const multipleChoiceQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("multiple_choice"),
+  options: fourOptionsSchema.optional(),
+  correctAnswer: answerLetterSchema.optional(),
+  passage: z.string().optional(),
+  clozeBlanks: z.array(clozeBlankSchema).min(1).optional(),
+  readingQuestions: z.array(readingQuestionSchema).min(1).optional(),
+}).superRefine((q, ctx) => {
+  // Passage-based variants (English cloze, Ngữ văn reading) carry their answers per blank/sub-question
+  if (q.clozeBlanks || q.readingQuestions) return;
+  if (!q.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["options"], message: "Cần đúng 4 phương án A-D" });
+  }
+  if (!q.correctAnswer) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctAnswer"], message: "Thiếu đáp án đúng" });
+  }
+});
+
+const clozeQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("multiple_choice_reading1"),
+  passage: passageSchema,
+  clozeBlanks: z.array(clozeBlankSchema).min(1, "Thiếu các chỗ trống của đoạn văn"),
+});
+
+const readingComprehensionQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("multiple_choice_reading2"),
+  passage: passageSchema,
+  readingQuestions: z.array(readingQuestionSchema).min(1, "Thiếu câu hỏi đọc hiểu"),
+});
+
+const trueFalseQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("true_false"),
+  statements: z.array(z.string().min(1)).min(1, "Thiếu các mệnh đề"),
+  statementAnswers: z.array(z.boolean()).min(1, "Thiếu đáp án cho các mệnh đề"),
+  statementExplanations: z.array(z.string()).optional(),
+}).superRefine((q, ctx) => {
+  if (q.statements.length !== q.statementAnswers.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["statementAnswers"],
+      message: `Số đáp án (${q.statementAnswers.length}) không khớp số mệnh đề (${q.statements.length})`,
+    });
+  }
+});
+
+const essayQuestionSchema = baseQuestionSchema.extend({
+  type: z.enum(["essay", "essay_reading", "essay_writing"]),
+});
+
+const fillInBlankQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("fill_in_blank"),
+  blanks: z.array(z.string().min(1)).min(1, "Thiếu đáp án cho chỗ trống"),
+});
+
+const matchingQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("matching"),
+  leftItems: z.array(z.string().min(1)).min(1, "Thiếu cột trái"),
+  rightItems: z.array(z.string().min(1)).min(1, "Thiếu cột phải"),
+  correctMatches: z.record(z.string()),
+}).superRefine((q, ctx) => {
+  for (const [left, right] of Object.entries(q.correctMatches)) {
+    if (!q.leftItems.includes(left)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctMatches", left], message: `"${left}" không có trong cột trái` });
+    }
+    if (!q.rightItems.includes(right)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctMatches", left], message: `"${right}" không có trong cột phải` });
+    }
+  }
+  if (Object.keys(q.correctMatches).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["correctMatches"], message: "Thiếu đáp án ghép đôi" });
+  }
+});
+
+const orderingQuestionSchema = baseQuestionSchema.extend({
+  type: z.literal("ordering"),
+  items: z.array(z.string().min(1)).min(2, "Cần ít nhất 2 mục để sắp xếp"),
+  correctOrder: z.array(z.number().int()),
+  options: fourOptionsSchema.optional(),
+  correctAnswer: answerLetterSchema.optional(),
+}).superRefine((q, ctx) => {
+  const sorted = [...q.correctOrder].sort((a, b) => a - b);
+  const isPermutation = sorted.length === q.items.length && sorted.every((value, index) => value === index);
+  if (!isPermutation) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["correctOrder"],
+      message: `correctOrder phải là hoán vị của 0..${q.items.length - 1}`,
+    });
+  }
+});
+
+export const generatedQuestionSchemas: Record<GeneratedQuestion['type'], z.ZodTypeAny> = {
+  multiple_choice: multipleChoiceQuestionSchema,
+  multiple_choice_reading1: clozeQuestionSchema,
+  multiple_choice_reading2: readingComprehensionQuestionSchema,
+  true_false: trueFalseQuestionSchema,
+  essay: essayQuestionSchema,
+  essay_reading: essayQuestionSchema,
+  essay_writing: essayQuestionSchema,
+  fill_in_blank: fillInBlankQuestionSchema,
+  matching: matchingQuestionSchema,
+  ordering: orderingQuestionSchema,
+};
+
+export type QuestionValidationIssue = {
+  path: string;
+  message: string;
+};
+
+export type QuestionValidationResult = {
+  index: number;
+  id?: string;
+  type?: string;
+  valid: boolean;
+  issues: QuestionValidationIssue[];
+};
+
+export type QuestionValidationReport = {
+  valid: boolean; // true when every parsed question passed
+  requested: number;
+  parsed: number;
+  accepted: number;
+  repairAttempts?: number; // follow-up model calls spent fixing broken questions
+  results: QuestionValidationResult[];
+  errors: string[]; // problems not tied to a single question (e.g. unparseable JSON)
+};
+
+// Response of the generate endpoints: the stored request plus what was rejected
+export type GeneratedQuestionResponse = QuestionRequest & {
+  validationReport?: QuestionValidationReport;
+};
+
+// Events pushed by POST /api/questions/generate/stream, one per SSE "data:" line
+export type QuestionStreamEvent =
+  | { type: 'prompt_sent'; requestId: string; model: string }
+  | { type: 'receiving'; characters: number } // characters of model output streamed so far
+  | { type: 'question'; index: number; question: GeneratedQuestion }
+  | { type: 'repairing'; attempt: number; pending: number } // asking the model to fix broken questions
+  | { type: 'complete'; request: QuestionRequest; validationReport: QuestionValidationReport }
+  | { type: 'error'; message: string; validationReport?: QuestionValidationReport };
+
 // History data types for localStorage
 export type QuestionHistoryEntry = {
   id: string;
@@ -93,11 +600,11 @@ export const questionHistoryEntrySchema = z.object({
   difficulty: z.enum(["easy", "medium", "hard", "expert"]),
   topic: z.string(),
   requirements: z.string().optional(),
-  questionTypes: z.array(z.enum(["multiple_choice", "true_false", "essay", "fill_in_blank", "matching", "ordering"])),
+  questionTypes: z.array(questionTypeSchema),
   questionCount: z.number(),
   generatedQuestions: z.array(z.object({
     id: z.string(),
-    type: z.enum(['multiple_choice', 'true_false', 'essay', 'fill_in_blank', 'matching', 'ordering']),
+    type: questionTypeSchema,
     question: z.string(),
     options: z.array(z.string()).optional(),
     correctAnswer: z.string().optional(),
@@ -113,11 +620,15 @@ export const questionHistoryEntrySchema = z.object({
     statements: z.array(z.string()).optional(), // For complex true_false: array of statements to evaluate
     statementAnswers: z.array(z.boolean()).optional(), // For complex true_false: true/false answers for each statement
     statementExplanations: z.array(z.string()).optional(), // For complex true_false: explanations for each statement
-  })),
+  }).passthrough()), // keep passage, clozeBlanks and readingQuestions
   createdAt: z.string(),
   savedAt: z.string().optional(),
 });
 
+export const renameHistoryEntrySchema = z.object({
+  customName: z.string().max(200, "Tên quá dài"),
+});
+
 export type QuestionHistoryExport = {
   metadata: QuestionHistoryMetadata;
   entries: QuestionHistoryEntry[];
@@ -150,6 +661,7 @@ export type QuestionBank = {
   createdAt: string; // ISO string
   lastModified: string; // ISO string
   isTemplate?: boolean;
+  classId?: string; // class the bank is prepared for
   metadata: {
     totalQuestions: number;
     totalSets: number;
@@ -171,11 +683,11 @@ export const questionBankEntrySchema = z.object({
   difficulty: z.enum(["easy", "medium", "hard", "expert"]),
   topic: z.string(),
   requirements: z.string().optional(),
-  questionTypes: z.array(z.enum(["multiple_choice", "true_false", "essay", "fill_in_blank", "matching", "ordering"])),
+  questionTypes: z.array(questionTypeSchema),
   questionCount: z.number(),
   generatedQuestions: z.array(z.object({
     id: z.string(),
-    type: z.enum(['multiple_choice', 'true_false', 'essay', 'fill_in_blank', 'matching', 'ordering']),
+    type: questionTypeSchema,
     question: z.string(),
     options: z.array(z.string()).optional(),
     correctAnswer: z.string().optional(),
@@ -190,7 +702,7 @@ export const questionBankEntrySchema = z.object({
     statements: z.array(z.string()).optional(),
     statementAnswers: z.array(z.boolean()).optional(),
     statementExplanations: z.array(z.string()).optional(),
-  })),
+  }).passthrough()), // keep passage, clozeBlanks and readingQuestions
   tags: z.array(z.string()),
   addedAt: z.string(),
   originalId: z.string().optional(),
@@ -206,6 +718,7 @@ export const questionBankSchema = z.object({
   createdAt: z.string(),
   lastModified: z.string(),
   isTemplate: z.boolean().optional(),
+  classId: z.string().optional(),
   metadata: z.object({
     totalQuestions: z.number(),
     totalSets: z.number(),
@@ -219,10 +732,36 @@ export const createBankSchema = z.object({
   description: z.string().max(500, "Mô tả quá dài").optional(),
   subject: z.string().min(1, "Vui lòng chọn môn học"),
   tags: z.array(z.string()).default([]),
+  classId: z.string().nullable().optional(),
 });
 
 export type CreateBankData = z.infer<typeof createBankSchema>;
 
+// Bodies accepted by the /api/banks routes. Client-generated ids are kept so
+// the offline cache and the server agree on them.
+export const insertBankSchema = createBankSchema.extend({
+  id: z.string().optional(),
+  createdAt: z.string().optional(),
+});
+
+export const insertBankEntrySchema = questionBankEntrySchema.extend({
+  id: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  addedAt: z.string().optional(),
+});
+
+export const updateBankEntrySchema = z.object({
+  name: z.string().min(1, "Tên bộ câu hỏi không được để trống").optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export type InsertBank = z.infer<typeof insertBankSchema>;
+export type InsertBankEntry = Omit<QuestionBankEntry, "id" | "addedAt"> & {
+  id?: string;
+  addedAt?: string;
+};
+export type UpdateBankEntry = z.infer<typeof updateBankEntrySchema>;
+
 export type QuestionBankExport = {
   metadata: QuestionBankMetadata;
   banks: QuestionBank[];
@@ -240,6 +779,80 @@ export type BankSearchFilters = {
   };
 };
 
+// Exam builder: a blueprint ("ma trận đề") lists how many questions to draw
+// for each combination of type, difficulty and topic or tag. Empty criteria
+// match any question.
+export const blueprintRowSchema = z.object({
+  id: z.string(),
+  questionType: questionTypeSchema.optional(),
+  difficulty: z.enum(["easy", "medium", "hard", "expert"]).optional(),
+  topic: z.string().optional(),
+  tag: z.string().optional(),
+  count: z.number().int().min(1, "Số câu phải lớn hơn 0").max(100, "Tối đa 100 câu mỗi dòng"),
+});
+
+export const examBlueprintSchema = z.object({
+  title: z.string().min(1, "Vui lòng nhập tên đề").max(200, "Tên quá dài"),
+  subject: z.string().min(1, "Vui lòng chọn môn học"),
+  bankIds: z.array(z.string()).min(1, "Vui lòng chọn ít nhất một ngân hàng"),
+  rows: z.array(blueprintRowSchema).min(1, "Ma trận đề cần ít nhất một dòng"),
+});
+
+export type BlueprintRow = z.infer<typeof blueprintRowSchema>;
+export type ExamBlueprint = z.infer<typeof examBlueprintSchema>;
+
+export type BlueprintShortfall = {
+  rowId: string;
+  requested: number;
+  drawn: number;
+};
+
+export type AssembledExam = {
+  exam: QuestionRequest; // renumbered so the PDF and text exporters print it as one test
+  shortfalls: BlueprintShortfall[];
+  sources: { questionId: string; bankId: string; entryId: string }[];
+};
+
+// Exam import: a question detected in an uploaded DOCX/PDF exam, reviewed by
+// the teacher before it is saved to a bank
+export type ImportedQuestion = {
+  number: number; // the "Câu N" it was numbered with in the file
+  source: string; // its text as extracted, sent to the AI when the detection needs help
+  question: GeneratedQuestion;
+  issues: string[]; // why the detection may be wrong
+};
+
+export const structureImportSchema = z.object({
+  subject: z.string().min(1, "Vui lòng chọn môn học"),
+  blocks: z.array(z.object({
+    number: z.number().int(),
+    source: z.string().trim().min(1, "Nội dung câu hỏi trống").max(6000, "Câu hỏi quá dài"),
+  })).min(1, "Chưa chọn câu hỏi nào").max(40, "Mỗi lần xử lý tối đa 40 câu"),
+});
+
+export type StructureImportRequest = z.infer<typeof structureImportSchema>;
+
+// Body of POST /api/export/pdf: the exam as shown and the print options
+export const exportPdfSchema = z.object({
+  exam: questionHistoryEntrySchema.pick({ subject: true, topic: true }).extend({
+    difficulty: z.string(), // blueprint exams are "mixed"
+    generatedQuestions: questionHistoryEntrySchema.shape.generatedQuestions.min(1, "Không có câu hỏi để xuất PDF"),
+  }).passthrough(),
+  options: z.object({
+    includeAnswers: z.boolean().optional(),
+    includeExplanations: z.boolean().optional(),
+    paperSize: z.enum(["A4", "Letter"]).optional(),
+    orientation: z.enum(["portrait", "landscape"]).optional(),
+    versions: z.object({
+      count: z.number().int().min(1), // createExamVersions caps the count
+      seed: z.number(),
+      firstCode: z.number().int().optional(),
+    }).optional(),
+  }).default({}),
+});
+
+export type ExportPdfRequest = z.infer<typeof exportPdfSchema>;
+
 // Batch Generation Types
 export type BatchGenerationConfig = {
   id: string;
@@ -248,7 +861,7 @@ export type BatchGenerationConfig = {
   difficulty: 'easy' | 'medium' | 'hard' | 'expert';
   topic: string;
   requirements?: string;
-  questionTypes: ('multiple_choice' | 'true_false' | 'essay' | 'fill_in_blank' | 'matching' | 'ordering')[];
+  questionTypes: GeneratedQuestion['type'][];
   questionCount: number;
 };
 
@@ -309,7 +922,7 @@ export const batchGenerationConfigSchema = z.object({
   difficulty: z.enum(["easy", "medium", "hard", "expert"]),
   topic: z.string().min(1, "Vui lòng nhập chủ đề"),
   requirements: z.string().optional(),
-  questionTypes: z.array(z.enum(["multiple_choice", "true_false", "essay", "fill_in_blank", "matching", "ordering"])).min(1, "Vui lòng chọn ít nhất một loại câu hỏi"),
+  questionTypes: z.array(questionTypeSchema).min(1, "Vui lòng chọn ít nhất một loại câu hỏi"),
   questionCount: z.number().min(1).max(8),
 });
 
@@ -359,6 +972,15 @@ export const batchTemplateSchema = z.object({
   isBuiltIn: z.boolean().default(false),
 });
 
+// Body of POST /api/batches; the server fills in id, status and progress
+export const createBatchSchema = z.object({
+  name: z.string().min(1, "Tên batch không được để trống"),
+  configs: z.array(batchGenerationConfigSchema).min(1, "Cần ít nhất một cấu hình"),
+  options: batchGenerationRequestSchema.shape.options,
+});
+
+export type CreateBatchData = z.infer<typeof createBatchSchema>;
+
 export type BatchGenerationOptions = {
   autoSaveToBank?: string;
   commonTags?: string[];
@@ -366,3 +988,78 @@ export type BatchGenerationOptions = {
   randomizeTopics?: boolean;
   exportAsPackage?: boolean;
 };
+
+// Roles of the `accounts` table
+export type AccountRole = 'admin' | 'teacher' | 'student';
+
+// Roles admins create and edit through /api/admin/students
+export const managedRoles = ['teacher', 'student'] as const;
+
+export const permissions = [
+  'questions:generate', // generate questions and run batches
+  'banks:manage', // the account's own question banks
+  'history:manage', // the account's own generation history
+  'tests:assign', // assign tests to the account's classes and see their results
+  'tests:take', // take tests assigned to the account and see their published results
+  'classes:view', // classes the account teaches (every class for admins)
+  'classes:manage', // create, edit and delete classes
+  'accounts:manage', // create, edit and delete accounts
+  'usage:view', // usage reports of every account
+] as const;
+
+export type Permission = typeof permissions[number];
+
+export const rolePermissions: Record<AccountRole, readonly Permission[]> = {
+  admin: permissions,
+  teacher: ['questions:generate', 'banks:manage', 'history:manage', 'tests:assign', 'classes:view'],
+  student: ['tests:take'],
+};
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return !!role && (rolePermissions[role as AccountRole]?.includes(permission) ?? false);
+}
+
+// Profile returned by /api/auth/login and /api/auth/session
+export type SessionUser = {
+  id: string;
+  username: string;
+  fullName: string;
+  role: AccountRole;
+  hasApiKey: boolean; // the account generates with its own model API key
+  createdAt: string | null;
+};
+
+// Teacher or student row returned by /api/admin/students
+export type StudentAccount = {
+  id: string;
+  username: string;
+  fullName: string;
+  role: typeof managedRoles[number];
+  isActive: boolean;
+  hasApiKey: boolean;
+  apiKeyHint: string | null; // last characters of the key, never the key itself
+  dailyRequestLimit: number | null; // null: server default, 0: unlimited
+  dailyTokenLimit: number | null;
+  createdAt: string | null;
+};
+
+// One roster row after POST /api/admin/students/import
+export type StudentImportRow = {
+  row: number; // 1-based line in the uploaded sheet
+  fullName: string;
+  username: string;
+  status: 'ready' | 'created' | 'error';
+  // Only after the accounts were created; shown once so the admin can hand it out
+  password?: string;
+  generatedUsername: boolean;
+  generatedPassword: boolean;
+  message?: string;
+};
+
+export type StudentImportResult = {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  failed: number;
+  rows: StudentImportRow[];
+};
@@ -0,0 +1,14 @@
+/*
+  # Daily usage quotas per account
+
+  1. Changes
+    - `accounts.daily_request_limit` (integer, nullable) - Số lượt tạo câu hỏi tối đa mỗi ngày
+    - `accounts.daily_token_limit` (integer, nullable) - Số token tối đa mỗi ngày
+
+  2. Notes
+    - NULL falls back to the server defaults (DAILY_REQUEST_LIMIT / DAILY_TOKEN_LIMIT)
+    - 0 means unlimited
+*/
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS daily_request_limit integer CHECK (daily_request_limit >= 0);
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS daily_token_limit integer CHECK (daily_token_limit >= 0);
@@ -0,0 +1,14 @@
+/*
+  # Teacher role
+
+  1. Changes
+    - `accounts.role` now also allows 'teacher'
+
+  2. Notes
+    - Teachers generate questions, manage their banks and assign tests to their classes
+    - Students only take assigned tests and see their results
+    - Permissions per role are enforced by the server (`rolePermissions` in shared/schema.ts)
+*/
+
+ALTER TABLE accounts DROP CONSTRAINT IF EXISTS accounts_role_check;
+ALTER TABLE accounts ADD CONSTRAINT accounts_role_check CHECK (role IN ('admin', 'teacher', 'student'));